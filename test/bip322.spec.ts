@@ -0,0 +1,343 @@
+import * as assert from 'assert';
+import * as ecc from 'tiny-secp256k1';
+import ECPairFactory from 'ecpair';
+import { before, describe, it } from 'mocha';
+import * as tools from 'uint8array-tools';
+import {
+  bip322,
+  crypto,
+  initEccLib,
+  payments,
+  script as bscript,
+  toXOnly,
+  Transaction,
+} from 'bitcoinjs-lib';
+
+const ECPair = ECPairFactory(ecc);
+
+const validator = (
+  pubkey: Uint8Array,
+  msghash: Uint8Array,
+  signature: Uint8Array,
+): boolean =>
+  pubkey.length === 32
+    ? ecc.verifySchnorr(msghash, pubkey, signature)
+    : ecc.verify(msghash, pubkey, signature);
+
+// test vectors from BIP322
+const keyPair = ECPair.fromWIF(
+  'L3VFeEujGtevx9w18HD1fhRbCH67Az2dpCymeRE1SoPK6XQtaN2k',
+);
+const other = ECPair.fromPrivateKey(new Uint8Array(32).fill(1));
+const P2WPKH_ADDRESS = 'bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l';
+const P2TR_ADDRESS =
+  'bc1ppv609nr0vr25u07u95waq5lucwfm6tde4nydujnu8npg4q75mr5sxq8lt3';
+
+describe('bip322', () => {
+  before(() => {
+    initEccLib(ecc);
+  });
+
+  describe('virtual transactions', () => {
+    const output = payments.p2wpkh({ address: P2WPKH_ADDRESS }).output!;
+
+    [
+      {
+        message: '',
+        hash: 'c90c269c4f8fcbe6880f72a721ddfbf1914268a794cbb21cfafee13770ae19f1',
+        toSpend:
+          'c5680aa69bb8d860bf82d4e9cd3504b55dde018de765a91bb566283c545a99a7',
+        toSign:
+          '1e9654e951a5ba44c8604c4de6c67fd78a27e81dcadcfe1edf638ba3aaebaed6',
+      },
+      {
+        message: 'Hello World',
+        hash: 'f0eb03b1a75ac6d9847f55c624a99169b5dccba2a31f5b23bea77ba270de0a7a',
+        toSpend:
+          'b79d196740ad5217771c1098fc4a4b51e0535c32236c71f1ea4d61a2d603352b',
+        toSign:
+          '88737ae86f2077145f93cc4b153ae9a1cb8d56afa511988c149c5c8c9d93bddf',
+      },
+    ].forEach(f => {
+      it(`builds the transactions for "${f.message}"`, () => {
+        assert.strictEqual(tools.toHex(bip322.hashMessage(f.message)), f.hash);
+        assert.strictEqual(
+          bip322.toSpend(f.message, output).getId(),
+          f.toSpend,
+        );
+
+        const psbt = bip322.toSign(f.message, output);
+        assert.strictEqual(psbt.version, 0);
+        assert.strictEqual(psbt.locktime, 0);
+        assert.strictEqual(psbt.txInputs[0].sequence, 0);
+        assert.strictEqual(
+          tools.toHex(psbt.txOutputs[0].script),
+          tools.toHex(Uint8Array.of(bscript.OPS.OP_RETURN)),
+        );
+        assert.strictEqual(
+          Transaction.fromBuffer(
+            (psbt.data.globalMap.unsignedTx as any).toBuffer(),
+          ).getId(),
+          f.toSign,
+        );
+      });
+    });
+  });
+
+  describe('verify', () => {
+    [
+      {
+        address: P2WPKH_ADDRESS,
+        message: '',
+        signature:
+          'AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+      },
+      {
+        address: P2WPKH_ADDRESS,
+        message: 'Hello World',
+        signature:
+          'AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+      },
+      {
+        address: P2TR_ADDRESS,
+        message: 'Hello World',
+        signature:
+          'AUHd69PrJQEv+oKTfZ8l+WROBHuy9HKrbFCJu7U1iK2iiEy1vMU5EfMtjc+VSHM7aU0SDbak5IUZRVno2P5mjSafAQ==',
+      },
+    ].forEach(f => {
+      it(`verifies the BIP322 vector for ${f.address} "${f.message}"`, () => {
+        assert.ok(bip322.verify(f.message, f.address, f.signature, validator));
+        assert.strictEqual(
+          bip322.verify('wrong', f.address, f.signature, validator),
+          false,
+        );
+      });
+    });
+  });
+
+  describe('sign', () => {
+    const pubkey = keyPair.publicKey;
+
+    it('signs P2WPKH addresses', () => {
+      const signature = bip322.sign('Hello World', keyPair, P2WPKH_ADDRESS);
+      assert.ok(
+        bip322.verify('Hello World', P2WPKH_ADDRESS, signature, validator),
+      );
+      assert.ok(
+        bip322.verify(
+          'Hello World',
+          P2WPKH_ADDRESS,
+          tools.toBase64(signature),
+          validator,
+        ),
+      );
+    });
+
+    it('signs P2SH-P2WPKH addresses in both formats', () => {
+      const { address } = payments.p2sh({
+        redeem: payments.p2wpkh({ pubkey }),
+      });
+      ['simple' as const, 'full' as const].forEach(format => {
+        const signature = bip322.sign('msg', keyPair, address!, { format });
+        assert.ok(bip322.verify('msg', address!, signature, validator));
+        assert.strictEqual(
+          bip322.verify('other', address!, signature, validator),
+          false,
+        );
+        assert.throws(() => {
+          bip322.verify('msg', address!, signature.slice(0, -1), validator);
+        });
+      });
+    });
+
+    it('signs P2TR key path spends with the tweaked key', () => {
+      const internalKey = toXOnly(pubkey);
+      const { address } = payments.p2tr({ internalPubkey: internalKey });
+      const tweaked = keyPair.tweak(crypto.taggedHash('TapTweak', internalKey));
+      const signature = bip322.sign('Hello World', tweaked, address!, {
+        inputData: { tapInternalKey: internalKey },
+      });
+      assert.strictEqual(signature.length, 66);
+      assert.strictEqual(address, P2TR_ADDRESS);
+      assert.ok(bip322.verify('Hello World', address!, signature, validator));
+      assert.strictEqual(
+        bip322.verify('Hello', address!, signature, validator),
+        false,
+      );
+    });
+
+    it('signs P2PKH addresses with the full format only', () => {
+      const { address } = payments.p2pkh({ pubkey });
+      assert.throws(() => {
+        bip322.sign('msg', keyPair, address!);
+      }, /Simple signatures require a segwit input, use the full format/);
+
+      const signature = bip322.sign('msg', keyPair, address!, {
+        format: 'full',
+      });
+      assert.ok(bip322.verify('msg', address!, signature, validator));
+
+      assert.strictEqual(
+        bip322.verify('other', address!, signature, validator),
+        false,
+      );
+    });
+  });
+
+  describe('multisig through Psbt', () => {
+    const redeem = payments.p2ms({
+      m: 2,
+      pubkeys: [keyPair.publicKey, other.publicKey],
+    });
+
+    [
+      {
+        description: 'P2WSH',
+        payment: payments.p2wsh({ redeem }),
+        inputData: { witnessScript: redeem.output },
+        format: 'simple' as const,
+      },
+      {
+        description: 'P2SH-P2WSH',
+        payment: payments.p2sh({ redeem: payments.p2wsh({ redeem }) }),
+        inputData: {
+          redeemScript: payments.p2wsh({ redeem }).output,
+          witnessScript: redeem.output,
+        },
+        format: 'simple' as const,
+      },
+      {
+        description: 'P2SH',
+        payment: payments.p2sh({ redeem }),
+        inputData: { redeemScript: redeem.output },
+        format: 'full' as const,
+      },
+    ].forEach(f => {
+      it(`signs and verifies ${f.description} 2-of-2 multisig`, () => {
+        const psbt = bip322.toSign('msg', f.payment.output!, f.inputData);
+        psbt.signInput(0, keyPair).signInput(0, other).finalizeAllInputs();
+        const signature = bip322.extractSignature(psbt, f.format);
+        assert.ok(
+          bip322.verify('msg', f.payment.address!, signature, validator),
+        );
+        assert.strictEqual(
+          bip322.verify('other', f.payment.address!, signature, validator),
+          false,
+        );
+      });
+    });
+
+    it('rejects signatures in the wrong key order', () => {
+      const payment = payments.p2wsh({ redeem });
+      const psbt = bip322.toSign('msg', payment.output!, {
+        witnessScript: redeem.output,
+      });
+      psbt.signInput(0, keyPair).signInput(0, other).finalizeAllInputs();
+      const tx = psbt.extractTransaction(true);
+      const [dummy, sig1, sig2, script] = tx.ins[0].witness;
+      tx.ins[0].witness = [dummy, sig2, sig1, script];
+      assert.strictEqual(
+        bip322.verify('msg', payment.address!, tx.toBuffer(), validator),
+        false,
+      );
+    });
+  });
+
+  describe('invalid signatures', () => {
+    const signFull = (): Transaction =>
+      Transaction.fromBuffer(
+        bip322.sign('msg', keyPair, P2WPKH_ADDRESS, { format: 'full' }),
+      );
+
+    it('rejects to_sign transactions with other outputs or inputs', () => {
+      const tx = signFull();
+      assert.ok(bip322.verify('msg', P2WPKH_ADDRESS, tx.toBuffer(), validator));
+
+      const extraOutput = signFull();
+      extraOutput.addOutput(Uint8Array.of(bscript.OPS.OP_RETURN), 0n);
+      assert.strictEqual(
+        bip322.verify('msg', P2WPKH_ADDRESS, extraOutput.toBuffer(), validator),
+        false,
+      );
+
+      const otherPrevout = signFull();
+      otherPrevout.ins[0].index = 1;
+      assert.strictEqual(
+        bip322.verify(
+          'msg',
+          P2WPKH_ADDRESS,
+          otherPrevout.toBuffer(),
+          validator,
+        ),
+        false,
+      );
+
+      const withScriptSig = signFull();
+      withScriptSig.ins[0].script = Uint8Array.of(bscript.OPS.OP_TRUE);
+      assert.strictEqual(
+        bip322.verify(
+          'msg',
+          P2WPKH_ADDRESS,
+          withScriptSig.toBuffer(),
+          validator,
+        ),
+        false,
+      );
+    });
+
+    it('rejects malformed taproot witnesses', () => {
+      [
+        tools.concat([
+          Uint8Array.of(2, 64),
+          new Uint8Array(64),
+          Uint8Array.of(1, 0),
+        ]),
+        Uint8Array.of(1, 3, 1, 2, 3),
+      ].forEach(signature => {
+        assert.strictEqual(
+          bip322.verify('Hello World', P2TR_ADDRESS, signature, validator),
+          false,
+        );
+      });
+    });
+
+    it('rejects undecodable signatures', () => {
+      const witness = tools.concat([
+        Uint8Array.of(2, 3, 1, 2, 3, 33),
+        keyPair.publicKey,
+      ]);
+      assert.strictEqual(
+        bip322.verify('msg', P2WPKH_ADDRESS, witness, validator),
+        false,
+      );
+    });
+
+    it('verifies P2SH-P2PK signatures', () => {
+      const payment = payments.p2sh({
+        redeem: payments.p2pk({ pubkey: keyPair.publicKey }),
+      });
+      const psbt = bip322.toSign('msg', payment.output!, {
+        redeemScript: payment.redeem!.output,
+      });
+      psbt.signInput(0, keyPair).finalizeAllInputs();
+      const signature = bip322.extractSignature(psbt, 'full');
+      assert.ok(bip322.verify('msg', payment.address!, signature, validator));
+
+      const tx = Transaction.fromBuffer(signature);
+      tx.ins[0].witness = [new Uint8Array(1)];
+      assert.strictEqual(
+        bip322.verify('msg', payment.address!, tx.toBuffer(), validator),
+        false,
+      );
+    });
+
+    it('throws on unsupported scripts', () => {
+      const redeem = { output: Uint8Array.of(bscript.OPS.OP_TRUE) };
+      const { address } = payments.p2wsh({ redeem });
+      const witness = tools.concat([Uint8Array.of(1, 1), redeem.output]);
+      assert.throws(() => {
+        bip322.verify('msg', address!, witness, validator);
+      }, /Unsupported script: OP_1/);
+    });
+  });
+});
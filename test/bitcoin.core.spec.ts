@@ -1,18 +1,72 @@
 import * as assert from 'assert';
 import base58 from 'bs58';
-import { describe, it } from 'mocha';
+import * as ecc from 'tiny-secp256k1';
+import { before, describe, it } from 'mocha';
 import * as bitcoin from 'bitcoinjs-lib';
 import base58EncodeDecode from './fixtures/core/base58_encode_decode.json';
 import base58KeysInvalid from './fixtures/core/base58_keys_invalid.json';
 import base58KeysValid from './fixtures/core/base58_keys_valid.json';
 import blocksValid from './fixtures/core/blocks.json';
+import scriptTests from './fixtures/core/script_tests.json';
 import sigCanonical from './fixtures/core/sig_canonical.json';
 import sigNoncanonical from './fixtures/core/sig_noncanonical.json';
 import sigHash from './fixtures/core/sighash.json';
 import txValid from './fixtures/core/tx_valid.json';
 import * as tools from 'uint8array-tools';
 
+// serializes a script number of up to 8 bytes, as CScriptNum does
+function encodeScriptNumber(n: bigint): Uint8Array {
+  const bytes: number[] = [];
+  let value = n < 0n ? -n : n;
+  while (value > 0n) {
+    bytes.push(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  if (bytes[bytes.length - 1] & 0x80) bytes.push(n < 0n ? 0x80 : 0);
+  else if (n < 0n) bytes[bytes.length - 1] |= 0x80;
+  return Uint8Array.from(bytes);
+}
+
+// parses the script format of the Bitcoin Core test vectors
+function fromCoreASM(asm: string): Uint8Array {
+  const OPS: any = bitcoin.opcodes;
+  return tools.concat(
+    asm
+      .split(/\s+/)
+      .filter(word => word !== '')
+      .map(word => {
+        if (/^-?\d+$/.test(word)) {
+          const n = BigInt(word);
+          if (n === 0n) return Uint8Array.of(OPS.OP_0);
+          if (n === -1n || (n >= 1n && n <= 16n))
+            return Uint8Array.of(OPS.OP_1 + Number(n) - 1);
+          return bitcoin.script.compile([encodeScriptNumber(n)]);
+        }
+        if (word.startsWith('0x')) return tools.fromHex(word.slice(2));
+        if (word.startsWith("'"))
+          return bitcoin.script.compile([tools.fromUtf8(word.slice(1, -1))]);
+        const opcode = word in OPS ? OPS[word] : OPS['OP_' + word];
+        if (opcode === undefined) throw new Error('Unknown opcode ' + word);
+        return Uint8Array.of(opcode);
+      }),
+  );
+}
+
+function toFlags(names: string): number {
+  return names
+    .split(',')
+    .filter(name => name !== '')
+    .reduce(
+      (flags, name) => flags | (bitcoin.interpreter.FLAGS as any)[name],
+      0,
+    );
+}
+
 describe('Bitcoin-core', () => {
+  before(() => {
+    bitcoin.initEccLib(ecc);
+  });
+
   // base58EncodeDecode
   describe('base58', () => {
     base58EncodeDecode.forEach(f => {
@@ -221,4 +275,102 @@ describe('Bitcoin-core', () => {
       });
     });
   });
+
+  // scriptTests
+  describe('interpreter.verifyScript', () => {
+    // script_tests.json predates Bitcoin Core 0.21, which fails witness
+    // scripts leaving more than one stack element with CLEANSTACK instead
+    // of EVAL_FALSE
+    const CLEANSTACK_EXCEPTIONS = [
+      'c7eaf06d5ae01a58e376e126eb1e6fab2036076922b96b2711ffbec1e590665d',
+      'f913eacf2e38a5d6fc3a8311d72ae704cb83866350a984dd3e5eb76d2a8c28e8',
+    ];
+
+    scriptTests.forEach((f: any[]) => {
+      // Objects that are only a single string are ignored
+      if (f.length === 1) return;
+
+      let witness: Uint8Array[] = [];
+      let amount = 0n;
+      if (Array.isArray(f[0])) {
+        const items = f[0] as any[];
+        amount = BigInt(Math.round(items[items.length - 1] * 1e8));
+        witness = items.slice(0, -1).map(hex => tools.fromHex(hex));
+        f = f.slice(1);
+      }
+      const [sigASM, pubKeyASM, flags, vectorExpected, comment] = f;
+      const expected =
+        vectorExpected === 'EVAL_FALSE' &&
+        CLEANSTACK_EXCEPTIONS.some(program =>
+          `${sigASM} ${pubKeyASM}`.includes(program),
+        )
+          ? 'CLEANSTACK'
+          : vectorExpected;
+
+      it(`${expected === 'OK' ? 'accepts' : 'rejects'} ${comment || pubKeyASM} (${flags})`, () => {
+        const scriptSig = fromCoreASM(sigASM);
+        const scriptPubKey = fromCoreASM(pubKeyASM);
+
+        // the crediting and spending transactions of the test vectors
+        const credit = new bitcoin.Transaction();
+        credit.addInput(
+          new Uint8Array(32),
+          0xffffffff,
+          0xffffffff,
+          Uint8Array.of(0, 0),
+        );
+        credit.addOutput(scriptPubKey, amount);
+        const spend = new bitcoin.Transaction();
+        spend.addInput(credit.getHash(), 0, 0xffffffff, scriptSig);
+        spend.setWitness(0, witness);
+        spend.addOutput(new Uint8Array(0), amount);
+
+        const result = bitcoin.interpreter.verifyInput(
+          spend,
+          0,
+          [{ script: scriptPubKey, value: amount }],
+          toFlags(flags),
+        );
+        assert.strictEqual(result.success ? 'OK' : result.error, expected);
+      });
+    });
+  });
+
+  // txValid
+  describe('interpreter.verifyInput', () => {
+    txValid.forEach((f: any[]) => {
+      // Objects that are only a single string are ignored
+      if (f.length === 1) return;
+
+      const [inputs, fhex, flags] = f;
+
+      it(`verifies ${fhex.slice(0, 40)}... (${flags})`, () => {
+        const transaction = bitcoin.Transaction.fromHex(fhex);
+        const prevOutputs = transaction.ins.map(txIn => {
+          const input = inputs.find(
+            ([hash, index]: [string, number]) =>
+              // reverse because test data is reversed
+              tools.compare(tools.fromHex(hash).reverse(), txIn.hash) === 0 &&
+              index >>> 0 === txIn.index,
+          );
+          return {
+            script: fromCoreASM(input[2]),
+            value: BigInt(input[3] || 0),
+          };
+        });
+
+        transaction.ins.forEach((_, i) => {
+          assert.deepStrictEqual(
+            bitcoin.interpreter.verifyInput(
+              transaction,
+              i,
+              prevOutputs,
+              toFlags(flags),
+            ),
+            { success: true },
+          );
+        });
+      });
+    });
+  });
 });
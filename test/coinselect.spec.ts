@@ -0,0 +1,277 @@
+import * as assert from 'assert';
+import * as ecc from 'tiny-secp256k1';
+import ECPairFactory from 'ecpair';
+import { before, describe, it } from 'mocha';
+import {
+  coinselect,
+  CoinSelectResult,
+  CoinSelectUtxo,
+  crypto,
+  initEccLib,
+  payments,
+  Psbt,
+  toXOnly,
+  Transaction,
+} from 'bitcoinjs-lib';
+
+const ECPair = ECPairFactory(ecc);
+
+const keyPair = ECPair.fromPrivateKey(new Uint8Array(32).fill(1));
+const keys = [1, 2, 3].map(i =>
+  ECPair.fromPrivateKey(new Uint8Array(32).fill(i)),
+);
+const p2wpkh = payments.p2wpkh({ pubkey: keyPair.publicKey });
+const change = payments.p2wpkh({
+  pubkey: ECPair.fromPrivateKey(new Uint8Array(32).fill(9)).publicKey,
+});
+const outputs = [{ script: p2wpkh.output!, value: 50000n }];
+// a signed p2wpkh input is 272 weight units, 68 vbytes
+const P2WPKH_INPUT_FEE = 68n;
+// version, locktime, counts and the 50000 sat output: 166 weight units
+const TARGET = 50000n + 42n;
+const CHANGE_OUTPUT_FEE = 31n;
+
+function utxo(value: bigint, index = 0): CoinSelectUtxo {
+  return {
+    hash: new Uint8Array(32).fill(index),
+    index,
+    value,
+    payment: p2wpkh,
+  };
+}
+
+describe('coinselect', () => {
+  before(() => {
+    initEccLib(ecc);
+  });
+
+  describe('select', () => {
+    it('finds changeless solutions with branch and bound', () => {
+      const utxos = [
+        utxo(30000n + P2WPKH_INPUT_FEE, 0),
+        utxo(100000n, 1),
+        utxo(TARGET - 30000n + P2WPKH_INPUT_FEE, 2),
+      ];
+      const result = coinselect.select({
+        utxos,
+        outputs,
+        feeRate: 1,
+        change,
+      });
+      assert.strictEqual(result.algorithm, 'bnb');
+      assert.deepStrictEqual(result.utxos, [utxos[0], utxos[2]]);
+      assert.strictEqual(result.change, 0n);
+      assert.strictEqual(result.fee, 42n + 2n * P2WPKH_INPUT_FEE);
+      assert.strictEqual(result.vsize, Math.ceil((166 + 2 * 272) / 4));
+      // both inputs are 612 sats cheaper than at the long term fee rate
+      assert.strictEqual(result.waste, -1224n);
+      assert.strictEqual(result.psbt.txInputs.length, 2);
+      assert.strictEqual(result.psbt.txOutputs.length, 1);
+    });
+
+    it('adds change when it is not dust', () => {
+      const result = coinselect.select({
+        utxos: [utxo(100000n)],
+        outputs,
+        feeRate: 1,
+        change,
+        algorithm: 'largestFirst',
+      });
+      const changeValue =
+        100000n - P2WPKH_INPUT_FEE - TARGET - CHANGE_OUTPUT_FEE;
+      assert.strictEqual(result.change, changeValue);
+      assert.strictEqual(result.fee, 100000n - 50000n - changeValue);
+      assert.strictEqual(result.vsize, Math.ceil((166 + 272 + 124) / 4));
+      assert.deepStrictEqual(result.psbt.txOutputs[1].script, change.output);
+      assert.strictEqual(result.psbt.txOutputs[1].value, changeValue);
+    });
+
+    it('gives dust change to the fees', () => {
+      // 293 sats is below the 294 sats dust threshold of p2wpkh outputs
+      const value = TARGET + P2WPKH_INPUT_FEE + CHANGE_OUTPUT_FEE + 293n;
+      const result = coinselect.select({
+        utxos: [utxo(value)],
+        outputs,
+        feeRate: 1,
+        change,
+        algorithm: 'largestFirst',
+      });
+      assert.strictEqual(result.change, 0n);
+      assert.strictEqual(result.fee, value - 50000n);
+      assert.strictEqual(result.psbt.txOutputs.length, 1);
+
+      const withChange = coinselect.select({
+        utxos: [utxo(value + 1n)],
+        outputs,
+        feeRate: 1,
+        change,
+        algorithm: 'largestFirst',
+      });
+      assert.strictEqual(withChange.change, 294n);
+    });
+
+    it('selects with change using knapsack and single random draw', () => {
+      const utxos = [10000n, 20000n, 30000n, 40000n, 50000n].map((value, i) =>
+        utxo(value, i),
+      );
+      let seed = 1;
+      const random = (): number => {
+        seed = (seed * 16807) % 2147483647;
+        return (seed - 1) / 2147483646;
+      };
+      (['knapsack', 'srd'] as const).forEach(algorithm => {
+        const result = coinselect.select({
+          utxos,
+          outputs,
+          feeRate: 2,
+          change,
+          algorithm,
+          random,
+        });
+        assert.strictEqual(result.algorithm, algorithm);
+        assert.ok(result.change > 0n);
+        assert.ok(result.fee >= BigInt(result.vsize * 2));
+        const inputs = result.utxos.reduce((sum, u) => sum + u.value, 0n);
+        assert.strictEqual(inputs, 50000n + result.change + result.fee);
+      });
+    });
+
+    it('ignores UTXOs worth less than their input fee', () => {
+      assert.throws(() => {
+        coinselect.select({
+          utxos: [utxo(100000n, 0), utxo(300n, 1)],
+          outputs: [{ script: p2wpkh.output!, value: 100000n }],
+          feeRate: 5,
+          change,
+          algorithm: 'largestFirst',
+        });
+      }, /Insufficient funds/);
+      assert.throws(() => {
+        coinselect.select({ utxos: [], outputs, feeRate: 1, change });
+      }, /Insufficient funds/);
+    });
+
+    it('throws for payments it can not size', () => {
+      assert.throws(() => {
+        coinselect.select({
+          utxos: [
+            { ...utxo(100000n), payment: payments.p2sh({ hash: p2wpkh.hash }) },
+          ],
+          outputs,
+          feeRate: 1,
+          change,
+        });
+      }, /Can not estimate the input size of p2sh/);
+      assert.throws(() => {
+        coinselect.select({
+          utxos: [utxo(100000n)],
+          outputs,
+          feeRate: 1,
+          change: { name: 'p2wpkh' },
+        });
+      }, /Change payment has no output/);
+    });
+
+    it('sizes the selection rather than the whole pool', () => {
+      const p2pkh = payments.p2pkh({ pubkey: keyPair.publicKey });
+      const prevTx = new Transaction();
+      prevTx.addInput(new Uint8Array(32), 0);
+      prevTx.addOutput(p2pkh.output!, 100000n);
+      const legacy: CoinSelectUtxo = {
+        hash: prevTx.getHash(),
+        index: 0,
+        value: 100000n,
+        payment: p2pkh,
+        input: { nonWitnessUtxo: prevTx.toBuffer() },
+      };
+      const select = (utxos: CoinSelectUtxo[]): CoinSelectResult =>
+        coinselect.select({
+          utxos,
+          outputs,
+          feeRate: 1,
+          change,
+          algorithm: 'largestFirst',
+        });
+
+      // a legacy transaction has neither the segwit marker and flag nor
+      // empty witnesses, whatever else the pool holds
+      const result = select([legacy, utxo(60000n, 1)]);
+      assert.deepStrictEqual(result.utxos, [legacy]);
+      assert.strictEqual(result.vsize, (40 + 592 + 2 * 124) / 4);
+      assert.strictEqual(result.fee, 220n);
+      assert.strictEqual(result.vsize, select([legacy]).vsize);
+      const tx = result.psbt
+        .signAllInputs(keyPair)
+        .finalizeAllInputs()
+        .extractTransaction();
+      assert.ok(!tx.hasWitnesses());
+      assert.ok(tx.virtualSize() <= result.vsize);
+
+      // mixed selections pay for both
+      const mixed = select([{ ...legacy, value: 30000n }, utxo(30000n, 1)]);
+      assert.strictEqual(mixed.utxos.length, 2);
+      assert.strictEqual(
+        mixed.vsize,
+        Math.ceil((42 + 593 + 272 + 2 * 124) / 4),
+      );
+    });
+
+    it('builds Psbts that sign within the estimated size', () => {
+      const p2sh = payments.p2sh({ redeem: p2wpkh });
+      const p2ms = payments.p2ms({
+        m: 2,
+        pubkeys: keys.map(k => k.publicKey),
+      });
+      const p2wsh = payments.p2wsh({ redeem: p2ms });
+      const p2shP2wsh = payments.p2sh({ redeem: p2wsh });
+      const p2pkh = payments.p2pkh({ pubkey: keyPair.publicKey });
+      const internalPubkey = toXOnly(keyPair.publicKey);
+      const p2tr = payments.p2tr({ internalPubkey });
+      const spent = [p2wpkh, p2sh, p2wsh, p2shP2wsh, p2pkh, p2tr];
+
+      const prevTx = new Transaction();
+      prevTx.addInput(new Uint8Array(32), 0);
+      spent.forEach(payment => prevTx.addOutput(payment.output!, 20000n));
+      const utxos: CoinSelectUtxo[] = spent.map((payment, index) => ({
+        hash: prevTx.getHash(),
+        index,
+        value: 20000n,
+        payment,
+        ...(payment === p2pkh
+          ? { input: { nonWitnessUtxo: prevTx.toBuffer() } }
+          : {}),
+      }));
+
+      const result = coinselect.select({
+        utxos,
+        outputs: [{ address: p2wpkh.address!, value: 110000n }],
+        feeRate: 3,
+        change,
+        algorithm: 'largestFirst',
+      });
+      const { psbt, vsize, fee } = result;
+      const inputOf = (payment: typeof p2wpkh): number =>
+        result.utxos.findIndex(u => u.payment === payment);
+      assert.strictEqual(psbt.txInputs.length, 6);
+      const nested = psbt.data.inputs[inputOf(p2shP2wsh)];
+      assert.deepStrictEqual(nested.witnessScript, p2ms.output);
+      assert.deepStrictEqual(nested.redeemScript, p2wsh.output);
+
+      psbt.signAllInputs(keyPair);
+      psbt.signInput(inputOf(p2wsh), keys[1]);
+      psbt.signInput(inputOf(p2shP2wsh), keys[1]);
+      psbt.signInput(
+        inputOf(p2tr),
+        keyPair.tweak(crypto.taggedHash('TapTweak', internalPubkey)),
+      );
+      psbt.finalizeAllInputs();
+      const tx = psbt.extractTransaction();
+      assert.ok(tx.virtualSize() <= vsize);
+      // ECDSA signatures are usually a byte or two shorter than the worst case
+      assert.ok(tx.virtualSize() >= vsize - 6);
+      assert.strictEqual(psbt.getFee(), fee);
+      assert.ok(psbt.verifyAllInputs().every(result => result.success));
+      assert.ok(psbt instanceof Psbt);
+    });
+  });
+});
@@ -0,0 +1,443 @@
+import * as assert from 'assert';
+import BIP32Factory from 'bip32';
+import * as bip39 from 'bip39';
+import * as ecc from 'tiny-secp256k1';
+import { before, describe, it } from 'mocha';
+import * as tools from 'uint8array-tools';
+import {
+  crypto,
+  descriptors,
+  initEccLib,
+  networks,
+  payments,
+  Psbt,
+  script as bscript,
+  toXOnly,
+} from 'bitcoinjs-lib';
+
+const bip32 = BIP32Factory(ecc);
+const seed = bip39.mnemonicToSeedSync(
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+);
+const root = bip32.fromSeed(seed);
+const fingerprint = tools.toHex(root.fingerprint);
+
+const KEY1 =
+  '022f8bde4d1a07209355b4a7250a5c5128e88b84bddc619ab7cba8d569b240efe4';
+const KEY2 =
+  '025cbdf0646e5db4eaa398f365f2ea7a0e3d419b7e0330e39ce92bddedcac4f9bc';
+const UNCOMPRESSED =
+  '04a34b99f22c790c4e36b2b3c2c35a36db06226e41c692fc82b8b56ac1c540c5bd5b8dec5235a0fa8722476c7709c02559e3aa73aa03918ba2d492eea75abea235';
+
+describe('descriptors', () => {
+  before(() => {
+    initEccLib(ecc);
+  });
+
+  describe('checksum', () => {
+    it('computes the BIP380 checksums', () => {
+      assert.strictEqual(descriptors.checksum('raw(deadbeef)'), '89f8spxm');
+      assert.strictEqual(
+        descriptors.checksum(
+          "pkh([d34db33f/44'/0'/0']xpub6ERApfZwUNrhLCkDtcHTcxd75RbzS1ed54G1LkBUHQVHQKqhMkhgbmJbZRkrgZw4koxb5JaHWkY4ALHY2grBGRjaDMzQLcgJvLJuZZvRcEL/1/*)",
+        ),
+        'ml40v0wf',
+      );
+    });
+
+    it('validates checksums', () => {
+      const { descriptor } = descriptors.parse('raw(deadbeef)#89f8spxm', {
+        requireChecksum: true,
+      });
+      assert.strictEqual(descriptor, 'raw(deadbeef)#89f8spxm');
+      assert.strictEqual(
+        descriptors.parse('raw(deadbeef)').descriptor,
+        'raw(deadbeef)#89f8spxm',
+      );
+
+      assert.throws(() => {
+        descriptors.parse('raw(deadbeef)#89f8spxn');
+      }, /Invalid descriptor checksum: 89f8spxn, expected 89f8spxm/);
+      assert.throws(() => {
+        descriptors.parse('raw(deadbeef)', { requireChecksum: true });
+      }, /Missing descriptor checksum/);
+      assert.throws(() => {
+        descriptors.parse('raw(deadbeef)#89f8spxm#89f8spxm');
+      }, /Multiple checksums in descriptor/);
+      assert.throws(() => {
+        descriptors.checksum('raw(deadbeef)é');
+      }, /Invalid character in descriptor/);
+    });
+  });
+
+  describe('hex keys', () => {
+    const pubkey1 = tools.fromHex(KEY1);
+    const pubkey2 = tools.fromHex(KEY2);
+
+    [
+      {
+        descriptor: `pk(${KEY1})`,
+        payment: payments.p2pk({ pubkey: pubkey1 }),
+      },
+      {
+        descriptor: `pkh(${KEY1})`,
+        payment: payments.p2pkh({ pubkey: pubkey1 }),
+      },
+      {
+        descriptor: `wpkh(${KEY1})`,
+        payment: payments.p2wpkh({ pubkey: pubkey1 }),
+      },
+      {
+        descriptor: `sh(wpkh(${KEY1}))`,
+        payment: payments.p2sh({
+          redeem: payments.p2wpkh({ pubkey: pubkey1 }),
+        }),
+        redeemScript: true,
+      },
+      {
+        descriptor: `multi(1,${KEY1},${KEY2})`,
+        payment: payments.p2ms({ m: 1, pubkeys: [pubkey1, pubkey2] }),
+      },
+      {
+        descriptor: `sh(sortedmulti(2,${KEY2},${KEY1}))`,
+        payment: payments.p2sh({
+          redeem: payments.p2ms({ m: 2, pubkeys: [pubkey1, pubkey2] }),
+        }),
+        redeemScript: true,
+      },
+      {
+        descriptor: `wsh(multi(2,${KEY2},${KEY1}))`,
+        payment: payments.p2wsh({
+          redeem: payments.p2ms({ m: 2, pubkeys: [pubkey2, pubkey1] }),
+        }),
+        witnessScript: true,
+      },
+      {
+        descriptor: `sh(wsh(pkh(${KEY1})))`,
+        payment: payments.p2sh({
+          redeem: payments.p2wsh({
+            redeem: payments.p2pkh({ pubkey: pubkey1 }),
+          }),
+        }),
+        redeemScript: true,
+        witnessScript: true,
+      },
+      {
+        descriptor: `pkh(${UNCOMPRESSED})`,
+        payment: payments.p2pkh({ pubkey: tools.fromHex(UNCOMPRESSED) }),
+      },
+    ].forEach(f => {
+      it(`parses ${f.descriptor}`, () => {
+        const result = descriptors.parse(f.descriptor);
+        assert.strictEqual(result.isRange, false);
+        assert.deepStrictEqual(result.output, f.payment.output);
+        assert.strictEqual(result.address, f.payment.address);
+        assert.deepStrictEqual(
+          result.redeemScript,
+          f.redeemScript ? f.payment.redeem!.output : undefined,
+        );
+        assert.deepStrictEqual(
+          result.witnessScript,
+          f.witnessScript
+            ? (f.payment.redeem!.redeem || f.payment.redeem)!.output
+            : undefined,
+        );
+        assert.deepStrictEqual(result.inputUpdate, {
+          ...(result.redeemScript && { redeemScript: result.redeemScript }),
+          ...(result.witnessScript && { witnessScript: result.witnessScript }),
+        });
+      });
+    });
+
+    it('parses addr() and raw()', () => {
+      const { address, output } = payments.p2wpkh({ pubkey: pubkey1 });
+      const fromAddr = descriptors.parse(`addr(${address})`);
+      assert.deepStrictEqual(fromAddr.output, output);
+      assert.strictEqual(fromAddr.address, address);
+
+      const fromRaw = descriptors.parse(`raw(${tools.toHex(output!)})`);
+      assert.deepStrictEqual(fromRaw.output, output);
+      assert.strictEqual(fromRaw.address, address);
+
+      const opReturn = descriptors.parse('raw(6a00)');
+      assert.strictEqual(opReturn.address, undefined);
+    });
+
+    it('uses the given network', () => {
+      const { address } = descriptors.parse(`wpkh(${KEY1})`, {
+        network: networks.testnet,
+      });
+      assert.strictEqual(
+        address,
+        payments.p2wpkh({ pubkey: pubkey1, network: networks.testnet }).address,
+      );
+    });
+
+    it('records key origins', () => {
+      const { inputUpdate } = descriptors.parse(
+        `wpkh([d34db33f/84h/0'/0h]${KEY1})`,
+      );
+      assert.deepStrictEqual(inputUpdate.bip32Derivation, [
+        {
+          masterFingerprint: tools.fromHex('d34db33f'),
+          path: "m/84'/0'/0'",
+          pubkey: pubkey1,
+        },
+      ]);
+    });
+  });
+
+  describe('extended keys', () => {
+    const account = root.derivePath("m/84'/0'/0'");
+    const xpub = account.neutered().toBase58();
+
+    it('derives BIP84 addresses', () => {
+      const descriptor = `wpkh([${fingerprint}/84'/0'/0']${xpub}/0/*)`;
+      const result = descriptors.parse(descriptor, { bip32, index: 0 });
+      assert.strictEqual(result.isRange, true);
+      assert.strictEqual(
+        result.address,
+        'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu',
+      );
+      assert.deepStrictEqual(result.inputUpdate, {
+        bip32Derivation: [
+          {
+            masterFingerprint: root.fingerprint,
+            path: "m/84'/0'/0'/0/0",
+            pubkey: root.derivePath("m/84'/0'/0'/0/0").publicKey,
+          },
+        ],
+      });
+
+      const second = descriptors.parse(descriptor, { bip32, index: 1 });
+      assert.strictEqual(
+        second.address,
+        payments.p2wpkh({
+          pubkey: root.derivePath("m/84'/0'/0'/0/1").publicKey,
+        }).address,
+      );
+    });
+
+    it('derives hardened steps from extended private keys', () => {
+      const result = descriptors.parse(
+        `pkh(${root.toBase58()}/44h/0'/0'/0/*h)`,
+        {
+          bip32,
+          index: 3,
+        },
+      );
+      const node = root.derivePath("m/44'/0'/0'/0/3'");
+      assert.strictEqual(
+        result.address,
+        payments.p2pkh({ pubkey: node.publicKey }).address,
+      );
+      assert.deepStrictEqual(result.inputUpdate.bip32Derivation, [
+        {
+          masterFingerprint: root.fingerprint,
+          path: "m/44'/0'/0'/0/3'",
+          pubkey: node.publicKey,
+        },
+      ]);
+    });
+
+    it('derives BIP86 addresses that a Psbt can sign', () => {
+      const tpub = root.derivePath("m/86'/0'/0'").neutered().toBase58();
+      const result = descriptors.parse(
+        `tr([${fingerprint}/86'/0'/0']${tpub}/0/*)`,
+        { bip32, index: 0 },
+      );
+      assert.strictEqual(
+        result.address,
+        'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr',
+      );
+      assert.deepStrictEqual(result.inputUpdate.tapBip32Derivation, [
+        {
+          masterFingerprint: root.fingerprint,
+          path: "m/86'/0'/0'/0/0",
+          pubkey: result.inputUpdate.tapInternalKey,
+          leafHashes: [],
+        },
+      ]);
+
+      const psbt = new Psbt()
+        .addInput({
+          hash: new Uint8Array(32),
+          index: 0,
+          witnessUtxo: { script: result.output, value: 10000n },
+        })
+        .addOutput({ script: result.output, value: 9000n });
+      psbt.updateInput(0, result.inputUpdate);
+      const node = root.derivePath("m/86'/0'/0'/0/0");
+      const tweaked = node.tweak(
+        crypto.taggedHash('TapTweak', toXOnly(node.publicKey)),
+      );
+      psbt.signInput(0, tweaked).finalizeAllInputs();
+      assert.strictEqual(psbt.extractTransaction().ins[0].witness.length, 1);
+    });
+
+    it('requires a BIP32 factory and an index for ranged keys', () => {
+      assert.throws(() => {
+        descriptors.parse(`wpkh(${xpub}/0/0)`);
+      }, /A BIP32 factory is required for extended keys/);
+      assert.throws(() => {
+        descriptors.parse(`wpkh(${xpub}/0/*)`, { bip32 });
+      }, /Ranged descriptor requires an index/);
+      assert.throws(() => {
+        descriptors.parse(`wpkh(${xpub}/*/0)`, { bip32, index: 0 });
+      }, /Ranged key must be the last path element/);
+      [-1, 1.5, 0x80000000].forEach(index => {
+        assert.throws(() => {
+          descriptors.parse(`wpkh(${xpub}/0/*)`, { bip32, index });
+        }, /Invalid child index/);
+      });
+    });
+  });
+
+  describe('tr', () => {
+    const internalKey = toXOnly(tools.fromHex(KEY1));
+    const leafKey = toXOnly(tools.fromHex(KEY2));
+
+    it('parses key path only descriptors', () => {
+      const result = descriptors.parse(`tr(${KEY1})`);
+      const payment = payments.p2tr({ internalPubkey: internalKey });
+      assert.strictEqual(result.address, payment.address);
+      assert.deepStrictEqual(result.inputUpdate, {
+        tapInternalKey: internalKey,
+      });
+      // x-only keys are accepted inside tr()
+      assert.strictEqual(
+        descriptors.parse(`tr(${tools.toHex(internalKey)})`).address,
+        payment.address,
+      );
+    });
+
+    it('maps script trees onto Taptree', () => {
+      const pkLeaf = {
+        output: bscript.compile([leafKey, bscript.OPS.OP_CHECKSIG]),
+      };
+      const multiLeaf = {
+        output: bscript.compile([
+          internalKey,
+          bscript.OPS.OP_CHECKSIG,
+          leafKey,
+          bscript.OPS.OP_CHECKSIGADD,
+          bscript.OPS.OP_2,
+          bscript.OPS.OP_NUMEQUAL,
+        ]),
+      };
+      const scriptTree: [typeof pkLeaf, [typeof pkLeaf, typeof pkLeaf]] = [
+        pkLeaf,
+        [multiLeaf, multiLeaf],
+      ];
+      const payment = payments.p2tr({
+        internalPubkey: internalKey,
+        scriptTree,
+      });
+
+      const result = descriptors.parse(
+        `tr(${KEY1},{pk(${KEY2}),{multi_a(2,${KEY1},${KEY2}),sortedmulti_a(2,${KEY2},${KEY1})}})`,
+      );
+      assert.strictEqual(result.address, payment.address);
+      assert.deepStrictEqual(result.inputUpdate.tapMerkleRoot, payment.hash);
+      assert.strictEqual(result.inputUpdate.tapLeafScript!.length, 3);
+
+      const [leaf] = result.inputUpdate.tapLeafScript!;
+      const { witness } = payments.p2tr({
+        internalPubkey: internalKey,
+        scriptTree,
+        redeem: pkLeaf,
+      });
+      assert.deepStrictEqual(leaf, {
+        leafVersion: 0xc0,
+        script: pkLeaf.output,
+        controlBlock: witness![witness!.length - 1],
+      });
+    });
+
+    it('records leaf hashes of derived keys', () => {
+      const xpub = root.derivePath("m/86'/0'/0'").neutered().toBase58();
+      const result = descriptors.parse(`tr(${KEY1},pk(${xpub}/0/*))`, {
+        bip32,
+        index: 2,
+      });
+      const derivations = result.inputUpdate.tapBip32Derivation!;
+      assert.strictEqual(derivations.length, 1);
+      assert.strictEqual(derivations[0].path, 'm/0/2');
+      assert.deepStrictEqual(
+        derivations[0].masterFingerprint,
+        root.derivePath("m/86'/0'/0'").fingerprint,
+      );
+      assert.strictEqual(derivations[0].leafHashes.length, 1);
+    });
+  });
+
+  describe('invalid descriptors', () => {
+    [
+      {
+        descriptor: 'foo(00)',
+        exception: /Unsupported script expression: foo\(\)/,
+      },
+      { descriptor: `wpkh(${KEY1}`, exception: /Invalid script expression/ },
+      { descriptor: `pkh(${KEY1}))`, exception: /Unbalanced brackets/ },
+      {
+        descriptor: `pkh(${KEY1},${KEY2})`,
+        exception: /pkh\(\) expects 1 argument/,
+      },
+      {
+        descriptor: `multi(3,${KEY1},${KEY2})`,
+        exception: /Invalid multisig threshold: 3/,
+      },
+      {
+        descriptor: `wpkh(${UNCOMPRESSED})`,
+        exception: /Uncompressed keys are not allowed/,
+      },
+      {
+        descriptor: `wsh(pk(${UNCOMPRESSED}))`,
+        exception: /Uncompressed keys are not allowed/,
+      },
+      {
+        descriptor: `wsh(wpkh(${KEY1}))`,
+        exception: /wpkh\(\) is only allowed/,
+      },
+      {
+        descriptor: `sh(sh(pkh(${KEY1})))`,
+        exception: /sh\(\) is only allowed at the top level/,
+      },
+      {
+        descriptor: `sh(tr(${KEY1}))`,
+        exception: /tr\(\) is only allowed at the top level/,
+      },
+      {
+        descriptor: `multi_a(1,${KEY1})`,
+        exception: /multi_a\(\) is only allowed in tr\(\) leaves/,
+      },
+      {
+        descriptor: `tr(${KEY1},pkh(${KEY2}))`,
+        exception: /Unsupported tapscript expression: pkh\(\)/,
+      },
+      {
+        descriptor: `tr(${KEY1},{pk(${KEY2})})`,
+        exception: /Invalid script tree/,
+      },
+      {
+        descriptor: `pk(${KEY1.slice(0, -2)})`,
+        exception: /Invalid public key/,
+      },
+      {
+        descriptor: `pk([d34db33/0]${KEY1})`,
+        exception: /Invalid key origin fingerprint/,
+      },
+      {
+        descriptor: `pk([d34db33f/0x]${KEY1})`,
+        exception: /Invalid key path element: 0x/,
+      },
+      { descriptor: 'raw(0)', exception: /Invalid raw script/ },
+    ].forEach(f => {
+      it(`throws on ${f.descriptor}`, () => {
+        assert.throws(() => {
+          descriptors.parse(f.descriptor);
+        }, f.exception);
+      });
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import * as assert from 'assert';
+import * as ecc from 'tiny-secp256k1';
+import ECPairFactory from 'ecpair';
+import { before, describe, it } from 'mocha';
+import {
+  CoinSelectUtxo,
+  feebump,
+  initEccLib,
+  payments,
+  Psbt,
+  Transaction,
+} from 'bitcoinjs-lib';
+
+const ECPair = ECPairFactory(ecc);
+
+const keyPair = ECPair.fromPrivateKey(new Uint8Array(32).fill(1));
+const p2wpkh = payments.p2wpkh({ pubkey: keyPair.publicKey });
+const p2pkh = payments.p2pkh({ pubkey: keyPair.publicKey });
+const destination = payments.p2wpkh({
+  pubkey: ECPair.fromPrivateKey(new Uint8Array(32).fill(2)).publicKey,
+});
+const change = payments.p2wpkh({
+  pubkey: ECPair.fromPrivateKey(new Uint8Array(32).fill(9)).publicKey,
+});
+
+function utxo(value: bigint, index = 0): CoinSelectUtxo {
+  return {
+    hash: new Uint8Array(32).fill(index + 1),
+    index,
+    value,
+    payment: p2wpkh,
+  };
+}
+
+function signed(psbt: Psbt): Transaction {
+  psbt.signAllInputs(keyPair);
+  psbt.finalizeAllInputs();
+  return psbt.extractTransaction(true);
+}
+
+// spends 100000 sats to the destination and change, at a fee of 300 sats
+function stuck(value = 50000n): {
+  psbt: Psbt;
+  tx: Transaction;
+  prevUtxos: CoinSelectUtxo[];
+} {
+  const prevUtxos = [utxo(100000n)];
+  const psbt = new Psbt();
+  psbt.addInput({
+    hash: prevUtxos[0].hash,
+    index: 0,
+    sequence: 0xffffffff,
+    witnessUtxo: { script: p2wpkh.output!, value: 100000n },
+  });
+  psbt.addOutput({ script: destination.output!, value });
+  psbt.addOutput({ script: change.output!, value: 100000n - 300n - value });
+  return { psbt, tx: signed(psbt), prevUtxos };
+}
+
+describe('feebump', () => {
+  before(() => {
+    initEccLib(ecc);
+  });
+
+  describe('bumpFee', () => {
+    it('pays the fee rate with the change output', () => {
+      const { tx, prevUtxos } = stuck();
+      const result = feebump.bumpFee({
+        tx,
+        prevUtxos,
+        feeRate: 10,
+        changeIndex: 1,
+      });
+      const { psbt, fee, vsize } = result;
+      assert.strictEqual(fee, BigInt(vsize * 10));
+      assert.strictEqual(result.change, 50000n - fee);
+      assert.deepStrictEqual(result.utxos, prevUtxos);
+      assert.strictEqual(psbt.txInputs[0].sequence, 0xfffffffd);
+      assert.deepStrictEqual(psbt.txOutputs[0].script, destination.output);
+      assert.strictEqual(psbt.txOutputs[0].value, 50000n);
+      assert.strictEqual(psbt.txOutputs[1].value, result.change);
+      assert.strictEqual(psbt.version, tx.version);
+
+      const replacement = signed(psbt);
+      assert.ok(replacement.virtualSize() <= vsize);
+      assert.strictEqual(psbt.getFee(), fee);
+    });
+
+    it('pays the replaced fees plus the incremental relay fee', () => {
+      const { psbt, prevUtxos } = stuck();
+      const originalFeeRate = psbt.getFeeRate();
+      const result = feebump.bumpFee({
+        tx: psbt,
+        prevUtxos,
+        feeRate: originalFeeRate + 0.5,
+        changeIndex: 1,
+      });
+      assert.strictEqual(result.fee, 300n + BigInt(result.vsize));
+
+      const withDescendants = feebump.bumpFee({
+        tx: psbt,
+        prevUtxos,
+        feeRate: originalFeeRate + 0.5,
+        changeIndex: 1,
+        descendantFee: 1000n,
+        incrementalRelayFeeRate: 2,
+      });
+      assert.strictEqual(
+        withDescendants.fee,
+        1300n + BigInt(withDescendants.vsize * 2),
+      );
+    });
+
+    it('keeps lower sequences and estimates unsigned transactions', () => {
+      const prevUtxos = [utxo(100000n)];
+      const psbt = new Psbt();
+      psbt.addInput({ hash: prevUtxos[0].hash, index: 0, sequence: 10 });
+      psbt.addOutput({ script: destination.output!, value: 50000n });
+      psbt.addOutput({ script: change.output!, value: 49800n });
+      const result = feebump.bumpFee({
+        tx: psbt,
+        prevUtxos,
+        feeRate: 5,
+        changeIndex: 1,
+      });
+      assert.strictEqual(result.psbt.txInputs[0].sequence, 10);
+      assert.strictEqual(result.fee, BigInt(result.vsize * 5));
+    });
+
+    it('drops dust change and adds inputs', () => {
+      // 700 sats of change
+      const { tx, prevUtxos } = stuck(99000n);
+      const dropped = feebump.bumpFee({
+        tx,
+        prevUtxos,
+        feeRate: 6,
+        changeIndex: 1,
+      });
+      assert.strictEqual(dropped.change, 0n);
+      assert.strictEqual(dropped.fee, 1000n);
+      assert.strictEqual(dropped.psbt.txOutputs.length, 1);
+
+      const { tx: tx2 } = stuck(99600n);
+      const added = feebump.bumpFee({
+        tx: tx2,
+        prevUtxos,
+        feeRate: 600,
+        changeIndex: 1,
+        utxos: [utxo(1000n, 1), utxo(200000n, 2), utxo(5000n, 3)],
+      });
+      assert.strictEqual(added.utxos.length, 2);
+      assert.strictEqual(added.utxos[1].value, 200000n);
+      assert.strictEqual(added.psbt.txInputs[1].sequence, 0xfffffffd);
+      assert.strictEqual(added.fee, BigInt(added.vsize * 600));
+      assert.strictEqual(added.change, 300000n - 99600n - added.fee);
+      assert.ok(signed(added.psbt).virtualSize() <= added.vsize);
+    });
+
+    it('adds change for added inputs', () => {
+      const prevUtxos = [utxo(10000n)];
+      const psbt = new Psbt();
+      psbt.addInput({ hash: prevUtxos[0].hash, index: 0 });
+      psbt.addOutput({ script: destination.output!, value: 9900n });
+      const result = feebump.bumpFee({
+        tx: psbt,
+        prevUtxos,
+        feeRate: 10,
+        utxos: [utxo(50000n, 1)],
+        change,
+      });
+      assert.strictEqual(result.utxos.length, 2);
+      assert.strictEqual(result.psbt.txOutputs.length, 2);
+      assert.deepStrictEqual(result.psbt.txOutputs[1].script, change.output);
+      assert.strictEqual(result.change, 60000n - 9900n - result.fee);
+    });
+
+    it('throws for invalid replacements', () => {
+      const { tx, prevUtxos } = stuck();
+      assert.throws(() => {
+        feebump.bumpFee({ tx, prevUtxos, feeRate: 2, changeIndex: 1 });
+      }, /Fee rate must be higher than the original fee rate of 2\.13/);
+      assert.throws(() => {
+        feebump.bumpFee({ tx, prevUtxos: [], feeRate: 10 });
+      }, /Expected 1 UTXOs spent by the transaction, got 0/);
+      assert.throws(() => {
+        feebump.bumpFee({ tx, prevUtxos: [utxo(100000n, 1)], feeRate: 10 });
+      }, /Input #0 does not spend the UTXO #0/);
+      assert.throws(() => {
+        feebump.bumpFee({ tx, prevUtxos, feeRate: 10, changeIndex: 2 });
+      }, /Change output #2 does not exist/);
+      assert.throws(() => {
+        feebump.bumpFee({
+          tx,
+          prevUtxos,
+          feeRate: 1000,
+          changeIndex: 1,
+          utxos: [utxo(1000n, 1)],
+        });
+      }, /Insufficient funds/);
+    });
+  });
+
+  describe('cpfp', () => {
+    it('pays for the package of the parent and the child', () => {
+      const { psbt: parent, tx } = stuck();
+      const changeKey = ECPair.fromPrivateKey(new Uint8Array(32).fill(9));
+      const result = feebump.cpfp({
+        parent,
+        vout: 1,
+        payment: change,
+        feeRate: 10,
+        change: p2wpkh,
+      });
+      const { psbt, fee, vsize } = result;
+      const packageVsize = tx.virtualSize() + vsize;
+      assert.strictEqual(300n + fee, BigInt(packageVsize * 10));
+      assert.deepStrictEqual(psbt.txInputs[0].hash, tx.getHash());
+      assert.strictEqual(psbt.txInputs[0].index, 1);
+      assert.strictEqual(result.change, 49700n - fee);
+
+      psbt.signAllInputs(changeKey).finalizeAllInputs();
+      assert.ok(psbt.extractTransaction().virtualSize() <= vsize);
+    });
+
+    it('pays at least the fee rate for the child', () => {
+      const { tx } = stuck();
+      const result = feebump.cpfp({
+        parent: tx,
+        parentFee: 5000n,
+        vout: 0,
+        payment: destination,
+        feeRate: 10,
+        change: p2wpkh,
+      });
+      assert.strictEqual(result.fee, BigInt(result.vsize * 10));
+    });
+
+    it('spends legacy outputs and adds inputs', () => {
+      const parent = new Psbt();
+      parent.addInput({
+        hash: new Uint8Array(32),
+        index: 0,
+        witnessUtxo: { script: p2wpkh.output!, value: 10000n },
+      });
+      parent.addOutput({ script: p2pkh.output!, value: 9900n });
+      const tx = signed(parent);
+
+      const result = feebump.cpfp({
+        parent: tx,
+        parentFee: 100n,
+        vout: 0,
+        payment: p2pkh,
+        feeRate: 100,
+        change,
+        utxos: [utxo(50000n, 1)],
+      });
+      assert.strictEqual(result.utxos.length, 2);
+      assert.deepStrictEqual(
+        result.psbt.data.inputs[0].nonWitnessUtxo,
+        tx.toBuffer(),
+      );
+      assert.strictEqual(
+        100n + result.fee,
+        BigInt((tx.virtualSize() + result.vsize) * 100),
+      );
+      signed(result.psbt);
+    });
+
+    it('throws for invalid children', () => {
+      const { psbt, tx } = stuck();
+      const opts = { vout: 1, payment: change, feeRate: 10, change: p2wpkh };
+      assert.throws(() => {
+        feebump.cpfp({ ...opts, parent: tx });
+      }, /parentFee is required for Transaction parents/);
+      assert.throws(() => {
+        feebump.cpfp({ ...opts, parent: psbt, vout: 2 });
+      }, /Output #2 of the parent does not exist/);
+      assert.throws(() => {
+        const unsigned = new Psbt();
+        unsigned.addInput({ hash: new Uint8Array(32), index: 0 });
+        feebump.cpfp({ ...opts, parent: unsigned });
+      }, /Parent transaction is not signed/);
+      assert.throws(() => {
+        feebump.cpfp({ ...opts, parent: psbt, change: { name: 'p2wpkh' } });
+      }, /Change payment has no output/);
+      assert.throws(() => {
+        feebump.cpfp({ ...opts, parent: psbt, feeRate: 1000 });
+      }, /Insufficient funds/);
+    });
+  });
+});
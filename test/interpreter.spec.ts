@@ -0,0 +1,773 @@
+import * as assert from 'assert';
+import * as ecc from 'tiny-secp256k1';
+import ECPairFactory from 'ecpair';
+import { before, describe, it } from 'mocha';
+import * as tools from 'uint8array-tools';
+import {
+  crypto,
+  initEccLib,
+  interpreter,
+  opcodes,
+  payments,
+  Psbt,
+  script as bscript,
+  toXOnly,
+  Transaction,
+} from 'bitcoinjs-lib';
+import { PivxTransaction } from 'bitcoinjs-lib/pivx';
+
+const ECPair = ECPairFactory(ecc);
+const { FLAGS, PIVX_STANDARD_FLAGS, STANDARD_FLAGS } = interpreter;
+
+const keyPair = ECPair.fromPrivateKey(new Uint8Array(32).fill(1));
+const other = ECPair.fromPrivateKey(new Uint8Array(32).fill(2));
+const internalPubkey = toXOnly(keyPair.publicKey);
+const VALUE = 10000n;
+const EMPTY_SCRIPT = new Uint8Array(0);
+
+function tapleafHash(script: Uint8Array, version = 0xc0): Uint8Array {
+  return crypto.taggedHash(
+    'TapLeaf',
+    tools.concat([Uint8Array.of(version, script.length), script]),
+  );
+}
+
+// a transaction spending a single output, without witness
+function spending(output: Uint8Array): Transaction {
+  const tx = new Transaction();
+  tx.version = 2;
+  tx.addInput(new Uint8Array(32), 0);
+  tx.addOutput(output, VALUE - 1000n);
+  return tx;
+}
+
+// spends the given tapscript leaf, signing with the given keys
+function spendLeaf(
+  script: Uint8Array,
+  opts: {
+    signers?: Array<typeof keyPair>;
+    stack?: Uint8Array[];
+    annex?: Uint8Array;
+    codeSeparatorPos?: number;
+    version?: number;
+  } = {},
+): { tx: Transaction; output: Uint8Array; controlBlock: Uint8Array } {
+  const leaf = { output: script, version: opts.version };
+  const p2tr = payments.p2tr({
+    internalPubkey,
+    scriptTree: leaf,
+    redeem: { output: script, redeemVersion: opts.version },
+  });
+  const output = p2tr.output!;
+  const controlBlock = p2tr.witness![p2tr.witness!.length - 1];
+  const tx = spending(output);
+  const hash = tx.hashForWitnessV1(
+    0,
+    [output],
+    [VALUE],
+    Transaction.SIGHASH_DEFAULT,
+    tapleafHash(script, opts.version),
+    opts.annex,
+    opts.codeSeparatorPos,
+  );
+  const signatures = (opts.signers || [])
+    .map(signer => signer.signSchnorr(hash))
+    .reverse();
+  tx.setWitness(0, [
+    ...(opts.stack || signatures),
+    script,
+    controlBlock,
+    ...(opts.annex ? [opts.annex] : []),
+  ]);
+  return { tx, output, controlBlock };
+}
+
+function verify(
+  tx: Transaction,
+  output: Uint8Array,
+  flags = STANDARD_FLAGS,
+): interpreter.ScriptResult {
+  return interpreter.verifyInput(
+    tx,
+    0,
+    [{ script: output, value: VALUE }],
+    flags,
+  );
+}
+
+describe('interpreter', () => {
+  before(() => {
+    initEccLib(ecc);
+  });
+
+  describe('taproot key path', () => {
+    const tweaked = keyPair.tweak(
+      crypto.taggedHash('TapTweak', internalPubkey),
+    );
+    let output: Uint8Array | undefined;
+    before(() => {
+      output = payments.p2tr({ internalPubkey }).output;
+    });
+
+    const signed = (sighashType?: number): Transaction => {
+      const psbt = new Psbt()
+        .addInput({
+          hash: new Uint8Array(32),
+          index: 0,
+          witnessUtxo: { script: output!, value: VALUE },
+          tapInternalKey: internalPubkey,
+          ...(sighashType ? { sighashType } : {}),
+        })
+        .addOutput({ script: output!, value: VALUE - 1000n });
+      psbt
+        .signInput(0, tweaked, sighashType ? [sighashType] : undefined)
+        .finalizeAllInputs();
+      return psbt.extractTransaction();
+    };
+
+    it('verifies signatures for every sighash type', () => {
+      [
+        undefined,
+        Transaction.SIGHASH_ALL,
+        Transaction.SIGHASH_NONE | Transaction.SIGHASH_ANYONECANPAY,
+        Transaction.SIGHASH_SINGLE,
+      ].forEach(sighashType => {
+        assert.deepStrictEqual(verify(signed(sighashType), output!), {
+          success: true,
+        });
+      });
+    });
+
+    it('rejects invalid signatures', () => {
+      const tx = signed();
+      const [signature] = tx.ins[0].witness;
+
+      tx.setWitness(0, [signature.slice(0, 63)]);
+      assert.strictEqual(verify(tx, output!).error, 'SCHNORR_SIG_SIZE');
+
+      tx.setWitness(0, [tools.concat([signature, Uint8Array.of(0)])]);
+      assert.strictEqual(verify(tx, output!).error, 'SCHNORR_SIG_HASHTYPE');
+
+      tx.setWitness(0, [tools.concat([signature, Uint8Array.of(4)])]);
+      assert.strictEqual(verify(tx, output!).error, 'SCHNORR_SIG_HASHTYPE');
+
+      tx.setWitness(0, [tools.concat([signature, Uint8Array.of(1)])]);
+      assert.strictEqual(verify(tx, output!).error, 'SCHNORR_SIG');
+
+      tx.setWitness(0, []);
+      assert.strictEqual(
+        verify(tx, output!).error,
+        'WITNESS_PROGRAM_WITNESS_EMPTY',
+      );
+
+      // without TAPROOT, taproot outputs are anyone-can-spend
+      assert.ok(verify(tx, output!, FLAGS.P2SH | FLAGS.WITNESS).success);
+    });
+
+    it('rejects SIGHASH_SINGLE without a matching output', () => {
+      const tx = signed(Transaction.SIGHASH_SINGLE);
+      tx.outs = [];
+      assert.strictEqual(verify(tx, output!).error, 'SCHNORR_SIG');
+    });
+
+    it('commits to the annex', () => {
+      const tx = signed();
+      const annex = Uint8Array.of(0x50, 1, 2, 3);
+      tx.setWitness(0, [tx.ins[0].witness[0], annex]);
+      assert.strictEqual(verify(tx, output!).error, 'SCHNORR_SIG');
+
+      const hash = tx.hashForWitnessV1(
+        0,
+        [output!],
+        [VALUE],
+        Transaction.SIGHASH_DEFAULT,
+        undefined,
+        annex,
+      );
+      tx.setWitness(0, [tweaked.signSchnorr(hash), annex]);
+      assert.ok(verify(tx, output!).success);
+    });
+  });
+
+  describe('tapscript', () => {
+    const checksig = bscript.compile([internalPubkey, opcodes.OP_CHECKSIG]);
+    const multiA = bscript.compile([
+      internalPubkey,
+      opcodes.OP_CHECKSIG,
+      toXOnly(other.publicKey),
+      opcodes.OP_CHECKSIGADD,
+      opcodes.OP_2,
+      opcodes.OP_NUMEQUAL,
+    ]);
+
+    it('verifies OP_CHECKSIG leaves', () => {
+      const { tx, output } = spendLeaf(checksig, { signers: [keyPair] });
+      assert.ok(verify(tx, output).success);
+
+      const wrongKey = spendLeaf(checksig, { signers: [other] });
+      assert.strictEqual(
+        verify(wrongKey.tx, wrongKey.output).error,
+        'SCHNORR_SIG',
+      );
+
+      const empty = spendLeaf(checksig, { stack: [new Uint8Array(0)] });
+      assert.strictEqual(verify(empty.tx, empty.output).error, 'EVAL_FALSE');
+    });
+
+    it('verifies OP_CHECKSIGADD leaves', () => {
+      const { tx, output } = spendLeaf(multiA, { signers: [keyPair, other] });
+      assert.ok(verify(tx, output).success);
+
+      const one = spendLeaf(multiA, {
+        stack: [new Uint8Array(0), tx.ins[0].witness[1]],
+      });
+      assert.strictEqual(verify(one.tx, one.output).error, 'EVAL_FALSE');
+    });
+
+    it('commits to the annex and the last OP_CODESEPARATOR', () => {
+      const annex = Uint8Array.of(0x50);
+      const withAnnex = spendLeaf(checksig, { signers: [keyPair], annex });
+      assert.ok(verify(withAnnex.tx, withAnnex.output).success);
+
+      const script = bscript.compile([
+        opcodes.OP_CODESEPARATOR,
+        internalPubkey,
+        opcodes.OP_CHECKSIG,
+      ]);
+      const signed = spendLeaf(script, {
+        signers: [keyPair],
+        codeSeparatorPos: 0,
+      });
+      assert.ok(verify(signed.tx, signed.output).success);
+
+      const unsigned = spendLeaf(script, { signers: [keyPair] });
+      assert.strictEqual(
+        verify(unsigned.tx, unsigned.output).error,
+        'SCHNORR_SIG',
+      );
+    });
+
+    it('applies the tapscript rules', () => {
+      [
+        {
+          script: bscript.compile([
+            opcodes.OP_IF,
+            opcodes.OP_ENDIF,
+            opcodes.OP_1,
+          ]),
+          stack: [Uint8Array.of(2)],
+          error: 'TAPSCRIPT_MINIMALIF',
+        },
+        {
+          script: bscript.compile([
+            opcodes.OP_0,
+            opcodes.OP_0,
+            opcodes.OP_0,
+            opcodes.OP_CHECKMULTISIG,
+          ]),
+          stack: [],
+          error: 'TAPSCRIPT_CHECKMULTISIG',
+        },
+        {
+          script: bscript.compile([new Uint8Array(0), opcodes.OP_CHECKSIG]),
+          stack: [Uint8Array.of(1)],
+          error: 'PUBKEYTYPE',
+        },
+        {
+          script: bscript.compile([new Uint8Array(33), opcodes.OP_CHECKSIG]),
+          stack: [Uint8Array.of(1)],
+          error: 'DISCOURAGE_UPGRADABLE_PUBKEYTYPE',
+        },
+        {
+          script: bscript.compile([opcodes.OP_1, opcodes.OP_1]),
+          stack: [],
+          error: 'CLEANSTACK',
+        },
+        {
+          script: bscript.compile([opcodes.OP_DROP, opcodes.OP_1]),
+          stack: [new Uint8Array(521)],
+          error: 'PUSH_SIZE',
+        },
+        {
+          script: Uint8Array.of(opcodes.OP_PUSHDATA1),
+          stack: [],
+          error: 'BAD_OPCODE',
+        },
+      ].forEach(f => {
+        const { tx, output } = spendLeaf(f.script, { stack: f.stack });
+        assert.strictEqual(verify(tx, output).error, f.error);
+      });
+    });
+
+    it('limits signatures by the witness size', () => {
+      // every signature check needs 50 bytes of witness
+      const script = bscript.compile([
+        internalPubkey,
+        ...Array(10).fill([opcodes.OP_2DUP, opcodes.OP_CHECKSIGVERIFY]).flat(),
+        opcodes.OP_CHECKSIG,
+      ]);
+      const { tx, output } = spendLeaf(script, { signers: [keyPair] });
+      assert.strictEqual(
+        verify(tx, output).error,
+        'TAPSCRIPT_VALIDATION_WEIGHT',
+      );
+    });
+
+    it('succeeds on OP_SUCCESSx and unknown leaf versions', () => {
+      const success = spendLeaf(Uint8Array.of(0x50, opcodes.OP_RETURN));
+      assert.strictEqual(
+        verify(success.tx, success.output).error,
+        'DISCOURAGE_OP_SUCCESS',
+      );
+      assert.ok(
+        verify(
+          success.tx,
+          success.output,
+          FLAGS.P2SH | FLAGS.WITNESS | FLAGS.TAPROOT,
+        ).success,
+      );
+
+      const unknown = spendLeaf(Uint8Array.of(opcodes.OP_RETURN), {
+        version: 0xc2,
+      });
+      assert.strictEqual(
+        verify(unknown.tx, unknown.output).error,
+        'DISCOURAGE_UPGRADABLE_TAPROOT_VERSION',
+      );
+      assert.ok(
+        verify(
+          unknown.tx,
+          unknown.output,
+          FLAGS.P2SH | FLAGS.WITNESS | FLAGS.TAPROOT,
+        ).success,
+      );
+    });
+
+    it('rejects invalid control blocks', () => {
+      const { tx, output, controlBlock } = spendLeaf(checksig, {
+        signers: [keyPair],
+      });
+      const [signature] = tx.ins[0].witness;
+
+      tx.setWitness(0, [signature, checksig, controlBlock.slice(0, 32)]);
+      assert.strictEqual(
+        verify(tx, output).error,
+        'TAPROOT_WRONG_CONTROL_SIZE',
+      );
+
+      const flipped = controlBlock.slice();
+      flipped[0] ^= 1;
+      tx.setWitness(0, [signature, checksig, flipped]);
+      assert.strictEqual(verify(tx, output).error, 'WITNESS_PROGRAM_MISMATCH');
+
+      tx.setWitness(0, [signature, multiA, controlBlock]);
+      assert.strictEqual(verify(tx, output).error, 'WITNESS_PROGRAM_MISMATCH');
+    });
+  });
+
+  describe('traceScript', () => {
+    const trace = (
+      scriptSig: Uint8Array,
+      scriptPubKey: Uint8Array,
+    ): interpreter.ScriptTrace =>
+      interpreter.traceScript(
+        scriptSig,
+        scriptPubKey,
+        [],
+        STANDARD_FLAGS,
+        new interpreter.TransactionSignatureChecker(spending(scriptPubKey), 0, [
+          { script: scriptPubKey, value: VALUE },
+        ]),
+      );
+
+    it('records stacks and branches after every opcode', () => {
+      const result = trace(
+        bscript.compile([opcodes.OP_1]),
+        bscript.compile([
+          opcodes.OP_IF,
+          opcodes.OP_2,
+          opcodes.OP_TOALTSTACK,
+          opcodes.OP_ELSE,
+          opcodes.OP_3,
+          opcodes.OP_ENDIF,
+          opcodes.OP_FROMALTSTACK,
+        ]),
+      );
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.failedStep, undefined);
+      assert.deepStrictEqual(result.steps[5], {
+        script: 'scriptPubKey',
+        sigVersion: 'base',
+        opcodePos: 4,
+        pc: 4,
+        opcode: opcodes.OP_3,
+        asm: 'OP_3',
+        executed: false,
+        branches: [false],
+        stack: [],
+        altstack: [Uint8Array.of(2)],
+      });
+      assert.strictEqual(
+        interpreter.formatTrace(result),
+        [
+          'scriptSig (base):',
+          '  0: OP_1',
+          '      stack: 01',
+          'scriptPubKey (base):',
+          '  0: OP_IF',
+          '      stack:',
+          '      branches: true',
+          '  1: OP_2',
+          '      stack: 02',
+          '      branches: true',
+          '  2: OP_TOALTSTACK',
+          '      stack:',
+          '      altstack: 02',
+          '      branches: true',
+          '  3: OP_ELSE',
+          '      stack:',
+          '      altstack: 02',
+          '      branches: false',
+          '  4: OP_3 (not executed)',
+          '      stack:',
+          '      altstack: 02',
+          '      branches: false',
+          '  5: OP_ENDIF',
+          '      stack:',
+          '      altstack: 02',
+          '  6: OP_FROMALTSTACK',
+          '      stack: 02',
+          'success',
+        ].join('\n'),
+      );
+    });
+
+    it('reports the failing opcode', () => {
+      const result = trace(
+        bscript.compile([opcodes.OP_1, opcodes.OP_0]),
+        bscript.compile([opcodes.OP_2, opcodes.OP_EQUALVERIFY, opcodes.OP_1]),
+      );
+      assert.strictEqual(result.error, 'EQUALVERIFY');
+      assert.strictEqual(result.failedStep!.asm, 'OP_EQUALVERIFY');
+      assert.strictEqual(result.failedStep!.error, 'EQUALVERIFY');
+      assert.strictEqual(result.steps.length, 4);
+      assert.strictEqual(result.steps[3], result.failedStep);
+      assert.ok(
+        interpreter
+          .formatTrace(result)
+          .endsWith('      error: EQUALVERIFY\nfailed: EQUALVERIFY'),
+      );
+    });
+
+    it('renders opcodes that can not be executed', () => {
+      const truncated = trace(EMPTY_SCRIPT, Uint8Array.of(opcodes.OP_1, 2, 1));
+      assert.strictEqual(truncated.error, 'BAD_OPCODE');
+      assert.strictEqual(truncated.failedStep!.asm, '[error]');
+
+      const unknown = trace(EMPTY_SCRIPT, Uint8Array.of(0xbb));
+      assert.strictEqual(unknown.error, 'BAD_OPCODE');
+      assert.strictEqual(unknown.failedStep!.asm, 'OP_UNKNOWN');
+    });
+
+    it('has no failing opcode for failures after execution', () => {
+      const result = trace(EMPTY_SCRIPT, Uint8Array.of(opcodes.OP_0));
+      assert.strictEqual(result.error, 'EVAL_FALSE');
+      assert.strictEqual(result.failedStep, undefined);
+      assert.strictEqual(result.steps.length, 1);
+    });
+
+    it('traces tapscript leaves', () => {
+      const script = bscript.compile([internalPubkey, opcodes.OP_CHECKSIG]);
+      const { tx, output } = spendLeaf(script, { signers: [keyPair] });
+      const result = interpreter.traceInput(tx, 0, [
+        { script: output, value: VALUE },
+      ]);
+      assert.strictEqual(result.success, true);
+      assert.deepStrictEqual(
+        result.steps.map(step => [step.script, step.sigVersion, step.asm]),
+        [
+          ['scriptPubKey', 'base', 'OP_1'],
+          ['scriptPubKey', 'base', tools.toHex(output.subarray(2))],
+          ['tapscript', 'tapscript', tools.toHex(internalPubkey)],
+          ['tapscript', 'tapscript', 'OP_CHECKSIG'],
+        ],
+      );
+      assert.throws(() => {
+        interpreter.traceInput(tx, 0, []);
+      }, /Missing previous output for input #0/);
+    });
+  });
+
+  describe('PIVX opcodes', () => {
+    const p2pkh = payments.p2pkh({ pubkey: keyPair.publicKey });
+
+    // signs the input of a transaction spending the output with the key
+    function signed(
+      tx: Transaction,
+      output: Uint8Array,
+      signer: typeof keyPair,
+      extra: Array<number | Uint8Array> = [],
+    ): Transaction {
+      const hash = tx.hashForSignature(0, output, Transaction.SIGHASH_ALL);
+      tx.setInputScript(
+        0,
+        bscript.compile([
+          bscript.signature.encode(signer.sign(hash), Transaction.SIGHASH_ALL),
+          ...extra,
+          signer.publicKey,
+        ]),
+      );
+      return tx;
+    }
+
+    describe('OP_CHECKCOLDSTAKEVERIFY', () => {
+      const p2cs = (lof = false): Uint8Array =>
+        payments.p2cs({
+          stakerHash: p2pkh.hash,
+          ownerHash: payments.p2pkh({ pubkey: other.publicKey }).hash,
+          lof,
+        }).output!;
+
+      // a coinstake paying the outputs after its empty marker
+      function coinstake(
+        output: Uint8Array,
+        outs: Array<{ script: Uint8Array; value: bigint }>,
+      ): Transaction {
+        const tx = new Transaction();
+        tx.addInput(new Uint8Array(32).fill(1), 0);
+        tx.addOutput(EMPTY_SCRIPT, 0n);
+        outs.forEach(out => tx.addOutput(out.script, out.value));
+        return signed(tx, output, keyPair, [opcodes.OP_1]);
+      }
+
+      it('lets the staker stake the output', () => {
+        const output = p2cs();
+        const tx = coinstake(output, [
+          { script: output, value: VALUE / 2n },
+          { script: output, value: VALUE / 2n + 100n },
+        ]);
+        assert.deepStrictEqual(verify(tx, output, PIVX_STANDARD_FLAGS), {
+          success: true,
+        });
+        // a bad opcode without the flag, as on Bitcoin
+        assert.deepStrictEqual(verify(tx, output), {
+          success: false,
+          error: 'BAD_OPCODE',
+        });
+      });
+
+      it('restricts the staker to coinstakes paying back the output', () => {
+        const output = p2cs();
+        [
+          // a regular transaction
+          signed(spending(output), output, keyPair, [opcodes.OP_1]),
+          // paying less than the staked value
+          coinstake(output, [{ script: output, value: VALUE - 1n }]),
+          // paying elsewhere
+          coinstake(output, [
+            { script: output, value: VALUE },
+            { script: p2pkh.output!, value: 100n },
+          ]),
+        ].forEach(tx =>
+          assert.deepStrictEqual(verify(tx, output, PIVX_STANDARD_FLAGS), {
+            success: false,
+            error: 'CHECKCOLDSTAKEVERIFY',
+          }),
+        );
+
+        // the owner spends freely
+        const owned = new Transaction();
+        owned.addInput(new Uint8Array(32), 0);
+        owned.addOutput(p2pkh.output!, VALUE);
+        signed(owned, output, other, [opcodes.OP_0]);
+        assert.deepStrictEqual(verify(owned, output, PIVX_STANDARD_FLAGS), {
+          success: true,
+        });
+      });
+
+      it('lets the last output pay elsewhere with the LOF variant', () => {
+        const output = p2cs(true);
+        const tx = coinstake(output, [
+          { script: output, value: VALUE },
+          { script: p2pkh.output!, value: 100n },
+        ]);
+        assert.deepStrictEqual(verify(tx, output, PIVX_STANDARD_FLAGS), {
+          success: true,
+        });
+      });
+    });
+
+    describe('OP_EXCHANGEADDR', () => {
+      it('marks P2PKH scripts as exchange addresses', () => {
+        const output = tools.concat([
+          Uint8Array.of(opcodes.OP_EXCHANGEADDR),
+          p2pkh.output!,
+        ]);
+        const tx = signed(spending(output), output, keyPair);
+        assert.deepStrictEqual(verify(tx, output, PIVX_STANDARD_FLAGS), {
+          success: true,
+        });
+        assert.deepStrictEqual(verify(tx, output), {
+          success: false,
+          error: 'BAD_OPCODE',
+        });
+      });
+
+      it('must be the first opcode', () => {
+        const output = bscript.compile([opcodes.OP_1, opcodes.OP_EXCHANGEADDR]);
+        assert.deepStrictEqual(
+          verify(spending(output), output, PIVX_STANDARD_FLAGS),
+          { success: false, error: 'EXCHANGEADDRVERIFY' },
+        );
+      });
+    });
+
+    describe('Sapling-era transactions', () => {
+      // a version 3 transaction spending the output, signed with its sighash
+      function saplingSigned(
+        output: Uint8Array,
+        signer: typeof keyPair,
+        extra: Array<number | Uint8Array> = [],
+      ): PivxTransaction {
+        const tx = new PivxTransaction();
+        tx.version = PivxTransaction.SAPLING_VERSION;
+        tx.addInput(new Uint8Array(32).fill(1), 0);
+        tx.addOutput(p2pkh.output!, VALUE - 1000n);
+        const hash = tx.hashForSaplingSignature(
+          0,
+          output,
+          VALUE,
+          Transaction.SIGHASH_ALL,
+        );
+        tx.setInputScript(
+          0,
+          bscript.compile([
+            bscript.signature.encode(
+              signer.sign(hash),
+              Transaction.SIGHASH_ALL,
+            ),
+            ...extra,
+            signer.publicKey,
+          ]),
+        );
+        return tx;
+      }
+
+      it('verifies P2PKH inputs with the Sapling signature hash', () => {
+        const tx = saplingSigned(p2pkh.output!, keyPair);
+        assert.deepStrictEqual(verify(tx, p2pkh.output!, PIVX_STANDARD_FLAGS), {
+          success: true,
+        });
+        // the amount is committed to
+        assert.deepStrictEqual(
+          interpreter.verifyInput(
+            tx,
+            0,
+            [{ script: p2pkh.output!, value: VALUE + 1n }],
+            PIVX_STANDARD_FLAGS,
+          ),
+          { success: false, error: 'NULLFAIL' },
+        );
+      });
+
+      it('verifies P2CS inputs with the Sapling signature hash', () => {
+        const output = payments.p2cs({
+          stakerHash: payments.p2pkh({ pubkey: other.publicKey }).hash,
+          ownerHash: p2pkh.hash,
+        }).output!;
+        const tx = saplingSigned(output, keyPair, [opcodes.OP_0]);
+        assert.deepStrictEqual(verify(tx, output, PIVX_STANDARD_FLAGS), {
+          success: true,
+        });
+      });
+
+      it('rejects signatures of the legacy signature hash', () => {
+        const tx = saplingSigned(p2pkh.output!, keyPair);
+        const legacy = new PivxTransaction();
+        legacy.addInput(tx.ins[0].hash, 0);
+        legacy.addOutput(p2pkh.output!, VALUE - 1000n);
+        const hash = legacy.hashForSignature(
+          0,
+          p2pkh.output!,
+          Transaction.SIGHASH_ALL,
+        );
+        tx.setInputScript(
+          0,
+          bscript.compile([
+            bscript.signature.encode(
+              keyPair.sign(hash),
+              Transaction.SIGHASH_ALL,
+            ),
+            keyPair.publicKey,
+          ]),
+        );
+        assert.deepStrictEqual(verify(tx, p2pkh.output!, PIVX_STANDARD_FLAGS), {
+          success: false,
+          error: 'NULLFAIL',
+        });
+      });
+    });
+  });
+
+  describe('verifyInput', () => {
+    it('defaults to the standard flags', () => {
+      // a non-minimal push is valid by consensus only
+      const output = bscript.compile([opcodes.OP_DROP, opcodes.OP_1]);
+      const tx = spending(output);
+      tx.setInputScript(0, Uint8Array.of(1, 1));
+      assert.deepStrictEqual(
+        interpreter.verifyInput(tx, 0, [{ script: output, value: VALUE }]),
+        {
+          success: false,
+          error: 'MINIMALDATA',
+        },
+      );
+      assert.deepStrictEqual(
+        interpreter.verifyInput(
+          tx,
+          0,
+          [{ script: output, value: VALUE }],
+          interpreter.MANDATORY_FLAGS,
+        ),
+        { success: true },
+      );
+    });
+
+    it('throws without the input or its previous output', () => {
+      const tx = spending(Uint8Array.of(opcodes.OP_1));
+      assert.throws(() => {
+        interpreter.verifyInput(tx, 1, []);
+      }, /No input #1/);
+      assert.throws(() => {
+        interpreter.verifyInput(tx, 0, []);
+      }, /Missing previous output for input #0/);
+    });
+
+    it('requires an ECC library that verifies signatures', () => {
+      const { output } = payments.p2wpkh({ pubkey: keyPair.publicKey });
+      const psbt = new Psbt()
+        .addInput({
+          hash: new Uint8Array(32),
+          index: 0,
+          witnessUtxo: { script: output!, value: VALUE },
+        })
+        .addOutput({ script: output!, value: VALUE - 1000n })
+        .signInput(0, keyPair)
+        .finalizeAllInputs();
+      const tx = psbt.extractTransaction();
+      assert.ok(verify(tx, output!).success);
+
+      initEccLib(
+        {
+          isXOnlyPoint: ecc.isXOnlyPoint,
+          xOnlyPointAddTweak: ecc.xOnlyPointAddTweak,
+        },
+        { DANGER_DO_NOT_VERIFY_ECCLIB: true },
+      );
+      assert.throws(() => {
+        verify(tx, output!);
+      }, /ECC library does not support signature verification/);
+      initEccLib(ecc);
+    });
+  });
+});
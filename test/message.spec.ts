@@ -0,0 +1,273 @@
+import * as assert from 'assert';
+import * as ecc from 'tiny-secp256k1';
+import ECPairFactory from 'ecpair';
+import { beforeEach, describe, it } from 'mocha';
+import * as tools from 'uint8array-tools';
+import { crypto, initEccLib, message, networks, payments } from 'bitcoinjs-lib';
+import {
+  encodePivxAddress,
+  encodePivxExchangeAddress,
+  encodePivxStakingAddress,
+  pivx,
+} from 'bitcoinjs-lib/pivx';
+
+const ECPair = ECPairFactory(ecc);
+
+const MESSAGE = 'This is an example of a signed message.';
+const keyPair = ECPair.fromWIF(
+  'L4rK1yDtCWekvXuE6oXD9jCYfFNV2cWRpVuPLBcCU2z8TrisoyY1',
+);
+const privateKey = keyPair.privateKey!;
+const pubkey = keyPair.publicKey;
+
+describe('message', () => {
+  beforeEach(() => {
+    initEccLib(ecc);
+  });
+
+  describe('magicHash', () => {
+    it('hashes the prefixed message', () => {
+      const data = tools.concat([
+        tools.fromUtf8('\x18Bitcoin Signed Message:\n'),
+        Uint8Array.of(MESSAGE.length),
+        tools.fromUtf8(MESSAGE),
+      ]);
+      assert.deepStrictEqual(message.magicHash(MESSAGE), crypto.hash256(data));
+      assert.deepStrictEqual(
+        message.magicHash(tools.fromUtf8(MESSAGE)),
+        crypto.hash256(data),
+      );
+    });
+
+    it('uses the network message prefix', () => {
+      assert.notDeepStrictEqual(
+        message.magicHash(MESSAGE, pivx),
+        message.magicHash(MESSAGE),
+      );
+    });
+  });
+
+  describe('bitcoin', () => {
+    it('signs and verifies a known vector', () => {
+      const signature = message.sign(MESSAGE, privateKey);
+      assert.strictEqual(
+        tools.toBase64(signature),
+        'H9L5yLFjti0QTHhPyFrZCT1V/MMnBtXKmoiKDZ78NDBjERki6ZTQZdSMCtkgoNmp17By9ItJr8o7ChX0XxY91nk=',
+      );
+      assert.ok(
+        message.verify(
+          MESSAGE,
+          '1F3sAm6ZtwLAUnj7d38pGFxtP3RVEvtsbV',
+          tools.toBase64(signature),
+        ),
+      );
+      assert.strictEqual(
+        message.verify(
+          'another message',
+          '1F3sAm6ZtwLAUnj7d38pGFxtP3RVEvtsbV',
+          signature,
+        ),
+        false,
+      );
+    });
+
+    [
+      {
+        type: 'p2pkh' as const,
+        compressed: false,
+        headers: [27, 30],
+        address: payments.p2pkh({
+          pubkey: ECPair.fromPrivateKey(privateKey, { compressed: false })
+            .publicKey,
+        }).address!,
+      },
+      {
+        type: 'p2pkh' as const,
+        compressed: true,
+        headers: [31, 34],
+        address: payments.p2pkh({ pubkey }).address!,
+      },
+      {
+        type: 'p2sh-p2wpkh' as const,
+        compressed: true,
+        headers: [35, 38],
+        address: payments.p2sh({ redeem: payments.p2wpkh({ pubkey }) })
+          .address!,
+      },
+      {
+        type: 'p2wpkh' as const,
+        compressed: true,
+        headers: [39, 42],
+        address: payments.p2wpkh({ pubkey }).address!,
+      },
+    ].forEach(f => {
+      it(`signs ${f.type} (compressed: ${f.compressed}) messages`, () => {
+        const signature = message.sign(MESSAGE, privateKey, {
+          type: f.type,
+          compressed: f.compressed,
+        });
+        assert.strictEqual(signature.length, 65);
+        assert.ok(signature[0] >= f.headers[0] && signature[0] <= f.headers[1]);
+        assert.ok(message.verify(MESSAGE, f.address, signature));
+      });
+    });
+
+    it('verifies testnet addresses', () => {
+      const address = payments.p2wpkh({
+        pubkey,
+        network: networks.testnet,
+      }).address!;
+      const signature = message.sign(MESSAGE, privateKey, {
+        type: 'p2wpkh',
+        network: networks.testnet,
+      });
+      assert.ok(
+        message.verify(MESSAGE, address, signature, {
+          network: networks.testnet,
+        }),
+      );
+    });
+
+    it('only accepts P2PKH headers for segwit addresses with checkSegwitAlways', () => {
+      const signature = message.sign(MESSAGE, privateKey);
+      const address = payments.p2wpkh({ pubkey }).address!;
+      assert.strictEqual(message.verify(MESSAGE, address, signature), false);
+      assert.ok(
+        message.verify(MESSAGE, address, signature, {
+          checkSegwitAlways: true,
+        }),
+      );
+
+      const uncompressed = message.sign(MESSAGE, privateKey, {
+        compressed: false,
+      });
+      assert.strictEqual(
+        message.verify(MESSAGE, address, uncompressed, {
+          checkSegwitAlways: true,
+        }),
+        false,
+      );
+    });
+
+    it('rejects signatures by another key', () => {
+      const other = ECPair.fromPrivateKey(new Uint8Array(32).fill(1));
+      const signature = message.sign(MESSAGE, other.privateKey!, {
+        type: 'p2sh-p2wpkh',
+      });
+      assert.strictEqual(
+        message.verify(
+          MESSAGE,
+          payments.p2sh({ redeem: payments.p2wpkh({ pubkey }) }).address!,
+          signature,
+        ),
+        false,
+      );
+    });
+  });
+
+  describe('PIVX', () => {
+    const hash = payments.p2pkh({ pubkey }).hash!;
+
+    [
+      {
+        description: 'regular',
+        address: encodePivxAddress(hash, pivx.pivxPrefixes.pubKeyHash),
+      },
+      {
+        description: 'staking',
+        address: encodePivxStakingAddress(hash, pivx),
+      },
+      {
+        description: 'exchange',
+        address: encodePivxExchangeAddress(hash, pivx),
+      },
+    ].forEach(f => {
+      it(`verifies ${f.description} addresses`, () => {
+        const signature = message.sign(MESSAGE, privateKey, { network: pivx });
+        assert.ok(
+          message.verify(MESSAGE, f.address, signature, { network: pivx }),
+        );
+        // the bitcoin message prefix does not verify
+        assert.strictEqual(
+          message.verify(
+            MESSAGE,
+            f.address,
+            message.sign(MESSAGE, privateKey),
+            { network: pivx },
+          ),
+          false,
+        );
+      });
+    });
+
+    it('refuses P2SH addresses, without segwit', () => {
+      const signature = message.sign(MESSAGE, privateKey, { network: pivx });
+      assert.throws(() => {
+        message.verify(
+          MESSAGE,
+          encodePivxAddress(hash, pivx.pivxPrefixes.scriptHash),
+          signature,
+          { network: pivx },
+        );
+      }, /can not be used with signed messages/);
+      assert.throws(() => {
+        message.sign(MESSAGE, privateKey, {
+          network: pivx,
+          type: 'p2sh-p2wpkh',
+        });
+      }, /PIVX networks have no segwit signatures/);
+    });
+  });
+
+  describe('errors', () => {
+    const address = '1F3sAm6ZtwLAUnj7d38pGFxtP3RVEvtsbV';
+
+    it('throws on malformed signatures', () => {
+      const signature = message.sign(MESSAGE, privateKey);
+      assert.throws(() => {
+        message.verify(MESSAGE, address, signature.slice(1));
+      }, /Invalid signature length/);
+
+      signature[0] = 43;
+      assert.throws(() => {
+        message.verify(MESSAGE, address, signature);
+      }, /Invalid signature parameter/);
+    });
+
+    it('throws on addresses that can not sign messages', () => {
+      const signature = message.sign(MESSAGE, privateKey);
+      [
+        payments.p2wsh({ hash: new Uint8Array(32) }).address!,
+        payments.p2pkh({ pubkey, network: networks.testnet }).address!,
+        'not an address',
+      ].forEach(a => {
+        assert.throws(() => {
+          message.verify(MESSAGE, a, signature);
+        }, /can not be used with signed messages/);
+      });
+    });
+
+    it('refuses segwit signatures for uncompressed keys', () => {
+      assert.throws(() => {
+        message.sign(MESSAGE, privateKey, {
+          type: 'p2wpkh',
+          compressed: false,
+        });
+      }, /Segwit signatures require a compressed public key/);
+    });
+
+    it('requires an ECC library with recovery', () => {
+      initEccLib(
+        {
+          isXOnlyPoint: ecc.isXOnlyPoint,
+          xOnlyPointAddTweak: ecc.xOnlyPointAddTweak,
+        },
+        { DANGER_DO_NOT_VERIFY_ECCLIB: true },
+      );
+      assert.throws(() => {
+        message.sign(MESSAGE, privateKey);
+      }, /ECC library does not support recoverable signatures/);
+      initEccLib(ecc);
+    });
+  });
+});
@@ -0,0 +1,434 @@
+import * as assert from 'assert';
+import * as ecc from 'tiny-secp256k1';
+import ECPairFactory from 'ecpair';
+import { before, describe, it } from 'mocha';
+import * as tools from 'uint8array-tools';
+import {
+  crypto,
+  initEccLib,
+  interpreter,
+  miniscript,
+  payments,
+  Psbt,
+  script as bscript,
+  toXOnly,
+} from 'bitcoinjs-lib';
+import fixtures from './fixtures/miniscript.json';
+
+const ECPair = ECPairFactory(ecc);
+
+const [a, b, c] = [1, 2, 3].map(i =>
+  ECPair.fromPrivateKey(new Uint8Array(32).fill(i)),
+);
+const keys = { A: a.publicKey, B: b.publicKey, C: c.publicKey };
+const [A, B, C] = [a, b, c].map(key => tools.toHex(key.publicKey));
+const [xA, xB, xC] = [a, b, c].map(key => tools.toHex(toXOnly(key.publicKey)));
+const sig = (i: number): Uint8Array => new Uint8Array(72).fill(i);
+const preimage = new Uint8Array(32).fill(7);
+const H = tools.toHex(crypto.sha256(preimage));
+const VALUE = 10000n;
+
+function assertScript(
+  expression: string,
+  asm: string,
+  context?: miniscript.MiniscriptContext,
+): void {
+  assert.strictEqual(
+    bscript.toASM(miniscript.parse(expression, { keys, context }).script),
+    bscript.toASM(bscript.fromASM(asm)),
+  );
+}
+
+// spends the wsh or tapscript output of a miniscript, signing with `signers`
+function spend(
+  expression: string,
+  context: miniscript.MiniscriptContext,
+  signers: (typeof a)[],
+  sequence = 0xfffffffe,
+  locktime = 0,
+): interpreter.ScriptResult {
+  const ms = miniscript.parse(expression, { keys, context });
+  const payment =
+    context === 'wsh'
+      ? payments.p2wsh({ redeem: { output: ms.script } })
+      : payments.p2tr({
+          internalPubkey: toXOnly(a.publicKey),
+          scriptTree: { output: ms.script },
+          redeem: { output: ms.script },
+        });
+  const psbt = new Psbt();
+  psbt.setLocktime(locktime);
+  psbt.addInput({
+    hash: new Uint8Array(32),
+    index: 0,
+    sequence,
+    witnessUtxo: { script: payment.output!, value: VALUE },
+    ...(context === 'wsh'
+      ? { witnessScript: ms.script }
+      : {
+          tapLeafScript: [
+            {
+              leafVersion: 0xc0,
+              script: ms.script,
+              controlBlock: payment.witness![payment.witness!.length - 1],
+            },
+          ],
+        }),
+  });
+  psbt.addOutput({ script: payment.output!, value: VALUE - 1000n });
+  signers.forEach(signer =>
+    context === 'wsh'
+      ? psbt.signInput(0, signer)
+      : psbt.signTaprootInput(0, signer),
+  );
+  psbt.finalizeInput(
+    0,
+    miniscript.finalizer(expression, {
+      keys,
+      sequence,
+      locktime,
+      preimages: [preimage],
+    }),
+  );
+  const tx = psbt.extractTransaction();
+  assert.ok(
+    tx.ins[0].witness.length - (context === 'wsh' ? 1 : 2) <=
+      ms.analysis.maxWitnessItems,
+  );
+  return interpreter.verifyInput(tx, 0, [
+    { script: payment.output!, value: VALUE },
+  ]);
+}
+
+describe('miniscript', () => {
+  before(() => {
+    initEccLib(ecc);
+  });
+
+  describe('parse', () => {
+    it('compiles fragments and wrappers', () => {
+      assertScript(
+        'or_d(pk(A),and_v(v:pk(B),older(144)))',
+        `${A} OP_CHECKSIG OP_IFDUP OP_NOTIF ${B} OP_CHECKSIGVERIFY 9000 OP_CHECKSEQUENCEVERIFY OP_ENDIF`,
+      );
+      assertScript(
+        'thresh(2,pk(A),s:pk(B),sln:older(10))',
+        `${A} OP_CHECKSIG OP_SWAP ${B} OP_CHECKSIG OP_ADD OP_SWAP OP_IF OP_0 OP_ELSE OP_10 OP_CHECKSEQUENCEVERIFY OP_0NOTEQUAL OP_ENDIF OP_ADD OP_2 OP_EQUAL`,
+      );
+      assertScript(
+        `and_n(sha256(${H}),pkh(A))`,
+        `OP_SIZE 20 OP_EQUALVERIFY OP_SHA256 ${H} OP_EQUAL OP_NOTIF OP_0 OP_ELSE OP_DUP OP_HASH160 ${tools.toHex(crypto.hash160(a.publicKey))} OP_EQUALVERIFY OP_CHECKSIG OP_ENDIF`,
+      );
+      assertScript(
+        `andor(pk(A),after(500000001),multi(1,${A},B))`,
+        `${A} OP_CHECKSIG OP_NOTIF OP_1 ${A} ${B} OP_2 OP_CHECKMULTISIG OP_ELSE 0165cd1d OP_CHECKLOCKTIMEVERIFY OP_ENDIF`,
+      );
+      assertScript(
+        'multi_a(2,A,B,C)',
+        `${xA} OP_CHECKSIG ${xB} OP_CHECKSIGADD ${xC} OP_CHECKSIGADD OP_2 OP_NUMEQUAL`,
+        'tapscript',
+      );
+      assertScript(
+        `or_b(pk(${xA}),a:pk(B))`,
+        `${xA} OP_CHECKSIG OP_TOALTSTACK ${xB} OP_CHECKSIG OP_FROMALTSTACK OP_BOOLOR`,
+        'tapscript',
+      );
+
+      const ms = miniscript.parse('pk(A)', { keys });
+      assert.strictEqual(ms.context, 'wsh');
+      assert.strictEqual(ms.node.type, 'Bonduesmk');
+      assert.strictEqual(ms.node.fragment, 'c');
+      assert.strictEqual(ms.node.subs[0].fragment, 'pk_k');
+    });
+
+    fixtures.core.forEach(f => {
+      it(`compiles ${f.expression.slice(0, 40)}... as Bitcoin Core`, () => {
+        const ms = miniscript.parse(f.expression);
+        assert.strictEqual(tools.toHex(ms.script), f.script);
+        assert.strictEqual(ms.analysis.ops, f.ops);
+      });
+    });
+
+    it('analyzes deeply nested thresh in linear time', () => {
+      const expression = new Array(64)
+        .fill(0)
+        .reduce(inner => `thresh(1,${inner},a:pk(B))`, 'pk(A)');
+      const ms = miniscript.parse(expression, { keys });
+      assert.strictEqual(ms.analysis.maxWitnessItems, 65);
+      assert.deepStrictEqual(
+        miniscript.satisfy(ms, {
+          signatures: [{ pubkey: a.publicKey, signature: sig(1) }],
+        }).length,
+        65,
+      );
+    });
+
+    it('throws for invalid expressions', () => {
+      const cases: Array<[string, RegExp, miniscript.MiniscriptContext?]> = [
+        ['and_v(pk(A),pk(B))', /and_v can not take arguments of types/],
+        ['v:pk(A)', /Miniscript must be of type B, got V/],
+        ['multi_a(1,A)', /multi_a is only allowed in tapscript/],
+        ['multi(1,A)', /multi is not allowed in tapscript/, 'tapscript'],
+        ['pk(D)', /Unknown key: D/],
+        [`pk(${xA})`, /Invalid public key/],
+        ['older(0)', /Invalid miniscript number: 0/],
+        ['multi(3,A,B)', /Invalid miniscript number: 3/],
+        ['and_v(v:pk(A))', /and_v expects 2 arguments, got 1/],
+        ['foo(A)', /Unknown miniscript fragment: foo/],
+        ['x:pk(A)', /Unknown miniscript wrapper: x/],
+        ['pk(A', /Invalid miniscript expression/],
+        ['or_i(pk(A)),(pk(B))', /Unbalanced brackets/],
+        ['sha256(00)', /Invalid sha256 hash/],
+      ];
+      cases.forEach(([expression, error, context]) => {
+        assert.throws(() => {
+          miniscript.parse(expression, { keys, context });
+        }, error);
+      });
+    });
+  });
+
+  describe('analysis', () => {
+    it('computes the satisfaction size and limits', () => {
+      const pk = miniscript.parse('pk(A)', { keys }).analysis;
+      assert.deepStrictEqual(pk, {
+        nonMalleable: true,
+        needsSignature: true,
+        timelockMix: false,
+        duplicateKeys: false,
+        withinLimits: true,
+        sane: true,
+        scriptSize: 35,
+        ops: 1,
+        maxWitnessItems: 1,
+        maxWitnessSize: 74,
+      });
+
+      const multi = miniscript.parse('multi(2,A,B,C)', { keys }).analysis;
+      assert.strictEqual(multi.ops, 4);
+      assert.strictEqual(multi.maxWitnessItems, 3);
+      assert.strictEqual(multi.maxWitnessSize, 1 + 2 * 74);
+
+      const tapscript = miniscript.parse('or_d(pk(A),and_v(v:pk(B),pk(C)))', {
+        keys,
+        context: 'tapscript',
+      }).analysis;
+      assert.strictEqual(tapscript.maxWitnessItems, 3);
+      assert.strictEqual(tapscript.maxWitnessSize, 1 + 2 * 66);
+
+      const many = 'thresh(1,pk(A)' + ',a:pk(B)'.repeat(100) + ')';
+      assert.strictEqual(
+        miniscript.parse(many, { keys }).analysis.withinLimits,
+        false,
+      );
+    });
+
+    it('detects malleability, timelock mixes and duplicate keys', () => {
+      const analyze = (expression: string) =>
+        miniscript.parse(expression, { keys }).analysis;
+
+      const noSig = analyze('or_i(pk(A),older(10))');
+      assert.strictEqual(noSig.needsSignature, false);
+      assert.strictEqual(noSig.nonMalleable, true);
+      assert.strictEqual(noSig.sane, false);
+
+      const hash = analyze(`or_d(sha256(${H}),pk(A))`);
+      assert.strictEqual(hash.nonMalleable, false);
+      assert.strictEqual(hash.sane, false);
+
+      const mix = analyze('and_v(v:after(500000001),and_v(v:pk(A),after(10)))');
+      assert.strictEqual(mix.timelockMix, true);
+      assert.strictEqual(mix.sane, false);
+      assert.strictEqual(
+        analyze(
+          'or_i(and_v(v:pk(A),after(500000001)),and_v(v:pk(B),after(10)))',
+        ).timelockMix,
+        false,
+      );
+
+      assert.strictEqual(analyze('and_v(v:pk(A),pk(A))').duplicateKeys, true);
+    });
+  });
+
+  describe('satisfy', () => {
+    const expression = 'or_d(pk(A),and_v(v:pk(B),older(144)))';
+    const ms = miniscript.parse(expression, { keys });
+
+    it('picks the smallest non-malleable satisfaction', () => {
+      const signatures = [
+        { pubkey: a.publicKey, signature: sig(1) },
+        { pubkey: b.publicKey, signature: sig(2) },
+      ];
+      assert.deepStrictEqual(miniscript.satisfy(ms, { signatures }), [sig(1)]);
+      assert.deepStrictEqual(
+        miniscript.satisfy(ms, {
+          signatures: signatures.slice(1),
+          sequence: 144,
+        }),
+        [sig(2), new Uint8Array(0)],
+      );
+      assert.deepStrictEqual(
+        miniscript.satisfy(
+          miniscript.parse(`and_v(v:sha256(${H}),pk(A))`, { keys }),
+          { signatures, preimages: [new Uint8Array(32), preimage] },
+        ),
+        [sig(1), preimage],
+      );
+      assert.deepStrictEqual(
+        miniscript.satisfy(miniscript.parse('multi(2,A,B,C)', { keys }), {
+          signatures: [
+            { pubkey: c.publicKey, signature: sig(3) },
+            ...signatures,
+          ],
+        }),
+        [new Uint8Array(0), sig(1), sig(2)],
+      );
+    });
+
+    it('throws without a non-malleable satisfaction', () => {
+      const signatures = [{ pubkey: b.publicKey, signature: sig(2) }];
+      assert.throws(() => {
+        miniscript.satisfy(ms, { signatures, sequence: 143 });
+      }, /Missing signatures, preimages or timelocks/);
+      assert.throws(() => {
+        miniscript.satisfy(ms, { signatures, sequence: 0x80000090 });
+      }, /Missing signatures, preimages or timelocks/);
+      assert.throws(() => {
+        miniscript.satisfy(
+          miniscript.parse('or_i(pk(A),older(10))', { keys }),
+          {
+            signatures: [{ pubkey: a.publicKey, signature: sig(1) }],
+            sequence: 10,
+          },
+        );
+      }, /can only be satisfied malleably/);
+    });
+  });
+
+  describe('finalizer', () => {
+    it('satisfies combinators and wrappers', () => {
+      const H160 = tools.toHex(crypto.hash160(preimage));
+      const cases: Array<[string, Array<typeof a>, number?, number?]> = [
+        ['thresh(2,pk(A),s:pk(B),sln:older(10))', [a], 10],
+        ['thresh(2,pk(A),s:pk(B),sln:older(10))', [a, b]],
+        ['andor(pk(A),older(5),pk(B))', [b]],
+        ['andor(pk(A),older(5),pk(B))', [a], 5],
+        [`or_b(pk(A),a:and_b(pk(B),a:hash160(${H160})))`, [b]],
+        ['or_i(and_v(v:pk(A),older(3)),and_b(pk(B),s:pk(C)))', [b, c]],
+        ['or_i(and_v(v:pk(A),older(3)),and_b(pk(B),s:pk(C)))', [a], 3],
+        [`and_v(v:pk(A),t:or_c(pk(B),v:sha256(${H})))`, [a, b]],
+        ['and_v(v:pk(A),or_d(pk(B),after(100)))', [a], undefined, 100],
+        ['and_v(v:pk(A),j:pk(B))', [a, b]],
+        ['or_d(pk(A),n:pk(B))', [b]],
+        ['thresh(1,pk(A),a:pk(B),a:pk(C))', [c]],
+      ];
+      cases.forEach(([expression, signers, sequence, locktime]) => {
+        (['wsh', 'tapscript'] as const).forEach(context => {
+          assert.deepStrictEqual(
+            spend(expression, context, signers, sequence, locktime),
+            { success: true },
+            `${context} ${expression}`,
+          );
+        });
+      });
+      assert.deepStrictEqual(
+        spend('or_i(and_v(v:pkh(A),older(3)),multi(2,A,B,C))', 'wsh', [a], 3),
+        { success: true },
+      );
+      assert.deepStrictEqual(
+        spend('thresh(2,pk(A),sdv:older(4),a:pk(B))', 'tapscript', [a, b]),
+        { success: true },
+      );
+    });
+
+    it('finalizes p2wsh inputs with partial signatures', () => {
+      const expression = 'or_d(pk(A),and_v(v:pk(B),older(144)))';
+      const ms = miniscript.parse(expression, { keys });
+      const p2wsh = payments.p2wsh({ redeem: { output: ms.script } });
+      const psbt = new Psbt();
+      psbt.addInput({
+        hash: new Uint8Array(32),
+        index: 0,
+        sequence: 144,
+        witnessUtxo: { script: p2wsh.output!, value: VALUE },
+        witnessScript: ms.script,
+      });
+      psbt.addOutput({ script: p2wsh.output!, value: VALUE - 1000n });
+      psbt.signInput(0, b);
+
+      assert.throws(() => {
+        psbt.finalizeInput(0, miniscript.finalizer(expression, { keys }));
+      }, /Can not finalize input #0: Error: Missing signatures/);
+      assert.throws(() => {
+        psbt.finalizeInput(
+          0,
+          miniscript.finalizer('pk(B)', { keys, sequence: 144 }),
+        );
+      }, /The witness script does not match the miniscript/);
+
+      psbt.finalizeInput(
+        0,
+        miniscript.finalizer(expression, {
+          keys,
+          sequence: psbt.txInputs[0].sequence,
+        }),
+      );
+      const tx = psbt.extractTransaction();
+      assert.strictEqual(tx.ins[0].witness.length, 3);
+      assert.deepStrictEqual(
+        interpreter.verifyInput(tx, 0, [
+          { script: p2wsh.output!, value: VALUE },
+        ]),
+        { success: true },
+      );
+    });
+
+    it('finalizes tapscript leaves with tapscript signatures', () => {
+      const expression = 'multi_a(2,A,B,C)';
+      const ms = miniscript.parse(expression, { keys, context: 'tapscript' });
+      const p2tr = payments.p2tr({
+        internalPubkey: toXOnly(
+          ECPair.fromPrivateKey(new Uint8Array(32).fill(9)).publicKey,
+        ),
+        scriptTree: [
+          { output: bscript.fromASM(`${xA} OP_CHECKSIG`) },
+          { output: ms.script },
+        ],
+        redeem: { output: ms.script },
+      });
+      const psbt = new Psbt();
+      psbt.addInput({
+        hash: new Uint8Array(32),
+        index: 0,
+        witnessUtxo: { script: p2tr.output!, value: VALUE },
+        tapLeafScript: [
+          {
+            leafVersion: 0xc0,
+            script: ms.script,
+            controlBlock: p2tr.witness![p2tr.witness!.length - 1],
+          },
+        ],
+      });
+      psbt.addOutput({ script: p2tr.output!, value: VALUE - 1000n });
+      psbt.signTaprootInput(0, a);
+
+      assert.throws(() => {
+        psbt.finalizeInput(0, miniscript.finalizer(expression, { keys }));
+      }, /Can not finalize input #0: Error: Missing signatures/);
+      assert.throws(() => {
+        psbt.finalizeInput(0, miniscript.finalizer('pk(A)', { keys }));
+      }, /No tapleaf script matches the miniscript/);
+
+      psbt.signTaprootInput(0, c);
+      psbt.finalizeInput(0, miniscript.finalizer(expression, { keys }));
+      const tx = psbt.extractTransaction();
+      assert.deepStrictEqual(tx.ins[0].witness[1], new Uint8Array(0));
+      assert.deepStrictEqual(
+        interpreter.verifyInput(tx, 0, [
+          { script: p2tr.output!, value: VALUE },
+        ]),
+        { success: true },
+      );
+    });
+  });
+});
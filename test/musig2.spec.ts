@@ -0,0 +1,431 @@
+import * as assert from 'assert';
+import * as ecc from 'tiny-secp256k1';
+import ECPairFactory from 'ecpair';
+import { before, describe, it } from 'mocha';
+import * as tools from 'uint8array-tools';
+import {
+  crypto,
+  initEccLib,
+  interpreter,
+  musig2,
+  payments,
+  Psbt,
+  toXOnly,
+} from 'bitcoinjs-lib';
+
+const ECPair = ECPairFactory(ecc);
+
+// Key aggregation vectors of BIP327
+const X = [
+  '02f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f9',
+  '03dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659',
+  '023590a94e768f8e1815c2f24b4d80a8e3149316c3518ce7b7ad338368d038ca66',
+].map(tools.fromHex);
+
+// Sign and PartialSigVerify vectors of BIP327
+const SIGN = {
+  privateKey:
+    '7fb9e0e687ada1eebf7ecfe2f21e73ebdb51a7d450948dfe8d76d7f2d1007671',
+  publicKeys: [
+    '03935f972da013f80ae011890fa89b67a27b7be6ccb24d3274d18b2d4067f261a9',
+    '02f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f9',
+    '02dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba661',
+  ].map(tools.fromHex),
+  secNonce:
+    '508b81a611f100a6b2b6b29656590898af488bcf2e1f55cf22e5cfb84421fe61fa27fd49b1d50085b481285e1ca205d55c82cc1b31ff5cd54a489829355901f7',
+  pubNonces: [
+    '0337c87821afd50a8644d820a8f3e02e499c931865c2360fb43d0a0d20dafe07ea0287bf891d2a6deaebadc909352aa9405d1428c15f4b75f04dae642a95c2548480',
+    '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f817980279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+    '032de2662628c90b03f5e720284eb52ff7d71f4284f627b68a853d78c78e1ffe9303e4c5524e83ffe1493b9077cf1ca6beb2090c93d930321071ad40b2f44e599046',
+  ].map(tools.fromHex),
+  aggNonce:
+    '028465fcf0bbdbcf443aabcce533d42b4b5a10966ac09a49655e8c42daab8fcd61037496a3cc86926d452cafcfd55d25972ca1675d549310de296bff42f72eeea8c9',
+  msg: 'f95466d086770e689964664219266fe5ed215c92ae20bab5c9d79addddf3c0cf',
+};
+
+const keyPairs = [1, 2, 3].map(i =>
+  ECPair.fromPrivateKey(new Uint8Array(32).fill(i)),
+);
+const MSG = new Uint8Array(32).fill(0x42);
+const N = BigInt(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+);
+const VALUE = 10000n;
+
+function signSession(
+  ctx: musig2.Musig2KeyAggContext,
+  msg: Uint8Array,
+): Uint8Array {
+  const nonces = keyPairs.map(k =>
+    musig2.nonceGen(k.publicKey, { privateKey: k.privateKey, msg }),
+  );
+  const aggNonce = musig2.nonceAgg(nonces.map(n => n.pubNonce));
+  const partialSigs = keyPairs.map((k, i) => {
+    const partialSig = musig2.partialSign(
+      nonces[i].secNonce,
+      k.privateKey!,
+      aggNonce,
+      ctx,
+      msg,
+    );
+    assert.ok(
+      musig2.partialVerify(
+        partialSig,
+        nonces[i].pubNonce,
+        k.publicKey,
+        aggNonce,
+        ctx,
+        msg,
+      ),
+    );
+    return partialSig;
+  });
+  return musig2.partialSigAgg(partialSigs, aggNonce, ctx, msg);
+}
+
+describe('musig2', () => {
+  before(() => {
+    initEccLib(ecc);
+  });
+
+  describe('keyAgg', () => {
+    it('aggregates keys as BIP327 does', () => {
+      [
+        [
+          [0, 1, 2],
+          '90539eede565f5d054f32cc0c220126889ed1e5d193baf15aef344fe59d4610c',
+        ],
+        [
+          [2, 1, 0],
+          '6204de8b083426dc6eaf9502d27024d53fc826bf7d2012148a0575435df54b2b',
+        ],
+        [
+          [0, 0, 0],
+          'b436e3bad62b8cd409969a224731c193d051162d8c5ae8b109306127da3aa935',
+        ],
+      ].forEach(([indexes, expected]) => {
+        const ctx = musig2.keyAgg((indexes as number[]).map(i => X[i]));
+        assert.strictEqual(tools.toHex(toXOnly(ctx.aggregatePubkey)), expected);
+      });
+      assert.deepStrictEqual(musig2.keySort([X[0], X[1], X[2]]), [
+        X[2],
+        X[0],
+        X[1],
+      ]);
+    });
+
+    it('rejects invalid keys', () => {
+      assert.throws(
+        () => musig2.keyAgg([]),
+        /Expected at least one public key/,
+      );
+      assert.throws(
+        () => musig2.keyAgg([X[0], toXOnly(X[1])]),
+        /Invalid public key/,
+      );
+      assert.throws(
+        () =>
+          musig2.applyTweak(
+            musig2.keyAgg(X),
+            new Uint8Array(32).fill(0xff),
+            true,
+          ),
+        /Invalid tweak/,
+      );
+    });
+
+    it('derives unhardened children of the aggregate key', () => {
+      const ctx = musig2.keyAgg(X);
+      const child = musig2.derivePath(ctx, 'm/0/1');
+      assert.deepStrictEqual(
+        child,
+        musig2.derivePath(musig2.derivePath(ctx, '0'), '1'),
+      );
+      assert.notDeepStrictEqual(child.chainCode, ctx.chainCode);
+      assert.throws(
+        () => musig2.derivePath(ctx, "m/0'"),
+        /Aggregate keys can not be derived hardened/,
+      );
+      assert.throws(
+        () => musig2.derivePath(ctx, 'm/a'),
+        /Invalid derivation path: m\/a/,
+      );
+    });
+    it('requires an ECC library with point arithmetic', () => {
+      initEccLib(
+        {
+          isXOnlyPoint: ecc.isXOnlyPoint,
+          xOnlyPointAddTweak: ecc.xOnlyPointAddTweak,
+        },
+        { DANGER_DO_NOT_VERIFY_ECCLIB: true },
+      );
+      assert.throws(() => {
+        musig2.keyAgg(X);
+      }, /ECC library does not support point arithmetic/);
+      initEccLib(ecc);
+    });
+  });
+
+  describe('signing', () => {
+    it('produces a BIP340 signature for the tweaked aggregate key', () => {
+      let ctx = musig2.keyAgg(keyPairs.map(k => k.publicKey));
+      ctx = musig2.tweakTaproot(musig2.derivePath(ctx, 'm/7'));
+      const signature = signSession(ctx, MSG);
+      assert.ok(
+        ecc.verifySchnorr(MSG, toXOnly(ctx.aggregatePubkey), signature),
+      );
+    });
+
+    it('signs and verifies as the BIP327 vectors', () => {
+      const privateKey = tools.fromHex(SIGN.privateKey);
+      const aggNonce = tools.fromHex(SIGN.aggNonce);
+      const msg = tools.fromHex(SIGN.msg);
+      assert.strictEqual(
+        tools.toHex(musig2.nonceAgg(SIGN.pubNonces)),
+        SIGN.aggNonce,
+      );
+      [
+        [
+          [0, 1, 2],
+          '012abbcb52b3016ac03ad82395a1a415c48b93def78718e62a7a90052fe224fb',
+        ],
+        [
+          [1, 0, 2],
+          '9ff2f7aaa856150cc8819254218d3adeeb0535269051897724f9db3789513a52',
+        ],
+        [
+          [1, 2, 0],
+          'fa23c359f6fac4e7796bb93bc9f0532a95468c539ba20ff86d7c76ed92227900',
+        ],
+      ].forEach(([indexes, expected]) => {
+        const ctx = musig2.keyAgg(
+          (indexes as number[]).map(i => SIGN.publicKeys[i]),
+        );
+        const secNonce = tools.concat([
+          tools.fromHex(SIGN.secNonce),
+          SIGN.publicKeys[0],
+        ]);
+        const partialSig = musig2.partialSign(
+          secNonce,
+          privateKey,
+          aggNonce,
+          ctx,
+          msg,
+        );
+        assert.strictEqual(tools.toHex(partialSig), expected);
+
+        const verify = (sig: Uint8Array): boolean =>
+          musig2.partialVerify(
+            sig,
+            SIGN.pubNonces[0],
+            SIGN.publicKeys[0],
+            aggNonce,
+            ctx,
+            msg,
+          );
+        assert.ok(verify(partialSig));
+        // the negation of a valid signature, and a value exceeding the order
+        const negated = (N - BigInt('0x' + expected)).toString(16);
+        assert.ok(!verify(tools.fromHex(negated.padStart(64, '0'))));
+        assert.ok(!verify(new Uint8Array(32).fill(0xff)));
+      });
+    });
+
+    it('does not reuse secret nonces', () => {
+      const [k] = keyPairs;
+      const ctx = musig2.keyAgg([k.publicKey]);
+      const { secNonce, pubNonce } = musig2.nonceGen(k.publicKey);
+      const aggNonce = musig2.nonceAgg([pubNonce]);
+      const partialSig = musig2.partialSign(
+        secNonce,
+        k.privateKey!,
+        aggNonce,
+        ctx,
+        MSG,
+      );
+      assert.throws(
+        () => musig2.partialSign(secNonce, k.privateKey!, aggNonce, ctx, MSG),
+        /Invalid secret nonce, it may have been used already/,
+      );
+      assert.ok(
+        !musig2.partialVerify(
+          partialSig,
+          pubNonce,
+          k.publicKey,
+          aggNonce,
+          ctx,
+          new Uint8Array(32),
+        ),
+      );
+    });
+
+    it('rejects keys that do not belong to the session', () => {
+      const [k1, k2] = keyPairs;
+      const ctx = musig2.keyAgg([k1.publicKey]);
+      const { secNonce, pubNonce } = musig2.nonceGen(k2.publicKey);
+      assert.throws(
+        () =>
+          musig2.partialSign(
+            secNonce,
+            k1.privateKey!,
+            musig2.nonceAgg([pubNonce]),
+            ctx,
+            MSG,
+          ),
+        /Secret nonce does not belong to the private key/,
+      );
+      assert.throws(
+        () =>
+          musig2.partialSign(
+            secNonce,
+            k2.privateKey!,
+            musig2.nonceAgg([pubNonce]),
+            ctx,
+            MSG,
+          ),
+        /Public key is not a participant of the aggregate key/,
+      );
+      assert.throws(
+        () => musig2.nonceAgg([pubNonce.subarray(1)]),
+        /Invalid public nonce/,
+      );
+    });
+  });
+
+  describe('Psbt', () => {
+    let signers: musig2.Musig2Signer[];
+    let pubkeys: Uint8Array[];
+
+    before(() => {
+      signers = keyPairs.map(k => musig2.createSigner(k.privateKey!));
+      pubkeys = signers.map(s => s.publicKey);
+    });
+
+    function createPsbt(
+      internalPubkey: Uint8Array,
+      update: Record<string, any> = {},
+    ): { psbt: Psbt; output: Uint8Array } {
+      const leaf = { output: tools.fromHex('51') };
+      const p2tr = payments.p2tr({ internalPubkey, scriptTree: leaf });
+      const psbt = new Psbt();
+      psbt.addInput({
+        hash: new Uint8Array(32),
+        index: 0,
+        witnessUtxo: { script: p2tr.output!, value: VALUE },
+        tapInternalKey: internalPubkey,
+        tapMerkleRoot: p2tr.hash,
+        ...update,
+      });
+      psbt.addOutput({ script: p2tr.output!, value: VALUE - 1000n });
+      return { psbt, output: p2tr.output! };
+    }
+
+    function signAndFinalize(psbt: Psbt): void {
+      psbt.addMusig2Participants(0, pubkeys);
+      // every participant adds its nonce and signature to its own copy
+      psbt.combine(...signers.map(s => psbt.clone().generateMusig2Nonce(0, s)));
+      psbt.combine(...signers.map(s => psbt.clone().signMusig2Input(0, s)));
+      psbt.finalizeAllInputs();
+    }
+
+    it('spends the key path of an aggregate internal key', () => {
+      const ctx = musig2.keyAgg(pubkeys);
+      const { psbt, output } = createPsbt(toXOnly(ctx.aggregatePubkey));
+      psbt.addMusig2Participants(0, pubkeys);
+      psbt.generateMusig2Nonce(0, signers[0]);
+
+      const fields = Psbt.fromBase64(psbt.toBase64()).getMusig2Fields(0);
+      assert.deepStrictEqual(fields.musig2ParticipantPubkeys, [
+        { aggregatePubkey: ctx.aggregatePubkey, participantPubkeys: pubkeys },
+      ]);
+      assert.strictEqual(fields.musig2PubNonces.length, 1);
+      assert.deepStrictEqual(
+        fields.musig2PubNonces[0].participantPubkey,
+        pubkeys[0],
+      );
+      assert.throws(
+        () => psbt.signMusig2Input(0, signers[0]),
+        new RegExp(`Missing MuSig2 public nonce of ${tools.toHex(pubkeys[1])}`),
+      );
+
+      signAndFinalize(psbt);
+      assert.deepStrictEqual(psbt.getMusig2Fields(0), {
+        musig2ParticipantPubkeys: [],
+        musig2PubNonces: [],
+        musig2PartialSigs: [],
+      });
+      assert.deepStrictEqual(
+        interpreter.verifyInput(psbt.extractTransaction(), 0, [
+          { script: output, value: VALUE },
+        ]),
+        { success: true },
+      );
+    });
+
+    it('spends the key path of a derived aggregate key', () => {
+      const ctx = musig2.keyAgg(pubkeys);
+      const internalPubkey = toXOnly(
+        musig2.derivePath(ctx, 'm/0/5').aggregatePubkey,
+      );
+      const { psbt, output } = createPsbt(internalPubkey, {
+        tapBip32Derivation: [
+          {
+            masterFingerprint: crypto.hash160(ctx.aggregatePubkey).slice(0, 4),
+            pubkey: internalPubkey,
+            path: 'm/0/5',
+            leafHashes: [],
+          },
+        ],
+      });
+
+      // nonces and partial signatures are keyed by the derived aggregate
+      // key, before the taproot tweak (BIP373)
+      const signed = psbt.clone().addMusig2Participants(0, pubkeys);
+      signed.combine(
+        ...signers.map(s => signed.clone().generateMusig2Nonce(0, s)),
+      );
+      signed.signMusig2Input(0, signers[0]);
+      const { musig2PubNonces, musig2PartialSigs } = signed.getMusig2Fields(0);
+      assert.strictEqual(musig2PubNonces.length, 3);
+      assert.strictEqual(musig2PartialSigs.length, 1);
+      [...musig2PubNonces, ...musig2PartialSigs].forEach(field =>
+        assert.deepStrictEqual(
+          field.aggregatePubkey,
+          musig2.derivePath(ctx, 'm/0/5').aggregatePubkey,
+        ),
+      );
+
+      signAndFinalize(psbt);
+      assert.deepStrictEqual(
+        interpreter.verifyInput(psbt.extractTransaction(), 0, [
+          { script: output, value: VALUE },
+        ]),
+        { success: true },
+      );
+    });
+
+    it('only signs for participants of the internal key', () => {
+      const { psbt } = createPsbt(
+        toXOnly(musig2.keyAgg(pubkeys).aggregatePubkey),
+      );
+      psbt.addMusig2Participants(0, pubkeys.slice(1));
+      const outsider = musig2.createSigner(new Uint8Array(32).fill(9));
+      [signers[0], signers[1], outsider].forEach(signer =>
+        assert.throws(
+          () => psbt.generateMusig2Nonce(0, signer),
+          /Can not sign for input #0 with the MuSig2 participant key/,
+        ),
+      );
+      assert.throws(
+        () =>
+          signers[0].musig2PartialSign({
+            pubNonce: new Uint8Array(66),
+            aggNonce: new Uint8Array(66),
+            keyAggContext: musig2.keyAgg(pubkeys),
+            msg: MSG,
+          }),
+        /Unknown or used public nonce/,
+      );
+    });
+  });
+});
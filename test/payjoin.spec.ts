@@ -0,0 +1,387 @@
+import * as assert from 'assert';
+import * as ecc from 'tiny-secp256k1';
+import ECPairFactory from 'ecpair';
+import { before, describe, it } from 'mocha';
+import {
+  coinselect,
+  CoinSelectUtxo,
+  initEccLib,
+  payjoin,
+  PayjoinParams,
+  PayjoinTransport,
+  payments,
+  ProposalOpts,
+  Psbt,
+} from 'bitcoinjs-lib';
+
+const ECPair = ECPairFactory(ecc);
+
+const sender = ECPair.fromPrivateKey(new Uint8Array(32).fill(1));
+const receiver = ECPair.fromPrivateKey(new Uint8Array(32).fill(2));
+const senderPayment = payments.p2wpkh({ pubkey: sender.publicKey });
+const receiverPayment = payments.p2wpkh({ pubkey: receiver.publicKey });
+const change = payments.p2wpkh({
+  pubkey: ECPair.fromPrivateKey(new Uint8Array(32).fill(9)).publicKey,
+});
+const paymentScript = receiverPayment.output!;
+const PARAMS: PayjoinParams = {
+  additionalFeeOutputIndex: 1,
+  maxAdditionalFeeContribution: 1000n,
+};
+
+const receiverUtxo: CoinSelectUtxo = {
+  hash: new Uint8Array(32).fill(0xbb),
+  index: 1,
+  value: 20000n,
+  payment: receiverPayment,
+};
+
+// pays 30000 sats to the receiver, at a fee of 1000 sats
+function senderPsbt(): Psbt {
+  const psbt = new Psbt();
+  psbt.addInput({
+    hash: new Uint8Array(32).fill(0xaa),
+    index: 0,
+    sequence: 0xfffffffd,
+    witnessUtxo: { script: senderPayment.output!, value: 100000n },
+    bip32Derivation: [],
+  });
+  psbt.addOutput({ script: paymentScript, value: 30000n });
+  psbt.addOutput({
+    script: change.output!,
+    value: 69000n,
+    bip32Derivation: [
+      {
+        masterFingerprint: new Uint8Array(4),
+        pubkey: change.pubkey!,
+        path: 'm/1/0',
+      },
+    ],
+  });
+  return psbt.signAllInputs(sender);
+}
+
+function propose(
+  original: Psbt,
+  opts: Partial<ProposalOpts> = {},
+): Promise<Psbt> {
+  return payjoin.createProposal({
+    original,
+    params: PARAMS,
+    paymentScript,
+    utxos: [receiverUtxo],
+    signInputs: (psbt, indexes) => {
+      indexes.forEach(i => psbt.signInput(i, receiver).finalizeInput(i));
+    },
+    random: () => 0,
+    ...opts,
+  });
+}
+
+// a proposal built by hand, spending the receiver input first
+function forgeProposal(
+  outputs: Array<{ script: Uint8Array; value: bigint }>,
+): Psbt {
+  const psbt = new Psbt();
+  psbt.addInput({
+    ...coinselect.toPsbtInput(receiverUtxo),
+    sequence: 0xfffffffd,
+  });
+  psbt.addInput({
+    hash: new Uint8Array(32).fill(0xaa),
+    index: 0,
+    sequence: 0xfffffffd,
+  });
+  psbt.addOutputs(outputs);
+  return psbt.signInput(0, receiver).finalizeInput(0);
+}
+
+function signProposal(proposal: Psbt): Psbt {
+  proposal.signAllInputs(sender);
+  proposal.data.inputs.forEach((input, i) => {
+    if (!input.finalScriptWitness) proposal.finalizeInput(i);
+  });
+  return proposal;
+}
+
+// the receiver endpoint, in memory
+function localTransport(opts: Partial<ProposalOpts> = {}): PayjoinTransport {
+  return {
+    post: (url, body) =>
+      propose(Psbt.fromBase64(body), {
+        params: payjoin.decodeParams(url.slice(url.indexOf('?'))),
+        ...opts,
+      }).then(proposal => proposal.toBase64()),
+  };
+}
+
+describe('payjoin', () => {
+  before(() => {
+    initEccLib(ecc);
+  });
+
+  it('encodes and decodes the request parameters', () => {
+    const params: PayjoinParams = {
+      ...PARAMS,
+      disableOutputSubstitution: true,
+      minFeeRate: 1.5,
+    };
+    const query = payjoin.encodeParams(params);
+    assert.strictEqual(
+      query,
+      'v=1&additionalfeeoutputindex=1&maxadditionalfeecontribution=1000&disableoutputsubstitution=true&minfeerate=1.5',
+    );
+    assert.deepStrictEqual(payjoin.decodeParams(`?${query}`), params);
+    assert.deepStrictEqual(
+      payjoin.decodeParams('additionalfeeoutputindex=1&foo=bar'),
+      {},
+    );
+    [
+      ['v=2', /Unsupported payjoin version: 2/],
+      ['minfeerate=-1', /Invalid payjoin parameter: minfeerate/],
+      [
+        'additionalfeeoutputindex=0&maxadditionalfeecontribution=1.5',
+        /Invalid payjoin parameter: maxadditionalfeecontribution/,
+      ],
+      [
+        'disableoutputsubstitution=1',
+        /Invalid payjoin parameter: disableoutputsubstitution/,
+      ],
+    ].forEach(([query, error]) =>
+      assert.throws(() => payjoin.decodeParams(query as string), error),
+    );
+  });
+
+  it('creates the original Psbt', () => {
+    const original = payjoin.createOriginalPsbt(senderPsbt());
+    assert.ok(original.data.inputs[0].finalScriptWitness);
+    assert.strictEqual(original.data.outputs[1].bip32Derivation, undefined);
+
+    const p2pkh = payments.p2pkh({ pubkey: sender.publicKey });
+    const psbt = new Psbt();
+    psbt.addInput({
+      hash: new Uint8Array(32),
+      index: 0,
+      witnessUtxo: { script: p2pkh.output!, value: 1000n },
+      finalScriptSig: new Uint8Array(1),
+    });
+    psbt.addInput({
+      hash: new Uint8Array(32),
+      index: 1,
+      witnessUtxo: { script: senderPayment.output!, value: 1000n },
+      finalScriptWitness: new Uint8Array(1),
+    });
+    assert.throws(
+      () => payjoin.createOriginalPsbt(psbt),
+      /Inputs of the original Psbt must all be of the same script type/,
+    );
+  });
+
+  it('pays the receiver with a payjoin', async () => {
+    const psbt = senderPsbt();
+    const proposal = await payjoin.requestPayjoin({
+      psbt,
+      url: 'https://example.com/pj',
+      paymentScript,
+      params: PARAMS,
+      transport: localTransport(),
+    });
+    assert.strictEqual(proposal.txInputs.length, 2);
+    assert.deepStrictEqual(proposal.data.inputs[1].witnessUtxo, {
+      script: senderPayment.output,
+      value: 100000n,
+    });
+    const tx = signProposal(proposal).extractTransaction();
+    const original = payjoin.createOriginalPsbt(psbt);
+    const originalFeeRate = original.getFeeRate();
+
+    // the sender pays the original fee rate of the added input
+    const fee = proposal.getFee();
+    const contribution = 69000n - tx.outs[1].value;
+    assert.ok(contribution > 0n && contribution <= 1000n);
+    assert.strictEqual(fee, 1000n + contribution);
+    assert.strictEqual(tx.outs[0].value, 50000n);
+    assert.ok(proposal.getFeeRate() >= originalFeeRate);
+    proposal
+      .verifyAllInputs()
+      .forEach(result => assert.deepStrictEqual(result, { success: true }));
+  });
+
+  it('lets the receiver substitute its output unless disabled', async () => {
+    const outputScript = payments.p2wpkh({
+      pubkey: ECPair.fromPrivateKey(new Uint8Array(32).fill(3)).publicKey,
+    }).output!;
+    const original = payjoin.createOriginalPsbt(senderPsbt());
+    const proposal = await propose(original, { outputScript });
+    const checked = payjoin.checkProposal({
+      psbt: senderPsbt(),
+      proposal,
+      paymentScript,
+      params: PARAMS,
+    });
+    assert.deepStrictEqual(checked.txOutputs[0].script, outputScript);
+    assert.throws(
+      () =>
+        payjoin.checkProposal({
+          psbt: senderPsbt(),
+          proposal,
+          paymentScript,
+          params: { ...PARAMS, disableOutputSubstitution: true },
+        }),
+      /Proposal removed output #0/,
+    );
+    await assert.rejects(
+      propose(original, {
+        outputScript,
+        params: { disableOutputSubstitution: true },
+      }),
+      /Output substitution is disabled/,
+    );
+  });
+
+  it('pays the minimum fee rate of the sender', async () => {
+    const params = { ...PARAMS, minFeeRate: 20 };
+    const proposal = await propose(payjoin.createOriginalPsbt(senderPsbt()), {
+      params,
+    });
+    const checked = payjoin.checkProposal({
+      psbt: senderPsbt(),
+      proposal,
+      paymentScript,
+      params,
+    });
+    assert.ok(signProposal(checked).getFeeRate() >= 20);
+    assert.throws(
+      () =>
+        payjoin.checkProposal({
+          psbt: senderPsbt(),
+          proposal,
+          paymentScript,
+          params: { ...params, minFeeRate: 30 },
+        }),
+      /Proposal fee rate of \d+\.\d+ is below the minimum of 30/,
+    );
+  });
+
+  it('rejects proposals taking too much from the sender', async () => {
+    const original = payjoin.createOriginalPsbt(senderPsbt());
+    const proposal = await propose(original);
+    [
+      [
+        { additionalFeeOutputIndex: 1, maxAdditionalFeeContribution: 10n },
+        /Fee contribution of \d+ exceeds the maximum of 10/,
+      ],
+      [{}, /Proposal decreased output #1/],
+    ].forEach(([params, error]) =>
+      assert.throws(
+        () =>
+          payjoin.checkProposal({
+            psbt: senderPsbt(),
+            proposal,
+            paymentScript,
+            params: params as PayjoinParams,
+          }),
+        error as RegExp,
+      ),
+    );
+
+    [
+      [
+        [
+          { script: paymentScript, value: 50000n },
+          { script: change.output!, value: 68100n },
+        ],
+        /Fee contribution of 900 exceeds the fee of the added inputs of \d+/,
+      ],
+      [
+        [
+          { script: paymentScript, value: 50000n },
+          { script: change.output!, value: 68900n },
+          { script: paymentScript, value: 100n },
+        ],
+        /Proposal added an output/,
+      ],
+      [
+        [{ script: paymentScript, value: 50000n }],
+        /Proposal removed output #1/,
+      ],
+    ].forEach(([outputs, error]) =>
+      assert.throws(
+        () =>
+          payjoin.checkProposal({
+            psbt: senderPsbt(),
+            proposal: forgeProposal(outputs as any),
+            paymentScript,
+            params: PARAMS,
+          }),
+        error as RegExp,
+      ),
+    );
+  });
+
+  it('rejects proposals with invalid inputs', async () => {
+    const original = payjoin.createOriginalPsbt(senderPsbt());
+    const check = (proposal: Psbt): Psbt =>
+      payjoin.checkProposal({
+        psbt: senderPsbt(),
+        proposal,
+        paymentScript,
+        params: PARAMS,
+      });
+
+    const proposal = await propose(original);
+    const keypaths = proposal.clone().updateInput(1, {
+      bip32Derivation: [
+        {
+          masterFingerprint: new Uint8Array(4),
+          pubkey: sender.publicKey,
+          path: 'm/0',
+        },
+      ],
+    });
+    assert.throws(
+      () => check(keypaths),
+      /Proposal input #1 of the sender is not blank/,
+    );
+
+    const owned = await propose(original, {
+      utxos: [{ ...receiverUtxo, payment: senderPayment }],
+      signInputs: (psbt, indexes) => {
+        indexes.forEach(i => psbt.signInput(i, sender).finalizeInput(i));
+      },
+    });
+    assert.throws(
+      () => check(owned),
+      /Proposal input #0 is owned by the sender/,
+    );
+
+    await assert.rejects(
+      propose(original, { signInputs: () => undefined }),
+      /Input #0 of the receiver is not finalized/,
+    );
+    await assert.rejects(
+      propose(original, {
+        utxos: [
+          {
+            ...receiverUtxo,
+            payment: payments.p2pkh({ pubkey: receiver.publicKey }),
+          },
+        ],
+      }),
+      /UTXO #0 is not of the type of the sender inputs/,
+    );
+    const psbt = senderPsbt();
+    await assert.rejects(
+      propose(psbt),
+      /Input #0 of the original Psbt is not finalized/,
+    );
+    await assert.rejects(
+      propose(original, { isOwned: () => true }),
+      /Input #0 of the original Psbt is owned by the receiver/,
+    );
+    await assert.rejects(
+      propose(original, { paymentScript: change.output! }),
+      /Additional fee output can not be the payment output/,
+    );
+  });
+});
@@ -14,6 +14,7 @@ const {
   p2wpkh,
   p2wsh,
   p2tr,
+  p2cs,
 } = payments;
 
 import embedFixtures from './fixtures/embed.json';
@@ -24,6 +25,7 @@ import p2shFixtures from './fixtures/p2sh.json';
 import p2wpkhFixtures from './fixtures/p2wpkh.json';
 import p2wshFixtures from './fixtures/p2wsh.json';
 import p2trFixtures from './fixtures/p2tr.json';
+import p2csFixtures from './fixtures/p2cs.json';
 
 let testSuite: {
   paymentName: string;
@@ -70,6 +72,11 @@ let testSuite: {
     fixtures: p2trFixtures,
     payment: p2tr,
   },
+  {
+    paymentName: 'p2cs',
+    fixtures: p2csFixtures,
+    payment: p2cs,
+  },
 ];
 
 testSuite.forEach(p => {
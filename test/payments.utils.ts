@@ -1,9 +1,14 @@
 import * as t from 'assert';
 import * as BNETWORKS from 'bitcoinjs-lib/src/networks';
+import * as PIVX from 'bitcoinjs-lib/pivx';
 import * as bscript from 'bitcoinjs-lib/src/script';
 import * as tools from 'uint8array-tools';
 import { isTaptree } from 'bitcoinjs-lib/src/types';
 
+function getNetwork(name: string): any {
+  return (BNETWORKS as any)[name] || (PIVX as any)[name];
+}
+
 function tryHex(x: Uint8Array | Uint8Array[]): string | string[] {
   if (x instanceof Uint8Array) return tools.toHex(x);
   if (Array.isArray(x)) return x.map(tryHex) as string[];
@@ -81,19 +86,35 @@ export function equate(a: any, b: any, args?: any): void {
   equateBase(a, b, '');
   if (b.redeem) equateBase(a.redeem, b.redeem, 'redeem.');
   if (b.network)
-    t.deepStrictEqual(
-      a.network,
-      (BNETWORKS as any)[b.network],
-      'Inequal *.network',
-    );
+    t.deepStrictEqual(a.network, getNetwork(b.network), 'Inequal *.network');
 
   // contextual
   if (b.signature === null) b.signature = undefined;
+  if (b.isStaker === null) b.isStaker = undefined;
   if (b.signatures === null) b.signatures = undefined;
   if ('address' in b) t.strictEqual(a.address, b.address, 'Inequal *.address');
   if ('name' in b) t.strictEqual(a.name, b.name, 'Inequal *.name');
   if ('hash' in b)
     t.strictEqual(tryHex(a.hash), tryHex(b.hash), 'Inequal *.hash');
+  if ('stakerHash' in b)
+    t.strictEqual(
+      tryHex(a.stakerHash),
+      tryHex(b.stakerHash),
+      'Inequal *.stakerHash',
+    );
+  if ('ownerHash' in b)
+    t.strictEqual(
+      tryHex(a.ownerHash),
+      tryHex(b.ownerHash),
+      'Inequal *.ownerHash',
+    );
+  if ('stakerAddress' in b)
+    t.strictEqual(a.stakerAddress, b.stakerAddress, 'Inequal *.stakerAddress');
+  if ('ownerAddress' in b)
+    t.strictEqual(a.ownerAddress, b.ownerAddress, 'Inequal *.ownerAddress');
+  if ('lof' in b) t.strictEqual(a.lof, b.lof, 'Inequal *.lof');
+  if ('isStaker' in b)
+    t.strictEqual(a.isStaker, b.isStaker, 'Inequal *.isStaker');
   if ('pubkey' in b)
     t.strictEqual(tryHex(a.pubkey), tryHex(b.pubkey), 'Inequal *.pubkey');
   if ('internalPubkey' in b)
@@ -129,7 +150,7 @@ export function equate(a: any, b: any, args?: any): void {
 export function preform(x: any): any {
   x = Object.assign({}, x);
 
-  if (x.network) x.network = (BNETWORKS as any)[x.network];
+  if (x.network) x.network = getNetwork(x.network);
   if (typeof x.inputHex === 'string') {
     x.input = Buffer.from(x.inputHex, 'hex');
     delete x.inputHex;
@@ -144,6 +165,8 @@ export function preform(x: any): any {
 
   if (x.data) x.data = x.data.map(fromHex);
   if (x.hash) x.hash = Buffer.from(x.hash, 'hex');
+  if (x.stakerHash) x.stakerHash = Buffer.from(x.stakerHash, 'hex');
+  if (x.ownerHash) x.ownerHash = Buffer.from(x.ownerHash, 'hex');
   if (x.pubkey) x.pubkey = Buffer.from(x.pubkey, 'hex');
   if (x.internalPubkey) x.internalPubkey = Buffer.from(x.internalPubkey, 'hex');
   if (x.signature) x.signature = Buffer.from(x.signature, 'hex');
@@ -160,8 +183,7 @@ export function preform(x: any): any {
       x.redeem.output = asmToBuffer(x.redeem.output);
     if (Array.isArray(x.redeem.witness))
       x.redeem.witness = x.redeem.witness.map(fromHex);
-    if (x.redeem.network)
-      x.redeem.network = (BNETWORKS as any)[x.redeem.network];
+    if (x.redeem.network) x.redeem.network = getNetwork(x.redeem.network);
   }
 
   if (x.scriptTree) x.scriptTree = convertScriptTree(x.scriptTree);
@@ -2,15 +2,26 @@ import * as assert from 'assert';
 import { describe, it } from 'mocha';
 import * as tools from 'uint8array-tools';
 import bs58check from 'bs58check';
-import { script as bscript } from 'bitcoinjs-lib';
+import {
+  address as baddress,
+  networks,
+  payments,
+  script as bscript,
+} from 'bitcoinjs-lib';
 import {
   pivx,
+  pivxTestnet,
+  pivxRegtest,
+  detectPivxNetwork,
   parsePivxBase58Address,
   encodePivxAddress,
   encodePivxExchangeAddress,
   encodePivxStakingAddress,
   pivxAddressToOutputScript,
   toOutputScript,
+  fromOutputScript,
+  isPivxNetwork,
+  pivxOutputScriptToAddress,
 } from 'bitcoinjs-lib/pivx';
 
 describe('PIVX Address Support', () => {
@@ -20,126 +31,126 @@ describe('PIVX Address Support', () => {
       // This is a test vector in production you'd use real PIVX addresses
       const hash = new Uint8Array(20);
       hash.fill(0x12); // Dummy hash for testing
-      
+
       const address = encodePivxAddress(hash, 0x1e);
       assert.ok(address.startsWith('D'), 'P2PKH address should start with D');
-      
+
       const parsed = parsePivxBase58Address(address, pivx);
       assert.strictEqual(parsed.type, 'p2pkh');
       assert.strictEqual(parsed.version, 0x1e);
       assert.deepStrictEqual(parsed.hash, hash);
     });
-    
+
     it('should parse a PIVX P2SH address', () => {
       const hash = new Uint8Array(20);
       hash.fill(0x34);
-      
+
       const address = encodePivxAddress(hash, 0x0d);
       const parsed = parsePivxBase58Address(address, pivx);
-      
+
       assert.strictEqual(parsed.type, 'p2sh');
       assert.strictEqual(parsed.version, 0x0d);
       assert.deepStrictEqual(parsed.hash, hash);
     });
-    
+
     it('should parse a PIVX staking address (S-prefix)', () => {
       const hash = new Uint8Array(20);
       hash.fill(0x56);
-      
+
       const address = encodePivxStakingAddress(hash, pivx);
       assert.ok(address.startsWith('S'), 'Staking address should start with S');
-      
+
       const parsed = parsePivxBase58Address(address, pivx);
       assert.strictEqual(parsed.type, 'staking');
       assert.strictEqual(parsed.version, 0x3f);
       assert.deepStrictEqual(parsed.hash, hash);
     });
-    
+
     it('should parse a PIVX exchange address (EX-prefix, 3-byte version)', () => {
       const hash = new Uint8Array(20);
       hash.fill(0x78);
-      
+
       const address = encodePivxExchangeAddress(hash, pivx);
       assert.ok(
         address.startsWith('EX'),
         'Exchange address should start with EX',
       );
-      
+
       const parsed = parsePivxBase58Address(address, pivx);
       assert.strictEqual(parsed.type, 'exchange');
       assert.deepStrictEqual(parsed.version, [0x01, 0xb9, 0xa2]);
       assert.deepStrictEqual(parsed.hash, hash);
     });
-    
+
     it('should throw on unknown prefix', () => {
       // Create an address with an invalid PIVX prefix
       const hash = new Uint8Array(20);
       hash.fill(0xaa);
       const address = encodePivxAddress(hash, 0xff); // Invalid prefix
-      
+
       assert.throws(
         () => parsePivxBase58Address(address, pivx),
         /Unknown PIVX address prefix/,
       );
     });
-    
+
     it('should throw on invalid checksum', () => {
       assert.throws(
         () => parsePivxBase58Address('InvalidBase58!@#', pivx),
         /Invalid checksum|Non-base58 character/,
       );
     });
-    
+
     it('should throw on invalid hash length', () => {
       // Create address with wrong hash length
       const shortHash = new Uint8Array(10); // Should be 20 bytes
       const payload = new Uint8Array(11);
       payload[0] = 0x1e;
       payload.set(shortHash, 1);
-      
+
       // We need to manually encode to bypass the length check in encodePivxAddress
       const invalidAddress = bs58check.encode(payload);
-      
+
       assert.throws(
         () => parsePivxBase58Address(invalidAddress, pivx),
         /Invalid hash length|Address payload too short/,
       );
     });
   });
-  
+
   describe('encodePivxAddress', () => {
     it('should encode with single-byte version prefix', () => {
       const hash = tools.fromHex('1234567890abcdef1234567890abcdef12345678');
       const address = encodePivxAddress(hash, 0x1e);
-      
+
       assert.ok(typeof address === 'string');
       assert.ok(address.length > 20);
-      
+
       // Verify round-trip
       const parsed = parsePivxBase58Address(address, pivx);
       assert.deepStrictEqual(parsed.hash, hash);
       assert.strictEqual(parsed.version, 0x1e);
     });
-    
+
     it('should encode with multi-byte version prefix', () => {
       const hash = tools.fromHex('fedcba0987654321fedcba0987654321fedcba09');
       const address = encodePivxAddress(hash, [0x01, 0xb9, 0xa2]);
-      
+
       assert.ok(typeof address === 'string');
-      
+
       // Verify round-trip
       const parsed = parsePivxBase58Address(address, pivx);
       assert.deepStrictEqual(parsed.hash, hash);
       assert.deepStrictEqual(parsed.version, [0x01, 0xb9, 0xa2]);
     });
-    
+
     it('should throw on invalid hash length', () => {
       const shortHash = new Uint8Array(10);
       assert.throws(
         () => encodePivxAddress(shortHash, 0x1e),
         /Hash must be 20 bytes/,
       );
-      
+
       const longHash = new Uint8Array(30);
       assert.throws(
         () => encodePivxAddress(longHash, 0x1e),
@@ -147,39 +158,39 @@ describe('PIVX Address Support', () => {
       );
     });
   });
-  
+
   describe('encodePivxExchangeAddress', () => {
     it('should create exchange address with correct prefix', () => {
       const hash = new Uint8Array(20);
       hash.fill(0x99);
-      
+
       const address = encodePivxExchangeAddress(hash, pivx);
       assert.ok(address.startsWith('EX'));
-      
+
       const parsed = parsePivxBase58Address(address, pivx);
       assert.strictEqual(parsed.type, 'exchange');
       assert.deepStrictEqual(parsed.hash, hash);
     });
   });
-  
+
   describe('encodePivxStakingAddress', () => {
     it('should create staking address with correct prefix', () => {
       const hash = new Uint8Array(20);
       hash.fill(0xbb);
-      
+
       const address = encodePivxStakingAddress(hash, pivx);
       assert.ok(address.startsWith('S'));
-      
+
       const parsed = parsePivxBase58Address(address, pivx);
       assert.strictEqual(parsed.type, 'staking');
       assert.deepStrictEqual(parsed.hash, hash);
     });
   });
-  
+
   describe('Real-world test vectors', () => {
     // These test vectors can be generated using PIVX Core wallet
     // For now, we use constructed examples
-    
+
     it('should handle multiple different hashes correctly', () => {
       const hashes = [
         tools.fromHex('0000000000000000000000000000000000000000'),
@@ -187,20 +198,20 @@ describe('PIVX Address Support', () => {
         tools.fromHex('1111111111111111111111111111111111111111'),
         tools.fromHex('89abcdef0123456789abcdef0123456789abcdef'),
       ];
-      
+
       hashes.forEach(hash => {
         // Test P2PKH
         const p2pkhAddr = encodePivxAddress(hash, 0x1e);
         const p2pkhParsed = parsePivxBase58Address(p2pkhAddr, pivx);
         assert.strictEqual(p2pkhParsed.type, 'p2pkh');
         assert.deepStrictEqual(p2pkhParsed.hash, hash);
-        
+
         // Test exchange
         const exAddr = encodePivxExchangeAddress(hash, pivx);
         const exParsed = parsePivxBase58Address(exAddr, pivx);
         assert.strictEqual(exParsed.type, 'exchange');
         assert.deepStrictEqual(exParsed.hash, hash);
-        
+
         // Test staking
         const stakingAddr = encodePivxStakingAddress(hash, pivx);
         const stakingParsed = parsePivxBase58Address(stakingAddr, pivx);
@@ -209,34 +220,34 @@ describe('PIVX Address Support', () => {
       });
     });
   });
-  
+
   describe('Edge cases', () => {
     it('should handle all-zero hash', () => {
       const hash = new Uint8Array(20); // All zeros
       const address = encodePivxAddress(hash, 0x1e);
       const parsed = parsePivxBase58Address(address, pivx);
-      
+
       assert.deepStrictEqual(parsed.hash, hash);
     });
-    
+
     it('should handle all-ones hash', () => {
       const hash = new Uint8Array(20);
       hash.fill(0xff);
       const address = encodePivxAddress(hash, 0x1e);
       const parsed = parsePivxBase58Address(address, pivx);
-      
+
       assert.deepStrictEqual(parsed.hash, hash);
     });
-    
+
     it('should differentiate between address types with same hash', () => {
       const hash = new Uint8Array(20);
       hash.fill(0x42);
-      
+
       const p2pkhAddr = encodePivxAddress(hash, 0x1e);
       const p2shAddr = encodePivxAddress(hash, 0x0d);
       const stakingAddr = encodePivxStakingAddress(hash, pivx);
       const exchangeAddr = encodePivxExchangeAddress(hash, pivx);
-      
+
       // All addresses should be different
       assert.notStrictEqual(p2pkhAddr, p2shAddr);
       assert.notStrictEqual(p2pkhAddr, stakingAddr);
@@ -244,7 +255,7 @@ describe('PIVX Address Support', () => {
       assert.notStrictEqual(p2shAddr, stakingAddr);
       assert.notStrictEqual(p2shAddr, exchangeAddr);
       assert.notStrictEqual(stakingAddr, exchangeAddr);
-      
+
       // But they should all decode to the same hash
       assert.deepStrictEqual(
         parsePivxBase58Address(p2pkhAddr, pivx).hash,
@@ -261,14 +272,14 @@ describe('PIVX Address Support', () => {
       );
     });
   });
-  
+
   describe('pivxAddressToOutputScript', () => {
     const testHash = tools.fromHex('1234567890abcdef1234567890abcdef12345678');
-    
+
     it('should generate P2PKH script for D-prefix address', () => {
       const address = encodePivxAddress(testHash, 0x1e);
       const script = pivxAddressToOutputScript(address, pivx);
-      
+
       // P2PKH script: OP_DUP OP_HASH160 <hash> OP_EQUALVERIFY OP_CHECKSIG
       const decompiled = bscript.decompile(script);
       assert.ok(decompiled);
@@ -279,11 +290,11 @@ describe('PIVX Address Support', () => {
       assert.strictEqual(decompiled[3], bscript.OPS.OP_EQUALVERIFY);
       assert.strictEqual(decompiled[4], bscript.OPS.OP_CHECKSIG);
     });
-    
+
     it('should generate P2PKH script for exchange address (EX-prefix)', () => {
       const address = encodePivxExchangeAddress(testHash, pivx);
       const script = pivxAddressToOutputScript(address, pivx);
-      
+
       // Exchange addresses use OP_EXCHANGEADDR (0xe0) + P2PKH script format
       const decompiled = bscript.decompile(script);
       assert.ok(decompiled);
@@ -294,16 +305,16 @@ describe('PIVX Address Support', () => {
       assert.deepStrictEqual(decompiled[3], testHash);
       assert.strictEqual(decompiled[4], bscript.OPS.OP_EQUALVERIFY);
       assert.strictEqual(decompiled[5], bscript.OPS.OP_CHECKSIG);
-      
+
       // Verify script length: 26 bytes
       // 1 (OP_EXCHANGEADDR) + 1 (OP_DUP) + 1 (OP_HASH160) + 1 (push 20) + 20 (hash) + 1 (OP_EQUALVERIFY) + 1 (OP_CHECKSIG)
       assert.strictEqual(script.length, 26);
     });
-    
+
     it('should generate P2PKH script for staking address (S-prefix)', () => {
       const address = encodePivxStakingAddress(testHash, pivx);
       const script = pivxAddressToOutputScript(address, pivx);
-      
+
       // Staking addresses use standard P2PKH script format (no OP_EXCHANGEADDR)
       const decompiled = bscript.decompile(script);
       assert.ok(decompiled);
@@ -313,15 +324,15 @@ describe('PIVX Address Support', () => {
       assert.deepStrictEqual(decompiled[2], testHash);
       assert.strictEqual(decompiled[3], bscript.OPS.OP_EQUALVERIFY);
       assert.strictEqual(decompiled[4], bscript.OPS.OP_CHECKSIG);
-      
+
       // Verify script length: 25 bytes (standard P2PKH)
       assert.strictEqual(script.length, 25);
     });
-    
+
     it('should generate P2SH script for P2SH address', () => {
       const address = encodePivxAddress(testHash, 0x0d);
       const script = pivxAddressToOutputScript(address, pivx);
-      
+
       // P2SH script: OP_HASH160 <hash> OP_EQUAL
       const decompiled = bscript.decompile(script);
       assert.ok(decompiled);
@@ -330,32 +341,41 @@ describe('PIVX Address Support', () => {
       assert.deepStrictEqual(decompiled[1], testHash);
       assert.strictEqual(decompiled[2], bscript.OPS.OP_EQUAL);
     });
-    
+
     it('should produce same script for different address types with same hash', () => {
-      const p2pkhScript = pivxAddressToOutputScript(encodePivxAddress(testHash, 0x1e), pivx);
-      const stakingScript = pivxAddressToOutputScript(encodePivxStakingAddress(testHash, pivx), pivx);
-      const exchangeScript = pivxAddressToOutputScript(encodePivxExchangeAddress(testHash, pivx), pivx);
-      
+      const p2pkhScript = pivxAddressToOutputScript(
+        encodePivxAddress(testHash, 0x1e),
+        pivx,
+      );
+      const stakingScript = pivxAddressToOutputScript(
+        encodePivxStakingAddress(testHash, pivx),
+        pivx,
+      );
+      const exchangeScript = pivxAddressToOutputScript(
+        encodePivxExchangeAddress(testHash, pivx),
+        pivx,
+      );
+
       // P2PKH and staking should produce identical scripts (25 bytes)
       assert.deepStrictEqual(stakingScript, p2pkhScript);
       assert.strictEqual(p2pkhScript.length, 25);
-      
+
       // Exchange script should be different (26 bytes with OP_EXCHANGEADDR)
       assert.notDeepEqual(exchangeScript, p2pkhScript);
       assert.strictEqual(exchangeScript.length, 26);
-      
+
       // Verify exchange script starts with OP_EXCHANGEADDR (0xe0)
       assert.strictEqual(exchangeScript[0], 0xe0);
     });
-    
+
     it('toOutputScript alias should work', () => {
       const address = encodePivxExchangeAddress(testHash, pivx);
       const script1 = pivxAddressToOutputScript(address, pivx);
       const script2 = toOutputScript(address, pivx);
-      
+
       assert.deepStrictEqual(script1, script2);
     });
-    
+
     it('should throw on invalid address', () => {
       assert.throws(
         () => pivxAddressToOutputScript('InvalidAddress', pivx),
@@ -363,4 +383,297 @@ describe('PIVX Address Support', () => {
       );
     });
   });
+
+  describe('fromOutputScript', () => {
+    const hash = tools.fromHex('1234567890abcdef1234567890abcdef12345678');
+
+    [
+      { network: pivx, name: 'mainnet' },
+      { network: pivxTestnet, name: 'testnet' },
+    ].forEach(({ network, name }) => {
+      it(`round-trips regular, P2SH and exchange addresses (${name})`, () => {
+        [
+          encodePivxAddress(hash, network.pivxPrefixes.pubKeyHash),
+          encodePivxAddress(hash, network.pivxPrefixes.scriptHash),
+          encodePivxExchangeAddress(hash, network),
+        ].forEach(address => {
+          const script = toOutputScript(address, network);
+          assert.strictEqual(fromOutputScript(script, network), address);
+        });
+      });
+    });
+
+    it('renders staking address scripts as regular addresses', () => {
+      const script = toOutputScript(encodePivxStakingAddress(hash, pivx), pivx);
+      assert.strictEqual(
+        fromOutputScript(script, pivx),
+        encodePivxAddress(hash, pivx.pivxPrefixes.pubKeyHash),
+      );
+    });
+
+    it('throws for scripts without an address', () => {
+      const script = bscript.fromASM('OP_RETURN 1234');
+      assert.throws(
+        () => fromOutputScript(script, pivx),
+        /OP_RETURN 1234 has no matching Address/,
+      );
+      assert.throws(
+        () =>
+          fromOutputScript(
+            tools.concat([Uint8Array.of(0xe0), Uint8Array.of(0x51)]),
+            pivx,
+          ),
+        /has no matching Address/,
+      );
+    });
+  });
+
+  describe('pivxOutputScriptToAddress', () => {
+    const hash = tools.fromHex('1234567890abcdef1234567890abcdef12345678');
+    const ownerHash = tools.fromHex('abcdef1234567890abcdef1234567890abcdef12');
+
+    it('recognizes P2PKH scripts', () => {
+      const script = payments.p2pkh({ hash }).output!;
+      const result = pivxOutputScriptToAddress(script, pivx);
+      assert.strictEqual(result.type, 'p2pkh');
+      assert.strictEqual(result.scriptType, 'p2pkh');
+      assert.strictEqual(result.version, 0x1e);
+      assert.deepStrictEqual(result.hash, hash);
+      assert.strictEqual(
+        result.address,
+        encodePivxAddress(hash, pivx.pivxPrefixes.pubKeyHash),
+      );
+
+      const staking = pivxOutputScriptToAddress(script, pivx, {
+        preferStaking: true,
+      });
+      assert.strictEqual(staking.type, 'staking');
+      assert.strictEqual(staking.scriptType, 'p2pkh');
+      assert.strictEqual(staking.address, encodePivxStakingAddress(hash, pivx));
+    });
+
+    it('recognizes P2SH scripts', () => {
+      const script = payments.p2sh({ hash }).output!;
+      const result = pivxOutputScriptToAddress(script, pivxTestnet);
+      assert.strictEqual(result.type, 'p2sh');
+      assert.strictEqual(result.version, 0x13);
+      assert.deepStrictEqual(
+        parsePivxBase58Address(result.address, pivxTestnet),
+        { type: 'p2sh', version: 0x13, hash },
+      );
+    });
+
+    it('recognizes exchange scripts', () => {
+      const address = encodePivxExchangeAddress(hash, pivx);
+      const result = pivxOutputScriptToAddress(
+        toOutputScript(address, pivx),
+        pivx,
+        { preferStaking: true },
+      );
+      assert.strictEqual(result.type, 'exchange');
+      assert.strictEqual(result.scriptType, 'exchange');
+      assert.deepStrictEqual(result.version, [0x01, 0xb9, 0xa2]);
+      assert.strictEqual(result.address, address);
+    });
+
+    it('recognizes cold staking scripts', () => {
+      [false, true].forEach(lof => {
+        const { output } = payments.p2cs({
+          stakerHash: hash,
+          ownerHash,
+          lof,
+          network: pivx,
+        });
+
+        const owner = pivxOutputScriptToAddress(output!, pivx);
+        assert.strictEqual(owner.type, 'p2pkh');
+        assert.strictEqual(owner.scriptType, 'p2cs');
+        assert.deepStrictEqual(owner.hash, ownerHash);
+        assert.ok(owner.address.startsWith('D'));
+
+        const staker = pivxOutputScriptToAddress(output!, pivx, {
+          preferStaking: true,
+        });
+        assert.strictEqual(staker.type, 'staking');
+        assert.strictEqual(staker.scriptType, 'p2cs');
+        assert.deepStrictEqual(staker.hash, hash);
+        assert.strictEqual(
+          staker.address,
+          encodePivxStakingAddress(hash, pivx),
+        );
+      });
+    });
+
+    it('throws with the script ASM when nothing matches', () => {
+      const { output } = payments.p2cs({ stakerHash: hash, ownerHash });
+      const broken = Uint8Array.from(output!);
+      broken[4] = bscript.OPS.OP_NOP;
+      assert.throws(
+        () => pivxOutputScriptToAddress(broken, pivx),
+        new RegExp(`^Error: ${bscript.toASM(broken)} has no matching Address$`),
+      );
+      assert.throws(
+        () =>
+          pivxOutputScriptToAddress(payments.p2wpkh({ hash }).output!, pivx),
+        /OP_0 1234567890abcdef1234567890abcdef12345678 has no matching Address/,
+      );
+    });
+  });
+
+  describe('address module with PIVX networks', () => {
+    const hash = tools.fromHex('1234567890abcdef1234567890abcdef12345678');
+
+    it('isPivxNetwork detects PIVX networks', () => {
+      assert.strictEqual(isPivxNetwork(pivx), true);
+      assert.strictEqual(isPivxNetwork(pivxRegtest), true);
+      assert.strictEqual(isPivxNetwork(networks.bitcoin), false);
+      assert.strictEqual(isPivxNetwork(undefined), false);
+    });
+
+    it('converts exchange, staking and regular addresses', () => {
+      [
+        encodePivxAddress(hash, pivx.pivxPrefixes.pubKeyHash),
+        encodePivxStakingAddress(hash, pivx),
+        encodePivxExchangeAddress(hash, pivx),
+      ].forEach(address => {
+        assert.deepStrictEqual(
+          baddress.toOutputScript(address, pivx),
+          pivxAddressToOutputScript(address, pivx),
+        );
+      });
+
+      const exchange = encodePivxExchangeAddress(hash, pivxTestnet);
+      const script = baddress.toOutputScript(exchange, pivxTestnet);
+      assert.strictEqual(
+        baddress.fromOutputScript(script, pivxTestnet),
+        exchange,
+      );
+    });
+
+    it('keeps Bitcoin behaviour for Bitcoin networks', () => {
+      const script = bscript.fromASM(
+        'OP_EXCHANGEADDR OP_DUP OP_HASH160 ' +
+          tools.toHex(hash) +
+          ' OP_EQUALVERIFY OP_CHECKSIG',
+      );
+      assert.throws(
+        () => baddress.fromOutputScript(script),
+        /has no matching Address/,
+      );
+    });
+  });
+
+  describe('PIVX testnet and regtest networks', () => {
+    const hash = tools.fromHex('1234567890abcdef1234567890abcdef12345678');
+
+    it('should encode testnet addresses with PIVX Core prefixes', () => {
+      const p2pkh = encodePivxAddress(
+        hash,
+        pivxTestnet.pivxPrefixes.pubKeyHash,
+      );
+      const staking = encodePivxStakingAddress(hash, pivxTestnet);
+      const exchange = encodePivxExchangeAddress(hash, pivxTestnet);
+
+      assert.ok(/^[xy]/.test(p2pkh), 'P2PKH address should start with x or y');
+      assert.ok(staking.startsWith('W'), 'Staking address should start with W');
+      assert.ok(
+        exchange.startsWith('EXT'),
+        'Exchange address should start with EXT',
+      );
+
+      assert.strictEqual(
+        parsePivxBase58Address(p2pkh, pivxTestnet).type,
+        'p2pkh',
+      );
+      assert.strictEqual(
+        parsePivxBase58Address(staking, pivxTestnet).type,
+        'staking',
+      );
+      const parsedExchange = parsePivxBase58Address(exchange, pivxTestnet);
+      assert.strictEqual(parsedExchange.type, 'exchange');
+      assert.deepStrictEqual(parsedExchange.version, [0x01, 0xb9, 0xb1]);
+      assert.deepStrictEqual(parsedExchange.hash, hash);
+    });
+
+    it('should share prefixes between testnet and regtest', () => {
+      assert.deepStrictEqual(
+        pivxRegtest.pivxPrefixes,
+        pivxTestnet.pivxPrefixes,
+      );
+      assert.deepStrictEqual(pivxRegtest.bip32, pivxTestnet.bip32);
+      assert.strictEqual(pivxRegtest.wif, pivxTestnet.wif);
+    });
+
+    it('should not accept mainnet addresses on testnet', () => {
+      const address = encodePivxStakingAddress(hash, pivx);
+      assert.throws(
+        () => parsePivxBase58Address(address, pivxTestnet),
+        /Unknown PIVX address prefix/,
+      );
+    });
+  });
+
+  describe('detectPivxNetwork', () => {
+    const hash = tools.fromHex('fedcba0987654321fedcba0987654321fedcba09');
+
+    function encodeWif(version: number, compressed: boolean): string {
+      const payload = new Uint8Array(compressed ? 34 : 33);
+      payload[0] = version;
+      payload.fill(0x11, 1, 33);
+      if (compressed) payload[33] = 0x01;
+      return bs58check.encode(payload);
+    }
+
+    it('should detect mainnet addresses of every type', () => {
+      [
+        encodePivxAddress(hash, 0x1e),
+        encodePivxAddress(hash, 0x0d),
+        encodePivxStakingAddress(hash, pivx),
+        encodePivxExchangeAddress(hash, pivx),
+      ].forEach(address => {
+        assert.strictEqual(detectPivxNetwork(address), pivx);
+      });
+    });
+
+    it('should detect testnet addresses of every type', () => {
+      [
+        encodePivxAddress(hash, 0x8b),
+        encodePivxAddress(hash, 0x13),
+        encodePivxStakingAddress(hash, pivxTestnet),
+        encodePivxExchangeAddress(hash, pivxTestnet),
+      ].forEach(address => {
+        assert.strictEqual(detectPivxNetwork(address), pivxTestnet);
+      });
+    });
+
+    it('should detect compressed and uncompressed WIF keys', () => {
+      assert.strictEqual(detectPivxNetwork(encodeWif(0xd4, true)), pivx);
+      assert.strictEqual(detectPivxNetwork(encodeWif(0xd4, false)), pivx);
+      assert.strictEqual(detectPivxNetwork(encodeWif(0xef, true)), pivxTestnet);
+    });
+
+    it('should only report regtest when asked for it', () => {
+      const address = encodePivxStakingAddress(hash, pivxRegtest);
+      assert.strictEqual(detectPivxNetwork(address), pivxTestnet);
+      assert.strictEqual(
+        detectPivxNetwork(address, [pivx, pivxRegtest]),
+        pivxRegtest,
+      );
+    });
+
+    it('should throw for strings that match no PIVX network', () => {
+      assert.throws(
+        () => detectPivxNetwork(encodePivxAddress(hash, 0x00)),
+        /does not match any known PIVX network/,
+      );
+      assert.throws(
+        () => detectPivxNetwork(encodeWif(0x80, true)),
+        /does not match any known PIVX network/,
+      );
+      assert.throws(
+        () => detectPivxNetwork(encodeWif(0xd4, true).slice(0, -1) + '1'),
+        /Invalid checksum/,
+      );
+    });
+  });
 });
@@ -0,0 +1,289 @@
+import * as assert from 'assert';
+import * as ecc from 'tiny-secp256k1';
+import ECPairFactory from 'ecpair';
+import { describe, it } from 'mocha';
+import * as tools from 'uint8array-tools';
+import { Block, payments, script as bscript } from 'bitcoinjs-lib';
+import { PivxBlock, PivxTransaction } from 'bitcoinjs-lib/pivx';
+
+const ECPair = ECPairFactory(ecc);
+
+const validator = (
+  pubkey: Uint8Array,
+  msghash: Uint8Array,
+  signature: Uint8Array,
+): boolean => ECPair.fromPublicKey(pubkey).verify(msghash, signature);
+
+const staker = ECPair.fromPrivateKey(new Uint8Array(32).fill(1));
+const owner = ECPair.fromPrivateKey(new Uint8Array(32).fill(2));
+const DUMMY_SIG = tools.fromHex('300602010102010101');
+
+function filled(length: number, byte: number): Uint8Array {
+  return new Uint8Array(length).fill(byte);
+}
+
+function coinbaseTx(): PivxTransaction {
+  const tx = new PivxTransaction();
+  tx.addInput(new Uint8Array(32), 0xffffffff, 0xffffffff, Uint8Array.of(0x51));
+  tx.addOutput(new Uint8Array(0), 0n);
+  return tx;
+}
+
+function coinStakeTx(
+  scriptSig: Uint8Array,
+  output: Uint8Array,
+): PivxTransaction {
+  const tx = new PivxTransaction();
+  tx.addInput(filled(32, 0xab), 1, 0xffffffff, scriptSig);
+  tx.addOutput(new Uint8Array(0), 0n);
+  tx.addOutput(output, 250n * 100000000n);
+  return tx;
+}
+
+function signBlock(block: PivxBlock, keyPair = staker): void {
+  const der = bscript.signature.encode(keyPair.sign(block.getHash()), 1);
+  block.blockSig = der.subarray(0, -1);
+}
+
+function posBlock(coinStake: PivxTransaction, version: number = 11): PivxBlock {
+  const block = new PivxBlock();
+  block.version = version;
+  block.prevHash = filled(32, 0x11);
+  block.timestamp = 1700000000;
+  block.bits = 0x1e0ffff0;
+  block.nonce = 0;
+  if (block.hasAccumulatorCheckpoint())
+    block.accumulatorCheckpoint = filled(32, 0x22);
+  if (block.hasFinalSaplingRoot()) block.finalSaplingRoot = filled(32, 0x33);
+  block.transactions = [coinbaseTx(), coinStake];
+  block.merkleRoot = Block.calculateMerkleRoot(block.transactions);
+  signBlock(block);
+  return block;
+}
+
+const p2pkStake = (): PivxTransaction =>
+  coinStakeTx(
+    payments.p2pk({ signature: DUMMY_SIG, pubkey: staker.publicKey }).input!,
+    payments.p2pk({ pubkey: staker.publicKey }).output!,
+  );
+const p2pkhStake = (): PivxTransaction =>
+  coinStakeTx(
+    payments.p2pkh({ signature: DUMMY_SIG, pubkey: staker.publicKey }).input!,
+    payments.p2pkh({ pubkey: staker.publicKey }).output!,
+  );
+const p2csOutput = payments.p2cs({
+  stakerHash: payments.p2pkh({ pubkey: staker.publicKey }).hash,
+  ownerHash: payments.p2pkh({ pubkey: owner.publicKey }).hash,
+}).output!;
+const p2csStake = (): PivxTransaction =>
+  coinStakeTx(
+    payments.p2cs({
+      output: p2csOutput,
+      signature: DUMMY_SIG,
+      pubkey: staker.publicKey,
+    }).input!,
+    p2csOutput,
+  );
+
+describe('PivxBlock', () => {
+  describe('headers', () => {
+    [
+      { version: 3, size: 80 },
+      { version: 4, size: 112, accumulatorCheckpoint: true },
+      { version: 6, size: 112, accumulatorCheckpoint: true },
+      { version: 7, size: 80 },
+      { version: 8, size: 112, finalSaplingRoot: true },
+      { version: 11, size: 112, finalSaplingRoot: true },
+    ].forEach(f => {
+      it(`serializes version ${f.version} headers`, () => {
+        const block = posBlock(p2pkhStake(), Math.max(f.version, 4));
+        block.version = f.version;
+        block.accumulatorCheckpoint = filled(32, 0x22);
+        block.finalSaplingRoot = filled(32, 0x33);
+
+        const header = block.toBuffer(true);
+        assert.strictEqual(header.length, f.size);
+        assert.strictEqual(block.byteLength(true), f.size);
+
+        const decoded = PivxBlock.fromBuffer(header);
+        assert.strictEqual(decoded.version, f.version);
+        assert.strictEqual(decoded.transactions, undefined);
+        assert.strictEqual(
+          decoded.accumulatorCheckpoint !== undefined,
+          !!f.accumulatorCheckpoint,
+        );
+        assert.strictEqual(
+          decoded.finalSaplingRoot !== undefined,
+          !!f.finalSaplingRoot,
+        );
+        assert.strictEqual(decoded.toHex(true), tools.toHex(header));
+      });
+    });
+
+    it('hashes the extended header', () => {
+      const block = posBlock(p2pkhStake());
+      assert.strictEqual(block.toBuffer(true).length, 112);
+      const decoded = PivxBlock.fromHex(block.toHex());
+      assert.strictEqual(decoded.getId(), block.getId());
+
+      decoded.finalSaplingRoot = filled(32, 0x44);
+      assert.notStrictEqual(decoded.getId(), block.getId());
+    });
+
+    it('refuses to hash Quark headers', () => {
+      const block = posBlock(p2pkhStake());
+      block.version = 3;
+      assert.throws(() => {
+        block.getHash();
+      }, /Quark hashed block headers \(version < 4\) are not supported/);
+    });
+
+    it('throws on truncated buffers', () => {
+      assert.throws(() => {
+        PivxBlock.fromBuffer(new Uint8Array(79));
+      }, /Buffer too small/);
+    });
+  });
+
+  describe('Proof-of-Stake blocks', () => {
+    it('round-trips with the block signature', () => {
+      const block = posBlock(p2pkhStake());
+      const buffer = block.toBuffer();
+      assert.strictEqual(buffer.length, block.byteLength());
+
+      const decoded = PivxBlock.fromBuffer(buffer);
+      assert.ok(decoded.isProofOfStake());
+      assert.ok(decoded.transactions![0] instanceof PivxTransaction);
+      assert.strictEqual(
+        tools.toHex(decoded.blockSig!),
+        tools.toHex(block.blockSig!),
+      );
+      assert.strictEqual(
+        decoded.getCoinStake()!.getId(),
+        block.transactions![1].getId(),
+      );
+      assert.ok(decoded.checkTxRoots());
+      assert.strictEqual(decoded.toHex(), tools.toHex(buffer));
+    });
+
+    it('serializes an empty signature when it is missing', () => {
+      const block = posBlock(p2pkhStake());
+      block.blockSig = undefined;
+      const decoded = PivxBlock.fromBuffer(block.toBuffer());
+      assert.strictEqual(decoded.blockSig!.length, 0);
+      assert.strictEqual(decoded.checkBlockSignature(validator), false);
+    });
+
+    it('does not read a signature for proof-of-work blocks', () => {
+      const block = posBlock(p2pkhStake());
+      block.transactions = [coinbaseTx()];
+      block.merkleRoot = Block.calculateMerkleRoot(block.transactions);
+      block.blockSig = undefined;
+
+      const decoded = PivxBlock.fromHex(block.toHex());
+      assert.strictEqual(decoded.isProofOfStake(), false);
+      assert.strictEqual(decoded.getCoinStake(), undefined);
+      assert.strictEqual(decoded.getStakingPubkey(), undefined);
+      assert.strictEqual(decoded.blockSig, undefined);
+      assert.strictEqual(decoded.checkBlockSignature(validator), true);
+
+      decoded.blockSig = DUMMY_SIG;
+      assert.strictEqual(decoded.checkBlockSignature(validator), false);
+    });
+
+    it('throws on trailing data', () => {
+      const block = posBlock(p2pkhStake());
+      const buffer = tools.concat([block.toBuffer(), Uint8Array.of(0)]);
+      assert.throws(() => {
+        PivxBlock.fromBuffer(buffer);
+      }, /Block has unexpected data/);
+    });
+  });
+
+  describe('checkBlockSignature', () => {
+    [
+      { description: 'P2PK', coinStake: p2pkStake },
+      { description: 'P2PKH', coinStake: p2pkhStake },
+      { description: 'P2CS', coinStake: p2csStake },
+    ].forEach(f => {
+      it(`verifies ${f.description} coinstakes`, () => {
+        const block = PivxBlock.fromHex(posBlock(f.coinStake()).toHex());
+        assert.strictEqual(
+          tools.toHex(block.getStakingPubkey()!),
+          tools.toHex(staker.publicKey),
+        );
+        assert.strictEqual(block.checkBlockSignature(validator), true);
+
+        signBlock(block, owner);
+        assert.strictEqual(block.checkBlockSignature(validator), false);
+      });
+    });
+
+    it('fails when the header changed after signing', () => {
+      const block = posBlock(p2pkhStake());
+      block.timestamp += 1;
+      assert.strictEqual(block.checkBlockSignature(validator), false);
+    });
+
+    it('accepts signatures that are not strict DER, as PIVX Core', () => {
+      const block = posBlock(p2pkhStake());
+      const signature = staker.sign(block.getHash());
+      const integer = (x: Uint8Array): Uint8Array =>
+        tools.concat([Uint8Array.of(0x02, 33, 0), x]);
+      // a long form length and zero padded integers
+      block.blockSig = tools.concat([
+        Uint8Array.of(0x30, 0x81, 70),
+        integer(signature.subarray(0, 32)),
+        integer(signature.subarray(32)),
+      ]);
+      assert.strictEqual(block.checkBlockSignature(validator), true);
+    });
+
+    it('fails for malformed signatures', () => {
+      const block = posBlock(p2pkhStake());
+      block.blockSig = filled(70, 0x30);
+      assert.strictEqual(block.checkBlockSignature(validator), false);
+    });
+
+    it('fails when the staking key is unknown', () => {
+      // a P2PK input staked into a P2PKH output does not reveal the key
+      const block = posBlock(
+        coinStakeTx(
+          payments.p2pk({ signature: DUMMY_SIG, pubkey: staker.publicKey })
+            .input!,
+          payments.p2pkh({ pubkey: staker.publicKey }).output!,
+        ),
+      );
+      assert.strictEqual(block.getStakingPubkey(), undefined);
+      assert.strictEqual(block.checkBlockSignature(validator), false);
+    });
+  });
+});
+
+describe('PivxTransaction.isCoinStake', () => {
+  it('detects coinstakes', () => {
+    assert.strictEqual(p2pkhStake().isCoinStake(), true);
+  });
+
+  it('rejects coinbases and regular transactions', () => {
+    assert.strictEqual(coinbaseTx().isCoinStake(), false);
+    assert.strictEqual(new PivxTransaction().isCoinStake(), false);
+
+    const tx = p2pkhStake();
+    tx.outs[0].value = 1n;
+    assert.strictEqual(tx.isCoinStake(), false);
+
+    tx.outs.splice(0, 1);
+    assert.strictEqual(tx.isCoinStake(), false);
+  });
+
+  it('accepts zerocoin spends with a null prevout', () => {
+    const tx = coinStakeTx(
+      Uint8Array.of(0xc2, 0x00),
+      payments.p2pkh({ pubkey: staker.publicKey }).output!,
+    );
+    tx.ins[0].hash = new Uint8Array(32);
+    tx.ins[0].index = 0xffffffff;
+    assert.strictEqual(tx.isCoinStake(), true);
+  });
+});
@@ -0,0 +1,460 @@
+import * as assert from 'assert';
+import { before, describe, it } from 'mocha';
+import * as tools from 'uint8array-tools';
+import * as ecc from 'tiny-secp256k1';
+import {
+  crypto as bcrypto,
+  initEccLib,
+  interpreter,
+  Transaction,
+} from 'bitcoinjs-lib';
+import {
+  PivxTransaction,
+  SaplingTxData,
+  SAPLING_SIGHASH_PERSONALIZATIONS,
+} from 'bitcoinjs-lib/pivx';
+import fixtures from './fixtures/transaction.json';
+import sighashFixtures from './fixtures/pivx_transaction.json';
+
+const { PIVX_STANDARD_FLAGS } = interpreter;
+
+function filled(length: number, byte: number): Uint8Array {
+  return new Uint8Array(length).fill(byte);
+}
+
+function sapData(nSpends: number, nOutputs: number): SaplingTxData {
+  return {
+    valueBalance: -100000n,
+    vShieldedSpend: Array.from({ length: nSpends }, (_, i) => ({
+      cv: filled(32, 0x10 + i),
+      anchor: filled(32, 0x20 + i),
+      nullifier: filled(32, 0x30 + i),
+      rk: filled(32, 0x40 + i),
+      zkproof: filled(192, 0x50 + i),
+      spendAuthSig: filled(64, 0x60 + i),
+    })),
+    vShieldedOutput: Array.from({ length: nOutputs }, (_, i) => ({
+      cv: filled(32, 0x70 + i),
+      cmu: filled(32, 0x80 + i),
+      ephemeralKey: filled(32, 0x90 + i),
+      encCiphertext: filled(580, 0xa0 + i),
+      outCiphertext: filled(80, 0xb0 + i),
+      zkproof: filled(192, 0xc0 + i),
+    })),
+    bindingSig: filled(64, 0xd0),
+  };
+}
+
+function saplingTx(): PivxTransaction {
+  const tx = new PivxTransaction();
+  tx.version = PivxTransaction.SAPLING_VERSION;
+  tx.addInput(filled(32, 0xf1), 0);
+  tx.addOutput(
+    tools.fromHex('76a914c42e7ef92fdb603af844d064faad95db9bcdfd3d88ac'),
+    100000n,
+  );
+  return tx;
+}
+
+describe('PivxTransaction', () => {
+  describe('legacy transactions', () => {
+    fixtures.valid
+      .filter(f => !(f as any).whex && f.raw.version === 1)
+      .forEach(f => {
+        it('imports ' + f.description + ' like Transaction', () => {
+          const tx = PivxTransaction.fromHex(f.hex);
+
+          assert.strictEqual(tx.version, 1);
+          assert.strictEqual(tx.nType, PivxTransaction.TYPE_NORMAL);
+          assert.strictEqual(tx.sapData, undefined);
+          assert.strictEqual(tx.toHex(), f.hex);
+          assert.strictEqual(tx.getId(), Transaction.fromHex(f.hex).getId());
+          assert.strictEqual(tx.byteLength(), f.hex.length / 2);
+        });
+      });
+  });
+
+  describe('Sapling-era transactions', () => {
+    it('serializes version 3 without Sapling data', () => {
+      const tx = saplingTx();
+      const legacy = new Transaction();
+      legacy.version = 3;
+      legacy.addInput(filled(32, 0xf1), 0);
+      legacy.addOutput(tx.outs[0].script, 100000n);
+
+      // legacy layout followed by an empty Optional<SaplingTxData>
+      assert.strictEqual(tx.toHex(), legacy.toHex() + '00');
+      assert.strictEqual(tx.byteLength(), legacy.byteLength() + 1);
+    });
+
+    it('writes nVersion and nType as two 16-bit fields', () => {
+      const tx = saplingTx();
+      tx.nType = PivxTransaction.TYPE_PROREG;
+
+      assert.strictEqual(tools.toHex(tx.toBuffer().slice(0, 4)), '03000100');
+
+      const parsed = PivxTransaction.fromBuffer(tx.toBuffer());
+      assert.strictEqual(parsed.version, 3);
+      assert.strictEqual(parsed.nType, PivxTransaction.TYPE_PROREG);
+      assert.strictEqual(parsed.extraPayload, undefined);
+    });
+
+    [
+      { spends: 0, outputs: 1 },
+      { spends: 1, outputs: 0 },
+      { spends: 2, outputs: 2 },
+    ].forEach(({ spends, outputs }) => {
+      it(`round-trips ${spends} spends and ${outputs} outputs`, () => {
+        const tx = saplingTx();
+        tx.sapData = sapData(spends, outputs);
+        const buffer = tx.toBuffer();
+
+        assert.strictEqual(
+          buffer.length,
+          tx.byteLength(),
+          'byteLength should match the serialization',
+        );
+        assert.strictEqual(
+          buffer.length,
+          85 + 1 + 8 + 1 + spends * 384 + 1 + outputs * 948 + 64,
+        );
+
+        const parsed = PivxTransaction.fromBuffer(buffer);
+        assert.deepStrictEqual(parsed.sapData, tx.sapData);
+        assert.strictEqual(parsed.hasSaplingData(), true);
+        assert.deepStrictEqual(parsed.toBuffer(), buffer);
+        assert.strictEqual(parsed.getId(), tx.getId());
+      });
+    });
+
+    it('round-trips the extra payload of special transactions', () => {
+      const tx = saplingTx();
+      tx.nType = PivxTransaction.TYPE_PROUPSERV;
+      tx.sapData = sapData(0, 0);
+      tx.extraPayload = tools.fromHex('0100deadbeef');
+
+      const hex = tx.toHex();
+      assert.ok(hex.endsWith('01060100deadbeef'));
+
+      const parsed = PivxTransaction.fromHex(hex);
+      assert.strictEqual(parsed.hasSaplingData(), false);
+      assert.deepStrictEqual(parsed.extraPayload, tx.extraPayload);
+      assert.strictEqual(parsed.toHex(), hex);
+      assert.strictEqual(parsed.byteLength(), hex.length / 2);
+    });
+
+    it('ignores the extra payload of normal transactions', () => {
+      const tx = saplingTx();
+      tx.extraPayload = tools.fromHex('deadbeef');
+
+      assert.strictEqual(tx.toHex(), saplingTx().toHex());
+    });
+
+    it('hashes the full serialization for the txid', () => {
+      const tx = saplingTx();
+      tx.sapData = sapData(1, 1);
+
+      const expected = bcrypto.hash256(tx.toBuffer()).reverse();
+      assert.strictEqual(tx.getId(), tools.toHex(expected));
+      assert.notStrictEqual(tx.getId(), saplingTx().getId());
+    });
+
+    it('clones Sapling data and the extra payload', () => {
+      const tx = saplingTx();
+      tx.nType = PivxTransaction.TYPE_PROUPREV;
+      tx.sapData = sapData(1, 1);
+      tx.extraPayload = tools.fromHex('00');
+
+      const clone = tx.clone();
+      assert.ok(clone instanceof PivxTransaction);
+      assert.strictEqual(clone.toHex(), tx.toHex());
+
+      clone.sapData!.vShieldedSpend.pop();
+      assert.strictEqual(tx.sapData.vShieldedSpend.length, 1);
+    });
+  });
+
+  describe('invalid transactions', () => {
+    it('throws on unexpected trailing data', () => {
+      assert.throws(() => {
+        PivxTransaction.fromHex(saplingTx().toHex() + '00');
+      }, /Transaction has unexpected data/);
+    });
+
+    it('throws on truncated Sapling data', () => {
+      const tx = saplingTx();
+      tx.sapData = sapData(1, 0);
+      const buffer = tx.toBuffer();
+
+      assert.throws(() => {
+        PivxTransaction.fromBuffer(buffer.slice(0, buffer.length - 1));
+      }, /Cannot read slice out of bounds/);
+    });
+
+    it('throws on Sapling fields of the wrong size', () => {
+      const tx = saplingTx();
+      tx.sapData = sapData(0, 0);
+      tx.sapData.bindingSig = filled(63, 0);
+
+      assert.throws(() => tx.toBuffer(), /Expected bindingSig of 64 bytes/);
+    });
+
+    it('throws on versions that do not fit in 16 bits', () => {
+      const tx = saplingTx();
+      tx.version = 0x10000;
+
+      assert.throws(() => tx.toBuffer(), /must fit in 16 bits/);
+    });
+  });
+
+  describe('hashForSaplingSignature', () => {
+    before(() => {
+      initEccLib(ecc);
+    });
+
+    const prevOutScript = tools.fromHex(
+      '76a914c42e7ef92fdb603af844d064faad95db9bcdfd3d88ac',
+    );
+
+    function twoInputTx(): PivxTransaction {
+      const tx = saplingTx();
+      tx.addInput(filled(32, 0xf2), 1, 0xfffffffe);
+      tx.addOutput(prevOutScript, 50000n);
+      tx.locktime = 500;
+      return tx;
+    }
+
+    it('uses 16-byte zero padded personalizations', () => {
+      Object.values(SAPLING_SIGHASH_PERSONALIZATIONS).forEach(tag => {
+        assert.ok(tag.startsWith('PIVX'));
+        assert.ok(tag.length <= 16);
+      });
+    });
+
+    sighashFixtures.hashForSaplingSignature.forEach(f => {
+      describe(f.description, () => {
+        const tx = PivxTransaction.fromHex(f.txHex);
+        const prevOutputs = f.prevOutputs.map(output => ({
+          script: tools.fromHex(output.script),
+          value: BigInt(output.value),
+        }));
+
+        f.hashes.forEach((hash, i) => {
+          it('should hash input #' + i + ' to ' + hash, () => {
+            const { script, value } = prevOutputs[i];
+
+            assert.strictEqual(
+              tools.toHex(tx.hashForSaplingSignature(i, script, value, f.type)),
+              hash,
+            );
+          });
+
+          it('should verify the signature of input #' + i, () => {
+            assert.deepStrictEqual(
+              interpreter.verifyInput(tx, i, prevOutputs, PIVX_STANDARD_FLAGS),
+              { success: true },
+            );
+          });
+        });
+      });
+    });
+
+    it('commits to the amount and script code of the signed input', () => {
+      const tx = twoInputTx();
+      const hash = tx.hashForSaplingSignature(0, prevOutScript, 1n, 1);
+
+      assert.notDeepStrictEqual(
+        tx.hashForSaplingSignature(0, prevOutScript, 2n, 1),
+        hash,
+      );
+      assert.notDeepStrictEqual(
+        tx.hashForSaplingSignature(0, tools.fromHex('51'), 1n, 1),
+        hash,
+      );
+      assert.notDeepStrictEqual(
+        tx.hashForSaplingSignature(1, prevOutScript, 1n, 1),
+        hash,
+      );
+    });
+
+    [
+      {
+        description: 'SIGHASH_ALL',
+        hashType: Transaction.SIGHASH_ALL,
+        input: true,
+        sequence: true,
+        output0: true,
+        output1: true,
+      },
+      {
+        description: 'SIGHASH_NONE',
+        hashType: Transaction.SIGHASH_NONE,
+        input: true,
+        sequence: false,
+        output0: false,
+        output1: false,
+      },
+      {
+        description: 'SIGHASH_SINGLE',
+        hashType: Transaction.SIGHASH_SINGLE,
+        input: true,
+        sequence: false,
+        output0: true,
+        output1: false,
+      },
+      {
+        description: 'SIGHASH_ALL | SIGHASH_ANYONECANPAY',
+        hashType: Transaction.SIGHASH_ALL | Transaction.SIGHASH_ANYONECANPAY,
+        input: false,
+        sequence: false,
+        output0: true,
+        output1: true,
+      },
+      {
+        description: 'SIGHASH_NONE | SIGHASH_ANYONECANPAY',
+        hashType: Transaction.SIGHASH_NONE | Transaction.SIGHASH_ANYONECANPAY,
+        input: false,
+        sequence: false,
+        output0: false,
+        output1: false,
+      },
+      {
+        description: 'SIGHASH_SINGLE | SIGHASH_ANYONECANPAY',
+        hashType: Transaction.SIGHASH_SINGLE | Transaction.SIGHASH_ANYONECANPAY,
+        input: false,
+        sequence: false,
+        output0: true,
+        output1: false,
+      },
+    ].forEach(f => {
+      it(`${f.description} commits to the expected fields`, () => {
+        const tx = twoInputTx();
+        const hash = tx.hashForSaplingSignature(
+          0,
+          prevOutScript,
+          1n,
+          f.hashType,
+        );
+        const commits = (mutate: (t: PivxTransaction) => void): boolean => {
+          const t = tx.clone();
+          mutate(t);
+          const h = t.hashForSaplingSignature(0, prevOutScript, 1n, f.hashType);
+          return tools.compare(h, hash) !== 0;
+        };
+
+        assert.strictEqual(
+          commits(t => (t.ins[1] = { ...t.ins[1], index: 7 })),
+          f.input,
+        );
+        assert.strictEqual(
+          commits(t => (t.ins[1] = { ...t.ins[1], sequence: 0 })),
+          f.sequence,
+        );
+        assert.strictEqual(
+          commits(t => (t.outs[0] = { ...t.outs[0], value: 1n })),
+          f.output0,
+        );
+        assert.strictEqual(
+          commits(t => (t.outs[1] = { ...t.outs[1], value: 1n })),
+          f.output1,
+        );
+        // always committed
+        assert.strictEqual(
+          commits(t => (t.locktime = 0)),
+          true,
+        );
+        assert.strictEqual(
+          commits(t => (t.sapData = sapData(0, 1))),
+          true,
+        );
+      });
+    });
+
+    it('uses an empty output hash for SIGHASH_SINGLE without output', () => {
+      const tx = twoInputTx();
+      tx.outs.pop();
+
+      const hash = tx.hashForSaplingSignature(1, prevOutScript, 1n, 3);
+      tx.outs[0].value = 1n;
+      assert.deepStrictEqual(
+        tx.hashForSaplingSignature(1, prevOutScript, 1n, 3),
+        hash,
+      );
+    });
+
+    it('commits to shielded data except spend authorization signatures', () => {
+      const tx = twoInputTx();
+      tx.sapData = sapData(1, 1);
+      const hash = tx.hashForSaplingSignature(0, prevOutScript, 1n, 1);
+
+      const withOtherAuthSig = tx.clone();
+      withOtherAuthSig.sapData!.vShieldedSpend[0].spendAuthSig = filled(64, 0);
+      withOtherAuthSig.sapData!.bindingSig = filled(64, 0);
+      assert.deepStrictEqual(
+        withOtherAuthSig.hashForSaplingSignature(0, prevOutScript, 1n, 1),
+        hash,
+      );
+
+      const withOtherNullifier = tx.clone();
+      withOtherNullifier.sapData!.vShieldedSpend[0].nullifier = filled(32, 0);
+      assert.notDeepStrictEqual(
+        withOtherNullifier.hashForSaplingSignature(0, prevOutScript, 1n, 1),
+        hash,
+      );
+
+      const withOtherCiphertext = tx.clone();
+      withOtherCiphertext.sapData!.vShieldedOutput[0].outCiphertext = filled(
+        80,
+        0,
+      );
+      assert.notDeepStrictEqual(
+        withOtherCiphertext.hashForSaplingSignature(0, prevOutScript, 1n, 1),
+        hash,
+      );
+
+      const withOtherBalance = tx.clone();
+      withOtherBalance.sapData!.valueBalance = 0n;
+      assert.notDeepStrictEqual(
+        withOtherBalance.hashForSaplingSignature(0, prevOutScript, 1n, 1),
+        hash,
+      );
+    });
+
+    it('commits to the type and payload of special transactions', () => {
+      const tx = twoInputTx();
+      const normal = tx.hashForSaplingSignature(0, prevOutScript, 1n, 1);
+
+      tx.nType = PivxTransaction.TYPE_PROREG;
+      const special = tx.hashForSaplingSignature(0, prevOutScript, 1n, 1);
+      assert.notDeepStrictEqual(special, normal);
+
+      tx.extraPayload = tools.fromHex('01');
+      assert.notDeepStrictEqual(
+        tx.hashForSaplingSignature(0, prevOutScript, 1n, 1),
+        special,
+      );
+    });
+
+    it('throws for an out of range input', () => {
+      assert.throws(
+        () => saplingTx().hashForSaplingSignature(1, prevOutScript, 1n, 1),
+        /Input index out of range/,
+      );
+    });
+
+    it('is required by hashForSignature for Sapling-era transactions', () => {
+      assert.throws(
+        () => saplingTx().hashForSignature(0, prevOutScript, 1),
+        /must use hashForSaplingSignature/,
+      );
+
+      const legacy = saplingTx();
+      legacy.version = PivxTransaction.LEGACY_VERSION;
+      const bitcoinTx = Transaction.fromBuffer(legacy.toBuffer());
+      assert.deepStrictEqual(
+        legacy.hashForSignature(0, prevOutScript, 1),
+        bitcoinTx.hashForSignature(0, prevOutScript, 1),
+      );
+    });
+  });
+});
@@ -0,0 +1,362 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import {
+  crypto,
+  opcodes,
+  payments,
+  policy,
+  PolicyViolationCode,
+  script as bscript,
+  Transaction,
+} from 'bitcoinjs-lib';
+
+const pubkey = Uint8Array.from([2, ...new Uint8Array(32).fill(1)]);
+const pubkeys = [2, 3, 4, 5].map(i =>
+  Uint8Array.from([2, ...new Uint8Array(32).fill(i)]),
+);
+const p2pkh = payments.p2pkh({ pubkey });
+const p2wpkh = payments.p2wpkh({ pubkey });
+const signature = new Uint8Array(72);
+
+interface TxOpts {
+  version?: number;
+  inputs?: Array<{ script?: Uint8Array; witness?: Uint8Array[] }>;
+  outputs?: Array<{ script: Uint8Array; value?: bigint }>;
+}
+
+function buildTx(opts: TxOpts = {}): Transaction {
+  const tx = new Transaction();
+  tx.version = opts.version !== undefined ? opts.version : 2;
+  (opts.inputs || [{ witness: [signature, pubkey] }]).forEach((input, i) => {
+    tx.addInput(new Uint8Array(32).fill(i + 1), 0, 0xfffffffd, input.script);
+    if (input.witness) tx.setWitness(i, input.witness);
+  });
+  (opts.outputs || [{ script: p2wpkh.output! }]).forEach(output =>
+    tx.addOutput(output.script, output.value || 10000n),
+  );
+  return tx;
+}
+
+function codes(
+  tx: Transaction,
+  prevScripts?: Uint8Array[],
+  profile?: policy.Policy,
+): PolicyViolationCode[] {
+  const prevOutputs =
+    prevScripts && prevScripts.map(script => ({ script, value: 10000n }));
+  return policy
+    .isStandard(tx, prevOutputs, profile)
+    .violations.map(violation => violation.code);
+}
+
+describe('policy', () => {
+  describe('isStandard', () => {
+    it('accepts standard transactions', () => {
+      const tx = buildTx({
+        outputs: [
+          { script: p2pkh.output! },
+          { script: p2wpkh.output! },
+          { script: payments.embed({ data: [new Uint8Array(80)] }).output! },
+          // witness versions reserved for soft forks
+          { script: bscript.compile([opcodes.OP_2, new Uint8Array(32)]) },
+        ],
+      });
+      assert.deepStrictEqual(
+        policy.isStandard(tx, [{ script: p2wpkh.output!, value: 10000n }]),
+        { standard: true, violations: [] },
+      );
+    });
+
+    it('checks the version and size of transactions', () => {
+      assert.deepStrictEqual(codes(buildTx({ version: 4 })), ['version']);
+      assert.deepStrictEqual(codes(buildTx({ version: 0 })), ['version']);
+      assert.deepStrictEqual(
+        codes(
+          buildTx({
+            outputs: [{ script: bscript.compile([opcodes.OP_RETURN]) }],
+          }),
+        ),
+        ['tx-size-small'],
+      );
+      const big = buildTx({
+        inputs: [{ witness: [signature, pubkey] }],
+        outputs: Array(3000).fill({ script: p2pkh.output! }),
+      });
+      const violations = policy.isStandard(big).violations;
+      assert.deepStrictEqual(
+        violations.map(v => v.code),
+        ['tx-size'],
+      );
+      assert.strictEqual(
+        violations[0].message,
+        'Weight of 408322 is above 400000',
+      );
+    });
+
+    it('checks scriptSigs', () => {
+      const tx = buildTx({
+        inputs: [
+          {
+            script: bscript.compile([
+              new Uint8Array(520),
+              new Uint8Array(520),
+              new Uint8Array(520),
+              new Uint8Array(100),
+            ]),
+          },
+          { script: bscript.compile([signature, opcodes.OP_DROP]) },
+        ],
+      });
+      const { violations } = policy.isStandard(tx);
+      assert.deepStrictEqual(
+        violations.map(v => [v.code, v.input]),
+        [
+          ['scriptsig-size', 0],
+          ['scriptsig-not-pushonly', 1],
+        ],
+      );
+      assert.strictEqual(
+        violations[0].message,
+        'Input #0 has a 1671 bytes scriptSig, at most 1650 are standard',
+      );
+    });
+
+    it('checks output scripts', () => {
+      const embed = (size: number): Uint8Array =>
+        payments.embed({ data: [new Uint8Array(size)] }).output!;
+      const tx = buildTx({
+        outputs: [
+          { script: bscript.compile([opcodes.OP_TRUE]) },
+          { script: embed(81) },
+          { script: embed(10) },
+          { script: payments.p2ms({ m: 1, pubkeys }).output! },
+          {
+            script: payments.p2ms({ m: 1, pubkeys: pubkeys.slice(1) }).output!,
+          },
+          // a witness v0 program of neither 20 nor 32 bytes
+          { script: bscript.compile([opcodes.OP_0, new Uint8Array(25)]) },
+          { script: bscript.compile([opcodes.OP_RETURN, opcodes.OP_DROP]) },
+        ],
+      });
+      const { violations } = policy.isStandard(tx);
+      assert.deepStrictEqual(
+        violations.map(v => [v.code, v.output]),
+        [
+          ['scriptpubkey', 0],
+          ['scriptpubkey', 1],
+          ['scriptpubkey', 3],
+          ['scriptpubkey', 5],
+          ['scriptpubkey', 6],
+          ['multi-op-return', undefined],
+        ],
+      );
+      assert.strictEqual(
+        violations[2].message,
+        'Output #3 is a 1-of-4 bare multisig, at most 3 keys are standard',
+      );
+      assert.deepStrictEqual(
+        codes(tx, undefined, { ...policy.bitcoin, permitBareMultisig: false }),
+        [
+          'scriptpubkey',
+          'scriptpubkey',
+          'scriptpubkey',
+          'bare-multisig',
+          'scriptpubkey',
+          'scriptpubkey',
+          'multi-op-return',
+        ],
+      );
+    });
+
+    it('checks dust per script type', () => {
+      const tx = buildTx({
+        outputs: [
+          { script: p2wpkh.output!, value: 294n },
+          { script: p2wpkh.output!, value: 293n },
+          { script: p2pkh.output!, value: 546n },
+          { script: p2pkh.output!, value: 545n },
+        ],
+      });
+      const { violations } = policy.isStandard(tx);
+      assert.deepStrictEqual(
+        violations.map(v => [v.code, v.output]),
+        [
+          ['dust', 1],
+          ['dust', 3],
+        ],
+      );
+      assert.strictEqual(
+        violations[0].message,
+        'Output #1 is dust, worth less than 294 satoshis',
+      );
+    });
+
+    it('checks the outputs spent by inputs', () => {
+      const redeemScript = bscript.compile(Array(16).fill(opcodes.OP_CHECKSIG));
+      const p2sh = payments.p2sh({ redeem: { output: redeemScript } });
+      const multisig = payments.p2ms({ m: 2, pubkeys: pubkeys.slice(1) });
+      const p2shMultisig = payments.p2sh({ redeem: multisig });
+      const tx = buildTx({
+        inputs: [
+          {},
+          {},
+          { script: bscript.compile([redeemScript]) },
+          {
+            script: bscript.compile([
+              opcodes.OP_0,
+              signature,
+              signature,
+              multisig.output!,
+            ]),
+          },
+          { script: bscript.compile([opcodes.OP_1]) },
+        ],
+      });
+      const { violations } = policy.isStandard(
+        tx,
+        [
+          bscript.compile([opcodes.OP_TRUE]),
+          bscript.compile([opcodes.OP_2, new Uint8Array(32)]),
+          p2sh.output!,
+          p2shMultisig.output!,
+          payments.p2sh({ redeem: { output: Uint8Array.of(opcodes.OP_1) } })
+            .output!,
+        ].map(script => ({ script, value: 10000n })),
+      );
+      assert.deepStrictEqual(
+        violations.map(v => [v.code, v.input]),
+        [
+          ['bad-txns-nonstandard-inputs', 0],
+          ['bad-txns-nonstandard-inputs', 1],
+          ['bad-txns-nonstandard-inputs', 2],
+        ],
+      );
+      assert.strictEqual(
+        violations[2].message,
+        'Input #2 has 16 signature operations in its redeem script, at most 15 are standard',
+      );
+      assert.throws(() => {
+        policy.isStandard(tx, []);
+      }, /Expected 5 previous outputs, got 0/);
+    });
+
+    it('checks the sigop cost', () => {
+      // 201 multisig operations of 20 signature operations
+      const script = bscript.compile(Array(201).fill(opcodes.OP_CHECKMULTISIG));
+      const tx = buildTx({ outputs: [{ script }] });
+      const { violations } = policy.isStandard(tx, [
+        { script: p2wpkh.output!, value: 10000n },
+      ]);
+      assert.deepStrictEqual(
+        violations.map(v => v.code),
+        ['scriptpubkey', 'bad-txns-too-many-sigops'],
+      );
+      assert.strictEqual(
+        violations[1].message,
+        'Sigop cost of 16081 is above 16000',
+      );
+    });
+
+    it('checks witnesses', () => {
+      const witnessScript = (size: number): Uint8Array => new Uint8Array(size);
+      // payments refuse witness scripts above the standard size
+      const p2wsh = (script: Uint8Array): Uint8Array =>
+        bscript.compile([opcodes.OP_0, crypto.sha256(script)]);
+      const p2tr = bscript.compile([opcodes.OP_1, new Uint8Array(32)]);
+      const controlBlock = Uint8Array.from([0xc0, ...new Uint8Array(32)]);
+      const annex = Uint8Array.of(0x50);
+      const spends: Array<[Uint8Array, Uint8Array[], Uint8Array?]> = [
+        [p2wsh(witnessScript(3600)), [new Uint8Array(80), witnessScript(3600)]],
+        [p2wsh(witnessScript(3601)), [witnessScript(3601)]],
+        [p2wsh(witnessScript(1)), Array(102).fill(witnessScript(1))],
+        [p2wsh(witnessScript(1)), [new Uint8Array(81), witnessScript(1)]],
+        [p2tr, [new Uint8Array(64)]],
+        [p2tr, [new Uint8Array(64), annex]],
+        [p2tr, [new Uint8Array(81), witnessScript(1), controlBlock]],
+        // only tapscript limits the size of items
+        [
+          p2tr,
+          [
+            new Uint8Array(81),
+            witnessScript(1),
+            Uint8Array.from([0xc2, ...new Uint8Array(32)]),
+          ],
+        ],
+        [p2pkh.output!, [signature]],
+        [
+          payments.p2sh({ redeem: p2wpkh }).output!,
+          [signature, pubkey],
+          bscript.compile([p2wpkh.output!]),
+        ],
+      ];
+      const tx = buildTx({
+        inputs: spends.map(([, witness, script]) => ({ witness, script })),
+      });
+      const { violations } = policy.isStandard(
+        tx,
+        spends.map(([script]) => ({ script, value: 10000n })),
+      );
+      assert.deepStrictEqual(
+        violations.map(v => [v.code, v.input]),
+        [
+          ['bad-witness-nonstandard', 1],
+          ['bad-witness-nonstandard', 2],
+          ['bad-witness-nonstandard', 3],
+          ['bad-witness-nonstandard', 5],
+          ['bad-witness-nonstandard', 6],
+          ['bad-witness-nonstandard', 8],
+        ],
+      );
+      assert.deepStrictEqual(
+        violations.map(v => v.message),
+        [
+          'Input #1 has a 3601 bytes witness script, at most 3600 are standard',
+          'Input #2 has 101 witness items, at most 100 are standard',
+          'Input #3 has a witness item larger than 80 bytes',
+          'Input #5 has an annex',
+          'Input #6 has a tapscript witness item larger than 80 bytes',
+          'Input #8 has a witness but spends no witness program',
+        ],
+      );
+    });
+
+    it('checks transactions against the PIVX policy', () => {
+      const p2cs = payments.p2cs({
+        stakerHash: new Uint8Array(20).fill(1),
+        ownerHash: new Uint8Array(20).fill(2),
+      });
+      const exchange = Uint8Array.from([
+        opcodes.OP_EXCHANGEADDR,
+        ...p2pkh.output!,
+      ]);
+      const tx = buildTx({
+        inputs: [{ script: bscript.compile([signature, pubkey]) }],
+        outputs: [
+          { script: p2cs.output!, value: 10000n },
+          { script: exchange, value: 10000n },
+          { script: p2pkh.output!, value: 5460n },
+          { script: p2pkh.output!, value: 5459n },
+          { script: p2wpkh.output!, value: 10000n },
+        ],
+      });
+      const violations = policy.isStandard(
+        tx,
+        [{ script: p2pkh.output!, value: 100000n }],
+        policy.pivx,
+      ).violations;
+      assert.deepStrictEqual(
+        violations.map(v => [v.code, v.output]),
+        [
+          ['dust', 3],
+          ['scriptpubkey', 4],
+        ],
+      );
+      assert.deepStrictEqual(codes(tx, [p2wpkh.output!], policy.pivx), [
+        'dust',
+        'scriptpubkey',
+        'bad-txns-nonstandard-inputs',
+      ]);
+      assert.deepStrictEqual(codes(tx), ['scriptpubkey', 'scriptpubkey']);
+    });
+  });
+});
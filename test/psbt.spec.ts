@@ -8,6 +8,7 @@ import { describe, it } from 'mocha';
 import { convertScriptTree } from './payments.utils.js';
 import { LEAF_VERSION_TAPSCRIPT } from 'bitcoinjs-lib/src/payments/bip341';
 import { tapTreeToList, tapTreeFromList } from 'bitcoinjs-lib/src/psbt/bip371';
+import { witnessStackToScriptWitness } from 'bitcoinjs-lib/src/psbt/psbtutils';
 import type { Taptree } from 'bitcoinjs-lib/src/types';
 import { initEccLib } from 'bitcoinjs-lib';
 import * as tools from 'uint8array-tools';
@@ -18,13 +19,23 @@ const bip32 = BIP32Factory.BIP32Factory(ecc);
 const ECPair = ECPairFactory(ecc);
 
 import {
+  interpreter,
   Psbt,
   networks as NETWORKS,
   payments,
+  script as bscript,
   Signer,
   SignerAsync,
+  Transaction,
+  TX_MODIFIABLE,
 } from 'bitcoinjs-lib';
 
+import {
+  encodePivxExchangeAddress,
+  encodePivxStakingAddress,
+  pivx,
+} from 'bitcoinjs-lib/pivx';
+
 import preFixtures from './fixtures/psbt.json';
 import taprootFixtures from './fixtures/p2tr.json';
 
@@ -721,6 +732,267 @@ describe(`Psbt`, () => {
     });
   });
 
+  describe('BIP370 Test Vectors', () => {
+    fixtures.bip370.invalid.forEach(f => {
+      it(`Invalid: ${f.description}`, () => {
+        assert.throws(() => {
+          Psbt.fromBase64(f.psbt);
+        }, new RegExp(f.errorMessage));
+      });
+    });
+
+    fixtures.bip370.valid.forEach(f => {
+      it(`Valid: ${f.description}`, () => {
+        const psbt = Psbt.fromBase64(f.psbt);
+        assert.strictEqual(psbt.psbtVersion, 2);
+        assert.strictEqual(psbt.toBase64(), f.psbt);
+      });
+    });
+  });
+
+  describe('PSBT version 2', () => {
+    const txid = '11'.repeat(32);
+    const script = '0014' + '22'.repeat(20);
+    // BIP370 fields only: one input spending 11..11:0, one 10000 sat output
+    const v2Hex =
+      '70736274ff' +
+      '01020402000000010401010105010101060101' +
+      '01fb040200000000' +
+      `010e20${txid}010f040000000000` +
+      `0103081027000000000000010416${script}00`;
+
+    const keyPair = ECPair.fromPrivateKey(new Uint8Array(32).fill(1));
+    const p2wpkh = payments.p2wpkh({ pubkey: keyPair.publicKey });
+    const addInput = (psbt: Psbt, index: number, data = {}): Psbt =>
+      psbt.addInput({
+        hash: txid,
+        index,
+        witnessUtxo: { script: p2wpkh.output!, value: 20000n },
+        ...data,
+      });
+
+    it('Parses and serializes BIP370 PSBTs', () => {
+      const psbt = Psbt.fromHex(v2Hex);
+      assert.strictEqual(psbt.psbtVersion, 2);
+      assert.strictEqual(psbt.version, 2);
+      assert.strictEqual(psbt.locktime, 0);
+      assert.strictEqual(psbt.txModifiable, TX_MODIFIABLE.INPUTS);
+      assert.deepStrictEqual(psbt.txInputs, [
+        {
+          hash: tools.fromHex(txid),
+          index: 0,
+          sequence: 0xffffffff,
+        },
+      ]);
+      assert.deepStrictEqual(
+        psbt.txOutputs.map(output => [
+          tools.toHex(output.script),
+          output.value,
+        ]),
+        [[script, 10000n]],
+      );
+      assert.strictEqual(psbt.toHex(), v2Hex);
+      assert.strictEqual(Psbt.fromBase64(psbt.toBase64()).toHex(), v2Hex);
+      assert.strictEqual(psbt.clone().toHex(), v2Hex);
+    });
+
+    it('Converts between version 0 and version 2 losslessly', () => {
+      const psbt = new Psbt().setPsbtVersion(2);
+      psbt.setLocktime(700000);
+      addInput(psbt, 0, {
+        sequence: 0xfffffffd,
+        requiredHeightLocktime: 800000,
+      });
+      psbt.addOutput({ script: p2wpkh.output!, value: 10000n });
+      assert.strictEqual(psbt.locktime, 800000);
+      const v2 = psbt.toHex();
+
+      psbt.setPsbtVersion(0);
+      const v0 = Psbt.fromHex(psbt.toHex());
+      assert.strictEqual(v0.psbtVersion, 0);
+      assert.strictEqual(v0.locktime, 800000);
+      // no BIP370 field is left in version 0
+      assert.deepStrictEqual(
+        [v0.data.globalMap, v0.data.inputs[0], v0.data.outputs[0]].map(
+          map => (map.unknownKeyVals || []).length,
+        ),
+        [0, 0, 0],
+      );
+      assert.strictEqual(psbt.setPsbtVersion(2).toHex(), v2);
+      assert.strictEqual(
+        Psbt.fromHex(v2).txInputs[0].requiredHeightLocktime,
+        800000,
+      );
+      assert.strictEqual(
+        tools.toHex(Psbt.fromHex(v2).setPsbtVersion(0).toBuffer()),
+        v0.toHex(),
+      );
+    });
+
+    it('Determines the locktime from the inputs', () => {
+      const psbt = new Psbt().setPsbtVersion(2).setLocktime(10);
+      addInput(psbt, 0);
+      assert.strictEqual(psbt.locktime, 10);
+      addInput(psbt, 1, { requiredHeightLocktime: 100 });
+      assert.strictEqual(psbt.locktime, 100);
+      // heights are used when every input accepts them
+      addInput(psbt, 2, {
+        requiredHeightLocktime: 200,
+        requiredTimeLocktime: 600000000,
+      });
+      assert.strictEqual(psbt.locktime, 200);
+      assert.throws(() => {
+        addInput(psbt, 3, { requiredTimeLocktime: 600000000 });
+      }, new RegExp('Inputs require both a height and a time locktime'));
+      assert.throws(() => {
+        addInput(psbt, 3, { requiredHeightLocktime: 600000000 });
+      }, new RegExp('Invalid required height locktime: 600000000'));
+      assert.throws(() => {
+        addInput(psbt, 3, { requiredTimeLocktime: 100 });
+      }, new RegExp('Invalid required time locktime: 100'));
+      assert.strictEqual(psbt.inputCount, 3);
+
+      assert.throws(() => {
+        addInput(new Psbt(), 0, { requiredHeightLocktime: 100 });
+      }, new RegExp('Required locktimes need PSBT version 2'));
+    });
+
+    it('Follows the TX_MODIFIABLE flags when signing', () => {
+      const psbt = new Psbt().setPsbtVersion(2);
+      assert.strictEqual(
+        psbt.txModifiable,
+        TX_MODIFIABLE.INPUTS | TX_MODIFIABLE.OUTPUTS,
+      );
+      addInput(psbt, 0, {
+        sighashType:
+          Transaction.SIGHASH_SINGLE | Transaction.SIGHASH_ANYONECANPAY,
+      });
+      psbt.addOutput({ script: p2wpkh.output!, value: 10000n });
+      psbt.signInput(0, keyPair, [
+        Transaction.SIGHASH_SINGLE | Transaction.SIGHASH_ANYONECANPAY,
+      ]);
+      // only SIGHASH_NONE leaves the outputs modifiable
+      assert.strictEqual(
+        psbt.txModifiable,
+        TX_MODIFIABLE.INPUTS | TX_MODIFIABLE.HAS_SIGHASH_SINGLE,
+      );
+      assert.throws(() => {
+        psbt.addOutput({ script: p2wpkh.output!, value: 10000n });
+      }, new RegExp('Can not add outputs, they are not modifiable.'));
+
+      // a SIGHASH_SINGLE|ANYONECANPAY signature allows adding an input
+      addInput(psbt, 1);
+      psbt.signInput(1, keyPair);
+      assert.strictEqual(psbt.txModifiable, TX_MODIFIABLE.HAS_SIGHASH_SINGLE);
+      assert.ok(psbt.validateSignaturesOfAllInputs(validator));
+
+      const parsed = Psbt.fromBase64(psbt.toBase64());
+      assert.strictEqual(parsed.txModifiable, TX_MODIFIABLE.HAS_SIGHASH_SINGLE);
+      parsed.finalizeAllInputs();
+      assert.strictEqual(parsed.extractTransaction().ins.length, 2);
+
+      const none = new Psbt().setPsbtVersion(2);
+      addInput(none, 0, { sighashType: Transaction.SIGHASH_NONE });
+      none.signInput(0, keyPair, [Transaction.SIGHASH_NONE]);
+      assert.strictEqual(none.txModifiable, TX_MODIFIABLE.OUTPUTS);
+
+      const closed = new Psbt().setPsbtVersion(2).setTxModifiable(0);
+      assert.throws(() => {
+        addInput(closed, 0);
+      }, new RegExp('Can not add inputs, they are not modifiable.'));
+      assert.throws(() => {
+        closed.addOutput({ script: p2wpkh.output!, value: 10000n });
+      }, new RegExp('Can not add outputs, they are not modifiable.'));
+      assert.throws(() => {
+        closed.setTxModifiable(0x100);
+      }, new RegExp('Invalid TX_MODIFIABLE flags'));
+    });
+
+    it('Adds inputs and outputs in pairs with HAS_SIGHASH_SINGLE', () => {
+      const psbt = new Psbt()
+        .setPsbtVersion(2)
+        .setTxModifiable(
+          TX_MODIFIABLE.INPUTS |
+            TX_MODIFIABLE.OUTPUTS |
+            TX_MODIFIABLE.HAS_SIGHASH_SINGLE,
+        );
+      addInput(psbt, 0);
+      assert.throws(() => {
+        addInput(psbt, 1);
+      }, new RegExp('Inputs and outputs must be added in pairs'));
+      psbt.addOutput({ script: p2wpkh.output!, value: 10000n });
+      psbt.addOutput({ script: p2wpkh.output!, value: 10000n });
+      assert.throws(() => {
+        psbt.addOutput({ script: p2wpkh.output!, value: 10000n });
+      }, new RegExp('Inputs and outputs must be added in pairs'));
+      addInput(psbt, 1);
+      assert.strictEqual(psbt.inputCount, 2);
+      assert.strictEqual(psbt.txOutputs.length, 2);
+    });
+
+    it('Keeps explicit default fields when round tripping', () => {
+      [
+        // TX_MODIFIABLE of 0
+        v2Hex.replace('01060101', '01060100'),
+        // no TX_MODIFIABLE
+        v2Hex.replace('01060101', ''),
+        // a sequence of 0xffffffff
+        v2Hex.replace('010f0400000000', '010f0400000000011004ffffffff'),
+      ].forEach(hex => {
+        assert.strictEqual(Psbt.fromHex(hex).toHex(), hex);
+        assert.strictEqual(Psbt.fromHex(hex).clone().toHex(), hex);
+      });
+      assert.strictEqual(
+        Psbt.fromHex(v2Hex.replace('01060101', '01060100')).txModifiable,
+        0,
+      );
+    });
+
+    it('Combines the TX_MODIFIABLE flags of version 2 PSBTs', () => {
+      const unsigned = new Psbt().setPsbtVersion(2);
+      addInput(unsigned, 0);
+      unsigned.addOutput({ script: p2wpkh.output!, value: 10000n });
+      const signed = unsigned.clone().signInput(0, keyPair);
+      assert.strictEqual(signed.txModifiable, 0);
+
+      const combined = unsigned.clone().combine(signed);
+      assert.strictEqual(combined.txModifiable, 0);
+      assert.strictEqual(Psbt.fromHex(combined.toHex()).txModifiable, 0);
+      assert.strictEqual(combined.toHex(), signed.toHex());
+
+      // a flag cleared by any of the PSBTs stays cleared
+      const inputsOnly = unsigned.clone().setTxModifiable(TX_MODIFIABLE.INPUTS);
+      assert.strictEqual(
+        unsigned.clone().combine(inputsOnly).txModifiable,
+        TX_MODIFIABLE.INPUTS,
+      );
+      assert.throws(() => {
+        unsigned.clone().combine(unsigned.clone().setPsbtVersion(0));
+      }, new RegExp('Can not combine PSBTs of different versions'));
+    });
+
+    it('Rejects invalid version 2 PSBTs', () => {
+      assert.throws(() => {
+        Psbt.fromHex(v2Hex.replace('01fb0402000000', '01fb0401000000'));
+      }, new RegExp('Unsupported PSBT version: 1'));
+      assert.throws(() => {
+        Psbt.fromHex(v2Hex.replace(`010e20${txid}`, ''));
+      }, new RegExp('Format Error: Missing PSBT_IN_PREVIOUS_TXID'));
+      assert.throws(() => {
+        Psbt.fromHex(v2Hex.replace('01020402000000', '01020401000000'));
+      }, new RegExp('PSBT_GLOBAL_TX_VERSION must be at least 2'));
+      assert.throws(() => {
+        Psbt.fromHex(v2Hex.replace('70736274ff', '70736274ff01000100'));
+      }, new RegExp('PSBT_GLOBAL_UNSIGNED_TX is not allowed'));
+      assert.throws(() => {
+        new Psbt().setVersion(1).setPsbtVersion(2);
+      }, new RegExp('PSBT version 2 requires a transaction version of 2'));
+      assert.throws(() => {
+        new Psbt().setPsbtVersion(1);
+      }, new RegExp('Unsupported PSBT version: 1'));
+    });
+  });
+
   describe('getInputType', () => {
     const key = ECPair.makeRandom({ rng });
     const { publicKey } = key;
@@ -1130,6 +1402,192 @@ describe(`Psbt`, () => {
     });
   });
 
+  describe('traceInput', () => {
+    const keyPair = ECPair.makeRandom({ rng });
+    const witnessScript = bscript.compile([
+      bscript.number.encode(10),
+      bscript.OPS.OP_CHECKSEQUENCEVERIFY,
+      bscript.OPS.OP_DROP,
+      keyPair.publicKey,
+      bscript.OPS.OP_CHECKSIG,
+    ]);
+    const { output } = payments.p2wsh({ redeem: { output: witnessScript } });
+
+    function makePsbt(sequence: number): Psbt {
+      const psbt = new Psbt()
+        .addInput({
+          hash: new Uint8Array(32),
+          index: 0,
+          sequence,
+          witnessUtxo: { script: output!, value: 10000n },
+          witnessScript,
+        })
+        .addOutput({ script: output!, value: 9000n });
+      psbt.signInput(0, keyPair);
+      return psbt.finalizeInput(0, (_index, input) => ({
+        finalScriptSig: undefined,
+        finalScriptWitness: witnessStackToScriptWitness([
+          input.partialSig![0].signature,
+          witnessScript,
+        ]),
+      }));
+    }
+
+    it('traces the witness script of a finalized input', () => {
+      initEccLib(ecc);
+      const trace = makePsbt(10).traceInput(0);
+      assert.strictEqual(trace.success, true);
+      assert.deepStrictEqual(
+        trace.steps.map(step => `${step.script} ${step.asm}`),
+        [
+          `scriptPubKey OP_0`,
+          `scriptPubKey ${tools.toHex(bscript.decompile(output!)![1] as Uint8Array)}`,
+          'witnessScript OP_10',
+          'witnessScript OP_NOP3',
+          'witnessScript OP_DROP',
+          `witnessScript ${tools.toHex(keyPair.publicKey)}`,
+          'witnessScript OP_CHECKSIG',
+        ],
+      );
+      assert.deepStrictEqual(trace.steps[6].stack, [Uint8Array.of(1)]);
+    });
+
+    it('reports the failing opcode', () => {
+      initEccLib(ecc);
+      const trace = makePsbt(9).traceInput(0);
+      assert.strictEqual(trace.success, false);
+      assert.strictEqual(trace.error, 'UNSATISFIED_LOCKTIME');
+      assert.strictEqual(trace.failedStep!.asm, 'OP_NOP3');
+      assert.strictEqual(trace.failedStep!.opcodePos, 1);
+    });
+
+    it('requires a finalized input and the previous outputs it signs', () => {
+      initEccLib(ecc);
+      const psbt = new Psbt().addInput({
+        hash: new Uint8Array(32),
+        index: 0,
+        witnessUtxo: { script: output!, value: 10000n },
+        witnessScript,
+      });
+      assert.throws(() => {
+        psbt.traceInput(0);
+      }, new RegExp('Input #0 is not finalized'));
+
+      const finalized = new Psbt()
+        .addInput({
+          hash: new Uint8Array(32),
+          index: 0,
+          sequence: 10,
+          witnessUtxo: { script: output!, value: 10000n },
+          witnessScript,
+        })
+        .addInput({ hash: new Uint8Array(32), index: 1 })
+        .addOutput({ script: output!, value: 9000n })
+        .signInput(0, keyPair)
+        .finalizeInput(0, (_index, input) => ({
+          finalScriptSig: undefined,
+          finalScriptWitness: witnessStackToScriptWitness([
+            input.partialSig![0].signature,
+            witnessScript,
+          ]),
+        }));
+      assert.strictEqual(finalized.traceInput(0).success, true);
+      assert.throws(() => {
+        finalized.traceInput(1);
+      }, new RegExp('Input #1 is not finalized'));
+
+      // taproot inputs sign the outputs spent by every input
+      const p2tr = payments.p2tr({
+        internalPubkey: keyPair.publicKey.slice(1, 33),
+      });
+      const taproot = new Psbt()
+        .addInput({
+          hash: new Uint8Array(32),
+          index: 0,
+          witnessUtxo: { script: p2tr.output!, value: 10000n },
+        })
+        .addInput({ hash: new Uint8Array(32), index: 1 });
+      taproot.data.updateInput(0, {
+        finalScriptWitness: witnessStackToScriptWitness([new Uint8Array(64)]),
+      });
+      assert.throws(() => {
+        taproot.traceInput(0);
+      }, new RegExp('Input #1 has no witnessUtxo or nonWitnessUtxo'));
+    });
+  });
+
+  describe('verifyInput', () => {
+    const alice = ECPair.makeRandom({ rng });
+    const bob = ECPair.makeRandom({ rng });
+    const p2wpkh = payments.p2wpkh({ pubkey: alice.publicKey });
+    const p2pkh = payments.p2pkh({ pubkey: alice.publicKey });
+    const prevTx = new Transaction();
+    prevTx.addInput(new Uint8Array(32), 0);
+    prevTx.addOutput(p2wpkh.output!, 10000n);
+    prevTx.addOutput(p2pkh.output!, 10000n);
+
+    function makePsbt(): Psbt {
+      return new Psbt()
+        .addInput({
+          hash: prevTx.getHash(),
+          index: 0,
+          witnessUtxo: { script: p2wpkh.output!, value: 10000n },
+        })
+        .addInput({
+          hash: prevTx.getHash(),
+          index: 1,
+          nonWitnessUtxo: prevTx.toBuffer(),
+        })
+        .addOutput({ script: p2wpkh.output!, value: 19000n });
+    }
+
+    it('verifies finalized inputs against their previous outputs', () => {
+      initEccLib(ecc);
+      const psbt = makePsbt().signAllInputs(alice).finalizeAllInputs();
+      assert.deepStrictEqual(psbt.verifyInput(1), { success: true });
+      assert.deepStrictEqual(psbt.verifyAllInputs(), [
+        { success: true },
+        { success: true },
+      ]);
+    });
+
+    it('reports the inputs that fail', () => {
+      initEccLib(ecc);
+      const psbt = makePsbt().signAllInputs(alice);
+      psbt.finalizeInput(0, (_index, input) => ({
+        finalScriptSig: undefined,
+        finalScriptWitness: witnessStackToScriptWitness([
+          input.partialSig![0].signature,
+          bob.publicKey,
+        ]),
+      }));
+      psbt.finalizeInput(1);
+      assert.deepStrictEqual(psbt.verifyAllInputs(), [
+        { success: false, error: 'EQUALVERIFY' },
+        { success: true },
+      ]);
+      // witness programs are anyone-can-spend without the WITNESS flag
+      assert.deepStrictEqual(psbt.verifyInput(0, 0), { success: true });
+    });
+
+    it('checks non-witness UTXOs against the prevout hash', () => {
+      initEccLib(ecc);
+      const psbt = new Psbt()
+        .addInput({
+          hash: new Uint8Array(32),
+          index: 1,
+          nonWitnessUtxo: prevTx.toBuffer(),
+        })
+        .finalizeInput(0, () => ({
+          finalScriptSig: Uint8Array.of(bscript.OPS.OP_1),
+          finalScriptWitness: undefined,
+        }));
+      assert.throws(() => {
+        psbt.verifyAllInputs();
+      }, new RegExp("Non-witness UTXO hash for input #0 doesn't match"));
+    });
+  });
+
   describe('tapTreeToList/tapTreeFromList', () => {
     it('Correctly converts a Taptree to a Tapleaf list and back', () => {
       taprootFixtures.valid
@@ -1257,6 +1715,270 @@ describe(`Psbt`, () => {
     );
   });
 
+  describe('cold staking (P2CS) inputs', () => {
+    const staker = ECPair.makeRandom({ rng });
+    const owner = ECPair.makeRandom({ rng });
+    const p2cs = payments.p2cs({
+      stakerHash: payments.p2pkh({ pubkey: staker.publicKey }).hash,
+      ownerHash: payments.p2pkh({ pubkey: owner.publicKey }).hash,
+    });
+    const prevTx = new Transaction();
+    prevTx.addInput(new Uint8Array(32), 0);
+    prevTx.addOutput(p2cs.output!, 10000n);
+
+    function makePsbt(): Psbt {
+      return new Psbt()
+        .addInput({
+          hash: prevTx.getId(),
+          index: 0,
+          nonWitnessUtxo: prevTx.toBuffer(),
+        })
+        .addOutput({ script: p2cs.output!, value: 9000n });
+    }
+
+    [
+      { description: 'staker', keyPair: staker, spendingPath: 'OP_1' },
+      { description: 'owner', keyPair: owner, spendingPath: 'OP_0' },
+    ].forEach(f => {
+      it(`signs and finalizes the ${f.description} spending path`, () => {
+        initEccLib(ecc);
+        const psbt = makePsbt();
+        assert.strictEqual(psbt.getInputType(0), 'coldstake');
+        assert.strictEqual(psbt.inputHasPubkey(0, f.keyPair.publicKey), true);
+
+        psbt.signInput(0, f.keyPair);
+        assert.ok(psbt.validateSignaturesOfInput(0, validator));
+        psbt.finalizeAllInputs();
+
+        const chunks = bscript
+          .toASM(psbt.extractTransaction().ins[0].script)
+          .split(' ');
+        assert.strictEqual(chunks.length, 3);
+        assert.strictEqual(chunks[1], f.spendingPath);
+        assert.strictEqual(chunks[2], tools.toHex(f.keyPair.publicKey));
+        // only coinstakes can take the staker path
+        assert.deepStrictEqual(
+          psbt.verifyInput(0, interpreter.PIVX_STANDARD_FLAGS),
+          f.keyPair === staker
+            ? { success: false, error: 'CHECKCOLDSTAKEVERIFY' }
+            : { success: true },
+        );
+      });
+    });
+
+    it('refuses to sign with an unrelated key', () => {
+      const psbt = makePsbt();
+      assert.throws(() => {
+        psbt.signInput(0, ECPair.makeRandom({ rng }));
+      }, new RegExp('Can not sign for this input with the key'));
+    });
+  });
+
+  describe('PIVX exchange address outputs', () => {
+    const keyPair = ECPair.makeRandom({ rng });
+    const hash = payments.p2pkh({ pubkey: keyPair.publicKey }).hash!;
+    const exchangeAddress = encodePivxExchangeAddress(hash, pivx);
+    const stakingAddress = encodePivxStakingAddress(hash, pivx);
+    const exchangeScript = bscript.fromASM(
+      `OP_EXCHANGEADDR OP_DUP OP_HASH160 ${tools.toHex(hash)} OP_EQUALVERIFY OP_CHECKSIG`,
+    );
+
+    it('adds outputs by PIVX address and renders them back', () => {
+      const psbt = new Psbt({ network: pivx });
+      psbt.addOutput({ address: exchangeAddress, value: 1000n });
+      psbt.addOutput({ address: stakingAddress, value: 1000n });
+
+      const [exchange, staking] = psbt.txOutputs;
+      assert.deepStrictEqual(exchange.script, exchangeScript);
+      assert.strictEqual(exchange.address, exchangeAddress);
+      assert.deepStrictEqual(staking.script, payments.p2pkh({ hash }).output);
+      assert.ok(staking.address!.startsWith('D'));
+    });
+
+    it('signs and finalizes inputs spending exchange outputs', () => {
+      initEccLib(ecc);
+      const prevTx = new Transaction();
+      prevTx.addInput(new Uint8Array(32), 0);
+      prevTx.addOutput(exchangeScript, 10000n);
+
+      const psbt = new Psbt({ network: pivx })
+        .addInput({
+          hash: prevTx.getId(),
+          index: 0,
+          nonWitnessUtxo: prevTx.toBuffer(),
+        })
+        .addOutput({ address: exchangeAddress, value: 9000n });
+      assert.strictEqual(psbt.getInputType(0), 'exchangepubkeyhash');
+
+      psbt.signInput(0, keyPair);
+      assert.ok(psbt.validateSignaturesOfInput(0, validator));
+      psbt.finalizeAllInputs();
+
+      const tx = psbt.extractTransaction();
+      const chunks = bscript.decompile(tx.ins[0].script)!;
+      assert.strictEqual(chunks.length, 2);
+      assert.deepStrictEqual(chunks[1], keyPair.publicKey);
+      // PIVX networks verify with the PIVX flags
+      assert.deepStrictEqual(psbt.verifyInput(0), { success: true });
+      assert.deepStrictEqual(psbt.verifyInput(0, interpreter.STANDARD_FLAGS), {
+        success: false,
+        error: 'BAD_OPCODE',
+      });
+      const hashForSig = tx.hashForSignature(0, exchangeScript, 1);
+      assert.ok(
+        keyPair.verify(
+          hashForSig,
+          bscript.signature.decode(chunks[0] as Uint8Array).signature,
+        ),
+      );
+    });
+  });
+
+  describe('global xpubs and proprietary fields', () => {
+    const root = bip32.fromSeed(new Uint8Array(32).fill(7));
+    const xpubs = ["m/48'/0'/0'/2'", "m/48'/0'/1'/2'"].map(path =>
+      root.derivePath(path).neutered().toBase58(),
+    );
+    const VENDOR = tools.fromUtf8('vendor');
+
+    function makePsbt(): Psbt {
+      return new Psbt()
+        .addInput({ hash: new Uint8Array(32), index: 0 })
+        .addOutput({ script: Uint8Array.of(0x51), value: 1000n });
+    }
+
+    it('adds and reads global xpubs', () => {
+      const psbt = makePsbt()
+        .addGlobalXpub(xpubs[0], root.fingerprint, "m/48'/0'/0'/2'")
+        .addGlobalXpub(xpubs[1], root.fingerprint, 'm/48h/0h/1h/2h');
+      // serializing sorts the entries by key
+      const copy = Psbt.fromBase64(psbt.toBase64());
+      assert.deepStrictEqual(
+        copy.getGlobalXpubs().sort((a, b) => a.path.localeCompare(b.path)),
+        psbt.getGlobalXpubs(),
+      );
+      assert.deepStrictEqual(psbt.getGlobalXpubs(), [
+        {
+          xpub: xpubs[0],
+          masterFingerprint: root.fingerprint,
+          path: "m/48'/0'/0'/2'",
+        },
+        {
+          xpub: xpubs[1],
+          masterFingerprint: root.fingerprint,
+          path: "m/48'/0'/1'/2'",
+        },
+      ]);
+
+      [
+        [xpubs[0], root.fingerprint, "m/48'/0'/0'/2'", /Duplicate global xpub/],
+        ['xpub', root.fingerprint, 'm', /Invalid extended public key: xpub/],
+        [root.toBase58(), root.fingerprint, 'm', /Invalid extended public key/],
+        [xpubs[0], new Uint8Array(3), "m/48'", /Master fingerprint must be/],
+        [xpubs[0], root.fingerprint, "m/48'/a", /Invalid derivation path/],
+        [
+          xpubs[0],
+          root.fingerprint,
+          "m/48'",
+          /does not match the depth of the extended public key/,
+        ],
+      ].forEach(([xpub, fingerprint, path, error]) =>
+        assert.throws(
+          () =>
+            psbt.addGlobalXpub(
+              xpub as string,
+              fingerprint as Uint8Array,
+              path as string,
+            ),
+          error as RegExp,
+        ),
+      );
+    });
+
+    it('keeps proprietary fields when combining and serializing', () => {
+      const psbt = makePsbt().addGlobalXpub(
+        xpubs[0],
+        root.fingerprint,
+        "m/48'/0'/0'/2'",
+      );
+      const other = psbt.clone();
+      psbt.addProprietaryKeyValToGlobal({
+        identifier: VENDOR,
+        subtype: 1,
+        keyData: new Uint8Array(0),
+        value: tools.fromUtf8('cosigners: 2 of 3'),
+      });
+      other
+        .addProprietaryKeyValToInput(0, {
+          identifier: VENDOR,
+          subtype: 0x100,
+          keyData: Uint8Array.of(1, 2),
+          value: Uint8Array.of(3),
+        })
+        .addProprietaryKeyValToOutput(0, {
+          identifier: tools.fromUtf8('other'),
+          subtype: 0,
+          keyData: new Uint8Array(0),
+          value: Uint8Array.of(4),
+        });
+      psbt.combine(other);
+
+      const copy = Psbt.fromBase64(psbt.toBase64());
+      assert.deepStrictEqual(copy.getProprietaryKeyValsFromGlobal(VENDOR), [
+        {
+          identifier: VENDOR,
+          subtype: 1,
+          keyData: new Uint8Array(0),
+          value: tools.fromUtf8('cosigners: 2 of 3'),
+        },
+      ]);
+      assert.deepStrictEqual(copy.getProprietaryKeyValsFromInput(0), [
+        {
+          identifier: VENDOR,
+          subtype: 0x100,
+          keyData: Uint8Array.of(1, 2),
+          value: Uint8Array.of(3),
+        },
+      ]);
+      assert.deepStrictEqual(
+        copy.getProprietaryKeyValsFromOutput(0, VENDOR),
+        [],
+      );
+      assert.strictEqual(copy.getProprietaryKeyValsFromOutput(0).length, 1);
+      assert.strictEqual(copy.getGlobalXpubs().length, 1);
+
+      assert.throws(
+        () =>
+          copy.addProprietaryKeyValToInput(0, {
+            identifier: VENDOR,
+            subtype: 0x100,
+            keyData: Uint8Array.of(1, 2),
+            value: Uint8Array.of(5),
+          }),
+        /Duplicate Key/,
+      );
+      assert.throws(
+        () =>
+          copy.addProprietaryKeyValToGlobal({
+            identifier: VENDOR,
+            subtype: -1,
+            keyData: new Uint8Array(0),
+            value: new Uint8Array(0),
+          }),
+        /Invalid proprietary subtype: -1/,
+      );
+      copy.addUnknownKeyValToGlobal({
+        key: Uint8Array.of(0xfc, 0x05, 0x41),
+        value: new Uint8Array(0),
+      });
+      // a malformed key does not hide the valid ones
+      assert.deepStrictEqual(
+        copy.getProprietaryKeyValsFromGlobal().map(field => field.subtype),
+        [1],
+      );
+    });
+  });
+
   describe('Method return types', () => {
     it('fromBuffer returns Psbt type (not base class)', () => {
       const psbt = Psbt.fromBuffer(
@@ -0,0 +1,198 @@
+import * as assert from 'assert';
+import { describe, it } from 'mocha';
+import {
+  Block,
+  opcodes,
+  payments,
+  PrevOutput,
+  script as bscript,
+  sigops,
+  Transaction,
+} from 'bitcoinjs-lib';
+
+const pubkeys = [2, 3, 4].map(i =>
+  Uint8Array.from([2, ...new Uint8Array(32).fill(i)]),
+);
+const signature = new Uint8Array(72);
+const p2pkh = payments.p2pkh({ pubkey: pubkeys[0] });
+const p2wpkh = payments.p2wpkh({ pubkey: pubkeys[0] });
+const p2ms = payments.p2ms({ m: 2, pubkeys });
+const p2shP2ms = payments.p2sh({ redeem: p2ms });
+const p2wshP2ms = payments.p2wsh({ redeem: p2ms });
+const p2shP2wpkh = payments.p2sh({ redeem: p2wpkh });
+const p2tr = bscript.compile([opcodes.OP_1, new Uint8Array(32)]);
+const multisigScriptSig = bscript.compile([
+  opcodes.OP_0,
+  signature,
+  signature,
+  p2ms.output!,
+]);
+
+function coinbase(): Transaction {
+  const tx = new Transaction();
+  tx.addInput(new Uint8Array(32), 0xffffffff, 0xffffffff, Uint8Array.of(1));
+  tx.addOutput(p2pkh.output!, 5000000000n);
+  return tx;
+}
+
+// spends p2sh-p2ms, p2wpkh, p2wsh-p2ms, p2sh-p2wpkh and p2tr outputs
+function spend(): { tx: Transaction; prevScripts: Uint8Array[] } {
+  const tx = new Transaction();
+  const inputs: Array<[Uint8Array, Uint8Array, Uint8Array[]]> = [
+    [p2shP2ms.output!, multisigScriptSig, []],
+    [p2wpkh.output!, new Uint8Array(0), [signature, pubkeys[0]]],
+    [
+      p2wshP2ms.output!,
+      new Uint8Array(0),
+      [new Uint8Array(0), signature, signature, p2ms.output!],
+    ],
+    [
+      p2shP2wpkh.output!,
+      bscript.compile([p2wpkh.output!]),
+      [signature, pubkeys[0]],
+    ],
+    [p2tr, new Uint8Array(0), [new Uint8Array(64)]],
+  ];
+  inputs.forEach(([, scriptSig, witness], i) => {
+    tx.addInput(new Uint8Array(32).fill(i + 1), 0, 0xffffffff, scriptSig);
+    tx.setWitness(i, witness);
+  });
+  tx.addOutput(p2pkh.output!, 10000n);
+  tx.addOutput(p2ms.output!, 10000n);
+  return { tx, prevScripts: inputs.map(([script]) => script) };
+}
+
+function prevOutputs(scripts: Uint8Array[]): PrevOutput[] {
+  return scripts.map(script => ({ script, value: 10000n }));
+}
+
+describe('sigops', () => {
+  describe('countScriptSigOps', () => {
+    it('counts multisig operations accurately or not', () => {
+      assert.strictEqual(sigops.countScriptSigOps(p2pkh.output!, false), 1);
+      assert.strictEqual(sigops.countScriptSigOps(p2ms.output!, false), 20);
+      assert.strictEqual(sigops.countScriptSigOps(p2ms.output!, true), 3);
+      assert.strictEqual(
+        sigops.countScriptSigOps(
+          bscript.compile([
+            opcodes.OP_CHECKSIGVERIFY,
+            opcodes.OP_CHECKMULTISIGVERIFY,
+          ]),
+          true,
+        ),
+        21,
+      );
+    });
+
+    it('stops counting at malformed pushes', () => {
+      const script = Uint8Array.from([
+        opcodes.OP_CHECKSIG,
+        opcodes.OP_PUSHDATA1,
+        2,
+        opcodes.OP_CHECKSIG,
+      ]);
+      assert.strictEqual(sigops.countScriptSigOps(script, false), 1);
+      assert.strictEqual(
+        sigops.countScriptSigOps(
+          Uint8Array.from([opcodes.OP_CHECKSIG, opcodes.OP_PUSHDATA2, 1]),
+          false,
+        ),
+        1,
+      );
+    });
+  });
+
+  describe('countP2SHSigOps', () => {
+    it('counts the redeem script pushed last', () => {
+      assert.strictEqual(
+        sigops.countP2SHSigOps(p2shP2ms.output!, multisigScriptSig),
+        3,
+      );
+      assert.strictEqual(
+        sigops.countP2SHSigOps(p2ms.output!, multisigScriptSig),
+        0,
+      );
+      assert.strictEqual(
+        sigops.countP2SHSigOps(
+          p2shP2ms.output!,
+          bscript.compile([p2ms.output!, opcodes.OP_DROP]),
+        ),
+        0,
+      );
+      assert.strictEqual(
+        sigops.countP2SHSigOps(
+          p2shP2ms.output!,
+          bscript.compile([p2ms.output!, opcodes.OP_1]),
+        ),
+        0,
+      );
+    });
+  });
+
+  describe('countWitnessSigOps', () => {
+    it('counts witness v0 programs only', () => {
+      const { tx, prevScripts } = spend();
+      assert.deepStrictEqual(
+        tx.ins.map((input, i) =>
+          sigops.countWitnessSigOps(
+            input.script,
+            prevScripts[i],
+            input.witness,
+          ),
+        ),
+        [0, 1, 3, 1, 0],
+      );
+      assert.strictEqual(
+        sigops.countWitnessSigOps(new Uint8Array(0), p2wshP2ms.output!, []),
+        0,
+      );
+    });
+  });
+
+  describe('getTransactionSigOpCost', () => {
+    it('weighs legacy, p2sh and witness signature operations', () => {
+      const { tx, prevScripts } = spend();
+      // 1 for the p2pkh output and 20 for the bare multisig output
+      assert.strictEqual(sigops.getLegacySigOpCount(tx), 21);
+      assert.strictEqual(
+        sigops.getP2SHSigOpCount(tx, prevOutputs(prevScripts)),
+        3,
+      );
+      assert.strictEqual(
+        sigops.getTransactionSigOpCost(tx, prevOutputs(prevScripts)),
+        21 * 4 + 3 * 4 + 5,
+      );
+      assert.strictEqual(sigops.getTransactionSigOpCost(coinbase(), []), 4);
+      assert.strictEqual(sigops.getP2SHSigOpCount(coinbase(), []), 0);
+      assert.throws(() => {
+        sigops.getTransactionSigOpCost(tx, []);
+      }, /Expected 5 previous outputs, got 0/);
+    });
+  });
+
+  describe('getBlockSigOpCost', () => {
+    it('counts every transaction of a block', () => {
+      const { tx, prevScripts } = spend();
+      const block = new Block();
+      block.transactions = [coinbase(), tx];
+      assert.strictEqual(sigops.getBlockSigOpCost(block), 4 + 21 * 4);
+      assert.strictEqual(
+        sigops.getBlockSigOpCost(block, [[], prevOutputs(prevScripts)]),
+        4 + 21 * 4 + 3 * 4 + 5,
+      );
+      assert.strictEqual(sigops.getBlockSigOpCost(new Block()), 0);
+      assert.throws(() => {
+        sigops.getBlockSigOpCost(block, [[]]);
+      }, /Expected previous outputs for 2 transactions, got 1/);
+    });
+  });
+
+  describe('virtualSize', () => {
+    it('adjusts the size for signature operations', () => {
+      assert.strictEqual(sigops.virtualSize(401, 20), 101);
+      assert.strictEqual(sigops.virtualSize(400, 80), 400);
+      assert.strictEqual(sigops.virtualSize(400, 80, 5), 100);
+      assert.strictEqual(sigops.MAX_STANDARD_TX_SIGOPS_COST, 16000);
+    });
+  });
+});
@@ -0,0 +1,604 @@
+import * as assert from 'assert';
+import { bech32m } from 'bech32';
+import * as ecc from 'tiny-secp256k1';
+import ECPairFactory from 'ecpair';
+import { before, describe, it } from 'mocha';
+import * as tools from 'uint8array-tools';
+import {
+  initEccLib,
+  networks,
+  payments,
+  Psbt,
+  script as bscript,
+  silentpayments,
+  Transaction,
+} from 'bitcoinjs-lib';
+import { pivx } from 'bitcoinjs-lib/pivx';
+
+const ECPair = ECPairFactory(ecc);
+
+// "Simple send: two inputs" of the BIP352 test vectors
+const VECTOR = {
+  inputs: [
+    {
+      txid: 'f4184fc596403b9d638783cf57adfe4c75c605f6356fbc91338530e9831e9e16',
+      scriptSig:
+        '483046022100ad79e6801dd9a8727f342f31c71c4912866f59dc6e7981878e92c5844a0ce929022100fb0d2393e813968648b9753b7e9871d90ab3d815ebf91820d704b19f4ed224d621025a1e61f898173040e20616d43e9f496fba90338a39faa1ed98fcbaeee4dd9be5',
+      prevout: '76a91419c2f3ae0ca3b642bd3e49598b8da89f50c1416188ac',
+      privateKey:
+        'eadc78165ff1f8ea94ad7cfdc54990738a4c53f6e0507b42154201b8e5dff3b1',
+    },
+    {
+      txid: 'a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d',
+      scriptSig:
+        '48304602210086783ded73e961037e77d49d9deee4edc2b23136e9728d56e4491c80015c3a63022100fda4c0f21ea18de29edbce57f7134d613e044ee150a89e2e64700de2d4e83d4e2103bd85685d03d111699b15d046319febe77f8de5286e9e512703cdee1bf3be3792',
+      prevout: '76a914d9317c66f54ff0a152ec50b1d19c25be50c8e15988ac',
+      privateKey:
+        '93f5ed907ad5b2bdbbdcb5d9116ebc0a4e1f92f910d5260237fa45a9408aad16',
+    },
+  ],
+  recipient:
+    'sp1qqgste7k9hx0qftg6qmwlkqtwuy6cycyavzmzj85c6qdfhjdpdjtdgqjuexzk6murw56suy3e0rd2cgqvycxttddwsvgxe2usfpxumr70xc9pkqwv',
+  scanPrivateKey:
+    '0f694e068028a717f8af6b9411f9a133dd3565258714cc226594b34db90c1f2c',
+  spendPrivateKey:
+    '9d6ad855ce3417ef84e836892e5a56392bfba05fa5d97ccea30e266f540e08b3',
+  output: '3e9fce73d4e77a4809908e3c3a2e54ee147b9312dc5044a193d1fc85de46e3c1',
+  tweak: 'f438b40179a3c4262de12986c0e6cce0634007cdc79c1dcd3e20b9ebc2e7eef6',
+};
+
+// Other sending vectors of BIP352 to the same recipient, by the outpoints,
+// private keys and script types of their inputs
+const [K1, K2] = VECTOR.inputs.map(input => input.privateKey);
+const [T1, T2] = VECTOR.inputs.map(input => input.txid);
+const KE = 'fc8716a97a48ba9a05a98ae47b5cd201a25a7fd5d8b73c203c5f7b6b6b3b6ad7';
+const KO = '1d37787c2b7116ee983e9f9c13269df29091b391c04db94239e0d2bc2182c3bf';
+const KS = '8d4751f6e8a3586880fb66c19ae277969bd5aa06f61c4ee2f1e2486efdf666d3';
+const SENDING_VECTORS: Array<{
+  description: string;
+  inputs: Array<
+    [string, number, string, 'p2pkh' | 'p2pkh-uncompressed' | 'p2tr']
+  >;
+  output: string;
+}> = [
+  {
+    description: 'two inputs, order reversed',
+    inputs: [
+      [T2, 0, K2, 'p2pkh'],
+      [T1, 0, K1, 'p2pkh'],
+    ],
+    output: VECTOR.output,
+  },
+  {
+    description: 'two inputs from the same transaction',
+    inputs: [
+      [T1, 3, K1, 'p2pkh'],
+      [T1, 7, K2, 'p2pkh'],
+    ],
+    output: '79e71baa2ba3fc66396de3a04f168c7bf24d6870ec88ca877754790c1db357b6',
+  },
+  {
+    description: 'outpoints ordered byte-lexicographically',
+    inputs: [
+      [T1, 1, K1, 'p2pkh'],
+      [T1, 256, K2, 'p2pkh'],
+    ],
+    output: 'a85ef8701394b517a4b35217c4bd37ac01ebeed4b008f8d0879f9e09ba95319c',
+  },
+  {
+    description: 'multiple UTXOs from the same public key',
+    inputs: [
+      [T1, 0, K1, 'p2pkh'],
+      [T2, 0, K1, 'p2pkh'],
+    ],
+    output: '548ae55c8eec1e736e8d3e520f011f1f42a56d166116ad210b3937599f87f566',
+  },
+  {
+    description: 'taproot only inputs with even y-values',
+    inputs: [
+      [T1, 0, K1, 'p2tr'],
+      [T2, 0, KE, 'p2tr'],
+    ],
+    output: 'de88bea8e7ffc9ce1af30d1132f910323c505185aec8eae361670421e749a1fb',
+  },
+  {
+    description: 'taproot only inputs with mixed even/odd y-values',
+    inputs: [
+      [T1, 0, K1, 'p2tr'],
+      [T2, 0, KO, 'p2tr'],
+    ],
+    output: '77cab7dd12b10259ee82c6ea4b509774e33e7078e7138f568092241bf26b99f1',
+  },
+  {
+    description: 'taproot input with even y and non-taproot input',
+    inputs: [
+      [T1, 0, K1, 'p2tr'],
+      [T2, 0, KS, 'p2pkh'],
+    ],
+    output: '30523cca96b2a9ae3c98beb5e60f7d190ec5bc79b2d11a0b2d4d09a608c448f0',
+  },
+  {
+    description: 'taproot input with odd y and non-taproot input',
+    inputs: [
+      [T1, 0, KO, 'p2tr'],
+      [T2, 0, KS, 'p2pkh'],
+    ],
+    output: '359358f59ee9e9eec3f00bdf4882570fd5c182e451aa2650b788544aff012a3a',
+  },
+  {
+    description: 'P2PKH uncompressed keys are skipped',
+    inputs: [
+      [T1, 0, K1, 'p2pkh'],
+      [T2, 0, K2, 'p2pkh-uncompressed'],
+    ],
+    output: '67fee277da9e8542b5d2e6f32d660a9bbd3f0e107c2d53638ab1d869088882d6',
+  },
+];
+// The address of the BIP352 recipient with label 2
+const LABEL_2_ADDRESS =
+  'sp1qqgste7k9hx0qftg6qmwlkqtwuy6cycyavzmzj85c6qdfhjdpdjtdgqjex54dmqmmv6rw353tsuqhs99ydvadxzrsy9nuvk74epvee55drs734pqq';
+
+const VALUE = 100000n;
+const scanKeyPair = ECPair.fromPrivateKey(new Uint8Array(32).fill(0x51));
+const spendKeyPair = ECPair.fromPrivateKey(new Uint8Array(32).fill(0x52));
+
+function reversed(txid: string): Uint8Array {
+  return tools.fromHex(txid).reverse();
+}
+
+describe('silentpayments', () => {
+  before(() => {
+    initEccLib(ecc);
+  });
+
+  describe('addresses', () => {
+    it('encodes and decodes addresses', () => {
+      const { scanKey, spendKey } = silentpayments.decodeAddress(
+        VECTOR.recipient,
+      );
+      assert.deepStrictEqual(
+        scanKey,
+        ecc.pointFromScalar(tools.fromHex(VECTOR.scanPrivateKey), true),
+      );
+      assert.deepStrictEqual(
+        spendKey,
+        ecc.pointFromScalar(tools.fromHex(VECTOR.spendPrivateKey), true),
+      );
+      assert.strictEqual(
+        silentpayments.encodeAddress(scanKey, spendKey),
+        VECTOR.recipient,
+      );
+
+      const testnet = silentpayments.encodeAddress(
+        scanKey,
+        spendKey,
+        networks.testnet,
+      );
+      assert.ok(testnet.startsWith('tsp1q'));
+      assert.throws(
+        () => silentpayments.decodeAddress(testnet),
+        /Invalid silent payment address prefix: tsp/,
+      );
+      assert.deepStrictEqual(
+        silentpayments.decodeAddress(testnet, networks.testnet).spendKey,
+        spendKey,
+      );
+    });
+
+    it('reads future versions and rejects invalid addresses', () => {
+      const { scanKey, spendKey } = silentpayments.decodeAddress(
+        VECTOR.recipient,
+      );
+      const encode = (version: number, data: Uint8Array): string => {
+        const words = bech32m.toWords(data);
+        words.unshift(version);
+        return bech32m.encode('sp', words, 1023);
+      };
+      const data = tools.concat([scanKey, spendKey, Uint8Array.of(1, 2, 3)]);
+
+      assert.deepStrictEqual(silentpayments.decodeAddress(encode(1, data)), {
+        version: 1,
+        scanKey,
+        spendKey,
+      });
+      assert.throws(
+        () => silentpayments.decodeAddress(encode(0, data)),
+        /Invalid silent payment address length: 69/,
+      );
+      assert.throws(
+        () => silentpayments.decodeAddress(encode(31, data)),
+        /Unsupported silent payment address version: 31/,
+      );
+      assert.throws(
+        () => silentpayments.encodeAddress(scanKey, spendKey, pivx),
+        /Network does not support silent payments/,
+      );
+    });
+  });
+
+  describe('sending and scanning', () => {
+    it('matches the BIP352 test vector', () => {
+      const psbt = new Psbt();
+      const tx = new Transaction();
+      VECTOR.inputs.forEach(input => {
+        psbt.addInput({
+          hash: reversed(input.txid),
+          index: 0,
+          witnessUtxo: { script: tools.fromHex(input.prevout), value: VALUE },
+        });
+        tx.addInput(
+          reversed(input.txid),
+          0,
+          0xffffffff,
+          tools.fromHex(input.scriptSig),
+        );
+      });
+      const [output] = silentpayments.deriveOutputs(
+        psbt,
+        VECTOR.inputs.map(input => tools.fromHex(input.privateKey)),
+        [VECTOR.recipient],
+      );
+      assert.strictEqual(tools.toHex(output.pubkey), VECTOR.output);
+
+      tx.addOutput(output.output, VALUE);
+      const matches = silentpayments.scan(
+        tx,
+        VECTOR.inputs.map(input => ({
+          script: tools.fromHex(input.prevout),
+          value: VALUE,
+        })),
+        tools.fromHex(VECTOR.scanPrivateKey),
+        ecc.pointFromScalar(tools.fromHex(VECTOR.spendPrivateKey), true)!,
+      );
+      assert.deepStrictEqual(
+        matches.map(m => [m.outputIndex, tools.toHex(m.tweak)]),
+        [[0, VECTOR.tweak]],
+      );
+    });
+
+    SENDING_VECTORS.forEach(f => {
+      it(`matches the BIP352 test vector: ${f.description}`, () => {
+        const psbt = new Psbt();
+        f.inputs.forEach(([txid, index, privateKey, type]) => {
+          const keyPair = ECPair.fromPrivateKey(tools.fromHex(privateKey), {
+            compressed: type !== 'p2pkh-uncompressed',
+          });
+          const script =
+            type === 'p2tr'
+              ? payments.p2tr({ pubkey: keyPair.publicKey.slice(1) }).output!
+              : payments.p2pkh({ pubkey: keyPair.publicKey }).output!;
+          psbt.addInput({
+            hash: reversed(txid),
+            index,
+            witnessUtxo: { script, value: VALUE },
+          });
+        });
+        const [output] = silentpayments.deriveOutputs(
+          psbt,
+          f.inputs.map(([, , privateKey]) => tools.fromHex(privateKey)),
+          [VECTOR.recipient],
+        );
+        assert.strictEqual(tools.toHex(output.pubkey), f.output);
+      });
+    });
+
+    it('labels addresses as the BIP352 test vectors', () => {
+      const { scanKey, spendKey } = silentpayments.decodeAddress(
+        VECTOR.recipient,
+      );
+      assert.strictEqual(
+        silentpayments.encodeAddress(
+          scanKey,
+          silentpayments.labelSpendKey(
+            tools.fromHex(VECTOR.scanPrivateKey),
+            spendKey,
+            2,
+          ),
+        ),
+        LABEL_2_ADDRESS,
+      );
+    });
+
+    it('extracts the keys of malleated and uncompressed P2PKH inputs', () => {
+      const [compressed, malleated] = VECTOR.inputs.map(input =>
+        ECPair.fromPrivateKey(tools.fromHex(input.privateKey)),
+      );
+      const uncompressed = ECPair.fromPrivateKey(new Uint8Array(32).fill(3), {
+        compressed: false,
+      });
+      const signature = new Uint8Array(71).fill(0x30);
+      const prevOutputs = [compressed, malleated, uncompressed].map(k => ({
+        script: payments.p2pkh({ pubkey: k.publicKey }).output!,
+        value: VALUE,
+      }));
+
+      const tx = new Transaction();
+      tx.addInput(
+        reversed(T1),
+        0,
+        0xffffffff,
+        bscript.compile([signature, compressed.publicKey]),
+      );
+      // the key is not the last push, but still found by its hash
+      tx.addInput(
+        reversed(T2),
+        0,
+        0xffffffff,
+        bscript.compile([
+          signature,
+          malleated.publicKey,
+          bscript.OPS.OP_1,
+          bscript.OPS.OP_DROP,
+        ]),
+      );
+      // not eligible, so not part of the shared secret
+      tx.addInput(
+        reversed(T2),
+        1,
+        0xffffffff,
+        bscript.compile([signature, uncompressed.publicKey]),
+      );
+      tx.addOutput(
+        payments.p2tr({ pubkey: tools.fromHex(VECTOR.output) }).output!,
+        VALUE,
+      );
+      const matches = silentpayments.scan(
+        tx,
+        prevOutputs,
+        tools.fromHex(VECTOR.scanPrivateKey),
+        ecc.pointFromScalar(tools.fromHex(VECTOR.spendPrivateKey), true)!,
+      );
+      assert.deepStrictEqual(
+        matches.map(m => [m.outputIndex, tools.toHex(m.tweak)]),
+        [[0, VECTOR.tweak]],
+      );
+    });
+
+    it('pays and finds outputs from all eligible input types', () => {
+      const keyPairs = [1, 2, 3, 4].map(i =>
+        ECPair.fromPrivateKey(new Uint8Array(32).fill(i)),
+      );
+      // a key with an odd y coordinate, whose x-only key is the output key
+      const taprootKeyPair = keyPairs[3];
+      assert.strictEqual(taprootKeyPair.publicKey[0], 0x03);
+
+      const p2pkh = payments.p2pkh({ pubkey: keyPairs[0].publicKey });
+      const p2wpkh = payments.p2wpkh({ pubkey: keyPairs[1].publicKey });
+      const p2sh = payments.p2sh({
+        redeem: payments.p2wpkh({ pubkey: keyPairs[2].publicKey }),
+      });
+      const p2tr = payments.p2tr({
+        pubkey: taprootKeyPair.publicKey.slice(1),
+      });
+      const prevOutputs = [p2pkh, p2wpkh, p2sh, p2tr].map(p => ({
+        script: p.output!,
+        value: VALUE,
+      }));
+      const parent = new Transaction();
+      parent.addInput(new Uint8Array(32), 0);
+      prevOutputs.forEach(o => parent.addOutput(o.script, o.value));
+
+      const labelled = silentpayments.encodeAddress(
+        scanKeyPair.publicKey,
+        silentpayments.labelSpendKey(
+          scanKeyPair.privateKey!,
+          spendKeyPair.publicKey,
+          7,
+        ),
+      );
+      const plain = silentpayments.encodeAddress(
+        scanKeyPair.publicKey,
+        spendKeyPair.publicKey,
+      );
+      const other = silentpayments.encodeAddress(
+        spendKeyPair.publicKey,
+        scanKeyPair.publicKey,
+      );
+      // label 0 is reserved for change
+      const change = silentpayments.encodeAddress(
+        scanKeyPair.publicKey,
+        silentpayments.labelSpendKey(
+          scanKeyPair.privateKey!,
+          spendKeyPair.publicKey,
+          0,
+        ),
+      );
+
+      const psbt = new Psbt();
+      psbt.addInput({
+        hash: parent.getHash(),
+        index: 0,
+        nonWitnessUtxo: parent.toBuffer(),
+      });
+      psbt.addInput({
+        hash: parent.getHash(),
+        index: 1,
+        witnessUtxo: prevOutputs[1],
+      });
+      psbt.addInput({
+        hash: parent.getHash(),
+        index: 2,
+        witnessUtxo: prevOutputs[2],
+        redeemScript: p2sh.redeem!.output,
+      });
+      psbt.addInput({
+        hash: parent.getHash(),
+        index: 3,
+        witnessUtxo: prevOutputs[3],
+        tapInternalKey: taprootKeyPair.publicKey.slice(1),
+      });
+      const outputs = silentpayments.deriveOutputs(
+        psbt,
+        keyPairs.map(k => k.privateKey),
+        [plain, other, labelled, change],
+      );
+      outputs.forEach(o => psbt.addOutput({ script: o.output, value: VALUE }));
+      keyPairs.forEach((k, i) => psbt.signInput(i, k));
+      psbt.finalizeAllInputs();
+      const tx = psbt.extractTransaction();
+
+      const matches = silentpayments.scan(
+        tx,
+        prevOutputs,
+        scanKeyPair.privateKey!,
+        spendKeyPair.publicKey,
+        { labels: [0, 7] },
+      );
+      assert.deepStrictEqual(
+        matches.map(m => [m.outputIndex, m.label]),
+        [
+          [0, undefined],
+          [2, 7],
+          [3, 0],
+        ],
+      );
+      matches.forEach(m => {
+        const privateKey = ecc.privateAdd(spendKeyPair.privateKey!, m.tweak)!;
+        assert.deepStrictEqual(
+          ecc.pointFromScalar(privateKey, true)!.slice(1),
+          m.pubkey,
+        );
+      });
+      assert.deepStrictEqual(
+        silentpayments.scan(
+          tx,
+          prevOutputs,
+          scanKeyPair.privateKey!,
+          spendKeyPair.publicKey,
+        ),
+        matches.slice(0, 1),
+      );
+    });
+
+    it('ignores inputs that can only be spent by script', () => {
+      const nums = tools.fromHex(
+        '50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0',
+      );
+      const keyPair = ECPair.fromPrivateKey(new Uint8Array(32).fill(1));
+      const keyPath = payments.p2tr({ pubkey: keyPair.publicKey.slice(1) });
+      const scriptPath = payments.p2tr({
+        internalPubkey: nums,
+        scriptTree: { output: tools.fromHex('51') },
+        redeem: { output: tools.fromHex('51') },
+      });
+      const prevOutputs = [keyPath, scriptPath].map(p => ({
+        script: p.output!,
+        value: VALUE,
+      }));
+
+      const psbt = new Psbt();
+      prevOutputs.forEach((witnessUtxo, index) =>
+        psbt.addInput({
+          hash: new Uint8Array(32),
+          index,
+          witnessUtxo,
+          tapInternalKey: index ? nums : keyPair.publicKey.slice(1),
+        }),
+      );
+      const recipient = silentpayments.encodeAddress(
+        scanKeyPair.publicKey,
+        spendKeyPair.publicKey,
+      );
+      const [output] = silentpayments.deriveOutputs(
+        psbt,
+        [keyPair.privateKey],
+        [recipient],
+      );
+
+      const tx = new Transaction();
+      tx.addInput(new Uint8Array(32), 0);
+      tx.addInput(new Uint8Array(32), 1);
+      // a key path spend with an annex, and a script path spend
+      tx.setWitness(0, [new Uint8Array(64), Uint8Array.of(0x50, 1)]);
+      tx.setWitness(1, scriptPath.witness!);
+      tx.addOutput(output.output, VALUE);
+      assert.deepStrictEqual(
+        silentpayments
+          .scan(
+            tx,
+            prevOutputs,
+            scanKeyPair.privateKey!,
+            spendKeyPair.publicKey,
+          )
+          .map(m => m.pubkey),
+        [output.pubkey],
+      );
+    });
+
+    it('rejects missing or wrong keys and unsupported inputs', () => {
+      const keyPair = ECPair.fromPrivateKey(new Uint8Array(32).fill(1));
+      const recipient = silentpayments.encodeAddress(
+        scanKeyPair.publicKey,
+        spendKeyPair.publicKey,
+      );
+      const psbtFor = (script: Uint8Array): Psbt =>
+        new Psbt().addInput({
+          hash: new Uint8Array(32),
+          index: 0,
+          witnessUtxo: { script, value: VALUE },
+        });
+      const p2wpkh = psbtFor(
+        payments.p2wpkh({ pubkey: keyPair.publicKey }).output!,
+      );
+
+      assert.throws(
+        () => silentpayments.deriveOutputs(p2wpkh, [], [recipient]),
+        /Missing private key of input #0/,
+      );
+      assert.throws(
+        () =>
+          silentpayments.deriveOutputs(
+            p2wpkh,
+            [scanKeyPair.privateKey],
+            [recipient],
+          ),
+        /Private key does not match input #0/,
+      );
+      // neither the compressed nor the uncompressed key of a P2PKH input
+      assert.throws(
+        () =>
+          silentpayments.deriveOutputs(
+            psbtFor(payments.p2pkh({ pubkey: keyPair.publicKey }).output!),
+            [scanKeyPair.privateKey],
+            [recipient],
+          ),
+        /Private key does not match input #0/,
+      );
+      assert.throws(
+        () =>
+          silentpayments.deriveOutputs(
+            psbtFor(
+              payments.p2wsh({ redeem: { output: tools.fromHex('51') } })
+                .output!,
+            ),
+            [keyPair.privateKey],
+            [recipient],
+          ),
+        /No input is eligible for silent payments/,
+      );
+
+      const witnessV2 = tools.fromHex('5220' + '00'.repeat(32));
+      assert.throws(
+        () =>
+          silentpayments.deriveOutputs(
+            psbtFor(witnessV2),
+            [keyPair.privateKey],
+            [recipient],
+          ),
+        /Inputs of witness version 2 and above are not supported/,
+      );
+      const tx = new Transaction();
+      tx.addInput(new Uint8Array(32), 0);
+      tx.addOutput(witnessV2, VALUE);
+      assert.deepStrictEqual(
+        silentpayments.scan(
+          tx,
+          [{ script: witnessV2, value: VALUE }],
+          scanKeyPair.privateKey!,
+          spendKeyPair.publicKey,
+        ),
+        [],
+      );
+    });
+  });
+});
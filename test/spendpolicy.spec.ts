@@ -0,0 +1,197 @@
+import * as assert from 'assert';
+import * as ecc from 'tiny-secp256k1';
+import ECPairFactory from 'ecpair';
+import { before, describe, it } from 'mocha';
+import * as tools from 'uint8array-tools';
+import {
+  initEccLib,
+  interpreter,
+  miniscript,
+  payments,
+  Psbt,
+  spendpolicy,
+  toXOnly,
+} from 'bitcoinjs-lib';
+
+const ECPair = ECPairFactory(ecc);
+
+const [a, b, c, d] = [1, 2, 3, 4].map(i =>
+  ECPair.fromPrivateKey(new Uint8Array(32).fill(i)),
+);
+const keys = {
+  A: a.publicKey,
+  B: b.publicKey,
+  C: c.publicKey,
+  D: d.publicKey,
+};
+const VALUE = 10000n;
+
+describe('spendpolicy', () => {
+  before(() => {
+    initEccLib(ecc);
+  });
+
+  describe('parse', () => {
+    it('parses policies with weights', () => {
+      assert.deepStrictEqual(
+        spendpolicy.parse('or(99@pk(A),and(pk(B),older(144)))'),
+        {
+          type: 'or',
+          subs: [
+            { type: 'pk', key: 'A', subs: [], weights: [] },
+            {
+              type: 'and',
+              subs: [
+                { type: 'pk', key: 'B', subs: [], weights: [] },
+                { type: 'older', k: 144, subs: [], weights: [] },
+              ],
+              weights: [],
+            },
+          ],
+          weights: [99, 1],
+        },
+      );
+      assert.strictEqual(
+        spendpolicy.parse('thresh(2,pk(A),pk(B),after(100))').k,
+        2,
+      );
+    });
+
+    it('rejects invalid policies', () => {
+      [
+        ['pk(A', /Invalid policy expression: pk\(A/],
+        ['and(pk(A))', /and expects 2 arguments, got 1/],
+        ['or(0@pk(A),pk(B))', /Invalid policy number: 0/],
+        ['older(0)', /Invalid policy number: 0/],
+        ['thresh(3,pk(A),pk(B))', /Invalid policy number: 3/],
+        ['sha256(00)', /Invalid sha256 hash: 00/],
+        ['and(pk(A)),pk(B))', /Unbalanced brackets in policy/],
+        ['multi(1,A)', /Unknown policy fragment: multi/],
+      ].forEach(([policy, error]) =>
+        assert.throws(() => spendpolicy.parse(policy as string), error),
+      );
+    });
+  });
+
+  describe('compile', () => {
+    it('compiles to the cheapest miniscript', () => {
+      [
+        [
+          'or(99@pk(A),and(pk(B),older(144)))',
+          'or_d(pk(A),and_v(v:pkh(B),older(144)))',
+        ],
+        ['or(pk(A),pk(B))', 'or_b(pk(A),s:pk(B))'],
+        ['and(pk(A),pk(B))', 'and_v(v:pk(A),pk(B))'],
+        ['thresh(2,pk(A),pk(B),pk(C))', 'multi(2,A,B,C)'],
+        [
+          'thresh(2,pk(A),pk(B),older(1000))',
+          'thresh(2,pk(A),s:pk(B),sln:older(1000))',
+        ],
+      ].forEach(([policy, expression]) => {
+        const ms = spendpolicy.compile(policy, { keys });
+        assert.strictEqual(ms.expression, expression);
+        assert.ok(ms.analysis.sane);
+      });
+    });
+
+    it('rejects keys it does not know and unsafe policies', () => {
+      assert.throws(
+        () => spendpolicy.compile('pk(E)', { keys }),
+        /Unknown key: E/,
+      );
+      assert.throws(
+        () => spendpolicy.compile('or(pk(A),older(10))', { keys }),
+        /The policy can not be compiled to a safe miniscript/,
+      );
+    });
+
+    it('compiles spendable p2wsh outputs', () => {
+      const ms = spendpolicy.compile('or(99@pk(A),and(pk(B),older(144)))', {
+        keys,
+      });
+      const p2wsh = payments.p2wsh({ redeem: { output: ms.script } });
+      const psbt = new Psbt();
+      psbt.addInput({
+        hash: new Uint8Array(32),
+        index: 0,
+        sequence: 144,
+        witnessUtxo: { script: p2wsh.output!, value: VALUE },
+        witnessScript: ms.script,
+      });
+      psbt.addOutput({ script: p2wsh.output!, value: VALUE - 1000n });
+      psbt.signInput(0, b);
+      psbt.finalizeInput(
+        0,
+        miniscript.finalizer(ms.expression, { keys, sequence: 144 }),
+      );
+      assert.deepStrictEqual(
+        interpreter.verifyInput(psbt.extractTransaction(), 0, [
+          { script: p2wsh.output!, value: VALUE },
+        ]),
+        { success: true },
+      );
+    });
+  });
+
+  describe('compileTaproot', () => {
+    it('uses the most likely key as internal key', () => {
+      const { internalPubkey, scriptTree, leaves } = spendpolicy.compileTaproot(
+        'or(99@pk(A),and(pk(B),older(144)))',
+        { keys },
+      );
+      assert.deepStrictEqual(internalPubkey, toXOnly(a.publicKey));
+      assert.strictEqual(leaves.length, 1);
+      assert.strictEqual(
+        leaves[0].miniscript.expression,
+        'and_v(v:pk(B),older(144))',
+      );
+      assert.strictEqual(leaves[0].probability, 0.01);
+      assert.deepStrictEqual(scriptTree, {
+        output: leaves[0].miniscript.script,
+      });
+
+      assert.deepStrictEqual(spendpolicy.compileTaproot('pk(A)', { keys }), {
+        internalPubkey,
+        scriptTree: undefined,
+        leaves: [],
+      });
+    });
+
+    it('uses an unspendable internal key without key branch', () => {
+      const { internalPubkey, leaves } = spendpolicy.compileTaproot(
+        'and(pk(A),pk(B))',
+        { keys },
+      );
+      assert.strictEqual(
+        tools.toHex(internalPubkey),
+        '50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0',
+      );
+      assert.strictEqual(
+        leaves[0].miniscript.expression,
+        'and_v(v:pk(A),pk(B))',
+      );
+    });
+
+    it('puts likely leaves closer to the root', () => {
+      const { scriptTree, leaves } = spendpolicy.compileTaproot(
+        'or(pk(A),or(6@and(pk(B),pk(C)),1@or(pk(D),and(pk(B),older(10)))))',
+        { keys },
+      );
+      assert.deepStrictEqual(
+        leaves.map(leaf => [leaf.miniscript.expression, leaf.probability]),
+        [
+          ['and_v(v:pk(B),pk(C))', 3 / 7],
+          ['pk(D)', 1 / 28],
+          ['and_v(v:pk(B),older(10))', 1 / 28],
+        ],
+      );
+      assert.deepStrictEqual(scriptTree, [
+        { output: leaves[0].miniscript.script },
+        [
+          { output: leaves[2].miniscript.script },
+          { output: leaves[1].miniscript.script },
+        ],
+      ]);
+    });
+  });
+});
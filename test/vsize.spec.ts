@@ -0,0 +1,282 @@
+import * as assert from 'assert';
+import * as ecc from 'tiny-secp256k1';
+import ECPairFactory from 'ecpair';
+import { before, describe, it } from 'mocha';
+import * as tools from 'uint8array-tools';
+import {
+  crypto,
+  initEccLib,
+  InputPlan,
+  payments,
+  Psbt,
+  script as bscript,
+  toXOnly,
+  Transaction,
+  vsize,
+} from 'bitcoinjs-lib';
+
+const ECPair = ECPairFactory(ecc);
+
+const keys = [1, 2, 3].map(i =>
+  ECPair.fromPrivateKey(new Uint8Array(32).fill(i)),
+);
+const [key] = keys;
+const internalPubkey = toXOnly(key.publicKey);
+const leaf = bscript.compile([internalPubkey, bscript.OPS.OP_CHECKSIG]);
+const scriptTree: [{ output: Uint8Array }, { output: Uint8Array }] = [
+  { output: leaf },
+  { output: bscript.compile([bscript.OPS.OP_RETURN]) },
+];
+const p2ms = payments.p2ms({ m: 2, pubkeys: keys.map(k => k.publicKey) });
+const destination = payments.p2wpkh({ pubkey: key.publicKey });
+
+interface Spend {
+  plan: InputPlan;
+  payment: ReturnType<typeof payments.p2wpkh>;
+  signers: Array<ReturnType<typeof ECPair.fromPrivateKey>>;
+  input?: object;
+}
+
+function spends(lowR: boolean): Spend[] {
+  const signers = keys.map(k => {
+    const signer = ECPair.fromPrivateKey(k.privateKey!);
+    signer.lowR = lowR;
+    return signer;
+  });
+  const uncompressed = ECPair.fromPrivateKey(key.privateKey!, {
+    compressed: false,
+  });
+  uncompressed.lowR = lowR;
+  const p2tr = payments.p2tr({ internalPubkey, scriptTree });
+  const p2trLeaf = payments.p2tr({
+    internalPubkey,
+    scriptTree,
+    redeem: { output: leaf },
+  });
+  const controlBlock = p2trLeaf.witness![p2trLeaf.witness!.length - 1];
+  return [
+    {
+      plan: { type: 'p2pkh' },
+      payment: payments.p2pkh({ pubkey: key.publicKey }),
+      signers: [signers[0]],
+    },
+    {
+      plan: { type: 'p2pkh', compressed: false },
+      payment: payments.p2pkh({ pubkey: uncompressed.publicKey }),
+      signers: [uncompressed],
+    },
+    {
+      plan: { type: 'p2wpkh' },
+      payment: payments.p2wpkh({ pubkey: key.publicKey }),
+      signers: [signers[0]],
+    },
+    {
+      plan: { type: 'p2sh-p2wpkh' },
+      payment: payments.p2sh({
+        redeem: payments.p2wpkh({ pubkey: key.publicKey }),
+      }),
+      signers: [signers[0]],
+    },
+    {
+      plan: { type: 'p2sh-p2ms', m: 2, n: 3 },
+      payment: payments.p2sh({ redeem: p2ms }),
+      signers: signers.slice(0, 2),
+    },
+    {
+      plan: { type: 'p2wsh-p2ms', m: 2, n: 3 },
+      payment: payments.p2wsh({ redeem: p2ms }),
+      signers: signers.slice(1),
+    },
+    {
+      plan: { type: 'p2sh-p2wsh-p2ms', m: 2, n: 3 },
+      payment: payments.p2sh({ redeem: payments.p2wsh({ redeem: p2ms }) }),
+      signers: signers.slice(0, 2),
+    },
+    {
+      plan: { type: 'p2tr' },
+      payment: p2tr,
+      signers: [
+        key.tweak(
+          crypto.taggedHash(
+            'TapTweak',
+            tools.concat([internalPubkey, p2tr.hash!]),
+          ),
+        ),
+      ],
+    },
+    {
+      plan: {
+        type: 'p2tr',
+        scriptPath: {
+          leafScriptSize: leaf.length,
+          controlBlockSize: controlBlock.length,
+          stack: [64],
+        },
+      },
+      payment: p2tr,
+      signers: [key],
+      input: {
+        tapLeafScript: [{ leafVersion: 0xc0, script: leaf, controlBlock }],
+      },
+    },
+  ];
+}
+
+function signedTx(list: Spend[]): Transaction {
+  const prevTx = new Transaction();
+  prevTx.addInput(new Uint8Array(32), 0);
+  list.forEach(spend => prevTx.addOutput(spend.payment.output!, 10000n));
+  const psbt = new Psbt();
+  list.forEach((spend, index) => {
+    const isLegacy = !vsize.isSegwit(spend.plan);
+    psbt.addInput({
+      hash: prevTx.getHash(),
+      index,
+      ...(isLegacy
+        ? { nonWitnessUtxo: prevTx.toBuffer() }
+        : { witnessUtxo: { script: spend.payment.output!, value: 10000n } }),
+      ...(spend.payment.redeem && spend.plan.type !== 'p2tr'
+        ? spend.plan.type.startsWith('p2wsh')
+          ? { witnessScript: spend.payment.redeem.output }
+          : { redeemScript: spend.payment.redeem.output }
+        : {}),
+      ...(spend.plan.type === 'p2sh-p2wsh-p2ms'
+        ? { witnessScript: p2ms.output }
+        : {}),
+      ...(spend.plan.type === 'p2tr' ? { tapInternalKey: internalPubkey } : {}),
+      ...spend.input,
+    });
+  });
+  psbt.addOutput({ script: destination.output!, value: 1000n });
+  list.forEach((spend, index) =>
+    spend.signers.forEach(signer => psbt.signInput(index, signer)),
+  );
+  psbt.finalizeAllInputs();
+  return psbt.extractTransaction(true);
+}
+
+describe('vsize', () => {
+  before(() => {
+    initEccLib(ecc);
+  });
+
+  describe('estimate', () => {
+    it('matches transactions signed with low-R signatures', () => {
+      spends(true).forEach(spend => {
+        const tx = signedTx([spend]);
+        const estimate = vsize.estimate({
+          inputs: [spend.plan],
+          outputs: [{ script: destination.output! }],
+          lowR: true,
+        });
+        assert.strictEqual(estimate.weight, tx.weight(), spend.plan.type);
+        assert.strictEqual(estimate.vsize, tx.virtualSize());
+      });
+    });
+
+    it('is an upper bound for high-R signatures', () => {
+      const list = spends(false);
+      const tx = signedTx(list);
+      const estimate = vsize.estimate({
+        inputs: list.map(spend => spend.plan),
+        outputs: [{ address: destination.address! }],
+      });
+      assert.ok(estimate.weight >= tx.weight());
+      // at most one byte per ECDSA signature, 11 signatures
+      assert.ok(estimate.weight - tx.weight() <= 11 * 4);
+      assert.strictEqual(
+        vsize.estimateFee(
+          {
+            inputs: list.map(spend => spend.plan),
+            outputs: [{ address: destination.address! }],
+          },
+          1.5,
+        ),
+        BigInt(Math.ceil(estimate.vsize * 1.5)),
+      );
+    });
+
+    it('counts the empty witness of legacy inputs in segwit transactions', () => {
+      const [p2pkh, , p2wpkh] = spends(true);
+      const tx = signedTx([p2pkh, p2wpkh]);
+      assert.strictEqual(
+        vsize.estimate({
+          inputs: [p2pkh.plan, p2wpkh.plan],
+          outputs: [{ script: destination.output! }],
+          lowR: true,
+        }).weight,
+        tx.weight(),
+      );
+    });
+
+    it('sizes other script hashes and sighash types', () => {
+      const p2tr = vsize.inputWeight({ type: 'p2tr' });
+      assert.strictEqual(
+        vsize.inputWeight({
+          type: 'p2tr',
+          sighashType: Transaction.SIGHASH_ALL,
+        }),
+        p2tr + 1,
+      );
+      // <sig> <pubkey> OP_CHECKSIG as a p2wsh witness script
+      assert.strictEqual(
+        vsize.inputWeight({ type: 'p2wsh', scriptSize: 35, stack: [72] }),
+        41 * 4 + 1 + 73 + 36,
+      );
+      assert.strictEqual(
+        vsize.inputWeight({ type: 'p2sh', scriptSize: 35, stack: [72] }),
+        (41 + 73 + 36) * 4,
+      );
+      assert.strictEqual(vsize.outputWeight(destination.output!), 31 * 4);
+      assert.throws(() => {
+        vsize.inputWeight({ type: 'p2unknown' } as any);
+      }, /Unknown input type p2unknown/);
+    });
+  });
+
+  describe('fromPayment', () => {
+    it('describes how payments are spent', () => {
+      spends(false)
+        .filter(spend => !('scriptPath' in spend.plan))
+        .forEach(spend => {
+          assert.deepStrictEqual(
+            vsize.fromPayment(spend.payment),
+            spend.plan.type === 'p2tr'
+              ? spend.plan
+              : { compressed: true, ...spend.plan },
+          );
+        });
+      const p2pk = payments.p2pk({ pubkey: key.publicKey });
+      assert.deepStrictEqual(
+        vsize.fromPayment(payments.p2wsh({ redeem: p2pk })),
+        { type: 'p2wsh', scriptSize: 35, stack: [72] },
+      );
+      assert.deepStrictEqual(
+        vsize.fromPayment(
+          payments.p2sh({ redeem: payments.p2wsh({ redeem: p2pk }) }),
+        ),
+        { type: 'p2sh-p2wsh', scriptSize: 35, stack: [72] },
+      );
+    });
+
+    it('throws for payments it can not describe', () => {
+      assert.throws(() => {
+        vsize.fromPayment(payments.p2sh({ hash: new Uint8Array(20) }));
+      }, /Can not estimate the input size of p2sh/);
+      assert.throws(() => {
+        vsize.fromPayment(
+          payments.p2tr({
+            internalPubkey,
+            scriptTree,
+            redeem: { output: leaf },
+          }),
+        );
+      }, /Can not estimate the input size of p2tr/);
+      assert.throws(() => {
+        vsize.fromPayment(
+          payments.p2sh({ redeem: payments.p2tr({ internalPubkey }) }),
+        );
+      }, /Can not estimate the input size of p2sh-p2tr/);
+    });
+  });
+});
@@ -10,6 +10,11 @@
 import { Network } from './networks.js';
 import * as networks from './networks.js';
 import * as payments from './payments/index.js';
+import {
+  fromOutputScript as pivxFromOutputScript,
+  pivxAddressToOutputScript,
+} from './pivx/address.js';
+import { isPivxNetwork } from './pivx/network.js';
 import * as bscript from './script.js';
 import { Hash160bitSchema, UInt8Schema } from './types.js';
 import { bech32, bech32m } from 'bech32';
@@ -171,6 +176,7 @@ export function toBech32(
 
 /**
  * Converts an output script to a Bitcoin address.
+ * PIVX networks render their own address types, see the pivx module.
  * @param output - The output script as a Buffer.
  * @param network - The Bitcoin network (optional).
  * @returns The Bitcoin address corresponding to the output script.
@@ -182,6 +188,7 @@ export function fromOutputScript(
 ): string {
   // TODO: Network
   network = network || networks.bitcoin;
+  if (isPivxNetwork(network)) return pivxFromOutputScript(output, network);
 
   try {
     return payments.p2pkh({ output, network }).address as string;
@@ -207,6 +214,7 @@ export function fromOutputScript(
 
 /**
  * Converts a Bitcoin address to its corresponding output script.
+ * PIVX networks also accept staking and exchange addresses.
  * @param address - The Bitcoin address to convert.
  * @param network - The Bitcoin network to use. Defaults to the Bitcoin network.
  * @returns The corresponding output script as a Buffer.
@@ -214,6 +222,8 @@ export function fromOutputScript(
  */
 export function toOutputScript(address: string, network?: Network): Uint8Array {
   network = network || networks.bitcoin;
+  if (isPivxNetwork(network))
+    return pivxAddressToOutputScript(address, network);
 
   let decodeBase58: Base58CheckResult | undefined;
   let decodeBech32: Bech32Result | undefined;
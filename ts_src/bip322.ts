@@ -0,0 +1,440 @@
+/**
+ * BIP322 generic signed messages.
+ *
+ * A message is signed by spending a virtual `to_spend` transaction, whose
+ * only output is the address' output script (the message challenge), with a
+ * virtual `to_sign` transaction. Any script the signer can spend can thus sign
+ * a message, including P2WSH and P2TR addresses.
+ *
+ * The `to_sign` transaction is built as a {@link Psbt}, so signing uses the
+ * regular Psbt signer paths. A "simple" signature is the witness stack of the
+ * signed input; a "full" signature is the whole `to_sign` transaction.
+ *
+ * Reference: https://github.com/bitcoin/bips/blob/master/bip-0322.mediawiki
+ *
+ * @packageDocumentation
+ */
+import { PsbtInputUpdate } from 'bip174';
+import { toOutputScript } from './address.js';
+import { BufferReader } from './bufferutils.js';
+import * as bcrypto from './crypto.js';
+import { Network } from './networks.js';
+import * as networks from './networks.js';
+import * as payments from './payments/index.js';
+import { Psbt, Signer, ValidateSigFunction } from './psbt.js';
+import { isTaprootInput } from './psbt/bip371.js';
+import {
+  isP2MS,
+  isP2PK,
+  isP2PKH,
+  isP2SHScript,
+  isP2TR,
+  isP2WPKH,
+  isP2WSHScript,
+  witnessStackToScriptWitness,
+} from './psbt/psbtutils.js';
+import * as bscript from './script.js';
+import { Transaction } from './transaction.js';
+import * as tools from 'uint8array-tools';
+
+const OPS = bscript.OPS;
+
+/**
+ * Signature format:
+ * - 'simple': the consensus encoded witness stack (segwit addresses only)
+ * - 'full': the consensus encoded `to_sign` transaction
+ */
+export type Bip322Format = 'simple' | 'full';
+
+export interface Bip322SignOptions {
+  /** Network of the address, defaults to bitcoin */
+  network?: Network;
+  /** Signature format, defaults to 'simple' */
+  format?: Bip322Format;
+  /**
+   * Extra Psbt input data needed to sign for the address, e.g. the
+   * `witnessScript` of a P2WSH address or the `tapInternalKey` of a P2TR
+   * address (sign key path spends with the tweaked key).
+   */
+  inputData?: PsbtInputUpdate;
+  /** Allowed sighash types, passed to the Psbt signer */
+  sighashTypes?: number[];
+}
+
+export interface Bip322VerifyOptions {
+  /** Network of the address, defaults to bitcoin */
+  network?: Network;
+}
+
+/**
+ * Computes the BIP322 message hash, a `BIP0322-signed-message` tagged hash.
+ *
+ * @param message - The message, UTF-8 encoded if it is a string
+ * @returns The 32 byte message hash
+ */
+export function hashMessage(message: string | Uint8Array): Uint8Array {
+  const data = typeof message === 'string' ? tools.fromUtf8(message) : message;
+  return bcrypto.taggedHash('BIP0322-signed-message', data);
+}
+
+/**
+ * Builds the virtual `to_spend` transaction, which pays to the message
+ * challenge.
+ *
+ * @param message - The message, UTF-8 encoded if it is a string
+ * @param messageChallenge - The output script of the signing address
+ * @returns The `to_spend` transaction
+ */
+export function toSpend(
+  message: string | Uint8Array,
+  messageChallenge: Uint8Array,
+): Transaction {
+  const tx = new Transaction();
+  tx.version = 0;
+  tx.locktime = 0;
+  tx.addInput(
+    new Uint8Array(32),
+    0xffffffff,
+    0,
+    bscript.compile([OPS.OP_0, hashMessage(message)]),
+  );
+  tx.addOutput(messageChallenge, 0n);
+  return tx;
+}
+
+/**
+ * Builds the virtual `to_sign` transaction as a Psbt, ready to be signed with
+ * the Psbt signer methods and finalized.
+ *
+ * @param message - The message, UTF-8 encoded if it is a string
+ * @param messageChallenge - The output script of the signing address
+ * @param inputData - Extra input data (redeemScript, witnessScript,
+ * tapInternalKey, tapLeafScript, ...)
+ * @returns The `to_sign` Psbt
+ *
+ * @example
+ * ```typescript
+ * const psbt = bip322.toSign(message, p2wsh.output!, {
+ *   witnessScript: p2wsh.redeem!.output,
+ * });
+ * psbt.signInput(0, alice).signInput(0, bob).finalizeAllInputs();
+ * const signature = bip322.extractSignature(psbt);
+ * ```
+ */
+export function toSign(
+  message: string | Uint8Array,
+  messageChallenge: Uint8Array,
+  inputData: PsbtInputUpdate = {},
+): Psbt {
+  const spend = toSpend(message, messageChallenge);
+  const psbt = new Psbt();
+  psbt.setVersion(0);
+  psbt.setLocktime(0);
+  psbt.addInput(
+    Object.assign(
+      {
+        hash: spend.getHash(),
+        index: 0,
+        sequence: 0,
+        witnessUtxo: { script: messageChallenge, value: 0n },
+        nonWitnessUtxo: spend.toBuffer(),
+      },
+      inputData,
+    ),
+  );
+  psbt.addOutput({ script: bscript.compile([OPS.OP_RETURN]), value: 0n });
+  return psbt;
+}
+
+/**
+ * Serializes the signature of a finalized `to_sign` Psbt.
+ *
+ * @param psbt - The finalized `to_sign` Psbt
+ * @param format - The signature format, defaults to 'simple'
+ * @returns The signature (use base64 for the usual text form)
+ * @throws {Error} If a simple signature is requested for a non-segwit input
+ */
+export function extractSignature(
+  psbt: Psbt,
+  format: Bip322Format = 'simple',
+): Uint8Array {
+  const tx = psbt.extractTransaction(true);
+  if (format === 'full') return tx.toBuffer();
+
+  // the scriptSig of P2SH-wrapped segwit inputs is implied by the witness
+  const { witness } = tx.ins[0];
+  if (witness.length === 0)
+    throw new Error(
+      'Simple signatures require a segwit input, use the full format',
+    );
+  return witnessStackToScriptWitness(witness);
+}
+
+/**
+ * Signs a message for an address.
+ *
+ * P2WPKH, P2SH-P2WPKH and P2TR key path addresses need no extra input data.
+ * Other addresses need the scripts to spend them in `opts.inputData`.
+ *
+ * @param message - The message, UTF-8 encoded if it is a string
+ * @param signer - The signer
+ * @param address - The address to sign for
+ * @param opts - Network, format and extra input data
+ * @returns The signature (use base64 for the usual text form)
+ *
+ * @example
+ * ```typescript
+ * const signature = bip322.sign('Hello World', keyPair, address);
+ * bip322.verify('Hello World', address, signature, validator); // true
+ * ```
+ */
+export function sign(
+  message: string | Uint8Array,
+  signer: Signer,
+  address: string,
+  opts: Bip322SignOptions = {},
+): Uint8Array {
+  const messageChallenge = toOutputScript(address, opts.network);
+  const inputData = Object.assign({}, opts.inputData);
+  if (isP2SHScript(messageChallenge) && !inputData.redeemScript)
+    inputData.redeemScript = payments.p2wpkh({
+      pubkey: signer.publicKey,
+    }).output;
+
+  const psbt = toSign(message, messageChallenge, inputData);
+  if (isTaprootInput(psbt.data.inputs[0]))
+    psbt.signTaprootInput(0, signer, undefined, opts.sighashTypes);
+  else psbt.signInput(0, signer, opts.sighashTypes);
+  psbt.finalizeAllInputs();
+
+  return extractSignature(psbt, opts.format);
+}
+
+/**
+ * Decodes a simple signature, returning undefined if the buffer is not
+ * exactly one non-empty witness stack.
+ */
+function decodeWitness(buffer: Uint8Array): Uint8Array[] | undefined {
+  try {
+    const bufferReader = new BufferReader(buffer);
+    const witness = bufferReader.readVector();
+    if (witness.length > 0 && bufferReader.offset === buffer.length)
+      return witness;
+  } catch (e) {}
+}
+
+/**
+ * Checks a signature against a public key through the Psbt validation path,
+ * which recomputes the sighash for the input's scripts.
+ */
+function checkSig(
+  psbt: Psbt,
+  validator: ValidateSigFunction,
+  pubkey: Uint8Array,
+  signature: Uint8Array,
+): boolean {
+  try {
+    const clone = psbt.clone();
+    clone.updateInput(0, { partialSig: [{ pubkey, signature }] });
+    return clone.validateSignaturesOfInput(0, validator, pubkey);
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Checks the satisfaction of a spent script: P2PKH (or P2WPKH), P2PK or
+ * P2MS.
+ */
+function checkScript(
+  psbt: Psbt,
+  validator: ValidateSigFunction,
+  script: Uint8Array,
+  stack: Uint8Array[],
+): boolean {
+  if (isP2PKH(script) || isP2WPKH(script))
+    return stack.length === 2 && checkSig(psbt, validator, stack[1], stack[0]);
+
+  if (isP2PK(script)) {
+    const { pubkey } = payments.p2pk({ output: script });
+    return stack.length === 1 && checkSig(psbt, validator, pubkey!, stack[0]);
+  }
+
+  if (isP2MS(script)) {
+    const { m, pubkeys } = payments.p2ms({ output: script });
+    // the dummy element, then m signatures in the order of their keys
+    if (stack.length !== m! + 1 || stack[0].length !== 0) return false;
+    let k = 0;
+    return stack.slice(1).every(signature => {
+      while (k < pubkeys!.length)
+        if (checkSig(psbt, validator, pubkeys![k++], signature)) return true;
+      return false;
+    });
+  }
+
+  throw new Error('Unsupported script: ' + bscript.toASM(script));
+}
+
+/**
+ * Checks the witness spending a P2WPKH or P2WSH program, natively or nested
+ * in P2SH (with `redeemScript`).
+ */
+function checkWitness(
+  psbt: Psbt,
+  validator: ValidateSigFunction,
+  program: Uint8Array,
+  witness: Uint8Array[],
+  redeemScript?: Uint8Array,
+): boolean {
+  const inputData: PsbtInputUpdate = redeemScript ? { redeemScript } : {};
+  let script = program;
+  let stack = witness;
+  if (isP2WSHScript(program)) {
+    if (witness.length === 0) return false;
+    script = inputData.witnessScript = witness[witness.length - 1];
+    stack = witness.slice(0, -1);
+  }
+  // the Psbt checks the scripts against the message challenge when the
+  // signatures are validated
+  psbt.updateInput(0, inputData);
+  return checkScript(psbt, validator, script, stack);
+}
+
+/**
+ * Finds the redeem script of a P2SH-wrapped segwit simple signature, which
+ * only carries the witness.
+ */
+function impliedRedeemScript(
+  messageChallenge: Uint8Array,
+  witness: Uint8Array[],
+): Uint8Array | undefined {
+  const last = witness[witness.length - 1];
+  const candidates = [payments.p2wsh({ hash: bcrypto.sha256(last) }).output!];
+  if (witness.length === 2 && last.length === 33)
+    candidates.unshift(
+      payments.p2wpkh({ hash: bcrypto.hash160(last) }).output!,
+    );
+
+  return candidates.find(
+    output =>
+      tools.compare(
+        payments.p2sh({ redeem: { output } }).output!,
+        messageChallenge,
+      ) === 0,
+  );
+}
+
+/**
+ * Verifies a BIP322 signature (simple or full format) for an address.
+ *
+ * Supported addresses: P2PKH, P2WPKH, P2TR key path spends and P2SH / P2WSH /
+ * P2SH-P2WSH addresses with P2PKH, P2PK or multisig scripts, as well as
+ * P2SH-P2WPKH.
+ *
+ * @param message - The message, UTF-8 encoded if it is a string
+ * @param address - The address of the signer
+ * @param signature - The signature, or its base64 encoding
+ * @param validator - Signature validation function, called with 33 byte
+ * public keys for ECDSA and 32 byte public keys for Schnorr signatures
+ * @param opts - Verification options
+ * @returns true if the signature is valid for the address
+ * @throws {Error} If the signature can not be decoded or the address script is
+ * not supported
+ */
+export function verify(
+  message: string | Uint8Array,
+  address: string,
+  signature: Uint8Array | string,
+  validator: ValidateSigFunction,
+  opts: Bip322VerifyOptions = {},
+): boolean {
+  const network = opts.network || networks.bitcoin;
+  const messageChallenge = toOutputScript(address, network);
+  const buffer =
+    typeof signature === 'string' ? tools.fromBase64(signature) : signature;
+
+  const psbt = toSign(message, messageChallenge);
+  let scriptSig: Uint8Array = new Uint8Array(0);
+  let witness = decodeWitness(buffer);
+  if (!witness) {
+    const tx = Transaction.fromBuffer(buffer);
+    const unsigned = psbt.txInputs[0];
+    if (
+      tx.ins.length !== 1 ||
+      tools.compare(tx.ins[0].hash, unsigned.hash) !== 0 ||
+      tx.ins[0].index !== unsigned.index ||
+      tx.outs.length !== 1 ||
+      tx.outs[0].value !== 0n ||
+      tools.compare(tx.outs[0].script, psbt.txOutputs[0].script) !== 0
+    )
+      return false;
+
+    psbt.setVersion(tx.version);
+    psbt.setLocktime(tx.locktime);
+    psbt.setInputSequence(0, tx.ins[0].sequence);
+    scriptSig = tx.ins[0].script;
+    witness = tx.ins[0].witness;
+  }
+
+  if (isP2TR(messageChallenge)) {
+    if (scriptSig.length > 0 || witness.length !== 1) return false;
+    try {
+      const tapKeySig = witness[0];
+      // the sighash is computed for the input's sighash type
+      if (tapKeySig.length === 65)
+        psbt.updateInput(0, { sighashType: tapKeySig[64] });
+      psbt.updateInput(0, { tapKeySig });
+      return psbt.validateSignaturesOfInput(
+        0,
+        validator,
+        messageChallenge.subarray(2, 34),
+      );
+    } catch (e) {
+      return false;
+    }
+  }
+
+  if (isP2WPKH(messageChallenge) || isP2WSHScript(messageChallenge))
+    return (
+      scriptSig.length === 0 &&
+      checkWitness(psbt, validator, messageChallenge, witness)
+    );
+
+  if (isP2SHScript(messageChallenge)) {
+    let redeemScript: Uint8Array | undefined;
+    let stack: Uint8Array[] = [];
+    if (scriptSig.length > 0) {
+      const chunks = bscript.decompile(scriptSig);
+      if (!chunks || !bscript.isPushOnly(chunks)) return false;
+      stack = bscript.toStack(chunks);
+      redeemScript = stack.pop();
+    } else if (witness.length > 0) {
+      redeemScript = impliedRedeemScript(messageChallenge, witness);
+    }
+    if (!redeemScript) return false;
+
+    if (isP2WPKH(redeemScript) || isP2WSHScript(redeemScript))
+      return (
+        stack.length === 0 &&
+        checkWitness(psbt, validator, redeemScript, witness, redeemScript)
+      );
+
+    if (witness.length > 0) return false;
+    psbt.updateInput(0, { redeemScript });
+    return checkScript(psbt, validator, redeemScript, stack);
+  }
+
+  if (isP2PKH(messageChallenge)) {
+    const chunks = bscript.decompile(scriptSig);
+    if (witness.length > 0 || !chunks || !bscript.isPushOnly(chunks))
+      return false;
+    return checkScript(
+      psbt,
+      validator,
+      messageChallenge,
+      bscript.toStack(chunks),
+    );
+  }
+
+  throw new Error('Unsupported address: ' + address);
+}
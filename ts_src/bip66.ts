@@ -123,3 +123,62 @@ export function encode(r: Uint8Array, s: Uint8Array): Uint8Array {
 
   return signature;
 }
+
+/**
+ * Parses a DER signature as leniently as OpenSSL did before BIP66, returning
+ * the 64 byte compact signature (r || s), or null if it can not be parsed.
+ */
+export function parseLaxDER(input: Uint8Array): Uint8Array | null {
+  let pos = 0;
+  const readLength = (): number | null => {
+    if (pos === input.length) return null;
+    let length = input[pos++];
+    if (length & 0x80) {
+      let bytes = length - 0x80;
+      if (bytes > input.length - pos) return null;
+      while (bytes > 0 && input[pos] === 0) {
+        pos++;
+        bytes--;
+      }
+      if (bytes >= 4) return null;
+      length = 0;
+      while (bytes > 0) {
+        length = length * 0x100 + input[pos++];
+        bytes--;
+      }
+    }
+    return length;
+  };
+  const readInteger = (): Uint8Array | null => {
+    if (pos === input.length || input[pos] !== 0x02) return null;
+    pos++;
+    const length = readLength();
+    if (length === null || length > input.length - pos) return null;
+    let value = input.subarray(pos, pos + length);
+    pos += length;
+    while (value.length > 0 && value[0] === 0) value = value.subarray(1);
+    return value;
+  };
+
+  // sequence tag and length
+  if (pos === input.length || input[pos] !== 0x30) return null;
+  pos++;
+  if (pos === input.length) return null;
+  const lengthByte = input[pos++];
+  if (lengthByte & 0x80) {
+    if (lengthByte - 0x80 > input.length - pos) return null;
+    pos += lengthByte - 0x80;
+  }
+
+  const r = readInteger();
+  if (r === null) return null;
+  const s = readInteger();
+  if (s === null) return null;
+
+  const compact = new Uint8Array(64);
+  // overflowing values make an invalid (all zero) signature
+  if (r.length > 32 || s.length > 32) return compact;
+  compact.set(r, 32 - r.length);
+  compact.set(s, 64 - s.length);
+  return compact;
+}
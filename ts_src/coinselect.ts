@@ -0,0 +1,532 @@
+/**
+ * Coin selection: picks the UTXOs funding a set of outputs at a fee rate and
+ * builds the {@link Psbt} spending them.
+ *
+ * The algorithms follow Bitcoin Core's wallet: branch and bound looks for a
+ * changeless solution, knapsack and single random draw select with change,
+ * and largest first simply spends the biggest UTXOs. Without an explicit
+ * algorithm, the solution with the least waste is picked, like Bitcoin Core
+ * does.
+ *
+ * Every UTXO is valued at its effective value: its amount minus the fee of
+ * the input spending it, whose worst-case size is estimated from the payment
+ * locking the UTXO with {@link fromPayment}.
+ *
+ * @packageDocumentation
+ */
+import { PsbtInputUpdate } from 'bip174';
+import { toOutputScript } from './address.js';
+import { bitcoin as btcNetwork, Network } from './networks.js';
+import { Payment } from './payments/index.js';
+import { Psbt, PsbtOutputExtended } from './psbt.js';
+import { OPS } from './ops.js';
+import {
+  fromPayment,
+  inputWeight,
+  isSegwit,
+  outputWeight,
+  overheadWeight,
+} from './vsize.js';
+
+export type CoinSelectAlgorithm = 'bnb' | 'knapsack' | 'largestFirst' | 'srd';
+
+export interface CoinSelectUtxo {
+  hash: string | Uint8Array;
+  index: number;
+  value: bigint;
+  /** The payment locking the UTXO, such as `payments.p2wpkh({ pubkey })` */
+  payment: Payment;
+  sequence?: number;
+  /**
+   * Extra Psbt input fields, such as `bip32Derivation`, or the
+   * `nonWitnessUtxo` required to sign legacy inputs
+   */
+  input?: PsbtInputUpdate;
+}
+
+export interface CoinSelectOpts {
+  utxos: CoinSelectUtxo[];
+  outputs: PsbtOutputExtended[];
+  /** Fee rate in satoshis per virtual byte */
+  feeRate: number;
+  /** The payment receiving the change, such as `payments.p2wpkh({ pubkey })` */
+  change: Payment;
+  /** Defaults to the solution with the least waste */
+  algorithm?: CoinSelectAlgorithm;
+  /** Fee rate the UTXOs are expected to be spent at later, defaults to 10 */
+  longTermFeeRate?: number;
+  /** Fee rate defining dust change, defaults to 3 like Bitcoin Core */
+  dustRelayFeeRate?: number;
+  /** Network of output addresses */
+  network?: Network;
+  /** Random number generator in [0, 1), defaults to Math.random */
+  random?: () => number;
+}
+
+export interface CoinSelectResult {
+  psbt: Psbt;
+  algorithm: CoinSelectAlgorithm;
+  /** The UTXOs spent, in input order */
+  utxos: CoinSelectUtxo[];
+  /** The change output value, 0n if no change output was added */
+  change: bigint;
+  fee: bigint;
+  /** Estimated virtual size once signed */
+  vsize: number;
+  /**
+   * Bitcoin Core's waste metric: the fees saved (or lost) by spending the
+   * inputs now rather than at the long term fee rate, plus the cost of the
+   * change output, or the excess given to fees without change
+   */
+  waste: bigint;
+}
+
+interface Candidate {
+  utxo: CoinSelectUtxo;
+  /** The weight of the input, without the empty witness of legacy inputs */
+  weight: number;
+  segwit: boolean;
+  fee: bigint;
+  longTermFee: bigint;
+  effectiveValue: bigint;
+}
+
+interface Selection {
+  algorithm: CoinSelectAlgorithm;
+  candidates: Candidate[];
+}
+
+const WITNESS_SCALE_FACTOR = 4;
+const BNB_TOTAL_TRIES = 100000;
+const KNAPSACK_ITERATIONS = 1000;
+const DEFAULT_LONG_TERM_FEE_RATE = 10;
+const DEFAULT_DUST_RELAY_FEE_RATE = 3;
+
+function isWitnessProgram(script: Uint8Array): boolean {
+  return (
+    script.length >= 4 &&
+    script.length <= 42 &&
+    (script[0] === OPS.OP_0 ||
+      (script[0] >= OPS.OP_1 && script[0] <= OPS.OP_16)) &&
+    script[1] + 2 === script.length
+  );
+}
+
+function feeForWeight(weight: number, feeRate: number): bigint {
+  const vsize = Math.ceil(weight / WITNESS_SCALE_FACTOR);
+  return BigInt(Math.ceil(vsize * feeRate));
+}
+
+/**
+ * Bitcoin Core's dust threshold: outputs worth less than the fee to create
+ * and spend them at the dust relay fee rate.
+ *
+ * @param script - The output script
+ * @param dustRelayFeeRate - Fee rate in satoshis per virtual byte, 3 in
+ * Bitcoin Core
+ * @returns The smallest value of an output that is not dust
+ */
+export function dustThreshold(
+  script: Uint8Array,
+  dustRelayFeeRate: number,
+): bigint {
+  const spendSize = isWitnessProgram(script) ? 32 + 4 + 1 + 26 + 4 : 148;
+  return BigInt(
+    Math.ceil(
+      (outputWeight(script) / WITNESS_SCALE_FACTOR + spendSize) *
+        dustRelayFeeRate,
+    ),
+  );
+}
+
+function sumEffective(candidates: Candidate[]): bigint {
+  return candidates.reduce((sum, c) => sum + c.effectiveValue, 0n);
+}
+
+function byEffectiveValue(a: Candidate, b: Candidate): number {
+  return a.effectiveValue > b.effectiveValue
+    ? -1
+    : a.effectiveValue < b.effectiveValue
+      ? 1
+      : 0;
+}
+
+/**
+ * Depth first search for the changeless selection with the least waste,
+ * whose effective value exceeds the target by at most the cost of change.
+ */
+function branchAndBound(
+  pool: Candidate[],
+  target: bigint,
+  costOfChange: bigint,
+): Candidate[] | undefined {
+  const sorted = pool.slice().sort(byEffectiveValue);
+  let available = sumEffective(sorted);
+  if (available < target) return;
+  // skip more wasteful branches only while spending inputs costs more now
+  const isFeeRateHigh =
+    sorted.length > 0 && sorted[0].fee > sorted[0].longTermFee;
+
+  const selection: number[] = [];
+  let value = 0n;
+  let waste = 0n;
+  let best: number[] | undefined;
+  let bestWaste = 0n;
+
+  for (let tries = 0, i = 0; tries < BNB_TOTAL_TRIES; tries++, i++) {
+    let backtrack = false;
+    if (
+      value + available < target ||
+      value > target + costOfChange ||
+      (best !== undefined && waste > bestWaste && isFeeRateHigh)
+    ) {
+      backtrack = true;
+    } else if (value >= target) {
+      const total = waste + value - target;
+      if (best === undefined || total <= bestWaste) {
+        best = selection.slice();
+        bestWaste = total;
+      }
+      backtrack = true;
+    }
+
+    if (backtrack) {
+      if (selection.length === 0) break;
+      // give back the candidates skipped after the last selected one
+      for (i--; i > selection[selection.length - 1]; i--)
+        available += sorted[i].effectiveValue;
+      // then try the branch excluding it
+      selection.pop();
+      value -= sorted[i].effectiveValue;
+      waste -= sorted[i].fee - sorted[i].longTermFee;
+    } else {
+      const candidate = sorted[i];
+      available -= candidate.effectiveValue;
+      const previous = sorted[i - 1];
+      // excluding a candidate equal to the previous excluded one is useless
+      if (
+        selection.length === 0 ||
+        i - 1 === selection[selection.length - 1] ||
+        candidate.effectiveValue !== previous.effectiveValue ||
+        candidate.fee !== previous.fee
+      ) {
+        selection.push(i);
+        value += candidate.effectiveValue;
+        waste += candidate.fee - candidate.longTermFee;
+      }
+    }
+  }
+
+  return best && best.map(i => sorted[i]);
+}
+
+function approximateBestSubset(
+  sorted: Candidate[],
+  total: bigint,
+  target: bigint,
+  random: () => number,
+): { included: boolean[]; value: bigint } {
+  let best = sorted.map(() => true);
+  let bestValue = total;
+
+  for (let rep = 0; rep < KNAPSACK_ITERATIONS && bestValue !== target; rep++) {
+    const included = sorted.map(() => false);
+    let value = 0n;
+    let reachedTarget = false;
+    for (let pass = 0; pass < 2 && !reachedTarget; pass++) {
+      for (let i = 0; i < sorted.length; i++) {
+        // the first pass includes candidates randomly, the second pass
+        // includes the rest until the target is reached
+        if (pass === 0 ? random() < 0.5 : !included[i]) {
+          value += sorted[i].effectiveValue;
+          included[i] = true;
+          if (value >= target) {
+            reachedTarget = true;
+            if (value < bestValue) {
+              bestValue = value;
+              best = included.slice();
+            }
+            value -= sorted[i].effectiveValue;
+            included[i] = false;
+          }
+        }
+      }
+    }
+  }
+  return { included: best, value: bestValue };
+}
+
+/**
+ * Bitcoin Core's knapsack solver: a random search for the smallest
+ * selection reaching the target plus the minimum change.
+ */
+function knapsack(
+  pool: Candidate[],
+  target: bigint,
+  minChange: bigint,
+  random: () => number,
+): Candidate[] | undefined {
+  const exact = pool.find(c => c.effectiveValue === target);
+  if (exact) return [exact];
+
+  const applicable = pool
+    .filter(c => c.effectiveValue < target + minChange)
+    .sort(byEffectiveValue);
+  const lowestLarger = pool
+    .filter(c => c.effectiveValue >= target + minChange)
+    .sort(byEffectiveValue)
+    .pop();
+  const total = sumEffective(applicable);
+  if (total === target) return applicable;
+  if (total < target) return lowestLarger && [lowestLarger];
+
+  let best = approximateBestSubset(applicable, total, target, random);
+  if (best.value !== target && total >= target + minChange)
+    best = approximateBestSubset(applicable, total, target + minChange, random);
+
+  if (
+    lowestLarger &&
+    ((best.value !== target && best.value < target + minChange) ||
+      lowestLarger.effectiveValue <= best.value)
+  )
+    return [lowestLarger];
+  return applicable.filter((_, i) => best.included[i]);
+}
+
+function largestFirst(
+  pool: Candidate[],
+  target: bigint,
+): Candidate[] | undefined {
+  const selection: Candidate[] = [];
+  let value = 0n;
+  for (const candidate of pool.slice().sort(byEffectiveValue)) {
+    if (value >= target) break;
+    selection.push(candidate);
+    value += candidate.effectiveValue;
+  }
+  return value >= target ? selection : undefined;
+}
+
+/**
+ * Single random draw: spends randomly picked candidates until the target
+ * plus the minimum change is reached.
+ */
+function singleRandomDraw(
+  pool: Candidate[],
+  target: bigint,
+  minChange: bigint,
+  random: () => number,
+): Candidate[] | undefined {
+  const shuffled = pool.slice();
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  const selection: Candidate[] = [];
+  let value = 0n;
+  for (const candidate of shuffled) {
+    selection.push(candidate);
+    value += candidate.effectiveValue;
+    if (value >= target + minChange) return selection;
+  }
+}
+
+/**
+ * Selects UTXOs funding the outputs at the fee rate, adding a change output
+ * when the change is not dust, and builds the unsigned Psbt.
+ *
+ * @param opts - The UTXOs, outputs, fee rate and change payment
+ * @returns The Psbt with the fee and waste of the selection
+ * @throws {Error} If the UTXOs can not fund the outputs, or if the size of
+ * an input can not be estimated from its payment
+ *
+ * @example
+ * ```typescript
+ * const { psbt, fee } = coinselect.select({
+ *   utxos: [{ hash, index: 0, value: 100000n, payment: payments.p2wpkh({ pubkey }) }],
+ *   outputs: [{ address, value: 50000n }],
+ *   feeRate: 5,
+ *   change: payments.p2wpkh({ pubkey: changePubkey }),
+ * });
+ * ```
+ */
+export function select(opts: CoinSelectOpts): CoinSelectResult {
+  const network = opts.network || btcNetwork;
+  const longTermFeeRate =
+    opts.longTermFeeRate !== undefined
+      ? opts.longTermFeeRate
+      : DEFAULT_LONG_TERM_FEE_RATE;
+  const dustRelayFeeRate =
+    opts.dustRelayFeeRate !== undefined
+      ? opts.dustRelayFeeRate
+      : DEFAULT_DUST_RELAY_FEE_RATE;
+  const random = opts.random || Math.random;
+  if (!opts.change.output) throw new TypeError('Change payment has no output');
+  const changeScript = opts.change.output;
+
+  const outputScripts = opts.outputs.map(output =>
+    'script' in output
+      ? output.script
+      : toOutputScript(output.address, network),
+  );
+  const outputsValue = opts.outputs.reduce((sum, o) => sum + o.value, 0n);
+  const outputsWeight = outputScripts.reduce(
+    (weight, script) => weight + outputWeight(script),
+    0,
+  );
+  const plans = opts.utxos.map(utxo => fromPayment(utxo.payment));
+  // the algorithms select with the fees of the largest transaction the pool
+  // can make, an upper bound of the fees of every selection
+  const poolWitness = plans.some(isSegwit);
+  const candidates: Candidate[] = opts.utxos.map((utxo, i) => {
+    const weight = inputWeight(plans[i]);
+    const segwit = isSegwit(plans[i]);
+    const estimate = weight + (poolWitness && !segwit ? 1 : 0);
+    const fee = feeForWeight(estimate, opts.feeRate);
+    return {
+      utxo,
+      weight,
+      segwit,
+      fee,
+      longTermFee: feeForWeight(estimate, longTermFeeRate),
+      effectiveValue: utxo.value - fee,
+    };
+  });
+  // spending UTXOs worth less than their input fee only loses money
+  const pool = candidates.filter(c => c.effectiveValue > 0n);
+
+  const target =
+    outputsValue +
+    feeForWeight(
+      overheadWeight(opts.utxos.length, outputScripts.length + 1, poolWitness) +
+        outputsWeight,
+      opts.feeRate,
+    );
+
+  const changeFee = feeForWeight(outputWeight(changeScript), opts.feeRate);
+  const costOfChange =
+    changeFee +
+    feeForWeight(inputWeight(fromPayment(opts.change)), longTermFeeRate);
+  const dust = dustThreshold(changeScript, dustRelayFeeRate);
+  const minChange = changeFee + dust;
+
+  const run = (algorithm: CoinSelectAlgorithm): Selection | undefined => {
+    const selected =
+      algorithm === 'bnb'
+        ? branchAndBound(pool, target, costOfChange)
+        : algorithm === 'knapsack'
+          ? knapsack(pool, target, minChange, random)
+          : algorithm === 'srd'
+            ? singleRandomDraw(pool, target, minChange, random)
+            : largestFirst(pool, target);
+    return selected && { algorithm, candidates: selected };
+  };
+
+  const finish = (selection: Selection): CoinSelectResult => {
+    // the exact weights of the selection, whose inputs alone decide whether
+    // the transaction has witnesses
+    const { candidates: selected } = selection;
+    const withWitness = selected.some(c => c.segwit);
+    const inputWeights = selected.map(
+      // legacy inputs have an empty witness in segwit transactions
+      c => c.weight + (withWitness && !c.segwit ? 1 : 0),
+    );
+    const txWeight = (outputCount: number): number =>
+      overheadWeight(selected.length, outputCount, withWitness) +
+      inputWeights.reduce((sum, weight) => sum + weight, 0) +
+      outputsWeight;
+    const utxos = selected.map(c => c.utxo);
+    const inputsValue = utxos.reduce((sum, utxo) => sum + utxo.value, 0n);
+    const changelessFee = feeForWeight(
+      txWeight(outputScripts.length),
+      opts.feeRate,
+    );
+    const changeWeight =
+      txWeight(outputScripts.length + 1) + outputWeight(changeScript);
+    const excess = inputsValue - outputsValue - changelessFee;
+    const changeOutputFee =
+      feeForWeight(changeWeight, opts.feeRate) - changelessFee;
+    // branch and bound solutions are changeless by design
+    const change =
+      selection.algorithm !== 'bnb' && excess - changeOutputFee >= dust
+        ? excess - changeOutputFee
+        : 0n;
+    const waste = inputWeights.reduce(
+      (sum, weight) =>
+        sum +
+        feeForWeight(weight, opts.feeRate) -
+        feeForWeight(weight, longTermFeeRate),
+      change > 0n ? costOfChange : excess,
+    );
+
+    const psbt = new Psbt({ network });
+    utxos.forEach(utxo => psbt.addInput(toPsbtInput(utxo)));
+    psbt.addOutputs(opts.outputs);
+    if (change > 0n) psbt.addOutput({ script: changeScript, value: change });
+
+    const weight = change > 0n ? changeWeight : txWeight(outputScripts.length);
+    return {
+      psbt,
+      algorithm: selection.algorithm,
+      utxos,
+      change,
+      fee: inputsValue - outputsValue - change,
+      vsize: Math.ceil(weight / WITNESS_SCALE_FACTOR),
+      waste,
+    };
+  };
+
+  if (opts.algorithm) {
+    const selection = run(opts.algorithm);
+    if (!selection) throw new Error('Insufficient funds');
+    return finish(selection);
+  }
+
+  const results = (['bnb', 'knapsack', 'srd'] as CoinSelectAlgorithm[])
+    .map(run)
+    .filter((s): s is Selection => s !== undefined)
+    .map(finish);
+  if (results.length === 0) throw new Error('Insufficient funds');
+  // the least waste wins, spending more inputs on ties
+  return results.reduce((best, result) =>
+    result.waste < best.waste ||
+    (result.waste === best.waste && result.utxos.length > best.utxos.length)
+      ? result
+      : best,
+  );
+}
+
+/**
+ * Builds the Psbt input spending a UTXO, with the UTXO and scripts needed to
+ * sign it.
+ *
+ * @param utxo - The UTXO and the payment locking it
+ * @returns The input to pass to `Psbt.addInput`
+ */
+export function toPsbtInput(utxo: CoinSelectUtxo): PsbtInputUpdate & {
+  hash: string | Uint8Array;
+  index: number;
+  sequence?: number;
+} {
+  const { payment } = utxo;
+  const redeem = payment.redeem;
+  const name = payment.name || '';
+  const update: PsbtInputUpdate = {};
+  if (isSegwit(fromPayment(payment)))
+    update.witnessUtxo = { script: payment.output!, value: utxo.value };
+  if (name.startsWith('p2sh-')) {
+    update.redeemScript = redeem!.output;
+    if (redeem!.name!.startsWith('p2wsh-'))
+      update.witnessScript = redeem!.redeem!.output;
+  } else if (name.startsWith('p2wsh-')) {
+    update.witnessScript = redeem!.output;
+  } else if (name === 'p2tr' && payment.internalPubkey) {
+    update.tapInternalKey = payment.internalPubkey;
+  }
+  return Object.assign(
+    { hash: utxo.hash, index: utxo.index },
+    utxo.sequence !== undefined ? { sequence: utxo.sequence } : {},
+    update,
+    utxo.input,
+  );
+}
@@ -41,6 +41,13 @@ export const TAGS = [
   'TapTweak',
   'KeyAgg list',
   'KeyAgg coefficient',
+  'MuSig/aux',
+  'MuSig/nonce',
+  'MuSig/noncecoef',
+  'BIP0322-signed-message',
+  'BIP0352/Inputs',
+  'BIP0352/SharedSecret',
+  'BIP0352/Label',
 ] as const;
 export type TaggedHashPrefix = (typeof TAGS)[number];
 type TaggedHashPrefixes = {
@@ -63,6 +70,13 @@ type TaggedHashPrefixes = {
  * @property {TapTweak} - Prefix for Taproot tweak.
  * @property {'KeyAgg list'} - Prefix for key aggregation list.
  * @property {'KeyAgg coefficient'} - Prefix for key aggregation coefficient.
+ * @property {'MuSig/aux'} - Prefix for MuSig2 nonce generation auxiliary data.
+ * @property {'MuSig/nonce'} - Prefix for MuSig2 secret nonces.
+ * @property {'MuSig/noncecoef'} - Prefix for the MuSig2 nonce coefficient.
+ * @property {'BIP0322-signed-message'} - Prefix for BIP0322 message hashes.
+ * @property {'BIP0352/Inputs'} - Prefix for the silent payments input hash.
+ * @property {'BIP0352/SharedSecret'} - Prefix for silent payments output tweaks.
+ * @property {'BIP0352/Label'} - Prefix for silent payments labels.
  */
 export const TAGGED_HASH_PREFIXES: TaggedHashPrefixes = {
   'BIP0340/challenge': Uint8Array.from([
@@ -119,6 +133,48 @@ export const TAGGED_HASH_PREFIXES: TaggedHashPrefixes = {
     201, 4, 3, 77, 28, 136, 232, 200, 14, 34, 229, 61, 36, 86, 109, 100, 130,
     78, 214, 66, 114, 129, 192, 145, 0, 249, 77, 205, 82, 201, 129,
   ]),
+  'MuSig/aux': Uint8Array.from([
+    64, 143, 140, 31, 41, 36, 33, 181, 86, 158, 188, 108, 181, 242, 226, 12,
+    241, 227, 132, 27, 71, 67, 159, 204, 88, 125, 32, 227, 193, 127, 8, 55, 64,
+    143, 140, 31, 41, 36, 33, 181, 86, 158, 188, 108, 181, 242, 226, 12, 241,
+    227, 132, 27, 71, 67, 159, 204, 88, 125, 32, 227, 193, 127, 8, 55,
+  ]),
+  'MuSig/nonce': Uint8Array.from([
+    248, 193, 12, 188, 97, 78, 209, 160, 132, 180, 55, 5, 43, 93, 44, 75, 80,
+    26, 157, 231, 170, 251, 227, 72, 172, 232, 2, 108, 167, 252, 177, 123, 248,
+    193, 12, 188, 97, 78, 209, 160, 132, 180, 55, 5, 43, 93, 44, 75, 80, 26,
+    157, 231, 170, 251, 227, 72, 172, 232, 2, 108, 167, 252, 177, 123,
+  ]),
+  'MuSig/noncecoef': Uint8Array.from([
+    90, 109, 69, 246, 218, 41, 230, 81, 203, 27, 162, 184, 172, 44, 221, 78,
+    188, 21, 194, 251, 178, 137, 240, 204, 130, 27, 191, 10, 52, 9, 95, 50, 90,
+    109, 69, 246, 218, 41, 230, 81, 203, 27, 162, 184, 172, 44, 221, 78, 188,
+    21, 194, 251, 178, 137, 240, 204, 130, 27, 191, 10, 52, 9, 95, 50,
+  ]),
+  'BIP0322-signed-message': Uint8Array.from([
+    116, 101, 132, 161, 135, 47, 161, 0, 65, 85, 78, 255, 160, 56, 214, 18, 73,
+    66, 221, 121, 180, 229, 138, 76, 218, 24, 78, 19, 219, 230, 44, 73, 116,
+    101, 132, 161, 135, 47, 161, 0, 65, 85, 78, 255, 160, 56, 214, 18, 73, 66,
+    221, 121, 180, 229, 138, 76, 218, 24, 78, 19, 219, 230, 44, 73,
+  ]),
+  'BIP0352/Inputs': Uint8Array.from([
+    30, 123, 150, 235, 22, 10, 104, 129, 159, 151, 118, 75, 67, 213, 215, 126,
+    102, 89, 215, 88, 119, 157, 67, 168, 167, 117, 95, 91, 228, 90, 126, 51, 30,
+    123, 150, 235, 22, 10, 104, 129, 159, 151, 118, 75, 67, 213, 215, 126, 102,
+    89, 215, 88, 119, 157, 67, 168, 167, 117, 95, 91, 228, 90, 126, 51,
+  ]),
+  'BIP0352/SharedSecret': Uint8Array.from([
+    159, 109, 128, 17, 88, 30, 182, 45, 114, 230, 19, 96, 76, 51, 13, 202, 42,
+    11, 211, 73, 226, 74, 70, 217, 162, 239, 36, 185, 169, 143, 65, 189, 159,
+    109, 128, 17, 88, 30, 182, 45, 114, 230, 19, 96, 76, 51, 13, 202, 42, 11,
+    211, 73, 226, 74, 70, 217, 162, 239, 36, 185, 169, 143, 65, 189,
+  ]),
+  'BIP0352/Label': Uint8Array.from([
+    3, 73, 25, 70, 53, 194, 208, 62, 98, 212, 19, 186, 140, 205, 81, 152, 145,
+    144, 23, 161, 233, 156, 190, 105, 31, 90, 52, 169, 147, 119, 224, 149, 3,
+    73, 25, 70, 53, 194, 208, 62, 98, 212, 19, 186, 140, 205, 81, 152, 145, 144,
+    23, 161, 233, 156, 190, 105, 31, 90, 52, 169, 147, 119, 224, 149,
+  ]),
 };
 
 /**
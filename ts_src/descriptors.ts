@@ -0,0 +1,579 @@
+/**
+ * Output script descriptors (BIP380 - BIP386).
+ *
+ * Parses descriptors such as `wpkh([d34db33f/84'/0'/0']xpub.../0/*)` or
+ * `tr(KEY,{pk(KEY),pk(KEY)})` and maps them onto the payment creators in
+ * {@link payments}. Supported script expressions: `pk`, `pkh`, `wpkh`, `sh`,
+ * `wsh`, `multi`, `sortedmulti`, `tr` (with `pk`, `multi_a` and
+ * `sortedmulti_a` leaves), `addr` and `raw`.
+ *
+ * Extended keys are derived with an injected BIP32 factory (such as the one
+ * returned by `BIP32Factory(ecc)` from the bip32 package).
+ *
+ * @packageDocumentation
+ */
+import {
+  Bip32Derivation,
+  PsbtInputUpdate,
+  TapBip32Derivation,
+  TapLeafScript,
+} from 'bip174';
+import { fromOutputScript, toOutputScript } from './address.js';
+import { Network } from './networks.js';
+import * as networks from './networks.js';
+import * as payments from './payments/index.js';
+import { tapleafHash } from './payments/bip341.js';
+import { toXOnly } from './psbt/bip371.js';
+import * as bscript from './script.js';
+import { isPoint, Tapleaf, Taptree } from './types.js';
+import * as tools from 'uint8array-tools';
+
+const OPS = bscript.OPS;
+
+/** A BIP32 node, as returned by the injected factory. */
+export interface DescriptorBIP32Interface {
+  publicKey: Uint8Array;
+  fingerprint: Uint8Array;
+  derive(index: number): DescriptorBIP32Interface;
+  deriveHardened(index: number): DescriptorBIP32Interface;
+}
+
+/** The BIP32 factory used to decode extended keys. */
+export interface DescriptorBIP32API {
+  fromBase58(base58: string, network?: Network): DescriptorBIP32Interface;
+}
+
+export interface DescriptorOpts {
+  /** Network of extended keys and addresses, defaults to bitcoin */
+  network?: Network;
+  /** BIP32 factory, required for descriptors with extended keys */
+  bip32?: DescriptorBIP32API;
+  /** Child index to derive ranged (`/*`) keys at */
+  index?: number;
+  /** Refuse descriptors without a checksum */
+  requireChecksum?: boolean;
+}
+
+export interface DescriptorOutput {
+  /** The descriptor followed by its checksum */
+  descriptor: string;
+  /** Whether the descriptor has ranged (`/*`) keys */
+  isRange: boolean;
+  /** The payment the descriptor maps onto */
+  payment: payments.Payment;
+  output: Uint8Array;
+  address?: string;
+  redeemScript?: Uint8Array;
+  witnessScript?: Uint8Array;
+  /**
+   * Script, key origin and taproot data for `Psbt.updateInput` (the UTXO
+   * itself is not included).
+   */
+  inputUpdate: PsbtInputUpdate;
+}
+
+/** The script context a key or script expression appears in. */
+type Context = 'top' | 'sh' | 'wsh' | 'tr';
+
+interface DescriptorKey {
+  pubkey: Uint8Array;
+  masterFingerprint?: Uint8Array;
+  path?: string;
+}
+
+interface ParseState {
+  network: Network;
+  bip32?: DescriptorBIP32API;
+  index?: number;
+  isRange: boolean;
+  keys: DescriptorKey[];
+  leafKeys: Array<{ key: DescriptorKey; leafHash: Uint8Array }>;
+}
+
+const INPUT_CHARSET =
+  '0123456789()[],\'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATOR = [
+  0xf5dee51989n,
+  0xa9fdca3312n,
+  0x1bab10e32dn,
+  0x3706b1677an,
+  0x644d626ffdn,
+];
+
+function polymod(symbols: number[]): bigint {
+  let chk = 1n;
+  for (const value of symbols) {
+    const top = chk >> 35n;
+    chk = ((chk & 0x7ffffffffn) << 5n) ^ BigInt(value);
+    for (let i = 0; i < 5; ++i)
+      if ((top >> BigInt(i)) & 1n) chk ^= GENERATOR[i];
+  }
+  return chk;
+}
+
+/**
+ * Computes the 8 character checksum of a descriptor (without `#checksum`).
+ *
+ * @param descriptor - The descriptor
+ * @returns The checksum
+ * @throws {Error} If the descriptor contains characters outside the
+ * descriptor character set
+ */
+export function checksum(descriptor: string): string {
+  const symbols: number[] = [];
+  const groups: number[] = [];
+  for (const c of descriptor) {
+    const v = INPUT_CHARSET.indexOf(c);
+    if (v < 0) throw new Error('Invalid character in descriptor: ' + c);
+    symbols.push(v & 31);
+    groups.push(v >> 5);
+    if (groups.length === 3) {
+      symbols.push(groups[0] * 9 + groups[1] * 3 + groups[2]);
+      groups.length = 0;
+    }
+  }
+  if (groups.length === 1) symbols.push(groups[0]);
+  else if (groups.length === 2) symbols.push(groups[0] * 3 + groups[1]);
+
+  const chk = polymod(symbols.concat([0, 0, 0, 0, 0, 0, 0, 0])) ^ 1n;
+  let result = '';
+  for (let i = 0; i < 8; ++i)
+    result += CHECKSUM_CHARSET[Number((chk >> BigInt(5 * (7 - i))) & 31n)];
+  return result;
+}
+
+/**
+ * Splits a comma separated argument list at its top level.
+ */
+function splitArgs(args: string): string[] {
+  const result: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < args.length; ++i) {
+    const c = args[i];
+    if (c === '(' || c === '{' || c === '[') depth++;
+    else if (c === ')' || c === '}' || c === ']') depth--;
+    else if (c === ',' && depth === 0) {
+      result.push(args.slice(start, i));
+      start = i + 1;
+    }
+    if (depth < 0) throw new Error('Unbalanced brackets in descriptor');
+  }
+  if (depth !== 0) throw new Error('Unbalanced brackets in descriptor');
+  result.push(args.slice(start));
+  return result;
+}
+
+/**
+ * Splits `name(args)` into its name and top level arguments.
+ */
+function parseCall(expr: string): { name: string; args: string[] } {
+  const match = expr.match(/^([a-z_]+)\((.*)\)$/);
+  if (!match) throw new Error('Invalid script expression: ' + expr);
+  return { name: match[1], args: splitArgs(match[2]) };
+}
+
+/**
+ * Parses a BIP32 path element such as `0`, `44'` or `44h`.
+ */
+function parsePathElement(element: string): {
+  index: number;
+  hardened: boolean;
+} {
+  const match = element.match(/^(\d+)(['h]?)$/);
+  const index = match ? Number(match[1]) : NaN;
+  if (!match || index >= 0x80000000)
+    throw new Error('Invalid key path element: ' + element);
+  return { index, hardened: match[2] !== '' };
+}
+
+function formatPathElement(index: number, hardened: boolean): string {
+  return index + (hardened ? "'" : '');
+}
+
+/**
+ * Parses a key expression: an optional `[fingerprint/path]` origin followed
+ * by a hex public key or an extended key with a derivation path.
+ */
+function parseKey(
+  expr: string,
+  ctx: Context,
+  state: ParseState,
+): DescriptorKey {
+  let masterFingerprint: Uint8Array | undefined;
+  let path: string | undefined;
+  let keyExpr = expr;
+
+  if (expr.startsWith('[')) {
+    const end = expr.indexOf(']');
+    if (end < 0) throw new Error('Invalid key origin: ' + expr);
+    const [fingerprint, ...elements] = expr.slice(1, end).split('/');
+    if (!/^[0-9a-fA-F]{8}$/.test(fingerprint))
+      throw new Error('Invalid key origin fingerprint: ' + fingerprint);
+    masterFingerprint = tools.fromHex(fingerprint);
+    path = ['m']
+      .concat(
+        elements.map(e => {
+          const { index, hardened } = parsePathElement(e);
+          return formatPathElement(index, hardened);
+        }),
+      )
+      .join('/');
+    keyExpr = expr.slice(end + 1);
+  }
+
+  let pubkey: Uint8Array;
+  if (/^([0-9a-fA-F]{2})+$/.test(keyExpr)) {
+    pubkey = tools.fromHex(keyExpr);
+    if (ctx === 'tr' && pubkey.length === 32) {
+      if (!isPoint(tools.concat([Uint8Array.of(2), pubkey])))
+        throw new Error('Invalid public key: ' + keyExpr);
+    } else if (!isPoint(pubkey)) {
+      throw new Error('Invalid public key: ' + keyExpr);
+    }
+  } else {
+    if (!state.bip32)
+      throw new Error('A BIP32 factory is required for extended keys');
+    const [base58, ...elements] = keyExpr.split('/');
+    let node = state.bip32.fromBase58(base58, state.network);
+    if (!masterFingerprint) {
+      masterFingerprint = node.fingerprint;
+      path = 'm';
+    }
+
+    elements.forEach((element, i) => {
+      let index: number;
+      let hardened: boolean;
+      const ranged = element.match(/^\*(['h]?)$/);
+      if (ranged) {
+        if (i !== elements.length - 1)
+          throw new Error('Ranged key must be the last path element');
+        if (state.index === undefined)
+          throw new Error('Ranged descriptor requires an index');
+        state.isRange = true;
+        index = state.index;
+        hardened = ranged[1] !== '';
+      } else {
+        ({ index, hardened } = parsePathElement(element));
+      }
+      node = hardened ? node.deriveHardened(index) : node.derive(index);
+      path += '/' + formatPathElement(index, hardened);
+    });
+    pubkey = node.publicKey;
+  }
+
+  if (ctx === 'tr') pubkey = toXOnly(pubkey);
+  else if (ctx === 'wsh' && pubkey.length !== 33)
+    throw new Error('Uncompressed keys are not allowed in segwit descriptors');
+
+  const key = { pubkey, masterFingerprint, path };
+  if (ctx !== 'tr') state.keys.push(key);
+  return key;
+}
+
+function parseKeys(args: string[], ctx: Context, state: ParseState) {
+  return args.map(arg => parseKey(arg, ctx, state));
+}
+
+function parseThreshold(arg: string, n: number): number {
+  const m = Number(arg);
+  if (!/^\d+$/.test(arg) || m < 1 || m > n)
+    throw new Error('Invalid multisig threshold: ' + arg);
+  return m;
+}
+
+function sortKeys(keys: DescriptorKey[]): DescriptorKey[] {
+  return keys.slice().sort((a, b) => tools.compare(a.pubkey, b.pubkey));
+}
+
+/**
+ * Parses a script expression in the given context into a payment.
+ */
+function parseScript(
+  expr: string,
+  ctx: Context,
+  state: ParseState,
+): payments.Payment {
+  const { network } = state;
+  const { name, args } = parseCall(expr);
+
+  const expectArgs = (n: number): void => {
+    if (args.length !== n)
+      throw new Error(`${name}() expects ${n} argument${n > 1 ? 's' : ''}`);
+  };
+
+  switch (name) {
+    case 'pk': {
+      expectArgs(1);
+      const [key] = parseKeys(args, ctx, state);
+      return payments.p2pk({ pubkey: key.pubkey, network });
+    }
+    case 'pkh': {
+      expectArgs(1);
+      const [key] = parseKeys(args, ctx, state);
+      return payments.p2pkh({ pubkey: key.pubkey, network });
+    }
+    case 'multi':
+    case 'sortedmulti': {
+      let keys = parseKeys(args.slice(1), ctx, state);
+      const m = parseThreshold(args[0], keys.length);
+      if (name === 'sortedmulti') keys = sortKeys(keys);
+      return payments.p2ms({ m, pubkeys: keys.map(k => k.pubkey), network });
+    }
+    case 'wpkh': {
+      expectArgs(1);
+      if (ctx !== 'top' && ctx !== 'sh')
+        throw new Error('wpkh() is only allowed at the top level or in sh()');
+      const [key] = parseKeys(args, 'wsh', state);
+      return payments.p2wpkh({ pubkey: key.pubkey, network });
+    }
+    case 'wsh': {
+      expectArgs(1);
+      if (ctx !== 'top' && ctx !== 'sh')
+        throw new Error('wsh() is only allowed at the top level or in sh()');
+      const redeem = parseScript(args[0], 'wsh', state);
+      return payments.p2wsh({ redeem, network });
+    }
+    case 'sh': {
+      expectArgs(1);
+      if (ctx !== 'top')
+        throw new Error('sh() is only allowed at the top level');
+      const redeem = parseScript(args[0], 'sh', state);
+      return payments.p2sh({ redeem, network });
+    }
+    case 'tr': {
+      if (ctx !== 'top')
+        throw new Error('tr() is only allowed at the top level');
+      if (args.length !== 1 && args.length !== 2)
+        throw new Error('tr() expects 1 or 2 arguments');
+      const internalKey = parseKey(args[0], 'tr', state);
+      state.leafKeys.push({ key: internalKey, leafHash: new Uint8Array(0) });
+      const scriptTree =
+        args.length === 2 ? parseTree(args[1], state) : undefined;
+      return payments.p2tr({
+        internalPubkey: internalKey.pubkey,
+        scriptTree,
+        network,
+      });
+    }
+    case 'addr': {
+      expectArgs(1);
+      if (ctx !== 'top')
+        throw new Error('addr() is only allowed at the top level');
+      return {
+        name,
+        network,
+        address: args[0],
+        output: toOutputScript(args[0], network),
+      };
+    }
+    case 'raw': {
+      expectArgs(1);
+      if (ctx !== 'top')
+        throw new Error('raw() is only allowed at the top level');
+      if (!/^([0-9a-fA-F]{2})*$/.test(args[0]))
+        throw new Error('Invalid raw script: ' + args[0]);
+      const output = tools.fromHex(args[0]);
+      let address: string | undefined;
+      try {
+        address = fromOutputScript(output, network);
+      } catch (e) {}
+      return { name, network, address, output };
+    }
+  }
+  if (name.endsWith('_a'))
+    throw new Error(name + '() is only allowed in tr() leaves');
+  throw new Error('Unsupported script expression: ' + name + '()');
+}
+
+/**
+ * Parses a tapscript leaf: `pk(KEY)`, `multi_a(k,KEY,...)` or
+ * `sortedmulti_a(k,KEY,...)`.
+ */
+function parseLeaf(expr: string, state: ParseState): Tapleaf {
+  const { name, args } = parseCall(expr);
+  let keys: DescriptorKey[];
+  let output: Uint8Array;
+  if (name === 'pk') {
+    if (args.length !== 1) throw new Error('pk() expects 1 argument');
+    keys = [parseKey(args[0], 'tr', state)];
+    output = bscript.compile([keys[0].pubkey, OPS.OP_CHECKSIG]);
+  } else if (name === 'multi_a' || name === 'sortedmulti_a') {
+    keys = args.slice(1).map(arg => parseKey(arg, 'tr', state));
+    const m = parseThreshold(args[0], keys.length);
+    if (name === 'sortedmulti_a') keys = sortKeys(keys);
+    output = bscript.compile([
+      ...keys.flatMap((k, i) => [
+        k.pubkey,
+        i === 0 ? OPS.OP_CHECKSIG : OPS.OP_CHECKSIGADD,
+      ]),
+      bscript.number.encode(m),
+      OPS.OP_NUMEQUAL,
+    ]);
+  } else {
+    throw new Error('Unsupported tapscript expression: ' + name + '()');
+  }
+
+  const leaf = { output };
+  const leafHash = tapleafHash(leaf);
+  keys.forEach(key => state.leafKeys.push({ key, leafHash }));
+  return leaf;
+}
+
+/**
+ * Parses a script tree: a leaf or `{TREE,TREE}`.
+ */
+function parseTree(expr: string, state: ParseState): Taptree {
+  if (!expr.startsWith('{')) return parseLeaf(expr, state);
+  if (!expr.endsWith('}')) throw new Error('Invalid script tree: ' + expr);
+  const branches = splitArgs(expr.slice(1, -1));
+  if (branches.length !== 2) throw new Error('Invalid script tree: ' + expr);
+  return [parseTree(branches[0], state), parseTree(branches[1], state)];
+}
+
+function listLeaves(tree: Taptree): Tapleaf[] {
+  return Array.isArray(tree) ? tree.flatMap(listLeaves) : [tree as Tapleaf];
+}
+
+function toBip32Derivations(keys: DescriptorKey[]): Bip32Derivation[] {
+  return keys
+    .filter(k => k.masterFingerprint)
+    .map(k => ({
+      masterFingerprint: k.masterFingerprint!,
+      path: k.path!,
+      pubkey: k.pubkey,
+    }));
+}
+
+function toTapBip32Derivations(
+  leafKeys: ParseState['leafKeys'],
+): TapBip32Derivation[] {
+  const derivations: TapBip32Derivation[] = [];
+  leafKeys
+    .filter(({ key }) => key.masterFingerprint)
+    .forEach(({ key, leafHash }) => {
+      let derivation = derivations.find(
+        d => tools.compare(d.pubkey, key.pubkey) === 0,
+      );
+      if (!derivation) {
+        derivation = {
+          masterFingerprint: key.masterFingerprint!,
+          path: key.path!,
+          pubkey: key.pubkey,
+          leafHashes: [],
+        };
+        derivations.push(derivation);
+      }
+      if (leafHash.length > 0) derivation.leafHashes.push(leafHash);
+    });
+  return derivations;
+}
+
+/**
+ * Parses a descriptor and derives its output.
+ *
+ * @param descriptor - The descriptor, optionally followed by `#checksum`
+ * @param opts - Network, BIP32 factory and child index for ranged keys
+ * @returns The payment, output script, address and Psbt input data
+ * @throws {Error} If the checksum does not match, the descriptor is invalid or
+ * unsupported, or a ranged descriptor is given without an index
+ *
+ * @example
+ * ```typescript
+ * const bip32 = BIP32Factory(ecc);
+ * const { address, inputUpdate } = descriptors.parse(
+ *   "wpkh([d34db33f/84'/0'/0']xpub.../0/*)#checksum",
+ *   { bip32, index: 5 },
+ * );
+ * psbt.updateInput(0, inputUpdate);
+ * ```
+ */
+export function parse(
+  descriptor: string,
+  opts: DescriptorOpts = {},
+): DescriptorOutput {
+  const [body, sum, ...rest] = descriptor.split('#');
+  if (rest.length > 0) throw new Error('Multiple checksums in descriptor');
+  const expected = checksum(body);
+  if (sum === undefined) {
+    if (opts.requireChecksum) throw new Error('Missing descriptor checksum');
+  } else if (sum !== expected) {
+    throw new Error(
+      `Invalid descriptor checksum: ${sum}, expected ${expected}`,
+    );
+  }
+
+  if (
+    opts.index !== undefined &&
+    (!Number.isInteger(opts.index) ||
+      opts.index < 0 ||
+      opts.index >= 0x80000000)
+  )
+    throw new Error('Invalid child index: ' + opts.index);
+
+  const state: ParseState = {
+    network: opts.network || networks.bitcoin,
+    bip32: opts.bip32,
+    index: opts.index,
+    isRange: false,
+    keys: [],
+    leafKeys: [],
+  };
+  const payment = parseScript(body, 'top', state);
+
+  const inputUpdate: PsbtInputUpdate = {};
+  let redeemScript: Uint8Array | undefined;
+  let witnessScript: Uint8Array | undefined;
+  if (payment.name!.startsWith('p2sh')) {
+    redeemScript = payment.redeem!.output;
+    inputUpdate.redeemScript = redeemScript;
+  }
+  const wsh = payment.name!.startsWith('p2sh-p2wsh')
+    ? payment.redeem
+    : payment.name!.startsWith('p2wsh')
+      ? payment
+      : undefined;
+  if (wsh) {
+    witnessScript = wsh.redeem!.output;
+    inputUpdate.witnessScript = witnessScript;
+  }
+
+  const bip32Derivation = toBip32Derivations(state.keys);
+  if (bip32Derivation.length > 0) inputUpdate.bip32Derivation = bip32Derivation;
+
+  if (payment.name === 'p2tr') {
+    inputUpdate.tapInternalKey = payment.internalPubkey;
+    if (payment.scriptTree) {
+      inputUpdate.tapMerkleRoot = payment.hash;
+      inputUpdate.tapLeafScript = listLeaves(payment.scriptTree).map(
+        (leaf): TapLeafScript => {
+          const { witness } = payments.p2tr({
+            internalPubkey: payment.internalPubkey,
+            scriptTree: payment.scriptTree,
+            redeem: { output: leaf.output },
+          });
+          return {
+            leafVersion: leaf.version || 0xc0,
+            script: leaf.output,
+            controlBlock: witness![witness!.length - 1],
+          };
+        },
+      );
+    }
+    const tapBip32Derivation = toTapBip32Derivations(state.leafKeys);
+    if (tapBip32Derivation.length > 0)
+      inputUpdate.tapBip32Derivation = tapBip32Derivation;
+  }
+
+  return {
+    descriptor: body + '#' + expected,
+    isRange: state.isRange,
+    payment,
+    output: payment.output!,
+    address: payment.address,
+    redeemScript,
+    witnessScript,
+    inputUpdate,
+  };
+}
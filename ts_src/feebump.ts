@@ -0,0 +1,374 @@
+/**
+ * Fee bumping of unconfirmed transactions.
+ *
+ * {@link bumpFee} builds a replacement following the BIP125 rules: it pays
+ * at least the fees of the transactions it replaces, plus the incremental
+ * relay fee for its own size. {@link cpfp} builds a child spending an output
+ * of the stuck transaction, paying for both (child pays for parent).
+ *
+ * The sizes of the inputs are estimated from the payments locking them with
+ * {@link fromPayment}, and inputs are added largest first when the change
+ * can not pay the fee.
+ *
+ * @packageDocumentation
+ */
+import { PsbtInputUpdate } from 'bip174';
+import * as tools from 'uint8array-tools';
+import { reverseBuffer } from './bufferutils.js';
+import { CoinSelectUtxo, dustThreshold, toPsbtInput } from './coinselect.js';
+import { bitcoin as btcNetwork, Network } from './networks.js';
+import { Payment } from './payments/index.js';
+import { Psbt } from './psbt.js';
+import { Transaction } from './transaction.js';
+import { estimate, fromPayment, InputPlan, isSegwit } from './vsize.js';
+
+export interface BumpFeeOpts {
+  /** The transaction to replace, signed or not */
+  tx: Transaction | Psbt;
+  /** The UTXOs spent by the transaction, in input order */
+  prevUtxos: CoinSelectUtxo[];
+  /** Fee rate of the replacement in satoshis per virtual byte */
+  feeRate: number;
+  /** Index of the change output paying the extra fee */
+  changeIndex?: number;
+  /**
+   * Confirmed UTXOs added, largest first, when the change can not pay the
+   * fee. BIP125 forbids new unconfirmed inputs.
+   */
+  utxos?: CoinSelectUtxo[];
+  /**
+   * The payment receiving the change if the transaction has no change
+   * output. Without it, the excess is given to the fees.
+   */
+  change?: Payment;
+  /** Fees of the descendants of the transaction, replaced with it */
+  descendantFee?: bigint;
+  /** Fee rate paid for the size of the replacement, defaults to 1 */
+  incrementalRelayFeeRate?: number;
+  /** Fee rate defining dust change, defaults to 3 like Bitcoin Core */
+  dustRelayFeeRate?: number;
+  /** Network of the Psbt */
+  network?: Network;
+}
+
+export interface CpfpOpts {
+  /** The transaction paid for, signed */
+  parent: Transaction | Psbt;
+  /** Fee paid by the parent, required if it is not a finalized Psbt */
+  parentFee?: bigint;
+  /** Index of the parent output spent by the child */
+  vout: number;
+  /** The payment locking the spent output */
+  payment: Payment;
+  /** Extra Psbt input fields of the spent output, such as `bip32Derivation` */
+  input?: PsbtInputUpdate;
+  /** Fee rate of the package in satoshis per virtual byte */
+  feeRate: number;
+  /** The payment receiving the output of the child */
+  change: Payment;
+  /** UTXOs added, largest first, when the spent output can not pay the fee */
+  utxos?: CoinSelectUtxo[];
+  /** Fee rate defining dust change, defaults to 3 like Bitcoin Core */
+  dustRelayFeeRate?: number;
+  /** Network of the Psbt */
+  network?: Network;
+}
+
+export interface FeeBumpResult {
+  psbt: Psbt;
+  /** The UTXOs spent, in input order */
+  utxos: CoinSelectUtxo[];
+  /** The change output value, 0n if the change was given to the fees */
+  change: bigint;
+  fee: bigint;
+  /** Estimated virtual size once signed */
+  vsize: number;
+}
+
+interface Output {
+  script: Uint8Array;
+  value: bigint;
+}
+
+interface Funding {
+  utxos: CoinSelectUtxo[];
+  change: bigint;
+  vsize: number;
+}
+
+// the highest sequence signaling replaceability
+const MAX_BIP125_RBF_SEQUENCE = 0xfffffffd;
+const DEFAULT_INCREMENTAL_RELAY_FEE_RATE = 1;
+const DEFAULT_DUST_RELAY_FEE_RATE = 3;
+
+function sumValues(list: Array<{ value: bigint }>): bigint {
+  return list.reduce((sum, item) => sum + item.value, 0n);
+}
+
+function feeForVsize(vsize: number, feeRate: number): bigint {
+  return BigInt(Math.ceil(vsize * feeRate));
+}
+
+function toTransaction(tx: Transaction | Psbt): Transaction | undefined {
+  if (tx instanceof Transaction) return tx;
+  try {
+    return tx.extractTransaction(true);
+  } catch (_) {
+    return undefined;
+  }
+}
+
+function isSigned(tx: Transaction): boolean {
+  return tx.ins.every(
+    input => input.script.length > 0 || input.witness.length > 0,
+  );
+}
+
+/**
+ * Adds UTXOs, largest first, until the inputs pay the outputs and the
+ * required fee, with change when it is not dust.
+ */
+function fund(
+  utxos: CoinSelectUtxo[],
+  outputs: Output[],
+  changeScript: Uint8Array | undefined,
+  pool: CoinSelectUtxo[],
+  requiredFee: (vsize: number) => bigint,
+  dustRelayFeeRate: number,
+): Funding {
+  const selected = utxos.slice();
+  const rest = pool
+    .slice()
+    .sort((a, b) => (a.value > b.value ? -1 : a.value < b.value ? 1 : 0));
+  const scripts = outputs.map(output => ({ script: output.script }));
+
+  for (;;) {
+    const inputs: InputPlan[] = selected.map(utxo => fromPayment(utxo.payment));
+    const available = sumValues(selected) - sumValues(outputs);
+    if (changeScript) {
+      const { vsize } = estimate({
+        inputs,
+        outputs: scripts.concat({ script: changeScript }),
+      });
+      const change = available - requiredFee(vsize);
+      if (change >= dustThreshold(changeScript, dustRelayFeeRate))
+        return { utxos: selected, change, vsize };
+    }
+    // a transaction needs an output, the change can not be dropped
+    if (outputs.length > 0) {
+      const { vsize } = estimate({ inputs, outputs: scripts });
+      if (available >= requiredFee(vsize))
+        return { utxos: selected, change: 0n, vsize };
+    }
+    const next = rest.shift();
+    if (!next) throw new Error('Insufficient funds');
+    selected.push(next);
+  }
+}
+
+function isSameOutpoint(
+  input: { hash: Uint8Array; index: number },
+  utxo: CoinSelectUtxo,
+): boolean {
+  const hash =
+    typeof utxo.hash === 'string'
+      ? reverseBuffer(tools.fromHex(utxo.hash))
+      : utxo.hash;
+  return tools.compare(input.hash, hash) === 0 && input.index === utxo.index;
+}
+
+/**
+ * Builds a BIP125 replacement of a transaction paying a higher fee rate.
+ * The fee is paid by the change output, which is dropped when it would be
+ * dust, then by adding inputs.
+ *
+ * The replacement pays at least the fees of the original transaction and
+ * its descendants, plus the incremental relay fee rate for its own size.
+ * Its inputs signal replaceability, unless their sequence is lower.
+ *
+ * @param opts - The transaction, the UTXOs it spends and the fee rate
+ * @returns The unsigned Psbt of the replacement
+ * @throws {Error} If the UTXOs are not the ones spent by the transaction, if
+ * the fee rate is not higher than the original one, or if the inputs can not
+ * pay the fee
+ *
+ * @example
+ * ```typescript
+ * const { psbt, fee } = feebump.bumpFee({
+ *   tx: Transaction.fromHex(stuckTxHex),
+ *   prevUtxos: [{ hash, index: 0, value: 100000n, payment: payments.p2wpkh({ pubkey }) }],
+ *   feeRate: 20,
+ *   changeIndex: 1,
+ * });
+ * ```
+ */
+export function bumpFee(opts: BumpFeeOpts): FeeBumpResult {
+  const network = opts.network || btcNetwork;
+  const incrementalRelayFeeRate =
+    opts.incrementalRelayFeeRate !== undefined
+      ? opts.incrementalRelayFeeRate
+      : DEFAULT_INCREMENTAL_RELAY_FEE_RATE;
+  const dustRelayFeeRate =
+    opts.dustRelayFeeRate !== undefined
+      ? opts.dustRelayFeeRate
+      : DEFAULT_DUST_RELAY_FEE_RATE;
+  const { tx, prevUtxos, changeIndex } = opts;
+  const ins = tx instanceof Psbt ? tx.txInputs : tx.ins;
+  const outs: Output[] = tx instanceof Psbt ? tx.txOutputs : tx.outs;
+
+  if (prevUtxos.length !== ins.length)
+    throw new Error(
+      `Expected ${ins.length} UTXOs spent by the transaction, got ${prevUtxos.length}`,
+    );
+  ins.forEach((input, i) => {
+    if (!isSameOutpoint(input, prevUtxos[i]))
+      throw new Error(`Input #${i} does not spend the UTXO #${i}`);
+  });
+  if (changeIndex !== undefined && !outs[changeIndex])
+    throw new Error(`Change output #${changeIndex} does not exist`);
+
+  const originalFee = sumValues(prevUtxos) - sumValues(outs);
+  const signed = toTransaction(tx);
+  const originalVsize =
+    signed && isSigned(signed)
+      ? signed.virtualSize()
+      : estimate({
+          inputs: prevUtxos.map(utxo => fromPayment(utxo.payment)),
+          outputs: outs.map(output => ({ script: output.script })),
+        }).vsize;
+  const originalFeeRate = Number(originalFee) / originalVsize;
+  if (opts.feeRate <= originalFeeRate)
+    throw new Error(
+      `Fee rate must be higher than the original fee rate of ${originalFeeRate.toFixed(2)}`,
+    );
+
+  const replacedFee =
+    originalFee + (opts.descendantFee !== undefined ? opts.descendantFee : 0n);
+  // BIP125 rules 3 and 4
+  const requiredFee = (vsize: number): bigint => {
+    const fee = feeForVsize(vsize, opts.feeRate);
+    const minFee = replacedFee + feeForVsize(vsize, incrementalRelayFeeRate);
+    return fee > minFee ? fee : minFee;
+  };
+
+  const outputs = outs.filter((_, i) => i !== changeIndex);
+  const changeScript =
+    changeIndex !== undefined
+      ? outs[changeIndex].script
+      : opts.change && opts.change.output;
+  const { utxos, change, vsize } = fund(
+    prevUtxos,
+    outputs,
+    changeScript,
+    opts.utxos || [],
+    requiredFee,
+    dustRelayFeeRate,
+  );
+
+  const psbt = new Psbt({ network });
+  psbt.setVersion(tx.version);
+  psbt.setLocktime(tx.locktime);
+  utxos.forEach((utxo, i) => {
+    const sequence = i < ins.length ? ins[i].sequence : utxo.sequence;
+    psbt.addInput({
+      ...toPsbtInput(utxo),
+      sequence:
+        sequence !== undefined && sequence <= MAX_BIP125_RBF_SEQUENCE
+          ? sequence
+          : MAX_BIP125_RBF_SEQUENCE,
+    });
+  });
+  outs.forEach((output, i) => {
+    if (i !== changeIndex) psbt.addOutput(output);
+    else if (change > 0n)
+      psbt.addOutput({ script: output.script, value: change });
+  });
+  if (changeIndex === undefined && change > 0n)
+    psbt.addOutput({ script: changeScript!, value: change });
+
+  return {
+    psbt,
+    utxos,
+    change,
+    fee: sumValues(utxos) - sumValues(outputs) - change,
+    vsize,
+  };
+}
+
+/**
+ * Builds a child transaction spending an output of its parent, paying the
+ * fee needed for the package of both transactions to reach a fee rate.
+ * The child pays at least the fee rate for its own size, and sends the rest
+ * of its inputs to the change payment.
+ *
+ * @param opts - The parent, the output spent and the fee rate
+ * @returns The unsigned Psbt of the child
+ * @throws {Error} If the parent output does not exist, if the parent fee is
+ * unknown, or if the inputs can not pay the fee
+ *
+ * @example
+ * ```typescript
+ * const { psbt, fee } = feebump.cpfp({
+ *   parent: Transaction.fromHex(stuckTxHex),
+ *   parentFee: 200n,
+ *   vout: 1,
+ *   payment: payments.p2wpkh({ pubkey }),
+ *   feeRate: 20,
+ *   change: payments.p2wpkh({ pubkey: changePubkey }),
+ * });
+ * ```
+ */
+export function cpfp(opts: CpfpOpts): FeeBumpResult {
+  const network = opts.network || btcNetwork;
+  const dustRelayFeeRate =
+    opts.dustRelayFeeRate !== undefined
+      ? opts.dustRelayFeeRate
+      : DEFAULT_DUST_RELAY_FEE_RATE;
+  if (!opts.change.output) throw new TypeError('Change payment has no output');
+  const parent = toTransaction(opts.parent);
+  if (!parent || !isSigned(parent))
+    throw new Error('Parent transaction is not signed');
+  const output = parent.outs[opts.vout];
+  if (!output)
+    throw new Error(`Output #${opts.vout} of the parent does not exist`);
+  if (opts.parentFee === undefined && !(opts.parent instanceof Psbt))
+    throw new TypeError('parentFee is required for Transaction parents');
+  const parentFee =
+    opts.parentFee !== undefined
+      ? opts.parentFee
+      : (opts.parent as Psbt).getFee();
+  const parentVsize = parent.virtualSize();
+
+  const utxo: CoinSelectUtxo = {
+    hash: parent.getHash(),
+    index: opts.vout,
+    value: output.value,
+    payment: opts.payment,
+    input: {
+      // legacy inputs are signed with the whole parent
+      ...(isSegwit(fromPayment(opts.payment))
+        ? {}
+        : { nonWitnessUtxo: parent.toBuffer() }),
+      ...opts.input,
+    },
+  };
+  const requiredFee = (vsize: number): bigint => {
+    const fee = feeForVsize(parentVsize + vsize, opts.feeRate) - parentFee;
+    const minFee = feeForVsize(vsize, opts.feeRate);
+    return fee > minFee ? fee : minFee;
+  };
+  const { utxos, change, vsize } = fund(
+    [utxo],
+    [],
+    opts.change.output,
+    opts.utxos || [],
+    requiredFee,
+    dustRelayFeeRate,
+  );
+
+  const psbt = new Psbt({ network });
+  utxos.forEach(u => psbt.addInput(toPsbtInput(u)));
+  psbt.addOutput({ script: opts.change.output, value: change });
+
+  return { psbt, utxos, change, fee: sumValues(utxos) - change, vsize };
+}
@@ -1,22 +1,121 @@
 import * as address from './address.js';
+import * as bip322 from './bip322.js';
+import * as coinselect from './coinselect.js';
 import * as crypto from './crypto.js';
+import * as descriptors from './descriptors.js';
+import * as feebump from './feebump.js';
+import * as interpreter from './interpreter.js';
+import * as message from './message.js';
+import * as miniscript from './miniscript.js';
+import * as musig2 from './musig2.js';
 import * as networks from './networks.js';
+import * as payjoin from './payjoin.js';
 import * as payments from './payments/index.js';
+import * as policy from './policy.js';
 import * as script from './script.js';
+import * as sigops from './sigops.js';
+import * as silentpayments from './silentpayments.js';
+import * as spendpolicy from './spendpolicy.js';
+import * as vsize from './vsize.js';
 
-export { address, crypto, networks, payments, script };
+export {
+  address,
+  bip322,
+  coinselect,
+  crypto,
+  descriptors,
+  feebump,
+  interpreter,
+  message,
+  miniscript,
+  musig2,
+  networks,
+  payjoin,
+  payments,
+  policy,
+  script,
+  sigops,
+  silentpayments,
+  spendpolicy,
+  vsize,
+};
 
+export {
+  Bip322Format,
+  Bip322SignOptions,
+  Bip322VerifyOptions,
+} from './bip322.js';
 export { Block } from './block.js';
+export {
+  CoinSelectAlgorithm,
+  CoinSelectOpts,
+  CoinSelectResult,
+  CoinSelectUtxo,
+} from './coinselect.js';
+export {
+  DescriptorBIP32API,
+  DescriptorBIP32Interface,
+  DescriptorOpts,
+  DescriptorOutput,
+} from './descriptors.js';
+export { BumpFeeOpts, CpfpOpts, FeeBumpResult } from './feebump.js';
+export {
+  ExecutionData,
+  PrevOutput,
+  ScriptError,
+  ScriptResult,
+  ScriptTrace,
+  SigVersion,
+  SignatureChecker,
+  TraceStep,
+  TracedScript,
+} from './interpreter.js';
+export {
+  MessageSignatureType,
+  SignMessageOptions,
+  VerifyMessageOptions,
+} from './message.js';
+export {
+  Miniscript,
+  MiniscriptAnalysis,
+  MiniscriptContext,
+  MiniscriptFinalizerOpts,
+  MiniscriptFragment,
+  MiniscriptNode,
+  MiniscriptOpts,
+  MiniscriptSatisfier,
+} from './miniscript.js';
+export {
+  Musig2KeyAggContext,
+  Musig2Nonce,
+  Musig2NonceGenOpts,
+  Musig2Signer,
+} from './musig2.js';
+export {
+  CheckProposalOpts,
+  PayjoinParams,
+  PayjoinTransport,
+  ProposalOpts,
+  RequestPayjoinOpts,
+} from './payjoin.js';
 /** @hidden */
 export { TaggedHashPrefix } from './crypto.js';
 export {
+  Musig2InputFields,
+  Musig2PartialSig,
+  Musig2Participants,
+  Musig2PubNonce,
+  ProprietaryKeyVal,
   Psbt,
+  PsbtGlobalXpub,
+  PsbtOutputExtended,
   PsbtTxInput,
   PsbtTxOutput,
   Signer,
   SignerAsync,
   HDSigner,
   HDSignerAsync,
+  TX_MODIFIABLE,
   toXOnly,
 } from './psbt.js';
 /** @hidden */
@@ -26,11 +125,47 @@ export { Transaction } from './transaction.js';
 export { Network } from './networks.js';
 /** @hidden */
 export {
+  P2CSPayment,
   Payment,
   PaymentCreator,
   PaymentOpts,
   Stack,
   StackElement,
 } from './payments/index.js';
+export {
+  Policy,
+  PolicyViolation,
+  PolicyViolationCode,
+  StandardResult,
+} from './policy.js';
+export {
+  ScanOpts,
+  SilentPaymentAddress,
+  SilentPaymentMatch,
+  SilentPaymentOutput,
+} from './silentpayments.js';
+export {
+  SpendPolicy,
+  SpendPolicyOpts,
+  SpendPolicyType,
+  TaprootCompilation,
+  TaprootLeafCompilation,
+} from './spendpolicy.js';
 export { Input as TxInput, Output as TxOutput } from './transaction.js';
+export {
+  EstimateOpts,
+  InputPlan,
+  MultisigInputPlan,
+  OutputPlan,
+  ScriptHashInputPlan,
+  SingleKeyInputPlan,
+  SizeEstimate,
+  TaprootInputPlan,
+  TaprootScriptPath,
+} from './vsize.js';
 export { initEccLib } from './ecc_lib.js';
+export {
+  ArithmeticSecp256k1Interface,
+  RecoverableSecp256k1Interface,
+  VerifyingSecp256k1Interface,
+} from './types.js';
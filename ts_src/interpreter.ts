@@ -0,0 +1,1778 @@
+/**
+ * Script interpreter: evaluates a scriptSig and witness against the
+ * scriptPubKey they spend, following Bitcoin Core's `VerifyScript` for legacy,
+ * P2SH, segwit v0 and taproot (BIP341 / BIP342) spends.
+ *
+ * Rules beyond the original consensus rules are opted into with
+ * {@link FLAGS}, just like Bitcoin Core's `SCRIPT_VERIFY_*` flags. Failures
+ * are reported with Bitcoin Core's script error names (without the
+ * `SCRIPT_ERR_` prefix).
+ *
+ * {@link traceScript} and {@link traceInput} also record every executed
+ * opcode with the resulting stacks, for debugging failing spends.
+ *
+ * PIVX's cold staking and exchange address opcodes are evaluated with
+ * {@link FLAGS}.CHECKCOLDSTAKEVERIFY and {@link FLAGS}.EXCHANGEADDR, both in
+ * {@link PIVX_STANDARD_FLAGS}; without them they are bad opcodes, as on
+ * Bitcoin.
+ *
+ * Signatures are checked with the ECC library registered with
+ * {@link initEccLib}, which must provide `verify` and `verifySchnorr` (such as
+ * tiny-secp256k1).
+ *
+ * @packageDocumentation
+ */
+import { varuint } from './bufferutils.js';
+import * as bcrypto from './crypto.js';
+import { getEccLib } from './ecc_lib.js';
+import * as bip66 from './bip66.js';
+import { tweakKey } from './payments/bip341.js';
+import { isCoinStake, PivxTransaction } from './pivx/transaction.js';
+import * as pushdata from './push_data.js';
+import { OPS } from './ops.js';
+import * as scriptNumber from './script_number.js';
+import { isDefinedHashType, toASM } from './script.js';
+import { Input, Transaction } from './transaction.js';
+import { VerifyingSecp256k1Interface } from './types.js';
+import * as tools from 'uint8array-tools';
+
+/**
+ * Script verification flags, matching Bitcoin Core's `SCRIPT_VERIFY_*`.
+ */
+export const FLAGS = {
+  NONE: 0,
+  /** Evaluate P2SH subscripts (BIP16) */
+  P2SH: 1 << 0,
+  /** Require strict DER signatures, defined hash types and valid public key encodings */
+  STRICTENC: 1 << 1,
+  /** Require strict DER signatures (BIP66) */
+  DERSIG: 1 << 2,
+  /** Require low S values in ECDSA signatures (BIP146) */
+  LOW_S: 1 << 3,
+  /** Require the CHECKMULTISIG dummy element to be empty (BIP147) */
+  NULLDUMMY: 1 << 4,
+  /** Require the scriptSig to be push only */
+  SIGPUSHONLY: 1 << 5,
+  /** Require minimal pushes and script numbers */
+  MINIMALDATA: 1 << 6,
+  /** Fail on the upgradable NOP opcodes */
+  DISCOURAGE_UPGRADABLE_NOPS: 1 << 7,
+  /** Require exactly one element on the stack after evaluation */
+  CLEANSTACK: 1 << 8,
+  /** Evaluate OP_CHECKLOCKTIMEVERIFY (BIP65) */
+  CHECKLOCKTIMEVERIFY: 1 << 9,
+  /** Evaluate OP_CHECKSEQUENCEVERIFY (BIP112) */
+  CHECKSEQUENCEVERIFY: 1 << 10,
+  /** Evaluate witness programs (BIP141) */
+  WITNESS: 1 << 11,
+  /** Fail on witness versions that are not defined yet */
+  DISCOURAGE_UPGRADABLE_WITNESS_PROGRAM: 1 << 12,
+  /** Require OP_IF arguments to be empty or 1 in segwit v0 scripts */
+  MINIMALIF: 1 << 13,
+  /** Require failing signatures to be empty */
+  NULLFAIL: 1 << 14,
+  /** Require compressed public keys in segwit v0 scripts */
+  WITNESS_PUBKEYTYPE: 1 << 15,
+  /** Fail on OP_CODESEPARATOR and signatures found in legacy scripts */
+  CONST_SCRIPTCODE: 1 << 16,
+  /** Evaluate taproot spends (BIP341 / BIP342) */
+  TAPROOT: 1 << 17,
+  /** Fail on taproot leaf versions that are not defined yet */
+  DISCOURAGE_UPGRADABLE_TAPROOT_VERSION: 1 << 18,
+  /** Fail on OP_SUCCESSx opcodes in tapscript */
+  DISCOURAGE_OP_SUCCESS: 1 << 19,
+  /** Fail on tapscript public keys of unknown types */
+  DISCOURAGE_UPGRADABLE_PUBKEYTYPE: 1 << 20,
+  /** Evaluate PIVX's OP_CHECKCOLDSTAKEVERIFY and OP_CHECKCOLDSTAKEVERIFY_LOF */
+  CHECKCOLDSTAKEVERIFY: 1 << 21,
+  /** Evaluate PIVX's OP_EXCHANGEADDR */
+  EXCHANGEADDR: 1 << 22,
+};
+
+/** The flags enforced by consensus. */
+export const MANDATORY_FLAGS =
+  FLAGS.P2SH |
+  FLAGS.DERSIG |
+  FLAGS.NULLDUMMY |
+  FLAGS.CHECKLOCKTIMEVERIFY |
+  FLAGS.CHECKSEQUENCEVERIFY |
+  FLAGS.WITNESS |
+  FLAGS.TAPROOT;
+
+/** The flags enforced by the standardness policy of Bitcoin Core. */
+export const STANDARD_FLAGS =
+  MANDATORY_FLAGS |
+  FLAGS.STRICTENC |
+  FLAGS.MINIMALDATA |
+  FLAGS.DISCOURAGE_UPGRADABLE_NOPS |
+  FLAGS.CLEANSTACK |
+  FLAGS.MINIMALIF |
+  FLAGS.NULLFAIL |
+  FLAGS.LOW_S |
+  FLAGS.DISCOURAGE_UPGRADABLE_WITNESS_PROGRAM |
+  FLAGS.WITNESS_PUBKEYTYPE |
+  FLAGS.CONST_SCRIPTCODE |
+  FLAGS.DISCOURAGE_UPGRADABLE_TAPROOT_VERSION |
+  FLAGS.DISCOURAGE_OP_SUCCESS |
+  FLAGS.DISCOURAGE_UPGRADABLE_PUBKEYTYPE;
+
+/**
+ * The standard flags on PIVX networks, which have cold staking and exchange
+ * addresses, but no segwit.
+ */
+export const PIVX_STANDARD_FLAGS =
+  (STANDARD_FLAGS &
+    ~(
+      FLAGS.WITNESS |
+      FLAGS.DISCOURAGE_UPGRADABLE_WITNESS_PROGRAM |
+      FLAGS.MINIMALIF |
+      FLAGS.WITNESS_PUBKEYTYPE |
+      FLAGS.TAPROOT |
+      FLAGS.DISCOURAGE_UPGRADABLE_TAPROOT_VERSION |
+      FLAGS.DISCOURAGE_OP_SUCCESS |
+      FLAGS.DISCOURAGE_UPGRADABLE_PUBKEYTYPE
+    )) |
+  FLAGS.CHECKCOLDSTAKEVERIFY |
+  FLAGS.EXCHANGEADDR;
+
+/** Script errors, named after Bitcoin Core's `SCRIPT_ERR_*`. */
+export type ScriptError =
+  | 'UNKNOWN_ERROR'
+  | 'EVAL_FALSE'
+  | 'OP_RETURN'
+  | 'SCRIPT_SIZE'
+  | 'PUSH_SIZE'
+  | 'OP_COUNT'
+  | 'STACK_SIZE'
+  | 'SIG_COUNT'
+  | 'PUBKEY_COUNT'
+  | 'VERIFY'
+  | 'EQUALVERIFY'
+  | 'CHECKMULTISIGVERIFY'
+  | 'CHECKSIGVERIFY'
+  | 'NUMEQUALVERIFY'
+  | 'BAD_OPCODE'
+  | 'DISABLED_OPCODE'
+  | 'INVALID_STACK_OPERATION'
+  | 'INVALID_ALTSTACK_OPERATION'
+  | 'UNBALANCED_CONDITIONAL'
+  | 'NEGATIVE_LOCKTIME'
+  | 'UNSATISFIED_LOCKTIME'
+  | 'SIG_HASHTYPE'
+  | 'SIG_DER'
+  | 'MINIMALDATA'
+  | 'SIG_PUSHONLY'
+  | 'SIG_HIGH_S'
+  | 'SIG_NULLDUMMY'
+  | 'PUBKEYTYPE'
+  | 'CLEANSTACK'
+  | 'MINIMALIF'
+  | 'NULLFAIL'
+  | 'DISCOURAGE_UPGRADABLE_NOPS'
+  | 'DISCOURAGE_UPGRADABLE_WITNESS_PROGRAM'
+  | 'DISCOURAGE_UPGRADABLE_TAPROOT_VERSION'
+  | 'DISCOURAGE_OP_SUCCESS'
+  | 'DISCOURAGE_UPGRADABLE_PUBKEYTYPE'
+  | 'WITNESS_PROGRAM_WRONG_LENGTH'
+  | 'WITNESS_PROGRAM_WITNESS_EMPTY'
+  | 'WITNESS_PROGRAM_MISMATCH'
+  | 'WITNESS_MALLEATED'
+  | 'WITNESS_MALLEATED_P2SH'
+  | 'WITNESS_UNEXPECTED'
+  | 'WITNESS_PUBKEYTYPE'
+  | 'SCHNORR_SIG_SIZE'
+  | 'SCHNORR_SIG_HASHTYPE'
+  | 'SCHNORR_SIG'
+  | 'TAPROOT_WRONG_CONTROL_SIZE'
+  | 'TAPSCRIPT_VALIDATION_WEIGHT'
+  | 'TAPSCRIPT_CHECKMULTISIG'
+  | 'TAPSCRIPT_MINIMALIF'
+  | 'OP_CODESEPARATOR'
+  | 'SIG_FINDANDDELETE'
+  | 'CHECKCOLDSTAKEVERIFY'
+  | 'EXCHANGEADDRVERIFY';
+
+export interface ScriptResult {
+  success: boolean;
+  /** Why the script failed, undefined on success */
+  error?: ScriptError;
+}
+
+/** The rules a script is executed under. */
+export type SigVersion = 'base' | 'witness_v0' | 'taproot' | 'tapscript';
+
+/** Taproot specific data of the input being executed. */
+export interface ExecutionData {
+  /** Opcode position of the last executed OP_CODESEPARATOR */
+  codeSeparatorPos: number;
+  /** Hash of the tapscript leaf being executed */
+  tapleafHash?: Uint8Array;
+  /** The annex, including its 0x50 prefix */
+  annex?: Uint8Array;
+  /** Remaining signature validation budget (BIP342) */
+  validationWeightLeft?: number;
+}
+
+/**
+ * Checks signatures and timelocks against the spending transaction.
+ */
+export interface SignatureChecker {
+  /**
+   * @param signature - DER signature followed by the hash type byte
+   * @param pubkey - The public key
+   * @param scriptCode - The script code committed to by the signature
+   * @param sigVersion - 'base' or 'witness_v0'
+   */
+  checkECDSASignature(
+    signature: Uint8Array,
+    pubkey: Uint8Array,
+    scriptCode: Uint8Array,
+    sigVersion: SigVersion,
+  ): boolean;
+  /**
+   * @param signature - The 64 byte Schnorr signature, without hash type
+   * @param pubkey - The 32 byte x-only public key
+   * @param hashType - The hash type (0x00 for SIGHASH_DEFAULT)
+   * @param sigVersion - 'taproot' or 'tapscript'
+   * @param execData - Leaf hash, annex and OP_CODESEPARATOR position
+   */
+  checkSchnorrSignature(
+    signature: Uint8Array,
+    pubkey: Uint8Array,
+    hashType: number,
+    sigVersion: SigVersion,
+    execData: ExecutionData,
+  ): boolean;
+  checkLockTime(lockTime: number): boolean;
+  checkSequence(sequence: number): boolean;
+  /**
+   * @param allowLastOutputFree - Whether the last output may pay elsewhere,
+   * for OP_CHECKCOLDSTAKEVERIFY_LOF
+   */
+  checkColdStake(allowLastOutputFree: boolean): boolean;
+}
+
+/** A transaction output being spent. */
+export interface PrevOutput {
+  script: Uint8Array;
+  value: bigint;
+}
+
+/** The script an opcode of a trace belongs to. */
+export type TracedScript =
+  | 'scriptSig'
+  | 'scriptPubKey'
+  | 'redeemScript'
+  | 'witnessScript'
+  | 'tapscript';
+
+/** A single opcode of a script execution trace. */
+export interface TraceStep {
+  script: TracedScript;
+  sigVersion: SigVersion;
+  /** Position of the opcode in the script, counting opcodes */
+  opcodePos: number;
+  /** Byte offset of the opcode in the script */
+  pc: number;
+  opcode: number;
+  /** The opcode, or the pushed data, in {@link toASM} format */
+  asm: string;
+  /** False if the opcode was skipped by an OP_IF / OP_NOTIF branch */
+  executed: boolean;
+  /** Whether each enclosing OP_IF / OP_NOTIF branch runs, outermost first */
+  branches: boolean[];
+  /** The main stack after the opcode (or when it failed), top last */
+  stack: Uint8Array[];
+  /** The alt stack after the opcode (or when it failed), top last */
+  altstack: Uint8Array[];
+  /** Why the opcode failed the script */
+  error?: ScriptError;
+}
+
+export interface ScriptTrace extends ScriptResult {
+  /** Every opcode reached, in execution order */
+  steps: TraceStep[];
+  /**
+   * The opcode that failed the script, undefined if the failure was not
+   * caused by a single opcode (such as EVAL_FALSE or WITNESS_PROGRAM_MISMATCH)
+   */
+  failedStep?: TraceStep;
+}
+
+const MAX_SCRIPT_ELEMENT_SIZE = 520;
+const MAX_OPS_PER_SCRIPT = 201;
+const MAX_PUBKEYS_PER_MULTISIG = 20;
+const MAX_SCRIPT_SIZE = 10000;
+const MAX_STACK_SIZE = 1000;
+const LOCKTIME_THRESHOLD = 500000000;
+const SEQUENCE_FINAL = 0xffffffff;
+const SEQUENCE_LOCKTIME_DISABLE_FLAG = 0x80000000n;
+const SEQUENCE_LOCKTIME_TYPE_FLAG = 0x00400000n;
+const SEQUENCE_LOCKTIME_MASK = 0x0000ffffn;
+const VALIDATION_WEIGHT_PER_SIGOP_PASSED = 50;
+const VALIDATION_WEIGHT_OFFSET = 50;
+const TAPROOT_LEAF_MASK = 0xfe;
+const TAPROOT_LEAF_TAPSCRIPT = 0xc0;
+const TAPROOT_CONTROL_BASE_SIZE = 33;
+const TAPROOT_CONTROL_NODE_SIZE = 32;
+const TAPROOT_CONTROL_MAX_NODE_COUNT = 128;
+const ANNEX_TAG = 0x50;
+// uint256(1) as Bitcoin Core signs it for the SIGHASH_SINGLE bug, which
+// Transaction.hashForSignature returns in reversed byte order
+const SIGHASH_SINGLE_BUG_HASH = tools.fromHex(
+  '0100000000000000000000000000000000000000000000000000000000000000',
+);
+
+const EMPTY = new Uint8Array(0);
+const TRUE = Uint8Array.of(1);
+const HALF_ORDER = tools.fromHex(
+  '7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0',
+);
+
+const DISABLED_OPCODES = [
+  OPS.OP_CAT,
+  OPS.OP_SUBSTR,
+  OPS.OP_LEFT,
+  OPS.OP_RIGHT,
+  OPS.OP_INVERT,
+  OPS.OP_AND,
+  OPS.OP_OR,
+  OPS.OP_XOR,
+  OPS.OP_2MUL,
+  OPS.OP_2DIV,
+  OPS.OP_MUL,
+  OPS.OP_DIV,
+  OPS.OP_MOD,
+  OPS.OP_LSHIFT,
+  OPS.OP_RSHIFT,
+];
+
+/**
+ * Thrown inside the interpreter to unwind on the first script failure.
+ */
+class ScriptFailure extends Error {
+  code: ScriptError;
+
+  constructor(code: ScriptError) {
+    super(code);
+    this.code = code;
+  }
+}
+
+function fail(code: ScriptError): never {
+  throw new ScriptFailure(code);
+}
+
+/**
+ * Collects trace steps while scripts are executed.
+ */
+interface Tracer {
+  steps: TraceStep[];
+  /** The script currently executed */
+  script: TracedScript;
+  /** Builds the step of the opcode being executed, until it is recorded */
+  pending?: (error?: ScriptError) => TraceStep;
+}
+
+interface ScriptOp {
+  opcode: number;
+  /** Pushed data, for push opcodes */
+  data?: Uint8Array;
+  /** Offset of the next opcode */
+  next: number;
+}
+
+/**
+ * Reads the opcode at `pc`, without the minimal decoding of
+ * {@link decompile} so that push encodings and offsets are kept.
+ */
+function readOp(script: Uint8Array, pc: number): ScriptOp | null {
+  const opcode = script[pc];
+  if (opcode > OPS.OP_0 && opcode <= OPS.OP_PUSHDATA4) {
+    const d = pushdata.decode(script, pc);
+    if (d === null) return null;
+    const start = pc + d.size;
+    const end = start + d.number;
+    if (end > script.length) return null;
+    return { opcode, data: script.subarray(start, end), next: end };
+  }
+  return {
+    opcode,
+    data: opcode === OPS.OP_0 ? EMPTY : undefined,
+    next: pc + 1,
+  };
+}
+
+function opToASM(script: Uint8Array, pc: number): string {
+  const op = readOp(script, pc);
+  if (op === null) return '[error]';
+  if (op.data === undefined && OPS[op.opcode] === undefined)
+    return 'OP_UNKNOWN';
+  return toASM([op.data || op.opcode]);
+}
+
+function isMinimalPush(op: ScriptOp): boolean {
+  const { opcode, data } = op;
+  const length = data!.length;
+  if (length === 0) return opcode === OPS.OP_0;
+  if (length === 1 && data![0] >= 1 && data![0] <= 16)
+    return opcode === OPS.OP_1 + data![0] - 1;
+  if (length === 1 && data![0] === 0x81) return opcode === OPS.OP_1NEGATE;
+  if (length <= 75) return opcode === length;
+  if (length <= 255) return opcode === OPS.OP_PUSHDATA1;
+  if (length <= 65535) return opcode === OPS.OP_PUSHDATA2;
+  return true;
+}
+
+/**
+ * Serializes a data push the way Bitcoin Core's `CScript << data` does.
+ */
+function serializePush(data: Uint8Array): Uint8Array {
+  const buffer = new Uint8Array(pushdata.encodingLength(data.length));
+  pushdata.encode(buffer, data.length, 0);
+  return tools.concat([buffer, data]);
+}
+
+function isPushOnly(script: Uint8Array): boolean {
+  for (let pc = 0; pc < script.length; ) {
+    const op = readOp(script, pc);
+    if (op === null || op.opcode > OPS.OP_16) return false;
+    pc = op.next;
+  }
+  return true;
+}
+
+function isPayToScriptHash(script: Uint8Array): boolean {
+  return (
+    script.length === 23 &&
+    script[0] === OPS.OP_HASH160 &&
+    script[1] === 0x14 &&
+    script[22] === OPS.OP_EQUAL
+  );
+}
+
+function decodeWitnessProgram(
+  script: Uint8Array,
+): { version: number; program: Uint8Array } | undefined {
+  if (script.length < 4 || script.length > 42) return;
+  if (script[0] !== OPS.OP_0 && (script[0] < OPS.OP_1 || script[0] > OPS.OP_16))
+    return;
+  if (script[1] + 2 !== script.length) return;
+  return {
+    version: script[0] === OPS.OP_0 ? 0 : script[0] - OPS.OP_1 + 1,
+    program: script.slice(2),
+  };
+}
+
+function isOpSuccess(opcode: number): boolean {
+  return (
+    opcode === 80 ||
+    opcode === 98 ||
+    (opcode >= 126 && opcode <= 129) ||
+    (opcode >= 131 && opcode <= 134) ||
+    (opcode >= 137 && opcode <= 138) ||
+    (opcode >= 141 && opcode <= 142) ||
+    (opcode >= 149 && opcode <= 153) ||
+    (opcode >= 187 && opcode <= 254)
+  );
+}
+
+function castToBool(value: Uint8Array): boolean {
+  for (let i = 0; i < value.length; ++i) {
+    if (value[i] !== 0) {
+      // negative zero is false
+      return !(i === value.length - 1 && value[i] === 0x80);
+    }
+  }
+  return false;
+}
+
+function toNumber(value: Uint8Array, minimal: boolean, maxLength = 4): number {
+  try {
+    return scriptNumber.decode(value, maxLength, minimal);
+  } catch (e) {
+    return fail('UNKNOWN_ERROR');
+  }
+}
+
+/**
+ * Removes every occurrence of `data` at an opcode boundary, as Bitcoin Core's
+ * `FindAndDelete` does.
+ */
+function findAndDelete(
+  script: Uint8Array,
+  data: Uint8Array,
+): { script: Uint8Array; found: number } {
+  if (data.length === 0) return { script, found: 0 };
+  const chunks: Uint8Array[] = [];
+  let found = 0;
+  let pc = 0;
+  let pc2 = 0;
+  let op: ScriptOp | null = null;
+  do {
+    if (op) pc = op.next;
+    chunks.push(script.subarray(pc2, pc));
+    while (
+      script.length - pc >= data.length &&
+      tools.compare(script.subarray(pc, pc + data.length), data) === 0
+    ) {
+      pc += data.length;
+      ++found;
+    }
+    pc2 = pc;
+    op = pc < script.length ? readOp(script, pc) : null;
+  } while (op !== null);
+  if (found === 0) return { script, found };
+  chunks.push(script.subarray(pc2));
+  return { script: tools.concat(chunks), found };
+}
+
+function isCompressedOrUncompressedPubKey(pubkey: Uint8Array): boolean {
+  if (pubkey.length === 33) return pubkey[0] === 0x02 || pubkey[0] === 0x03;
+  if (pubkey.length === 65) return pubkey[0] === 0x04;
+  return false;
+}
+
+function isCompressedPubKey(pubkey: Uint8Array): boolean {
+  return pubkey.length === 33 && (pubkey[0] === 0x02 || pubkey[0] === 0x03);
+}
+
+function checkSignatureEncoding(signature: Uint8Array, flags: number): void {
+  // an empty signature is a compact way of providing an invalid signature
+  if (signature.length === 0) return;
+  if (
+    flags & (FLAGS.DERSIG | FLAGS.LOW_S | FLAGS.STRICTENC) &&
+    !bip66.check(signature.subarray(0, -1))
+  )
+    fail('SIG_DER');
+  if (flags & FLAGS.LOW_S) {
+    const parsed = bip66.parseLaxDER(signature.subarray(0, -1));
+    if (!parsed || tools.compare(parsed.subarray(32), HALF_ORDER) > 0)
+      fail('SIG_HIGH_S');
+  }
+  if (
+    flags & FLAGS.STRICTENC &&
+    !isDefinedHashType(signature[signature.length - 1])
+  )
+    fail('SIG_HASHTYPE');
+}
+
+function checkPubKeyEncoding(
+  pubkey: Uint8Array,
+  flags: number,
+  sigVersion: SigVersion,
+): void {
+  if (flags & FLAGS.STRICTENC && !isCompressedOrUncompressedPubKey(pubkey))
+    fail('PUBKEYTYPE');
+  if (
+    flags & FLAGS.WITNESS_PUBKEYTYPE &&
+    sigVersion === 'witness_v0' &&
+    !isCompressedPubKey(pubkey)
+  )
+    fail('WITNESS_PUBKEYTYPE');
+}
+
+function getVerifyingEccLib(): VerifyingSecp256k1Interface {
+  const ecc = getEccLib() as VerifyingSecp256k1Interface;
+  if (
+    typeof ecc.verify !== 'function' ||
+    typeof ecc.verifySchnorr !== 'function'
+  )
+    throw new Error(
+      'ECC library does not support signature verification (verify, verifySchnorr)',
+    );
+  return ecc;
+}
+
+/**
+ * Checks signatures and timelocks against an input of a transaction.
+ */
+export class TransactionSignatureChecker implements SignatureChecker {
+  /**
+   * @param tx - The spending transaction
+   * @param inIndex - The input being verified
+   * @param prevOutputs - The outputs spent by every input of the transaction
+   * (only the one spent by `inIndex` is needed for non-taproot spends)
+   */
+  constructor(
+    public tx: Transaction,
+    public inIndex: number,
+    public prevOutputs: PrevOutput[],
+  ) {}
+
+  checkECDSASignature(
+    signature: Uint8Array,
+    pubkey: Uint8Array,
+    scriptCode: Uint8Array,
+    sigVersion: SigVersion,
+  ): boolean {
+    if (signature.length === 0) return false;
+    // hybrid keys are valid (but non-standard) uncompressed keys
+    if (pubkey.length === 65 && (pubkey[0] === 0x06 || pubkey[0] === 0x07)) {
+      if ((pubkey[0] & 1) !== (pubkey[64] & 1)) return false;
+      pubkey = tools.concat([Uint8Array.of(0x04), pubkey.subarray(1)]);
+    }
+    const compact = bip66.parseLaxDER(signature.subarray(0, -1));
+    if (compact === null) return false;
+
+    const ecc = getVerifyingEccLib();
+    const hashType = signature[signature.length - 1];
+    try {
+      // Sapling-era PIVX transactions commit to input amounts like segwit
+      const hash =
+        this.tx instanceof PivxTransaction && this.tx.isSaplingVersion()
+          ? this.tx.hashForSaplingSignature(
+              this.inIndex,
+              scriptCode,
+              this.prevOutputs[this.inIndex].value,
+              hashType,
+            )
+          : sigVersion === 'witness_v0'
+            ? this.tx.hashForWitnessV0(
+                this.inIndex,
+                scriptCode,
+                this.prevOutputs[this.inIndex].value,
+                hashType,
+              )
+            : (hashType & 0x1f) === Transaction.SIGHASH_SINGLE &&
+                this.inIndex >= this.tx.outs.length
+              ? SIGHASH_SINGLE_BUG_HASH
+              : this.tx.hashForSignature(this.inIndex, scriptCode, hashType);
+      return ecc.verify(hash, pubkey, compact);
+    } catch (e) {
+      // invalid public keys and signature values
+      return false;
+    }
+  }
+
+  checkSchnorrSignature(
+    signature: Uint8Array,
+    pubkey: Uint8Array,
+    hashType: number,
+    sigVersion: SigVersion,
+    execData: ExecutionData,
+  ): boolean {
+    const outputType = hashType & Transaction.SIGHASH_OUTPUT_MASK;
+    if (
+      outputType === Transaction.SIGHASH_SINGLE &&
+      this.inIndex >= this.tx.outs.length
+    )
+      return false;
+    const hash = this.tx.hashForWitnessV1(
+      this.inIndex,
+      this.prevOutputs.map(output => output.script),
+      this.prevOutputs.map(output => output.value),
+      hashType,
+      sigVersion === 'tapscript' ? execData.tapleafHash : undefined,
+      execData.annex,
+      execData.codeSeparatorPos,
+    );
+    return getVerifyingEccLib().verifySchnorr(hash, pubkey, signature);
+  }
+
+  checkLockTime(lockTime: number): boolean {
+    const txLockTime = this.tx.locktime;
+    // both must be block heights or both timestamps
+    if (
+      !(
+        (txLockTime < LOCKTIME_THRESHOLD && lockTime < LOCKTIME_THRESHOLD) ||
+        (txLockTime >= LOCKTIME_THRESHOLD && lockTime >= LOCKTIME_THRESHOLD)
+      )
+    )
+      return false;
+    if (lockTime > txLockTime) return false;
+    // a final input would disable the transaction's lock time
+    return this.tx.ins[this.inIndex].sequence !== SEQUENCE_FINAL;
+  }
+
+  checkSequence(sequence: number): boolean {
+    const txSequence = BigInt(this.tx.ins[this.inIndex].sequence);
+    if (this.tx.version >>> 0 < 2) return false;
+    if (txSequence & SEQUENCE_LOCKTIME_DISABLE_FLAG) return false;
+
+    const mask = SEQUENCE_LOCKTIME_TYPE_FLAG | SEQUENCE_LOCKTIME_MASK;
+    const txMasked = txSequence & mask;
+    const masked = BigInt(sequence) & mask;
+    if (
+      !(
+        (txMasked < SEQUENCE_LOCKTIME_TYPE_FLAG &&
+          masked < SEQUENCE_LOCKTIME_TYPE_FLAG) ||
+        (txMasked >= SEQUENCE_LOCKTIME_TYPE_FLAG &&
+          masked >= SEQUENCE_LOCKTIME_TYPE_FLAG)
+      )
+    )
+      return false;
+    return masked <= txMasked;
+  }
+
+  /**
+   * Checks that a cold staked output is only spent by the staker to stake
+   * it: the transaction must be a coinstake whose outputs, after the empty
+   * marker, pay back at least the spent value to the spent script. With
+   * OP_CHECKCOLDSTAKEVERIFY_LOF the last output may pay elsewhere, such as
+   * the masternode and budget payments.
+   */
+  checkColdStake(allowLastOutputFree: boolean): boolean {
+    if (!isCoinStake(this.tx)) return false;
+    const { script, value } = this.prevOutputs[this.inIndex];
+    let outs = this.tx.outs.slice(1);
+    if (
+      allowLastOutputFree &&
+      outs.length > 1 &&
+      tools.compare(outs[outs.length - 1].script, script) !== 0
+    )
+      outs = outs.slice(0, -1);
+    return (
+      outs.every(out => tools.compare(out.script, script) === 0) &&
+      outs.reduce((sum, out) => sum + out.value, 0n) >= value
+    );
+  }
+}
+
+function evalChecksigPreTapscript(
+  signature: Uint8Array,
+  pubkey: Uint8Array,
+  scriptCode: Uint8Array,
+  flags: number,
+  checker: SignatureChecker,
+  sigVersion: SigVersion,
+): boolean {
+  if (sigVersion === 'base') {
+    const { script, found } = findAndDelete(
+      scriptCode,
+      serializePush(signature),
+    );
+    if (found > 0 && flags & FLAGS.CONST_SCRIPTCODE) fail('SIG_FINDANDDELETE');
+    scriptCode = script;
+  }
+  checkSignatureEncoding(signature, flags);
+  checkPubKeyEncoding(pubkey, flags, sigVersion);
+  const success = checker.checkECDSASignature(
+    signature,
+    pubkey,
+    scriptCode,
+    sigVersion,
+  );
+  if (!success && flags & FLAGS.NULLFAIL && signature.length) fail('NULLFAIL');
+  return success;
+}
+
+function evalSchnorrSignature(
+  signature: Uint8Array,
+  pubkey: Uint8Array,
+  checker: SignatureChecker,
+  sigVersion: SigVersion,
+  execData: ExecutionData,
+): void {
+  let hashType = Transaction.SIGHASH_DEFAULT;
+  if (signature.length === 65) {
+    hashType = signature[64];
+    // SIGHASH_DEFAULT must be implied by a 64 byte signature
+    if (hashType === Transaction.SIGHASH_DEFAULT) fail('SCHNORR_SIG_HASHTYPE');
+    signature = signature.subarray(0, 64);
+  } else if (signature.length !== 64) {
+    fail('SCHNORR_SIG_SIZE');
+  }
+  if (hashType !== Transaction.SIGHASH_DEFAULT && !isDefinedHashType(hashType))
+    fail('SCHNORR_SIG_HASHTYPE');
+  if (
+    !checker.checkSchnorrSignature(
+      signature,
+      pubkey,
+      hashType,
+      sigVersion,
+      execData,
+    )
+  )
+    fail('SCHNORR_SIG');
+}
+
+function evalChecksigTapscript(
+  signature: Uint8Array,
+  pubkey: Uint8Array,
+  flags: number,
+  checker: SignatureChecker,
+  execData: ExecutionData,
+): boolean {
+  const success = signature.length > 0;
+  if (success) {
+    execData.validationWeightLeft! -= VALIDATION_WEIGHT_PER_SIGOP_PASSED;
+    if (execData.validationWeightLeft! < 0) fail('TAPSCRIPT_VALIDATION_WEIGHT');
+  }
+  if (pubkey.length === 0) {
+    fail('PUBKEYTYPE');
+  } else if (pubkey.length === 32) {
+    if (success)
+      evalSchnorrSignature(signature, pubkey, checker, 'tapscript', execData);
+  } else if (flags & FLAGS.DISCOURAGE_UPGRADABLE_PUBKEYTYPE) {
+    fail('DISCOURAGE_UPGRADABLE_PUBKEYTYPE');
+  }
+  return success;
+}
+
+/**
+ * Executes a script on the given stack, which is modified in place.
+ */
+function evalScript(
+  stack: Uint8Array[],
+  script: Uint8Array,
+  flags: number,
+  checker: SignatureChecker,
+  sigVersion: SigVersion,
+  execData: ExecutionData,
+  tracer?: Tracer,
+): void {
+  const isTapscript = sigVersion === 'tapscript';
+  if (!isTapscript && script.length > MAX_SCRIPT_SIZE) fail('SCRIPT_SIZE');
+
+  const minimal = (flags & FLAGS.MINIMALDATA) !== 0;
+  const altstack: Uint8Array[] = [];
+  const vfExec: boolean[] = [];
+  let opCount = 0;
+  let opcodePos = 0;
+  let codeHashBegin = 0;
+
+  const top = (i: number): Uint8Array => stack[stack.length + i];
+  const need = (n: number): void => {
+    if (stack.length < n) fail('INVALID_STACK_OPERATION');
+  };
+  const pushBool = (value: boolean): void => {
+    stack.push(value ? TRUE : EMPTY);
+  };
+  const pushNumber = (value: number): void => {
+    stack.push(scriptNumber.encode(value));
+  };
+
+  for (let pc = 0; pc < script.length; opcodePos++) {
+    const exec = !vfExec.includes(false);
+    if (tracer) {
+      const step = {
+        script: tracer.script,
+        sigVersion,
+        opcodePos,
+        pc,
+        opcode: script[pc],
+        asm: opToASM(script, pc),
+        // conditionals run in unexecuted branches to track the nesting
+        executed:
+          exec || (script[pc] >= OPS.OP_IF && script[pc] <= OPS.OP_ENDIF),
+      };
+      tracer.pending = (error?: ScriptError): TraceStep => ({
+        ...step,
+        branches: vfExec.slice(),
+        stack: stack.slice(),
+        altstack: altstack.slice(),
+        ...(error ? { error } : {}),
+      });
+    }
+    const op = readOp(script, pc);
+    if (op === null) fail('BAD_OPCODE');
+    const { opcode, data } = op;
+    pc = op.next;
+
+    if (data && data.length > MAX_SCRIPT_ELEMENT_SIZE) fail('PUSH_SIZE');
+    if (!isTapscript && opcode > OPS.OP_16 && ++opCount > MAX_OPS_PER_SCRIPT)
+      fail('OP_COUNT');
+    if (DISABLED_OPCODES.includes(opcode)) fail('DISABLED_OPCODE');
+    if (
+      opcode === OPS.OP_CODESEPARATOR &&
+      sigVersion === 'base' &&
+      flags & FLAGS.CONST_SCRIPTCODE
+    )
+      fail('OP_CODESEPARATOR');
+
+    if (exec && opcode <= OPS.OP_PUSHDATA4) {
+      if (minimal && !isMinimalPush(op)) fail('MINIMALDATA');
+      stack.push(data!);
+    } else if (exec || (opcode >= OPS.OP_IF && opcode <= OPS.OP_ENDIF)) {
+      switch (opcode) {
+        case OPS.OP_1NEGATE:
+        case OPS.OP_1:
+        case OPS.OP_2:
+        case OPS.OP_3:
+        case OPS.OP_4:
+        case OPS.OP_5:
+        case OPS.OP_6:
+        case OPS.OP_7:
+        case OPS.OP_8:
+        case OPS.OP_9:
+        case OPS.OP_10:
+        case OPS.OP_11:
+        case OPS.OP_12:
+        case OPS.OP_13:
+        case OPS.OP_14:
+        case OPS.OP_15:
+        case OPS.OP_16:
+          pushNumber(opcode - (OPS.OP_1 - 1));
+          break;
+
+        case OPS.OP_NOP:
+          break;
+
+        case OPS.OP_CHECKLOCKTIMEVERIFY: {
+          if (!(flags & FLAGS.CHECKLOCKTIMEVERIFY)) {
+            if (flags & FLAGS.DISCOURAGE_UPGRADABLE_NOPS)
+              fail('DISCOURAGE_UPGRADABLE_NOPS');
+            break;
+          }
+          need(1);
+          // lock times are 5 byte numbers to reach beyond 2^31
+          const lockTime = toNumber(top(-1), minimal, 5);
+          if (lockTime < 0) fail('NEGATIVE_LOCKTIME');
+          if (!checker.checkLockTime(lockTime)) fail('UNSATISFIED_LOCKTIME');
+          break;
+        }
+
+        case OPS.OP_CHECKSEQUENCEVERIFY: {
+          if (!(flags & FLAGS.CHECKSEQUENCEVERIFY)) {
+            if (flags & FLAGS.DISCOURAGE_UPGRADABLE_NOPS)
+              fail('DISCOURAGE_UPGRADABLE_NOPS');
+            break;
+          }
+          need(1);
+          const sequence = toNumber(top(-1), minimal, 5);
+          if (sequence < 0) fail('NEGATIVE_LOCKTIME');
+          // the disable flag makes this a NOP
+          if (BigInt(sequence) & SEQUENCE_LOCKTIME_DISABLE_FLAG) break;
+          if (!checker.checkSequence(sequence)) fail('UNSATISFIED_LOCKTIME');
+          break;
+        }
+
+        case OPS.OP_CHECKCOLDSTAKEVERIFY:
+        case OPS.OP_CHECKCOLDSTAKEVERIFY_LOF:
+          if (!(flags & FLAGS.CHECKCOLDSTAKEVERIFY)) fail('BAD_OPCODE');
+          if (
+            !checker.checkColdStake(opcode === OPS.OP_CHECKCOLDSTAKEVERIFY_LOF)
+          )
+            fail('CHECKCOLDSTAKEVERIFY');
+          break;
+
+        case OPS.OP_EXCHANGEADDR:
+          if (!(flags & FLAGS.EXCHANGEADDR)) fail('BAD_OPCODE');
+          // it only marks the script as an exchange address script
+          if (opcodePos !== 0) fail('EXCHANGEADDRVERIFY');
+          break;
+
+        case OPS.OP_NOP1:
+        case OPS.OP_NOP4:
+        case OPS.OP_NOP5:
+        case OPS.OP_NOP6:
+        case OPS.OP_NOP7:
+        case OPS.OP_NOP8:
+        case OPS.OP_NOP9:
+        case OPS.OP_NOP10:
+          if (flags & FLAGS.DISCOURAGE_UPGRADABLE_NOPS)
+            fail('DISCOURAGE_UPGRADABLE_NOPS');
+          break;
+
+        case OPS.OP_IF:
+        case OPS.OP_NOTIF: {
+          let value = false;
+          if (exec) {
+            if (stack.length < 1) fail('UNBALANCED_CONDITIONAL');
+            const vch = top(-1);
+            const isMinimal =
+              vch.length === 0 || (vch.length === 1 && vch[0] === 1);
+            if (isTapscript && !isMinimal) fail('TAPSCRIPT_MINIMALIF');
+            if (
+              sigVersion === 'witness_v0' &&
+              flags & FLAGS.MINIMALIF &&
+              !isMinimal
+            )
+              fail('MINIMALIF');
+            value = castToBool(vch);
+            if (opcode === OPS.OP_NOTIF) value = !value;
+            stack.pop();
+          }
+          vfExec.push(value);
+          break;
+        }
+
+        case OPS.OP_ELSE:
+          if (vfExec.length === 0) fail('UNBALANCED_CONDITIONAL');
+          vfExec[vfExec.length - 1] = !vfExec[vfExec.length - 1];
+          break;
+
+        case OPS.OP_ENDIF:
+          if (vfExec.length === 0) fail('UNBALANCED_CONDITIONAL');
+          vfExec.pop();
+          break;
+
+        case OPS.OP_VERIFY:
+          need(1);
+          if (!castToBool(top(-1))) fail('VERIFY');
+          stack.pop();
+          break;
+
+        case OPS.OP_RETURN:
+          fail('OP_RETURN');
+          break;
+
+        case OPS.OP_TOALTSTACK:
+          need(1);
+          altstack.push(stack.pop()!);
+          break;
+
+        case OPS.OP_FROMALTSTACK:
+          if (altstack.length < 1) fail('INVALID_ALTSTACK_OPERATION');
+          stack.push(altstack.pop()!);
+          break;
+
+        case OPS.OP_2DROP:
+          need(2);
+          stack.length -= 2;
+          break;
+
+        case OPS.OP_2DUP:
+          need(2);
+          stack.push(top(-2), top(-1));
+          break;
+
+        case OPS.OP_3DUP:
+          need(3);
+          stack.push(top(-3), top(-2), top(-1));
+          break;
+
+        case OPS.OP_2OVER:
+          need(4);
+          stack.push(top(-4), top(-3));
+          break;
+
+        case OPS.OP_2ROT:
+          need(6);
+          stack.push(...stack.splice(stack.length - 6, 2));
+          break;
+
+        case OPS.OP_2SWAP:
+          need(4);
+          stack.push(...stack.splice(stack.length - 4, 2));
+          break;
+
+        case OPS.OP_IFDUP:
+          need(1);
+          if (castToBool(top(-1))) stack.push(top(-1));
+          break;
+
+        case OPS.OP_DEPTH:
+          pushNumber(stack.length);
+          break;
+
+        case OPS.OP_DROP:
+          need(1);
+          stack.pop();
+          break;
+
+        case OPS.OP_DUP:
+          need(1);
+          stack.push(top(-1));
+          break;
+
+        case OPS.OP_NIP:
+          need(2);
+          stack.splice(stack.length - 2, 1);
+          break;
+
+        case OPS.OP_OVER:
+          need(2);
+          stack.push(top(-2));
+          break;
+
+        case OPS.OP_PICK:
+        case OPS.OP_ROLL: {
+          need(2);
+          const n = toNumber(top(-1), minimal);
+          stack.pop();
+          if (n < 0 || n >= stack.length) fail('INVALID_STACK_OPERATION');
+          const value = top(-n - 1);
+          if (opcode === OPS.OP_ROLL) stack.splice(stack.length - n - 1, 1);
+          stack.push(value);
+          break;
+        }
+
+        case OPS.OP_ROT:
+          need(3);
+          stack.push(...stack.splice(stack.length - 3, 1));
+          break;
+
+        case OPS.OP_SWAP:
+          need(2);
+          stack.push(...stack.splice(stack.length - 2, 1));
+          break;
+
+        case OPS.OP_TUCK:
+          need(2);
+          stack.splice(stack.length - 2, 0, top(-1));
+          break;
+
+        case OPS.OP_SIZE:
+          need(1);
+          pushNumber(top(-1).length);
+          break;
+
+        case OPS.OP_EQUAL:
+        case OPS.OP_EQUALVERIFY: {
+          need(2);
+          const equal = tools.compare(top(-2), top(-1)) === 0;
+          stack.length -= 2;
+          pushBool(equal);
+          if (opcode === OPS.OP_EQUALVERIFY) {
+            if (!equal) fail('EQUALVERIFY');
+            stack.pop();
+          }
+          break;
+        }
+
+        case OPS.OP_1ADD:
+        case OPS.OP_1SUB:
+        case OPS.OP_NEGATE:
+        case OPS.OP_ABS:
+        case OPS.OP_NOT:
+        case OPS.OP_0NOTEQUAL: {
+          need(1);
+          let n = toNumber(top(-1), minimal);
+          if (opcode === OPS.OP_1ADD) n += 1;
+          else if (opcode === OPS.OP_1SUB) n -= 1;
+          else if (opcode === OPS.OP_NEGATE) n = -n;
+          else if (opcode === OPS.OP_ABS) n = Math.abs(n);
+          else if (opcode === OPS.OP_NOT) n = n === 0 ? 1 : 0;
+          else n = n !== 0 ? 1 : 0;
+          stack.pop();
+          pushNumber(n);
+          break;
+        }
+
+        case OPS.OP_ADD:
+        case OPS.OP_SUB:
+        case OPS.OP_BOOLAND:
+        case OPS.OP_BOOLOR:
+        case OPS.OP_NUMEQUAL:
+        case OPS.OP_NUMEQUALVERIFY:
+        case OPS.OP_NUMNOTEQUAL:
+        case OPS.OP_LESSTHAN:
+        case OPS.OP_GREATERTHAN:
+        case OPS.OP_LESSTHANOREQUAL:
+        case OPS.OP_GREATERTHANOREQUAL:
+        case OPS.OP_MIN:
+        case OPS.OP_MAX: {
+          need(2);
+          const a = toNumber(top(-2), minimal);
+          const b = toNumber(top(-1), minimal);
+          const results: { [opcode: number]: number | boolean } = {
+            [OPS.OP_ADD]: a + b,
+            [OPS.OP_SUB]: a - b,
+            [OPS.OP_BOOLAND]: a !== 0 && b !== 0,
+            [OPS.OP_BOOLOR]: a !== 0 || b !== 0,
+            [OPS.OP_NUMEQUAL]: a === b,
+            [OPS.OP_NUMEQUALVERIFY]: a === b,
+            [OPS.OP_NUMNOTEQUAL]: a !== b,
+            [OPS.OP_LESSTHAN]: a < b,
+            [OPS.OP_GREATERTHAN]: a > b,
+            [OPS.OP_LESSTHANOREQUAL]: a <= b,
+            [OPS.OP_GREATERTHANOREQUAL]: a >= b,
+            [OPS.OP_MIN]: Math.min(a, b),
+            [OPS.OP_MAX]: Math.max(a, b),
+          };
+          const result = results[opcode];
+          stack.length -= 2;
+          pushNumber(Number(result));
+          if (opcode === OPS.OP_NUMEQUALVERIFY) {
+            if (!result) fail('NUMEQUALVERIFY');
+            stack.pop();
+          }
+          break;
+        }
+
+        case OPS.OP_WITHIN: {
+          need(3);
+          const x = toNumber(top(-3), minimal);
+          const min = toNumber(top(-2), minimal);
+          const max = toNumber(top(-1), minimal);
+          stack.length -= 3;
+          pushBool(min <= x && x < max);
+          break;
+        }
+
+        case OPS.OP_RIPEMD160:
+        case OPS.OP_SHA1:
+        case OPS.OP_SHA256:
+        case OPS.OP_HASH160:
+        case OPS.OP_HASH256: {
+          need(1);
+          const hash = {
+            [OPS.OP_RIPEMD160]: bcrypto.ripemd160,
+            [OPS.OP_SHA1]: bcrypto.sha1,
+            [OPS.OP_SHA256]: bcrypto.sha256,
+            [OPS.OP_HASH160]: bcrypto.hash160,
+            [OPS.OP_HASH256]: bcrypto.hash256,
+          }[opcode]!;
+          stack.push(hash(stack.pop()!));
+          break;
+        }
+
+        case OPS.OP_CODESEPARATOR:
+          // signatures commit to the script after the last executed separator
+          codeHashBegin = pc;
+          execData.codeSeparatorPos = opcodePos;
+          break;
+
+        case OPS.OP_CHECKSIG:
+        case OPS.OP_CHECKSIGVERIFY: {
+          need(2);
+          const signature = top(-2);
+          const pubkey = top(-1);
+          const success = isTapscript
+            ? evalChecksigTapscript(signature, pubkey, flags, checker, execData)
+            : evalChecksigPreTapscript(
+                signature,
+                pubkey,
+                script.subarray(codeHashBegin),
+                flags,
+                checker,
+                sigVersion,
+              );
+          stack.length -= 2;
+          pushBool(success);
+          if (opcode === OPS.OP_CHECKSIGVERIFY) {
+            if (!success) fail('CHECKSIGVERIFY');
+            stack.pop();
+          }
+          break;
+        }
+
+        case OPS.OP_CHECKSIGADD: {
+          if (!isTapscript) fail('BAD_OPCODE');
+          need(3);
+          const signature = top(-3);
+          const n = toNumber(top(-2), minimal);
+          const pubkey = top(-1);
+          const success = evalChecksigTapscript(
+            signature,
+            pubkey,
+            flags,
+            checker,
+            execData,
+          );
+          stack.length -= 3;
+          pushNumber(n + (success ? 1 : 0));
+          break;
+        }
+
+        case OPS.OP_CHECKMULTISIG:
+        case OPS.OP_CHECKMULTISIGVERIFY: {
+          if (isTapscript) fail('TAPSCRIPT_CHECKMULTISIG');
+
+          let i = 1;
+          need(i);
+          let keysCount = toNumber(top(-i), minimal);
+          if (keysCount < 0 || keysCount > MAX_PUBKEYS_PER_MULTISIG)
+            fail('PUBKEY_COUNT');
+          opCount += keysCount;
+          if (opCount > MAX_OPS_PER_SCRIPT) fail('OP_COUNT');
+          let ikey = ++i;
+          // keys to be checked against NULLFAIL, plus the count
+          let ikey2 = keysCount + 2;
+          i += keysCount;
+          need(i);
+
+          let sigsCount = toNumber(top(-i), minimal);
+          if (sigsCount < 0 || sigsCount > keysCount) fail('SIG_COUNT');
+          let isig = ++i;
+          i += sigsCount;
+          need(i);
+
+          let scriptCode = script.subarray(codeHashBegin);
+          if (sigVersion === 'base') {
+            for (let k = 0; k < sigsCount; k++) {
+              const deleted = findAndDelete(
+                scriptCode,
+                serializePush(top(-isig - k)),
+              );
+              if (deleted.found > 0 && flags & FLAGS.CONST_SCRIPTCODE)
+                fail('SIG_FINDANDDELETE');
+              scriptCode = deleted.script;
+            }
+          }
+
+          let success = true;
+          while (success && sigsCount > 0) {
+            const signature = top(-isig);
+            const pubkey = top(-ikey);
+            checkSignatureEncoding(signature, flags);
+            checkPubKeyEncoding(pubkey, flags, sigVersion);
+            if (
+              checker.checkECDSASignature(
+                signature,
+                pubkey,
+                scriptCode,
+                sigVersion,
+              )
+            ) {
+              isig++;
+              sigsCount--;
+            }
+            ikey++;
+            keysCount--;
+            // more signatures left than keys means failure
+            if (sigsCount > keysCount) success = false;
+          }
+
+          while (i-- > 1) {
+            if (!success && flags & FLAGS.NULLFAIL && !ikey2 && top(-1).length)
+              fail('NULLFAIL');
+            if (ikey2 > 0) ikey2--;
+            stack.pop();
+          }
+
+          // the extra element consumed by an off-by-one bug
+          need(1);
+          if (flags & FLAGS.NULLDUMMY && top(-1).length) fail('SIG_NULLDUMMY');
+          stack.pop();
+
+          pushBool(success);
+          if (opcode === OPS.OP_CHECKMULTISIGVERIFY) {
+            if (!success) fail('CHECKMULTISIGVERIFY');
+            stack.pop();
+          }
+          break;
+        }
+
+        default:
+          fail('BAD_OPCODE');
+      }
+    }
+
+    if (stack.length + altstack.length > MAX_STACK_SIZE) fail('STACK_SIZE');
+    if (tracer) {
+      tracer.steps.push(tracer.pending!());
+      tracer.pending = undefined;
+    }
+  }
+
+  if (vfExec.length !== 0) fail('UNBALANCED_CONDITIONAL');
+}
+
+function executeWitnessScript(
+  stack: Uint8Array[],
+  script: Uint8Array,
+  flags: number,
+  checker: SignatureChecker,
+  sigVersion: SigVersion,
+  execData: ExecutionData,
+  tracer?: Tracer,
+): void {
+  if (sigVersion === 'tapscript') {
+    // OP_SUCCESSx make the script succeed before anything else is checked
+    for (let pc = 0; pc < script.length; ) {
+      const op = readOp(script, pc);
+      if (op === null) fail('BAD_OPCODE');
+      if (isOpSuccess(op.opcode)) {
+        if (flags & FLAGS.DISCOURAGE_OP_SUCCESS) fail('DISCOURAGE_OP_SUCCESS');
+        return;
+      }
+      pc = op.next;
+    }
+    if (stack.length > MAX_STACK_SIZE) fail('STACK_SIZE');
+  }
+
+  if (stack.some(item => item.length > MAX_SCRIPT_ELEMENT_SIZE))
+    fail('PUSH_SIZE');
+
+  if (tracer)
+    tracer.script = sigVersion === 'tapscript' ? 'tapscript' : 'witnessScript';
+  evalScript(stack, script, flags, checker, sigVersion, execData, tracer);
+
+  // witness scripts implicitly require a clean stack
+  if (stack.length !== 1) fail('CLEANSTACK');
+  if (!castToBool(stack[0])) fail('EVAL_FALSE');
+}
+
+function witnessSize(witness: Uint8Array[]): number {
+  return witness.reduce(
+    (size, item) => size + varuint.encodingLength(item.length) + item.length,
+    varuint.encodingLength(witness.length),
+  );
+}
+
+function tapleafHash(leafVersion: number, script: Uint8Array): Uint8Array {
+  return bcrypto.taggedHash(
+    'TapLeaf',
+    tools.concat([
+      Uint8Array.of(leafVersion),
+      varuint.encode(script.length).buffer,
+      script,
+    ]),
+  );
+}
+
+function verifyTaprootCommitment(
+  control: Uint8Array,
+  program: Uint8Array,
+  leafHash: Uint8Array,
+): boolean {
+  let k = leafHash;
+  for (let i = TAPROOT_CONTROL_BASE_SIZE; i < control.length; i += 32) {
+    const node = control.subarray(i, i + TAPROOT_CONTROL_NODE_SIZE);
+    k = bcrypto.taggedHash(
+      'TapBranch',
+      tools.compare(k, node) < 0
+        ? tools.concat([k, node])
+        : tools.concat([node, k]),
+    );
+  }
+  let tweaked;
+  try {
+    tweaked = tweakKey(control.slice(1, TAPROOT_CONTROL_BASE_SIZE), k);
+  } catch (e) {
+    return false;
+  }
+  return (
+    tweaked !== null &&
+    tools.compare(tweaked.x, program) === 0 &&
+    tweaked.parity === (control[0] & 1)
+  );
+}
+
+function verifyWitnessProgram(
+  witness: Uint8Array[],
+  version: number,
+  program: Uint8Array,
+  flags: number,
+  checker: SignatureChecker,
+  isP2SH: boolean,
+  tracer?: Tracer,
+): void {
+  const stack = witness.slice();
+  const execData: ExecutionData = { codeSeparatorPos: 0xffffffff };
+
+  if (version === 0) {
+    if (program.length === 32) {
+      if (stack.length === 0) fail('WITNESS_PROGRAM_WITNESS_EMPTY');
+      const script = stack.pop()!;
+      if (tools.compare(bcrypto.sha256(script), program) !== 0)
+        fail('WITNESS_PROGRAM_MISMATCH');
+      executeWitnessScript(
+        stack,
+        script,
+        flags,
+        checker,
+        'witness_v0',
+        execData,
+        tracer,
+      );
+    } else if (program.length === 20) {
+      if (stack.length !== 2) fail('WITNESS_PROGRAM_MISMATCH');
+      const script = tools.concat([
+        Uint8Array.of(OPS.OP_DUP, OPS.OP_HASH160, 0x14),
+        program,
+        Uint8Array.of(OPS.OP_EQUALVERIFY, OPS.OP_CHECKSIG),
+      ]);
+      executeWitnessScript(
+        stack,
+        script,
+        flags,
+        checker,
+        'witness_v0',
+        execData,
+        tracer,
+      );
+    } else {
+      fail('WITNESS_PROGRAM_WRONG_LENGTH');
+    }
+  } else if (version === 1 && program.length === 32 && !isP2SH) {
+    if (!(flags & FLAGS.TAPROOT)) return;
+    if (stack.length === 0) fail('WITNESS_PROGRAM_WITNESS_EMPTY');
+    const last = stack[stack.length - 1];
+    if (stack.length >= 2 && last.length > 0 && last[0] === ANNEX_TAG)
+      execData.annex = stack.pop();
+
+    if (stack.length === 1) {
+      // key path spend
+      evalSchnorrSignature(stack[0], program, checker, 'taproot', execData);
+      return;
+    }
+
+    // script path spend
+    const control = stack.pop()!;
+    const script = stack.pop()!;
+    if (
+      control.length < TAPROOT_CONTROL_BASE_SIZE ||
+      control.length >
+        TAPROOT_CONTROL_BASE_SIZE +
+          TAPROOT_CONTROL_NODE_SIZE * TAPROOT_CONTROL_MAX_NODE_COUNT ||
+      (control.length - TAPROOT_CONTROL_BASE_SIZE) %
+        TAPROOT_CONTROL_NODE_SIZE !==
+        0
+    )
+      fail('TAPROOT_WRONG_CONTROL_SIZE');
+    const leafVersion = control[0] & TAPROOT_LEAF_MASK;
+    execData.tapleafHash = tapleafHash(leafVersion, script);
+    if (!verifyTaprootCommitment(control, program, execData.tapleafHash))
+      fail('WITNESS_PROGRAM_MISMATCH');
+    if (leafVersion === TAPROOT_LEAF_TAPSCRIPT) {
+      execData.validationWeightLeft =
+        witnessSize(witness) + VALIDATION_WEIGHT_OFFSET;
+      executeWitnessScript(
+        stack,
+        script,
+        flags,
+        checker,
+        'tapscript',
+        execData,
+        tracer,
+      );
+    } else if (flags & FLAGS.DISCOURAGE_UPGRADABLE_TAPROOT_VERSION) {
+      fail('DISCOURAGE_UPGRADABLE_TAPROOT_VERSION');
+    }
+  } else if (flags & FLAGS.DISCOURAGE_UPGRADABLE_WITNESS_PROGRAM) {
+    fail('DISCOURAGE_UPGRADABLE_WITNESS_PROGRAM');
+  }
+  // other witness versions and lengths are anyone-can-spend
+}
+
+function verify(
+  scriptSig: Uint8Array,
+  scriptPubKey: Uint8Array,
+  witness: Uint8Array[],
+  flags: number,
+  checker: SignatureChecker,
+  tracer?: Tracer,
+): void {
+  const execData: ExecutionData = { codeSeparatorPos: 0xffffffff };
+  if (flags & FLAGS.SIGPUSHONLY && !isPushOnly(scriptSig)) fail('SIG_PUSHONLY');
+
+  let stack: Uint8Array[] = [];
+  if (tracer) tracer.script = 'scriptSig';
+  evalScript(stack, scriptSig, flags, checker, 'base', execData, tracer);
+  const stackCopy = flags & FLAGS.P2SH ? stack.slice() : [];
+  if (tracer) tracer.script = 'scriptPubKey';
+  evalScript(stack, scriptPubKey, flags, checker, 'base', execData, tracer);
+  if (stack.length === 0 || !castToBool(stack[stack.length - 1]))
+    fail('EVAL_FALSE');
+
+  let hadWitness = false;
+  const witnessProgram = decodeWitnessProgram(scriptPubKey);
+  if (flags & FLAGS.WITNESS && witnessProgram) {
+    hadWitness = true;
+    // native witness programs must have an empty scriptSig
+    if (scriptSig.length !== 0) fail('WITNESS_MALLEATED');
+    verifyWitnessProgram(
+      witness,
+      witnessProgram.version,
+      witnessProgram.program,
+      flags,
+      checker,
+      false,
+      tracer,
+    );
+    stack = stack.slice(0, 1);
+  }
+
+  if (flags & FLAGS.P2SH && isPayToScriptHash(scriptPubKey)) {
+    if (!isPushOnly(scriptSig)) fail('SIG_PUSHONLY');
+    stack = stackCopy;
+    const redeemScript = stack.pop()!;
+    if (tracer) tracer.script = 'redeemScript';
+    evalScript(stack, redeemScript, flags, checker, 'base', execData, tracer);
+    if (stack.length === 0 || !castToBool(stack[stack.length - 1]))
+      fail('EVAL_FALSE');
+
+    const nestedProgram = decodeWitnessProgram(redeemScript);
+    if (flags & FLAGS.WITNESS && nestedProgram) {
+      hadWitness = true;
+      // the scriptSig must be exactly a push of the redeem script
+      if (tools.compare(scriptSig, serializePush(redeemScript)) !== 0)
+        fail('WITNESS_MALLEATED_P2SH');
+      verifyWitnessProgram(
+        witness,
+        nestedProgram.version,
+        nestedProgram.program,
+        flags,
+        checker,
+        true,
+        tracer,
+      );
+      stack = stack.slice(0, 1);
+    }
+  }
+
+  if (flags & FLAGS.CLEANSTACK && stack.length !== 1) fail('CLEANSTACK');
+  if (flags & FLAGS.WITNESS && !hadWitness && witness.length > 0)
+    fail('WITNESS_UNEXPECTED');
+}
+
+/**
+ * Verifies that a scriptSig and witness satisfy a scriptPubKey.
+ *
+ * @param scriptSig - The input script
+ * @param scriptPubKey - The output script being spent
+ * @param witness - The input witness
+ * @param flags - Verification flags, combined from {@link FLAGS}
+ * @param checker - Checks signatures and timelocks against the transaction
+ * @returns Whether the scripts succeed, and why not
+ * @throws {Error} If the ECC library can not verify signatures
+ */
+export function verifyScript(
+  scriptSig: Uint8Array,
+  scriptPubKey: Uint8Array,
+  witness: Uint8Array[],
+  flags: number,
+  checker: SignatureChecker,
+): ScriptResult {
+  try {
+    verify(scriptSig, scriptPubKey, witness, flags, checker);
+  } catch (e) {
+    if (e instanceof ScriptFailure) return { success: false, error: e.code };
+    throw e;
+  }
+  return { success: true };
+}
+
+/**
+ * Verifies an input of a transaction against the output it spends.
+ *
+ * @param tx - The spending transaction
+ * @param inIndex - The input to verify
+ * @param prevOutputs - The outputs spent by every input of the transaction
+ * @param flags - Verification flags, defaults to {@link STANDARD_FLAGS}
+ * @returns Whether the input is valid, and why not
+ * @throws {Error} If the ECC library can not verify signatures
+ *
+ * @example
+ * ```typescript
+ * initEccLib(ecc);
+ * const { success, error } = interpreter.verifyInput(tx, 0, [
+ *   { script: prevOutScript, value: 10000n },
+ * ]);
+ * ```
+ */
+export function verifyInput(
+  tx: Transaction,
+  inIndex: number,
+  prevOutputs: PrevOutput[],
+  flags: number = STANDARD_FLAGS,
+): ScriptResult {
+  const input = checkInput(tx, inIndex, prevOutputs);
+  return verifyScript(
+    input.script,
+    prevOutputs[inIndex].script,
+    input.witness,
+    flags,
+    new TransactionSignatureChecker(tx, inIndex, prevOutputs),
+  );
+}
+
+/**
+ * Verifies that a scriptSig and witness satisfy a scriptPubKey like
+ * {@link verifyScript}, recording every opcode that is executed.
+ *
+ * @param scriptSig - The input script
+ * @param scriptPubKey - The output script being spent
+ * @param witness - The input witness
+ * @param flags - Verification flags, combined from {@link FLAGS}
+ * @param checker - Checks signatures and timelocks against the transaction
+ * @returns The result of {@link verifyScript}, with the executed steps
+ * @throws {Error} If the ECC library can not verify signatures
+ */
+export function traceScript(
+  scriptSig: Uint8Array,
+  scriptPubKey: Uint8Array,
+  witness: Uint8Array[],
+  flags: number,
+  checker: SignatureChecker,
+): ScriptTrace {
+  const tracer: Tracer = { steps: [], script: 'scriptSig' };
+  try {
+    verify(scriptSig, scriptPubKey, witness, flags, checker, tracer);
+  } catch (e) {
+    if (!(e instanceof ScriptFailure)) throw e;
+    const trace: ScriptTrace = {
+      success: false,
+      error: e.code,
+      steps: tracer.steps,
+    };
+    if (tracer.pending) {
+      trace.failedStep = tracer.pending(e.code);
+      trace.steps.push(trace.failedStep);
+    }
+    return trace;
+  }
+  return { success: true, steps: tracer.steps };
+}
+
+/**
+ * Verifies an input of a transaction like {@link verifyInput}, recording
+ * every opcode that is executed.
+ *
+ * @param tx - The spending transaction
+ * @param inIndex - The input to trace
+ * @param prevOutputs - The outputs spent by every input of the transaction
+ * @param flags - Verification flags, defaults to {@link STANDARD_FLAGS}
+ * @returns The result of {@link verifyInput}, with the executed steps
+ * @throws {Error} If the ECC library can not verify signatures
+ *
+ * @example
+ * ```typescript
+ * const trace = interpreter.traceInput(tx, 0, prevOutputs);
+ * if (!trace.success) console.log(interpreter.formatTrace(trace));
+ * ```
+ */
+export function traceInput(
+  tx: Transaction,
+  inIndex: number,
+  prevOutputs: PrevOutput[],
+  flags: number = STANDARD_FLAGS,
+): ScriptTrace {
+  const input = checkInput(tx, inIndex, prevOutputs);
+  return traceScript(
+    input.script,
+    prevOutputs[inIndex].script,
+    input.witness,
+    flags,
+    new TransactionSignatureChecker(tx, inIndex, prevOutputs),
+  );
+}
+
+/**
+ * Renders a trace as a human readable execution log, with one line per
+ * opcode followed by the stacks it left.
+ *
+ * @param trace - A trace from {@link traceScript} or {@link traceInput}
+ * @returns The execution log
+ */
+export function formatTrace(trace: ScriptTrace): string {
+  const lines: string[] = [];
+  const formatStack = (stack: Uint8Array[]): string =>
+    stack.map(item => ' ' + (item.length ? tools.toHex(item) : '<>')).join('');
+
+  let script: TracedScript | undefined;
+  trace.steps.forEach(step => {
+    if (step.script !== script) {
+      script = step.script;
+      lines.push(`${script} (${step.sigVersion}):`);
+    }
+    lines.push(
+      `  ${step.opcodePos}: ${step.asm}` +
+        (step.executed ? '' : ' (not executed)'),
+    );
+    lines.push(`      stack:${formatStack(step.stack)}`);
+    if (step.altstack.length)
+      lines.push(`      altstack:${formatStack(step.altstack)}`);
+    if (step.branches.length)
+      lines.push(`      branches: ${step.branches.join(' ')}`);
+    if (step.error) lines.push(`      error: ${step.error}`);
+  });
+  lines.push(trace.success ? 'success' : `failed: ${trace.error}`);
+  return lines.join('\n');
+}
+
+function checkInput(
+  tx: Transaction,
+  inIndex: number,
+  prevOutputs: PrevOutput[],
+): Input {
+  const input = tx.ins[inIndex];
+  if (!input) throw new Error('No input #' + inIndex);
+  if (!prevOutputs[inIndex])
+    throw new Error('Missing previous output for input #' + inIndex);
+  return input;
+}
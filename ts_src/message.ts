@@ -0,0 +1,244 @@
+/**
+ * Signed messages: compact recoverable ECDSA signatures over a message
+ * prefixed with the network's `messagePrefix`, as produced by
+ * `signmessage` / `verifymessage` in Bitcoin Core and PIVX Core.
+ *
+ * Signatures are 65 bytes: a BIP137 header byte followed by r and s. The
+ * header encodes the recovery id, whether the public key is compressed and
+ * which address type the key was signed for:
+ * - 27-30: P2PKH, uncompressed public key
+ * - 31-34: P2PKH, compressed public key
+ * - 35-38: P2SH-P2WPKH
+ * - 39-42: P2WPKH
+ *
+ * Requires an ECC library with `signRecoverable` and `recover` (such as
+ * tiny-secp256k1) to be registered with {@link initEccLib}.
+ *
+ * @packageDocumentation
+ */
+import { fromBase58Check, fromBech32 } from './address.js';
+import { varuint } from './bufferutils.js';
+import * as bcrypto from './crypto.js';
+import { getEccLib } from './ecc_lib.js';
+import { Network } from './networks.js';
+import * as networks from './networks.js';
+import * as payments from './payments/index.js';
+import { parsePivxBase58Address } from './pivx/address.js';
+import { isPivxNetwork } from './pivx/network.js';
+import {
+  Buffer256bitSchema,
+  BufferSchema,
+  RecoverableSecp256k1Interface,
+  RecoveryIdType,
+} from './types.js';
+import * as tools from 'uint8array-tools';
+import * as v from 'valibot';
+
+/** The address type a message signature was made for. */
+export type MessageSignatureType = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh';
+
+export interface SignMessageOptions {
+  /** Network whose message prefix is used, defaults to bitcoin */
+  network?: Network;
+  /** Address type to sign for, defaults to 'p2pkh' */
+  type?: MessageSignatureType;
+  /** Whether the public key is compressed (P2PKH only), defaults to true */
+  compressed?: boolean;
+  /** Extra entropy passed to the ECC library's nonce generation */
+  extraEntropy?: Uint8Array;
+}
+
+export interface VerifyMessageOptions {
+  /** Network of the address and message prefix, defaults to bitcoin */
+  network?: Network;
+  /**
+   * Also accept P2PKH headers for segwit addresses, as produced by wallets
+   * that do not implement BIP137 (e.g. Electrum).
+   */
+  checkSegwitAlways?: boolean;
+}
+
+const HEADER_OFFSETS: { [key in MessageSignatureType]: number } = {
+  p2pkh: 27,
+  'p2sh-p2wpkh': 35,
+  p2wpkh: 39,
+};
+
+interface DecodedSignature {
+  type: MessageSignatureType;
+  compressed: boolean;
+  recoveryId: RecoveryIdType;
+  signature: Uint8Array;
+}
+
+function getRecoverableEccLib(): RecoverableSecp256k1Interface {
+  const ecc = getEccLib() as RecoverableSecp256k1Interface;
+  if (
+    typeof ecc.signRecoverable !== 'function' ||
+    typeof ecc.recover !== 'function'
+  )
+    throw new Error(
+      'ECC library does not support recoverable signatures (signRecoverable, recover)',
+    );
+  return ecc;
+}
+
+function decodeSignature(buffer: Uint8Array): DecodedSignature {
+  if (buffer.length !== 65) throw new Error('Invalid signature length');
+
+  const flag = buffer[0] - 27;
+  if (flag < 0 || flag > 15) throw new Error('Invalid signature parameter');
+
+  const type = flag < 8 ? 'p2pkh' : flag < 12 ? 'p2sh-p2wpkh' : 'p2wpkh';
+  return {
+    type,
+    compressed: type !== 'p2pkh' || flag >= 4,
+    recoveryId: (flag & 3) as RecoveryIdType,
+    signature: buffer.slice(1),
+  };
+}
+
+/**
+ * Decodes an address into the hash a message signature is checked against.
+ * PIVX staking and exchange addresses commit to a public key hash just like
+ * regular P2PKH addresses, while PIVX P2SH addresses, without segwit, can not
+ * sign messages.
+ */
+function decodeAddress(
+  address: string,
+  network: Network,
+): { type: MessageSignatureType; hash: Uint8Array } {
+  if (isPivxNetwork(network)) {
+    const { type, hash } = parsePivxBase58Address(address, network);
+    if (type === 'p2sh')
+      throw new Error(address + ' can not be used with signed messages');
+    return { type: 'p2pkh', hash };
+  }
+
+  try {
+    const { version, hash } = fromBase58Check(address);
+    if (version === network.pubKeyHash) return { type: 'p2pkh', hash };
+    if (version === network.scriptHash) return { type: 'p2sh-p2wpkh', hash };
+  } catch (e) {}
+
+  try {
+    const { version, prefix, data } = fromBech32(address);
+    if (prefix === network.bech32 && version === 0 && data.length === 20)
+      return { type: 'p2wpkh', hash: data };
+  } catch (e) {}
+
+  throw new Error(address + ' can not be used with signed messages');
+}
+
+/**
+ * Computes the hash that is signed for a message: the double SHA-256 of the
+ * network's message prefix followed by the length-prefixed message.
+ *
+ * @param message - The message, UTF-8 encoded if it is a string
+ * @param network - The network whose message prefix is used, defaults to bitcoin
+ * @returns The 32 byte message hash
+ */
+export function magicHash(
+  message: string | Uint8Array,
+  network: Network = networks.bitcoin,
+): Uint8Array {
+  const prefix = tools.fromUtf8(network.messagePrefix);
+  const data = typeof message === 'string' ? tools.fromUtf8(message) : message;
+  return bcrypto.hash256(
+    tools.concat([prefix, varuint.encode(data.length).buffer, data]),
+  );
+}
+
+/**
+ * Signs a message with a private key.
+ *
+ * @param message - The message, UTF-8 encoded if it is a string
+ * @param privateKey - The 32 byte private key
+ * @param opts - Network, address type and key compression
+ * @returns The 65 byte signature (use base64 for the usual text form)
+ * @throws {Error} If the ECC library can not create recoverable signatures
+ * @throws {TypeError} If a segwit signature is requested for an uncompressed
+ * key, or on a PIVX network
+ *
+ * @example
+ * ```typescript
+ * initEccLib(ecc);
+ * const signature = message.sign('hello', keyPair.privateKey, {
+ *   network: pivx,
+ * });
+ * message.verify('hello', address, signature, { network: pivx }); // true
+ * ```
+ */
+export function sign(
+  message: string | Uint8Array,
+  privateKey: Uint8Array,
+  opts: SignMessageOptions = {},
+): Uint8Array {
+  v.parse(Buffer256bitSchema, privateKey);
+  const type = opts.type || 'p2pkh';
+  const compressed = opts.compressed !== false;
+  if (!compressed && type !== 'p2pkh')
+    throw new TypeError('Segwit signatures require a compressed public key');
+  if (isPivxNetwork(opts.network) && type !== 'p2pkh')
+    throw new TypeError('PIVX networks have no segwit signatures');
+
+  const { signature, recoveryId } = getRecoverableEccLib().signRecoverable(
+    magicHash(message, opts.network),
+    privateKey,
+    opts.extraEntropy,
+  );
+  const header =
+    HEADER_OFFSETS[type] +
+    recoveryId +
+    (type === 'p2pkh' && compressed ? 4 : 0);
+  return tools.concat([Uint8Array.of(header), signature]);
+}
+
+/**
+ * Verifies that a message was signed by the key behind an address.
+ *
+ * On PIVX networks regular, staking and exchange addresses are accepted,
+ * but not P2SH addresses.
+ *
+ * @param message - The message, UTF-8 encoded if it is a string
+ * @param address - The address of the signer
+ * @param signature - The 65 byte signature, or its base64 encoding
+ * @param opts - Network and compatibility options
+ * @returns true if the signature is valid for the address
+ * @throws {Error} If the signature is malformed or the address can not sign
+ * messages on the network
+ */
+export function verify(
+  message: string | Uint8Array,
+  address: string,
+  signature: Uint8Array | string,
+  opts: VerifyMessageOptions = {},
+): boolean {
+  const network = opts.network || networks.bitcoin;
+  const decoded = decodeSignature(
+    typeof signature === 'string'
+      ? tools.fromBase64(signature)
+      : v.parse(BufferSchema, signature),
+  );
+  const expected = decodeAddress(address, network);
+
+  if (
+    decoded.type !== expected.type &&
+    !(opts.checkSegwitAlways && decoded.type === 'p2pkh' && decoded.compressed)
+  )
+    return false;
+
+  const pubkey = getRecoverableEccLib().recover(
+    magicHash(message, network),
+    decoded.signature,
+    decoded.recoveryId,
+    decoded.compressed,
+  );
+  if (!pubkey) return false;
+
+  const hash =
+    expected.type === 'p2sh-p2wpkh'
+      ? payments.p2sh({ redeem: payments.p2wpkh({ pubkey }) }).hash!
+      : bcrypto.hash160(pubkey);
+  return tools.compare(hash, expected.hash) === 0;
+}
@@ -0,0 +1,1365 @@
+/**
+ * Miniscript (https://bitcoin.sipa.be/miniscript/) for segwit v0 and
+ * tapscript.
+ *
+ * Parses expressions such as `or_d(pk(A),and_v(v:pk(B),older(144)))`, type
+ * checks them, compiles them to a witness or leaf script and analyzes their
+ * malleability and satisfaction size. The satisfier builds the witness from
+ * signatures, preimages and timelocks, preferring the smallest non-malleable
+ * solution like Bitcoin Core, and {@link finalizer} plugs it into
+ * `Psbt.finalizeInput`.
+ *
+ * Keys are hex public keys, or names resolved with the `keys` option.
+ *
+ * @packageDocumentation
+ */
+import { PsbtInput, TapLeafScript } from 'bip174';
+import * as bcrypto from './crypto.js';
+import { LEAF_VERSION_TAPSCRIPT, tapleafHash } from './payments/bip341.js';
+import { isTaprootInput, toXOnly } from './psbt/bip371.js';
+import { witnessStackToScriptWitness } from './psbt/psbtutils.js';
+import * as bscript from './script.js';
+import * as scriptNumber from './script_number.js';
+import { isPoint } from './types.js';
+import * as tools from 'uint8array-tools';
+
+const OPS = bscript.OPS;
+
+/** The script context: p2wsh witness scripts or tapscript leaves. */
+export type MiniscriptContext = 'wsh' | 'tapscript';
+
+export type MiniscriptFragment =
+  | '0'
+  | '1'
+  | 'pk_k'
+  | 'pk_h'
+  | 'older'
+  | 'after'
+  | 'sha256'
+  | 'hash256'
+  | 'ripemd160'
+  | 'hash160'
+  | 'andor'
+  | 'and_v'
+  | 'and_b'
+  | 'or_b'
+  | 'or_c'
+  | 'or_d'
+  | 'or_i'
+  | 'thresh'
+  | 'multi'
+  | 'multi_a'
+  | 'a'
+  | 's'
+  | 'c'
+  | 'd'
+  | 'v'
+  | 'j'
+  | 'n';
+
+/**
+ * A parsed miniscript fragment. Aliases are expanded: `pk(K)` is `c:pk_k(K)`,
+ * `t:X` is `and_v(X,1)`, `l:X` is `or_i(0,X)` and `and_n(X,Y)` is
+ * `andor(X,Y,0)`.
+ */
+export interface MiniscriptNode {
+  fragment: MiniscriptFragment;
+  /** Sub-expressions of combinators and wrappers */
+  subs: MiniscriptNode[];
+  /** Keys of `pk_k`, `pk_h`, `multi` and `multi_a`, x-only in tapscript */
+  keys: Uint8Array[];
+  /** Threshold of `thresh`, `multi` and `multi_a`, or timelock value */
+  k: number;
+  /** Hash of the hash fragments */
+  hash?: Uint8Array;
+  /** Type and properties, such as `Bondu` */
+  type: string;
+}
+
+export interface MiniscriptAnalysis {
+  /** Whether third parties can not change a satisfaction (`m`) */
+  nonMalleable: boolean;
+  /** Whether every satisfaction requires a signature (`s`) */
+  needsSignature: boolean;
+  /** Whether some satisfaction requires both height and time timelocks */
+  timelockMix: boolean;
+  /** Whether a key is used more than once */
+  duplicateKeys: boolean;
+  /** Whether the script is within the standardness limits of its context */
+  withinLimits: boolean;
+  /**
+   * Whether the miniscript is safe to use: non-malleable, needing a
+   * signature, without timelock mix or duplicate keys and within limits
+   */
+  sane: boolean;
+  scriptSize: number;
+  /** Upper bound of the non-push opcodes executed, at most 201 in wsh */
+  ops: number;
+  /** Number of witness items of the largest satisfaction, without the script */
+  maxWitnessItems: number;
+  /**
+   * Serialized size of the witness items of the largest satisfaction, each
+   * with its length prefix, without the script or the item count
+   */
+  maxWitnessSize: number;
+}
+
+export interface Miniscript {
+  expression: string;
+  context: MiniscriptContext;
+  node: MiniscriptNode;
+  /** The witness script or tapscript leaf */
+  script: Uint8Array;
+  analysis: MiniscriptAnalysis;
+}
+
+export interface MiniscriptOpts {
+  /** Defaults to wsh */
+  context?: MiniscriptContext;
+  /** Public keys by the names used in the expression */
+  keys?: Record<string, Uint8Array>;
+}
+
+/** What the satisfier can use to satisfy a miniscript. */
+export interface MiniscriptSatisfier {
+  /** Signatures with their sighash byte, by public key */
+  signatures?: Array<{ pubkey: Uint8Array; signature: Uint8Array }>;
+  /** Preimages of the hash fragments */
+  preimages?: Uint8Array[];
+  /** nSequence of the input, required to satisfy `older` */
+  sequence?: number;
+  /** nLockTime of the transaction, required to satisfy `after` */
+  locktime?: number;
+}
+
+export interface MiniscriptFinalizerOpts {
+  /** Public keys by the names used in the expression */
+  keys?: Record<string, Uint8Array>;
+  /** Preimages of the hash fragments */
+  preimages?: Uint8Array[];
+  /** nSequence of the input, required to satisfy `older` */
+  sequence?: number;
+  /** nLockTime of the transaction, required to satisfy `after` */
+  locktime?: number;
+}
+
+// Type system: the basic types B, V, K and W followed by their properties,
+// as bits of a number.
+const PROPERTIES = 'BVKWzonduefsmxghijk';
+
+const typeBits = new Map<string, number>();
+
+function t(properties: string): number {
+  let type = typeBits.get(properties);
+  if (type === undefined) {
+    type = 0;
+    for (const p of properties) type |= 1 << PROPERTIES.indexOf(p);
+    typeBits.set(properties, type);
+  }
+  return type;
+}
+
+/** Whether `type` has all of `properties`. */
+function has(type: number, properties: string): boolean {
+  const mask = t(properties);
+  return (type & mask) === mask;
+}
+
+function when(condition: boolean, type: number): number {
+  return condition ? type : 0;
+}
+
+function formatType(type: number): string {
+  let properties = '';
+  for (let i = 0; i < PROPERTIES.length; ++i)
+    if (type & (1 << i)) properties += PROPERTIES[i];
+  return properties;
+}
+
+const BASE_TYPES = t('BVKW');
+const TIMELOCKS = t('ghij');
+const SEQUENCE_LOCKTIME_TYPE_FLAG = 1 << 22;
+const SEQUENCE_LOCKTIME_MASK = 0x0000ffff;
+const SEQUENCE_LOCKTIME_DISABLE_FLAG = 0x80000000;
+const LOCKTIME_THRESHOLD = 500000000;
+const MAX_PUBKEYS_PER_MULTISIG = 20;
+const MAX_PUBKEYS_PER_MULTI_A = 999;
+const MAX_STANDARD_P2WSH_SCRIPT_SIZE = 3600;
+const MAX_STANDARD_P2WSH_STACK_ITEMS = 100;
+const MAX_OPS_PER_SCRIPT = 201;
+const MAX_STACK_SIZE = 1000;
+
+/** Whether two types have conflicting (height and time) timelocks. */
+function timelockConflict(x: number, y: number): boolean {
+  return (
+    (has(x, 'g') && has(y, 'h')) ||
+    (has(x, 'h') && has(y, 'g')) ||
+    (has(x, 'i') && has(y, 'j')) ||
+    (has(x, 'j') && has(y, 'i'))
+  );
+}
+
+/**
+ * Computes the type of a fragment from the types of its sub-expressions,
+ * following Bitcoin Core's `ComputeType`. A type without a basic type is
+ * invalid.
+ */
+function computeType(
+  fragment: MiniscriptFragment,
+  subs: number[],
+  k: number,
+  ctx: MiniscriptContext,
+): number {
+  const [x, y, z] = subs;
+  const noMix = (types: number[]): number =>
+    when(
+      types.every(type => has(type, 'k')) &&
+        !timelockConflict(types[0], types[1]),
+      t('k'),
+    );
+  switch (fragment) {
+    case '0':
+      return t('Bzudemsxk');
+    case '1':
+      return t('Bzufmxk');
+    case 'pk_k':
+      return t('Konudemsxk');
+    case 'pk_h':
+      return t('Knudemsxk');
+    case 'older':
+      return t(k & SEQUENCE_LOCKTIME_TYPE_FLAG ? 'g' : 'h') | t('Bzfmxk');
+    case 'after':
+      return t(k >= LOCKTIME_THRESHOLD ? 'i' : 'j') | t('Bzfmxk');
+    case 'sha256':
+    case 'hash256':
+    case 'ripemd160':
+    case 'hash160':
+      return t('Bonudmk');
+    case 'multi':
+      return t('Bnudemsk');
+    case 'multi_a':
+      return t('Budemsk');
+    case 'a':
+      return (
+        when(has(x, 'B'), t('W')) |
+        (x & t('ghijk')) |
+        (x & t('udfems')) |
+        t('x')
+      );
+    case 's':
+      return when(has(x, 'Bo'), t('W')) | (x & t('ghijk')) | (x & t('udfemsx'));
+    case 'c':
+      return (
+        when(has(x, 'K'), t('B')) |
+        (x & t('ghijk')) |
+        (x & t('ondfem')) |
+        t('us')
+      );
+    case 'd':
+      return (
+        when(has(x, 'Vz'), t('B')) |
+        when(has(x, 'z'), t('o')) |
+        when(has(x, 'f'), t('e')) |
+        (x & t('ghijk')) |
+        (x & t('ms')) |
+        when(ctx === 'tapscript', t('u')) |
+        t('ndx')
+      );
+    case 'v':
+      return (
+        when(has(x, 'B'), t('V')) |
+        (x & t('ghijk')) |
+        (x & t('zonms')) |
+        t('fx')
+      );
+    case 'j':
+      return (
+        when(has(x, 'Bn'), t('B')) |
+        when(has(x, 'f'), t('e')) |
+        (x & t('ghijk')) |
+        (x & t('oums')) |
+        t('ndx')
+      );
+    case 'n':
+      return (x & t('ghijk')) | (x & t('Bzondfems')) | t('ux');
+    case 'and_v':
+      return (
+        when(has(x, 'V'), y & t('KVB')) |
+        (x & t('n')) |
+        when(has(x, 'z'), y & t('n')) |
+        when(has(x | y, 'z'), (x | y) & t('o')) |
+        (x & y & t('dmz')) |
+        ((x | y) & t('s')) |
+        when(has(y, 'f') || has(x, 's'), t('f')) |
+        (y & t('ux')) |
+        ((x | y) & TIMELOCKS) |
+        noMix([x, y])
+      );
+    case 'and_b':
+      return (
+        when(has(y, 'W'), x & t('B')) |
+        when(has(x | y, 'z'), (x | y) & t('o')) |
+        (x & t('n')) |
+        when(has(x, 'z'), y & t('n')) |
+        when(has(x & y, 's'), x & y & t('e')) |
+        (x & y & t('dzm')) |
+        when(has(x & y, 'f') || has(x, 'sf') || has(y, 'sf'), t('f')) |
+        ((x | y) & t('s')) |
+        t('ux') |
+        ((x | y) & TIMELOCKS) |
+        noMix([x, y])
+      );
+    case 'or_b':
+      return (
+        when(has(x, 'Bd') && has(y, 'Wd'), t('B')) |
+        when(has(x | y, 'z'), (x | y) & t('o')) |
+        when(has(x | y, 's') && has(x & y, 'e'), x & y & t('m')) |
+        (x & y & t('zse')) |
+        t('dux') |
+        ((x | y) & TIMELOCKS) |
+        (x & y & t('k'))
+      );
+    case 'or_d':
+      return (
+        when(has(x, 'Bdu'), y & t('B')) |
+        when(has(y, 'z'), x & t('o')) |
+        when(has(x, 'e') && has(x | y, 's'), x & y & t('m')) |
+        (x & y & t('zs')) |
+        (y & t('ufde')) |
+        t('x') |
+        ((x | y) & TIMELOCKS) |
+        (x & y & t('k'))
+      );
+    case 'or_c':
+      return (
+        when(has(x, 'Bdu'), y & t('V')) |
+        when(has(y, 'z'), x & t('o')) |
+        when(has(x, 'e') && has(x | y, 's'), x & y & t('m')) |
+        (x & y & t('zs')) |
+        t('fx') |
+        ((x | y) & TIMELOCKS) |
+        (x & y & t('k'))
+      );
+    case 'or_i':
+      return (
+        (x & y & t('VBKufs')) |
+        when(has(x & y, 'z'), t('o')) |
+        when(has(x | y, 'f'), (x | y) & t('e')) |
+        when(has(x | y, 's'), x & y & t('m')) |
+        ((x | y) & t('d')) |
+        t('x') |
+        ((x | y) & TIMELOCKS) |
+        (x & y & t('k'))
+      );
+    case 'andor':
+      return (
+        when(has(x, 'Bdu'), y & z & t('BKV')) |
+        (x & y & z & t('z')) |
+        when(has(x | (y & z), 'z'), (x | (y & z)) & t('o')) |
+        (y & z & t('u')) |
+        when(has(x, 's') || has(y, 'f'), z & t('f')) |
+        (z & t('d')) |
+        when(has(x, 's') || has(y, 'f'), z & t('e')) |
+        when(has(x, 'e') && has(x | y | z, 's'), x & y & z & t('m')) |
+        (z & (x | y) & t('s')) |
+        t('x') |
+        ((x | y | z) & TIMELOCKS) |
+        when(has(z, 'k'), noMix([x, y]))
+      );
+    case 'thresh': {
+      let allE = true;
+      let allM = true;
+      let args = 0;
+      let numS = 0;
+      let timelocks = t('k');
+      for (let i = 0; i < subs.length; ++i) {
+        const sub = subs[i];
+        if (!has(sub, i ? 'Wdu' : 'Bdu')) return 0;
+        if (!has(sub, 'e')) allE = false;
+        if (!has(sub, 'm')) allM = false;
+        if (has(sub, 's')) numS++;
+        args += has(sub, 'z') ? 0 : has(sub, 'o') ? 1 : 2;
+        timelocks =
+          ((timelocks | sub) & TIMELOCKS) |
+          when(
+            has(timelocks & sub, 'k') &&
+              (k <= 1 || !timelockConflict(timelocks, sub)),
+            t('k'),
+          );
+      }
+      const n = subs.length;
+      return (
+        t('Bdu') |
+        when(args === 0, t('z')) |
+        when(args === 1, t('o')) |
+        when(allE && numS === n, t('e')) |
+        when(allE && allM && numS >= n - k, t('m')) |
+        when(numS >= n - k + 1, t('s')) |
+        timelocks
+      );
+    }
+  }
+}
+
+/**
+ * Splits a comma separated argument list at its top level.
+ */
+function splitArgs(args: string): string[] {
+  const result: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < args.length; ++i) {
+    const c = args[i];
+    if (c === '(') depth++;
+    else if (c === ')') depth--;
+    else if (c === ',' && depth === 0) {
+      result.push(args.slice(start, i));
+      start = i + 1;
+    }
+    if (depth < 0) throw new Error('Unbalanced brackets in miniscript');
+  }
+  if (depth !== 0) throw new Error('Unbalanced brackets in miniscript');
+  result.push(args.slice(start));
+  return result;
+}
+
+interface ParseState {
+  ctx: MiniscriptContext;
+  keys: Record<string, Uint8Array>;
+}
+
+function parseKey(arg: string, state: ParseState): Uint8Array {
+  let key: Uint8Array;
+  if (Object.prototype.hasOwnProperty.call(state.keys, arg))
+    key = state.keys[arg];
+  else if (/^([0-9a-fA-F]{2})+$/.test(arg)) key = tools.fromHex(arg);
+  else throw new Error('Unknown key: ' + arg);
+
+  if (state.ctx === 'tapscript') {
+    if (key.length === 33 && isPoint(key)) return toXOnly(key);
+    if (key.length === 32 && isPoint(tools.concat([Uint8Array.of(2), key])))
+      return key;
+  } else if (key.length === 33 && isPoint(key)) {
+    return key;
+  }
+  throw new Error('Invalid public key: ' + arg);
+}
+
+function parseNumber(arg: string, min: number, max: number): number {
+  const n = Number(arg);
+  if (!/^\d+$/.test(arg) || n < min || n > max)
+    throw new Error('Invalid miniscript number: ' + arg);
+  return n;
+}
+
+const HASH_SIZES: { [fragment: string]: number } = {
+  sha256: 32,
+  hash256: 32,
+  ripemd160: 20,
+  hash160: 20,
+};
+
+function node(
+  fragment: MiniscriptFragment,
+  subs: MiniscriptNode[],
+  ctx: MiniscriptContext,
+  args: { keys?: Uint8Array[]; k?: number; hash?: Uint8Array } = {},
+): MiniscriptNode {
+  const k = args.k !== undefined ? args.k : 0;
+  const type = computeType(
+    fragment,
+    subs.map(sub => t(sub.type)),
+    k,
+    ctx,
+  );
+  if (!(type & BASE_TYPES))
+    throw new TypeError(
+      `Invalid miniscript: ${fragment} can not take arguments of types ` +
+        subs.map(sub => sub.type).join(', '),
+    );
+  return {
+    fragment,
+    subs,
+    keys: args.keys || [],
+    k,
+    hash: args.hash,
+    type: formatType(type),
+  };
+}
+
+/**
+ * Parses an expression with its wrappers, expanding aliases.
+ */
+function parseExpression(expr: string, state: ParseState): MiniscriptNode {
+  const { ctx } = state;
+  const wrapped = expr.match(/^([a-z]+):(.+)$/s);
+  if (wrapped) {
+    let result = parseExpression(wrapped[2], state);
+    for (const wrapper of wrapped[1].split('').reverse()) {
+      if (wrapper === 't')
+        result = node('and_v', [result, node('1', [], ctx)], ctx);
+      else if (wrapper === 'l')
+        result = node('or_i', [node('0', [], ctx), result], ctx);
+      else if (wrapper === 'u')
+        result = node('or_i', [result, node('0', [], ctx)], ctx);
+      else if ('ascdvjn'.includes(wrapper))
+        result = node(wrapper as MiniscriptFragment, [result], ctx);
+      else throw new Error('Unknown miniscript wrapper: ' + wrapper);
+    }
+    return result;
+  }
+  if (expr === '0' || expr === '1') return node(expr, [], ctx);
+
+  const match = expr.match(/^([a-z0-9_]+)\((.*)\)$/s);
+  if (!match) throw new Error('Invalid miniscript expression: ' + expr);
+  const name = match[1];
+  const args = splitArgs(match[2]);
+  const arity = (n: number): void => {
+    if (args.length !== n)
+      throw new Error(`${name} expects ${n} arguments, got ${args.length}`);
+  };
+  const subs = (): MiniscriptNode[] =>
+    args.map(arg => parseExpression(arg, state));
+
+  switch (name) {
+    case 'pk':
+    case 'pkh':
+    case 'pk_k':
+    case 'pk_h': {
+      arity(1);
+      const fragment = name === 'pk' || name === 'pk_k' ? 'pk_k' : 'pk_h';
+      const key = node(fragment, [], ctx, {
+        keys: [parseKey(args[0], state)],
+      });
+      return name.length === 2 || name === 'pkh' ? node('c', [key], ctx) : key;
+    }
+    case 'older':
+    case 'after':
+      arity(1);
+      return node(name, [], ctx, {
+        k: parseNumber(args[0], 1, 0x7fffffff),
+      });
+    case 'sha256':
+    case 'hash256':
+    case 'ripemd160':
+    case 'hash160': {
+      arity(1);
+      if (!new RegExp(`^[0-9a-fA-F]{${HASH_SIZES[name] * 2}}$`).test(args[0]))
+        throw new Error(`Invalid ${name} hash: ${args[0]}`);
+      return node(name, [], ctx, { hash: tools.fromHex(args[0]) });
+    }
+    case 'and_n':
+      arity(2);
+      return node('andor', [...subs(), node('0', [], ctx)], ctx);
+    case 'andor':
+      arity(3);
+      return node(name, subs(), ctx);
+    case 'and_v':
+    case 'and_b':
+    case 'or_b':
+    case 'or_c':
+    case 'or_d':
+    case 'or_i':
+      arity(2);
+      return node(name, subs(), ctx);
+    case 'thresh': {
+      if (args.length < 2) throw new Error('thresh expects subexpressions');
+      const k = parseNumber(args[0], 1, args.length - 1);
+      return node(
+        name,
+        args.slice(1).map(arg => parseExpression(arg, state)),
+        ctx,
+        { k },
+      );
+    }
+    case 'multi':
+    case 'multi_a': {
+      if (name === 'multi' && ctx === 'tapscript')
+        throw new Error('multi is not allowed in tapscript, use multi_a');
+      if (name === 'multi_a' && ctx === 'wsh')
+        throw new Error('multi_a is only allowed in tapscript');
+      const max =
+        name === 'multi' ? MAX_PUBKEYS_PER_MULTISIG : MAX_PUBKEYS_PER_MULTI_A;
+      if (args.length < 2 || args.length - 1 > max)
+        throw new Error(`${name} expects between 1 and ${max} keys`);
+      const k = parseNumber(args[0], 1, args.length - 1);
+      return node(name, [], ctx, {
+        k,
+        keys: args.slice(1).map(arg => parseKey(arg, state)),
+      });
+    }
+  }
+  throw new Error('Unknown miniscript fragment: ' + name);
+}
+
+const VERIFY_OPS: { [opcode: number]: number } = {
+  [OPS.OP_EQUAL]: OPS.OP_EQUALVERIFY,
+  [OPS.OP_NUMEQUAL]: OPS.OP_NUMEQUALVERIFY,
+  [OPS.OP_CHECKSIG]: OPS.OP_CHECKSIGVERIFY,
+  [OPS.OP_CHECKMULTISIG]: OPS.OP_CHECKMULTISIGVERIFY,
+};
+
+const HASH_OPS: { [fragment: string]: number } = {
+  sha256: OPS.OP_SHA256,
+  hash256: OPS.OP_HASH256,
+  ripemd160: OPS.OP_RIPEMD160,
+  hash160: OPS.OP_HASH160,
+};
+
+function toChunks(n: MiniscriptNode): Array<number | Uint8Array> {
+  const [x, y, z] = n.subs.map(toChunks);
+  const num = (value: number): Uint8Array => scriptNumber.encode(value);
+  switch (n.fragment) {
+    case '0':
+      return [OPS.OP_0];
+    case '1':
+      return [OPS.OP_1];
+    case 'pk_k':
+      return [n.keys[0]];
+    case 'pk_h':
+      return [
+        OPS.OP_DUP,
+        OPS.OP_HASH160,
+        bcrypto.hash160(n.keys[0]),
+        OPS.OP_EQUALVERIFY,
+      ];
+    case 'older':
+      return [num(n.k), OPS.OP_CHECKSEQUENCEVERIFY];
+    case 'after':
+      return [num(n.k), OPS.OP_CHECKLOCKTIMEVERIFY];
+    case 'sha256':
+    case 'hash256':
+    case 'ripemd160':
+    case 'hash160':
+      return [
+        OPS.OP_SIZE,
+        num(32),
+        OPS.OP_EQUALVERIFY,
+        HASH_OPS[n.fragment],
+        n.hash!,
+        OPS.OP_EQUAL,
+      ];
+    case 'andor':
+      return [...x, OPS.OP_NOTIF, ...z, OPS.OP_ELSE, ...y, OPS.OP_ENDIF];
+    case 'and_v':
+      return [...x, ...y];
+    case 'and_b':
+      return [...x, ...y, OPS.OP_BOOLAND];
+    case 'or_b':
+      return [...x, ...y, OPS.OP_BOOLOR];
+    case 'or_c':
+      return [...x, OPS.OP_NOTIF, ...y, OPS.OP_ENDIF];
+    case 'or_d':
+      return [...x, OPS.OP_IFDUP, OPS.OP_NOTIF, ...y, OPS.OP_ENDIF];
+    case 'or_i':
+      return [OPS.OP_IF, ...x, OPS.OP_ELSE, ...y, OPS.OP_ENDIF];
+    case 'thresh':
+      return [
+        ...x,
+        ...n.subs.slice(1).flatMap(sub => [...toChunks(sub), OPS.OP_ADD]),
+        num(n.k),
+        OPS.OP_EQUAL,
+      ];
+    case 'multi':
+      return [num(n.k), ...n.keys, num(n.keys.length), OPS.OP_CHECKMULTISIG];
+    case 'multi_a':
+      return [
+        n.keys[0],
+        OPS.OP_CHECKSIG,
+        ...n.keys.slice(1).flatMap(key => [key, OPS.OP_CHECKSIGADD]),
+        num(n.k),
+        OPS.OP_NUMEQUAL,
+      ];
+    case 'a':
+      return [OPS.OP_TOALTSTACK, ...x, OPS.OP_FROMALTSTACK];
+    case 's':
+      return [OPS.OP_SWAP, ...x];
+    case 'c':
+      return [...x, OPS.OP_CHECKSIG];
+    case 'd':
+      return [OPS.OP_DUP, OPS.OP_IF, ...x, OPS.OP_ENDIF];
+    case 'v': {
+      const last = x[x.length - 1];
+      return typeof last === 'number' && VERIFY_OPS[last] !== undefined
+        ? [...x.slice(0, -1), VERIFY_OPS[last]]
+        : [...x, OPS.OP_VERIFY];
+    }
+    case 'j':
+      return [OPS.OP_SIZE, OPS.OP_0NOTEQUAL, OPS.OP_IF, ...x, OPS.OP_ENDIF];
+    case 'n':
+      return [...x, OPS.OP_0NOTEQUAL];
+  }
+}
+
+function collectKeys(n: MiniscriptNode): Uint8Array[] {
+  return n.keys.concat(...n.subs.map(collectKeys));
+}
+
+function countMultisigKeys(n: MiniscriptNode): number {
+  return n.subs.reduce(
+    (count, sub) => count + countMultisigKeys(sub),
+    n.fragment === 'multi' ? n.keys.length : 0,
+  );
+}
+
+interface WitnessSize {
+  items: number;
+  size: number;
+}
+
+const ZERO_SIZE: WitnessSize = { items: 1, size: 1 };
+const ONE_SIZE: WitnessSize = { items: 1, size: 2 };
+const EMPTY_SIZE: WitnessSize = { items: 0, size: 0 };
+
+function addSizes(...sizes: Array<WitnessSize | undefined>) {
+  if (sizes.some(size => size === undefined)) return undefined;
+  return sizes.reduce((a, b) => ({
+    items: a!.items + b!.items,
+    size: a!.size + b!.size,
+  }));
+}
+
+function maxSizes(...sizes: Array<WitnessSize | undefined>) {
+  return sizes.reduce<WitnessSize | undefined>((a, b) => {
+    if (a === undefined) return b;
+    if (b === undefined) return a;
+    return {
+      items: Math.max(a.items, b.items),
+      size: Math.max(a.size, b.size),
+    };
+  }, undefined);
+}
+
+/**
+ * Computes upper bounds of the witness of the satisfactions and
+ * dissatisfactions of a fragment, counting signatures at their largest.
+ */
+function witnessSizes(
+  n: MiniscriptNode,
+  ctx: MiniscriptContext,
+): { sat?: WitnessSize; dsat?: WitnessSize } {
+  const sig = ctx === 'tapscript' ? 1 + 65 : 1 + 73;
+  // each sub-expression once, as thresh nests without bound
+  const subs = n.subs.map(sub => witnessSizes(sub, ctx));
+  const [x, y, z] = subs;
+  switch (n.fragment) {
+    case '0':
+      return { dsat: EMPTY_SIZE };
+    case '1':
+    case 'older':
+    case 'after':
+      return { sat: EMPTY_SIZE };
+    case 'pk_k':
+      return { sat: { items: 1, size: sig }, dsat: ZERO_SIZE };
+    case 'pk_h': {
+      const key = 1 + n.keys[0].length;
+      return {
+        sat: { items: 2, size: sig + key },
+        dsat: { items: 2, size: 1 + key },
+      };
+    }
+    case 'sha256':
+    case 'hash256':
+    case 'ripemd160':
+    case 'hash160':
+      return { sat: { items: 1, size: 33 }, dsat: { items: 1, size: 33 } };
+    case 'multi':
+      return {
+        sat: { items: n.k + 1, size: 1 + n.k * sig },
+        dsat: { items: n.k + 1, size: n.k + 1 },
+      };
+    case 'multi_a':
+      return {
+        sat: {
+          items: n.keys.length,
+          size: n.k * sig + n.keys.length - n.k,
+        },
+        dsat: { items: n.keys.length, size: n.keys.length },
+      };
+    case 'andor':
+      return {
+        sat: maxSizes(addSizes(y.sat, x.sat), addSizes(z.sat, x.dsat)),
+        dsat: maxSizes(addSizes(z.dsat, x.dsat), addSizes(y.dsat, x.sat)),
+      };
+    case 'and_v':
+      return {
+        sat: addSizes(y.sat, x.sat),
+        dsat: addSizes(y.dsat, x.sat),
+      };
+    case 'and_b':
+      return {
+        sat: addSizes(y.sat, x.sat),
+        dsat: maxSizes(
+          addSizes(y.dsat, x.dsat),
+          addSizes(y.sat, x.dsat),
+          addSizes(y.dsat, x.sat),
+        ),
+      };
+    case 'or_b':
+      return {
+        sat: maxSizes(
+          addSizes(y.dsat, x.sat),
+          addSizes(y.sat, x.dsat),
+          addSizes(y.sat, x.sat),
+        ),
+        dsat: addSizes(y.dsat, x.dsat),
+      };
+    case 'or_c':
+      return { sat: maxSizes(x.sat, addSizes(y.sat, x.dsat)) };
+    case 'or_d':
+      return {
+        sat: maxSizes(x.sat, addSizes(y.sat, x.dsat)),
+        dsat: addSizes(y.dsat, x.dsat),
+      };
+    case 'or_i':
+      return {
+        sat: maxSizes(addSizes(x.sat, ONE_SIZE), addSizes(y.sat, ZERO_SIZE)),
+        dsat: maxSizes(addSizes(x.dsat, ONE_SIZE), addSizes(y.dsat, ZERO_SIZE)),
+      };
+    case 'thresh': {
+      // sats[j]: j satisfied out of the sub-expressions seen so far
+      let sats: Array<WitnessSize | undefined> = [EMPTY_SIZE];
+      for (const sub of subs) {
+        sats = [
+          ...sats.map((size, j) =>
+            maxSizes(
+              addSizes(size, sub.dsat),
+              j > 0 ? addSizes(sats[j - 1], sub.sat) : undefined,
+            ),
+          ),
+          addSizes(sats[sats.length - 1], sub.sat),
+        ];
+      }
+      return {
+        sat: sats[n.k],
+        dsat: maxSizes(...sats.filter((_, j) => j !== n.k)),
+      };
+    }
+    case 'a':
+    case 's':
+    case 'c':
+    case 'n':
+      return x;
+    case 'd':
+      return { sat: addSizes(x.sat, ONE_SIZE), dsat: ZERO_SIZE };
+    case 'v':
+      return { sat: x.sat };
+    case 'j':
+      return { sat: x.sat, dsat: ZERO_SIZE };
+  }
+}
+
+function analyze(
+  n: MiniscriptNode,
+  script: Uint8Array,
+  ctx: MiniscriptContext,
+): MiniscriptAnalysis {
+  const type = t(n.type);
+  const keys = collectKeys(n).map(key => tools.toHex(key));
+  const chunks = bscript.decompile(script)!;
+  const ops =
+    chunks.filter(chunk => typeof chunk === 'number' && chunk > OPS.OP_16)
+      .length + countMultisigKeys(n);
+  const { sat } = witnessSizes(n, ctx);
+  const maxWitness = sat !== undefined ? sat : EMPTY_SIZE;
+  const withinLimits =
+    ctx === 'wsh'
+      ? script.length <= MAX_STANDARD_P2WSH_SCRIPT_SIZE &&
+        ops <= MAX_OPS_PER_SCRIPT &&
+        maxWitness.items <= MAX_STANDARD_P2WSH_STACK_ITEMS
+      : maxWitness.items <= MAX_STACK_SIZE;
+  const analysis = {
+    nonMalleable: has(type, 'm'),
+    needsSignature: has(type, 's'),
+    timelockMix: !has(type, 'k'),
+    duplicateKeys: new Set(keys).size !== keys.length,
+    withinLimits,
+  };
+  return {
+    ...analysis,
+    sane:
+      analysis.nonMalleable &&
+      analysis.needsSignature &&
+      !analysis.timelockMix &&
+      !analysis.duplicateKeys &&
+      withinLimits,
+    scriptSize: script.length,
+    ops,
+    maxWitnessItems: maxWitness.items,
+    maxWitnessSize: maxWitness.size,
+  };
+}
+
+/**
+ * Parses, type checks and compiles a miniscript sub-expression of any type,
+ * such as `v:pk(A)`, for building miniscripts from parts.
+ *
+ * @param expression - The sub-expression
+ * @param opts - The context, defaulting to wsh, and named keys
+ * @returns The parsed fragment and its script
+ * @throws {Error} If the expression can not be parsed
+ * @throws {TypeError} If the expression does not type check
+ */
+export function compileFragment(
+  expression: string,
+  opts: MiniscriptOpts = {},
+): { node: MiniscriptNode; script: Uint8Array } {
+  const node = parseExpression(expression, {
+    ctx: opts.context !== undefined ? opts.context : 'wsh',
+    keys: opts.keys || {},
+  });
+  return { node, script: bscript.compile(toChunks(node)) };
+}
+
+/**
+ * Type checks a combinator or wrapper applied to parsed sub-expressions,
+ * for building miniscripts from parts without parsing them again.
+ *
+ * @param fragment - The combinator or wrapper, such as `and_v` or `v`
+ * @param subs - The parsed sub-expressions
+ * @param opts - The context, defaulting to wsh, and the threshold of thresh
+ * @returns The fragment
+ * @throws {TypeError} If the fragment does not type check
+ */
+export function combine(
+  fragment: MiniscriptFragment,
+  subs: MiniscriptNode[],
+  opts: { context?: MiniscriptContext; k?: number } = {},
+): MiniscriptNode {
+  return node(
+    fragment,
+    subs,
+    opts.context !== undefined ? opts.context : 'wsh',
+    { k: opts.k },
+  );
+}
+
+/**
+ * Parses, type checks and compiles a miniscript.
+ *
+ * @param expression - The miniscript, such as `and_v(v:pk(A),older(144))`
+ * @param opts - The context, defaulting to wsh, and named keys
+ * @returns The parsed miniscript with its script and analysis
+ * @throws {Error} If the expression can not be parsed
+ * @throws {TypeError} If the expression does not type check, or is not of
+ * type B
+ *
+ * @example
+ * ```typescript
+ * const ms = miniscript.parse('or_d(pk(A),and_v(v:pk(B),older(144)))', {
+ *   keys: { A: pubkeyA, B: pubkeyB },
+ * });
+ * const p2wsh = payments.p2wsh({ redeem: { output: ms.script } });
+ * ```
+ */
+export function parse(
+  expression: string,
+  opts: MiniscriptOpts = {},
+): Miniscript {
+  const context = opts.context !== undefined ? opts.context : 'wsh';
+  const { node: root, script } = compileFragment(expression, opts);
+  if (!has(t(root.type), 'B'))
+    throw new TypeError(
+      `Miniscript must be of type B, got ${root.type}: ${expression}`,
+    );
+  return {
+    expression,
+    context,
+    node: root,
+    script,
+    analysis: analyze(root, script, context),
+  };
+}
+
+// A candidate witness, with what the satisfier needs to choose between
+// candidates, as in Bitcoin Core's `InputStack`.
+interface Solution {
+  available: boolean;
+  hasSig: boolean;
+  malleable: boolean;
+  size: number;
+  stack: Uint8Array[];
+}
+
+const INVALID: Solution = {
+  available: false,
+  hasSig: false,
+  malleable: false,
+  size: 0,
+  stack: [],
+};
+const EMPTY: Solution = { ...INVALID, available: true };
+
+function push(item: Uint8Array, hasSig = false): Solution {
+  return {
+    available: true,
+    hasSig,
+    malleable: false,
+    size: item.length + 1,
+    stack: [item],
+  };
+}
+
+const ZERO = push(new Uint8Array(0));
+const ONE = push(Uint8Array.of(1));
+
+/** Concatenates witness stacks, bottom first. */
+function cat(...solutions: Solution[]): Solution {
+  return solutions.reduce((a, b) => ({
+    available: a.available && b.available,
+    hasSig: a.hasSig || b.hasSig,
+    malleable: a.malleable || b.malleable,
+    size: a.size + b.size,
+    stack: a.stack.concat(b.stack),
+  }));
+}
+
+function malleable(solution: Solution, condition = true): Solution {
+  return condition ? { ...solution, malleable: true } : solution;
+}
+
+/**
+ * Chooses between two solutions like Bitcoin Core: a third party could
+ * replace a solution requiring a signature by one that does not, and if
+ * neither requires one, either can be replaced by the other.
+ */
+function choose(a: Solution, b: Solution): Solution {
+  if (!a.available) return b;
+  if (!b.available) return a;
+  if (!a.hasSig && b.hasSig) return a;
+  if (!b.hasSig && a.hasSig) return b;
+  if (!a.hasSig && !b.hasSig) {
+    a = malleable(a);
+    b = malleable(b);
+  } else {
+    if (b.malleable && !a.malleable) return a;
+    if (a.malleable && !b.malleable) return b;
+  }
+  return a.size <= b.size ? a : b;
+}
+
+function checkOlder(k: number, sequence?: number): boolean {
+  if (sequence === undefined || sequence & SEQUENCE_LOCKTIME_DISABLE_FLAG)
+    return false;
+  if (
+    (k & SEQUENCE_LOCKTIME_TYPE_FLAG) !==
+    (sequence & SEQUENCE_LOCKTIME_TYPE_FLAG)
+  )
+    return false;
+  return (k & SEQUENCE_LOCKTIME_MASK) <= (sequence & SEQUENCE_LOCKTIME_MASK);
+}
+
+function checkAfter(k: number, locktime?: number): boolean {
+  if (locktime === undefined) return false;
+  if (k < LOCKTIME_THRESHOLD !== locktime < LOCKTIME_THRESHOLD) return false;
+  return k <= locktime;
+}
+
+const HASHES: { [fragment: string]: (data: Uint8Array) => Uint8Array } = {
+  sha256: bcrypto.sha256,
+  hash256: bcrypto.hash256,
+  ripemd160: bcrypto.ripemd160,
+  hash160: bcrypto.hash160,
+};
+
+/**
+ * Computes the best satisfaction and dissatisfaction of a fragment, the
+ * witness stacks listing their bottom item first.
+ */
+function produce(
+  n: MiniscriptNode,
+  satisfier: MiniscriptSatisfier,
+): { sat: Solution; dsat: Solution } {
+  const sign = (key: Uint8Array): Solution => {
+    const found = (satisfier.signatures || []).find(
+      s => tools.compare(s.pubkey, key) === 0,
+    );
+    return found ? push(found.signature, true) : { ...INVALID, hasSig: true };
+  };
+  // each sub-expression once, as thresh nests without bound
+  const subs = n.subs.map(sub => produce(sub, satisfier));
+  const [x, y, z] = subs;
+  switch (n.fragment) {
+    case '0':
+      return { sat: INVALID, dsat: EMPTY };
+    case '1':
+      return { sat: EMPTY, dsat: INVALID };
+    case 'pk_k':
+      return { sat: sign(n.keys[0]), dsat: ZERO };
+    case 'pk_h': {
+      const key = push(n.keys[0]);
+      return { sat: cat(sign(n.keys[0]), key), dsat: cat(ZERO, key) };
+    }
+    case 'older':
+      return {
+        sat: checkOlder(n.k, satisfier.sequence) ? EMPTY : INVALID,
+        dsat: INVALID,
+      };
+    case 'after':
+      return {
+        sat: checkAfter(n.k, satisfier.locktime) ? EMPTY : INVALID,
+        dsat: INVALID,
+      };
+    case 'sha256':
+    case 'hash256':
+    case 'ripemd160':
+    case 'hash160': {
+      const preimage = (satisfier.preimages || []).find(
+        p =>
+          p.length === 32 &&
+          tools.compare(HASHES[n.fragment](p), n.hash!) === 0,
+      );
+      return {
+        sat: preimage ? push(preimage) : INVALID,
+        dsat: malleable(push(new Uint8Array(32))),
+      };
+    }
+    case 'multi': {
+      // sats[j]: j signatures for the keys seen so far
+      let sats = [ZERO];
+      for (const key of n.keys) {
+        const sig = sign(key);
+        sats = [
+          ...sats.map((s, j) => (j > 0 ? choose(s, cat(sats[j - 1], sig)) : s)),
+          cat(sats[sats.length - 1], sig),
+        ];
+      }
+      return {
+        sat: sats[n.k],
+        dsat: cat(...new Array(n.k + 1).fill(ZERO)),
+      };
+    }
+    case 'multi_a': {
+      // the signature of the first key is on top of the stack
+      let sats = [EMPTY];
+      for (const key of n.keys.slice().reverse()) {
+        const sig = sign(key);
+        sats = [
+          ...sats.map((s, j) =>
+            j > 0 ? choose(cat(s, ZERO), cat(sats[j - 1], sig)) : cat(s, ZERO),
+          ),
+          cat(sats[sats.length - 1], sig),
+        ];
+      }
+      return { sat: sats[n.k], dsat: sats[0] };
+    }
+    case 'thresh': {
+      // sats[j]: j satisfied out of the last sub-expressions seen so far
+      let sats = [EMPTY];
+      for (const sub of subs.slice().reverse()) {
+        sats = [
+          ...sats.map((s, j) =>
+            j > 0
+              ? choose(cat(s, sub.dsat), cat(sats[j - 1], sub.sat))
+              : cat(s, sub.dsat),
+          ),
+          cat(sats[sats.length - 1], sub.sat),
+        ];
+      }
+      // dissatisfying with some satisfied sub-expressions is malleable
+      const dsat = sats
+        .map((s, j) => malleable(s, j !== 0))
+        .filter((_, j) => j !== n.k)
+        .reduce(choose, INVALID);
+      return { sat: sats[n.k], dsat };
+    }
+    case 'andor':
+      return {
+        sat: choose(cat(y.sat, x.sat), cat(z.sat, x.dsat)),
+        dsat: choose(cat(y.dsat, x.sat), cat(z.dsat, x.dsat)),
+      };
+    case 'and_v':
+      return { sat: cat(y.sat, x.sat), dsat: cat(y.dsat, x.sat) };
+    case 'and_b':
+      return {
+        sat: cat(y.sat, x.sat),
+        dsat: [
+          malleable(cat(y.sat, x.dsat)),
+          malleable(cat(y.dsat, x.sat)),
+        ].reduce(choose, cat(y.dsat, x.dsat)),
+      };
+    case 'or_b':
+      return {
+        sat: [cat(y.sat, x.dsat), malleable(cat(y.sat, x.sat))].reduce(
+          choose,
+          cat(y.dsat, x.sat),
+        ),
+        dsat: cat(y.dsat, x.dsat),
+      };
+    case 'or_c':
+      return { sat: choose(x.sat, cat(y.sat, x.dsat)), dsat: INVALID };
+    case 'or_d':
+      return {
+        sat: choose(x.sat, cat(y.sat, x.dsat)),
+        dsat: cat(y.dsat, x.dsat),
+      };
+    case 'or_i':
+      return {
+        sat: choose(cat(x.sat, ONE), cat(y.sat, ZERO)),
+        dsat: choose(cat(x.dsat, ONE), cat(y.dsat, ZERO)),
+      };
+    case 'a':
+    case 's':
+    case 'c':
+    case 'n':
+      return x;
+    case 'd':
+      return { sat: cat(x.sat, ONE), dsat: ZERO };
+    case 'v':
+      return { sat: x.sat, dsat: INVALID };
+    case 'j':
+      return {
+        sat: x.sat,
+        dsat: malleable(ZERO, x.dsat.available && !x.dsat.hasSig),
+      };
+  }
+}
+
+/**
+ * Builds the smallest non-malleable witness satisfying a miniscript.
+ *
+ * @param ms - The parsed miniscript
+ * @param satisfier - The signatures, preimages and timelocks available
+ * @returns The witness stack, bottom item first, without the script
+ * @throws {Error} If the miniscript can not be satisfied, or only malleably
+ *
+ * @example
+ * ```typescript
+ * const stack = miniscript.satisfy(ms, {
+ *   signatures: psbt.data.inputs[0].partialSig,
+ *   sequence: 144,
+ * });
+ * ```
+ */
+export function satisfy(
+  ms: Miniscript,
+  satisfier: MiniscriptSatisfier,
+): Uint8Array[] {
+  const { sat } = produce(ms.node, satisfier);
+  if (!sat.available)
+    throw new Error(
+      'Missing signatures, preimages or timelocks to satisfy the miniscript',
+    );
+  if (sat.malleable || !sat.hasSig)
+    throw new Error('The miniscript can only be satisfied malleably');
+  return sat.stack;
+}
+
+function findTapLeaf(
+  input: PsbtInput,
+  script: Uint8Array,
+  tapLeafHashToFinalize?: Uint8Array,
+): { tapLeaf: TapLeafScript; leafHash: Uint8Array } {
+  for (const tapLeaf of input.tapLeafScript || []) {
+    if (tools.compare(tapLeaf.script, script) !== 0) continue;
+    const leafHash = tapleafHash({
+      output: tapLeaf.script,
+      version: tapLeaf.leafVersion,
+    });
+    if (
+      !tapLeafHashToFinalize ||
+      tools.compare(leafHash, tapLeafHashToFinalize) === 0
+    )
+      return { tapLeaf, leafHash };
+  }
+  throw new Error('No tapleaf script matches the miniscript');
+}
+
+/**
+ * Creates a finalizer for `Psbt.finalizeInput` satisfying a miniscript with
+ * the `partialSig` of p2wsh (and p2sh-p2wsh) inputs, or the `tapScriptSig`
+ * of taproot inputs spending the leaf of the miniscript.
+ *
+ * The finalizer has no access to the transaction: pass the nSequence of the
+ * input and the nLockTime of the transaction to satisfy timelocks.
+ *
+ * @param expression - The miniscript, compiled in the context of the input
+ * @param opts - Named keys, preimages and timelocks
+ * @returns The finalizer, throwing if the input can not be finalized
+ *
+ * @example
+ * ```typescript
+ * psbt.finalizeInput(
+ *   0,
+ *   miniscript.finalizer('and_v(v:pk(A),older(144))', {
+ *     keys: { A: pubkey },
+ *     sequence: psbt.txInputs[0].sequence,
+ *   }),
+ * );
+ * ```
+ */
+export function finalizer(
+  expression: string,
+  opts: MiniscriptFinalizerOpts = {},
+): (
+  inputIndex: number,
+  input: PsbtInput,
+  scriptOrTapLeafHash?: Uint8Array,
+  isSegwit?: boolean,
+  isP2SH?: boolean,
+  isP2WSH?: boolean,
+) => {
+  finalScriptSig: Uint8Array | undefined;
+  finalScriptWitness: Uint8Array | undefined;
+} {
+  return (
+    inputIndex,
+    input,
+    scriptOrTapLeafHash,
+    _isSegwit,
+    isP2SH,
+    isP2WSH,
+  ) => {
+    try {
+      const satisfier = {
+        preimages: opts.preimages,
+        sequence: opts.sequence,
+        locktime: opts.locktime,
+      };
+      if (isTaprootInput(input)) {
+        const ms = parse(expression, { context: 'tapscript', keys: opts.keys });
+        const { tapLeaf, leafHash } = findTapLeaf(
+          input,
+          ms.script,
+          scriptOrTapLeafHash,
+        );
+        if ((tapLeaf.leafVersion & 0xfe) !== LEAF_VERSION_TAPSCRIPT)
+          throw new Error('Unknown leaf version');
+        const signatures = (input.tapScriptSig || []).filter(
+          s => tools.compare(s.leafHash, leafHash) === 0,
+        );
+        const stack = satisfy(ms, { ...satisfier, signatures });
+        return {
+          finalScriptSig: undefined,
+          finalScriptWitness: witnessStackToScriptWitness([
+            ...stack,
+            tapLeaf.script,
+            tapLeaf.controlBlock,
+          ]),
+        };
+      }
+
+      if (!isP2WSH)
+        throw new Error('Miniscript is only supported in p2wsh and taproot');
+      const ms = parse(expression, { context: 'wsh', keys: opts.keys });
+      if (
+        !scriptOrTapLeafHash ||
+        tools.compare(ms.script, scriptOrTapLeafHash) !== 0
+      )
+        throw new Error('The witness script does not match the miniscript');
+      const stack = satisfy(ms, {
+        ...satisfier,
+        signatures: input.partialSig,
+      });
+      return {
+        finalScriptSig:
+          isP2SH && input.redeemScript
+            ? bscript.compile([input.redeemScript])
+            : undefined,
+        finalScriptWitness: witnessStackToScriptWitness([...stack, ms.script]),
+      };
+    } catch (err) {
+      throw new Error(`Can not finalize input #${inputIndex}: ${err}`);
+    }
+  };
+}
@@ -0,0 +1,575 @@
+/**
+ * MuSig2 multi-signatures (BIP327): n participants aggregate their public
+ * keys into a single key and jointly produce a BIP340 Schnorr signature for
+ * it in two rounds, exchanging public nonces first and partial signatures
+ * second.
+ *
+ * Aggregate keys can be tweaked like BIP32 public keys (following BIP328,
+ * with a fixed chain code) and with the taproot tweak, so an aggregate key
+ * can be used directly as `internalPubkey` of {@link payments.p2tr}:
+ *
+ * ```ts
+ * const ctx = musig2.keyAgg(musig2.keySort([pubkeyA, pubkeyB]));
+ * const { output } = payments.p2tr({
+ *   internalPubkey: toXOnly(ctx.aggregatePubkey),
+ * });
+ * ```
+ *
+ * Requires an ECC library with point arithmetic (such as tiny-secp256k1) to
+ * be registered with {@link initEccLib}.
+ *
+ * @packageDocumentation
+ */
+import { hmac } from '@noble/hashes/hmac';
+import { sha512 } from '@noble/hashes/sha512';
+import * as bcrypto from './crypto.js';
+import { getEccLib } from './ecc_lib.js';
+import { tapTweakHash } from './payments/bip341.js';
+import { ArithmeticSecp256k1Interface } from './types.js';
+import * as tools from 'uint8array-tools';
+
+const N = BigInt(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+);
+const G = tools.fromHex(
+  '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+);
+const INFINITY = new Uint8Array(33);
+
+/** Chain code of the synthetic xpub of an aggregate key (BIP328). */
+export const MUSIG2_CHAIN_CODE = tools.fromHex(
+  '868087ca02a6f974c4598924c36b57762d32cb45717167e300622c7167e38965',
+);
+
+/**
+ * The key aggregation context: the participant keys and the aggregate key,
+ * along with the accumulated tweaks needed to sign for it.
+ */
+export interface Musig2KeyAggContext {
+  /** Participant public keys (33 bytes each) in aggregation order */
+  publicKeys: Uint8Array[];
+  /** The (possibly tweaked) aggregate public key, compressed */
+  aggregatePubkey: Uint8Array;
+  /** Chain code used to derive children of the aggregate key */
+  chainCode: Uint8Array;
+  /** Accumulated sign flip of the aggregate key (1 or n - 1) */
+  gacc: bigint;
+  /** Accumulated tweak of the aggregate key */
+  tacc: bigint;
+}
+
+export interface Musig2NonceGenOpts {
+  /** Private key of the signer, mixed into the nonce for extra safety */
+  privateKey?: Uint8Array;
+  /** The x-only aggregate public key that will be signed for */
+  aggregatePubkey?: Uint8Array;
+  /** The message that will be signed */
+  msg?: Uint8Array;
+  /** Any additional data to mix into the nonce */
+  extraInput?: Uint8Array;
+  /** 32 bytes of fresh randomness, defaults to `crypto.getRandomValues` */
+  rand?: Uint8Array;
+}
+
+export interface Musig2Nonce {
+  /** Secret nonce (97 bytes), which must never be used twice */
+  secNonce: Uint8Array;
+  /** Public nonce (66 bytes) to share with the other participants */
+  pubNonce: Uint8Array;
+}
+
+/**
+ * A MuSig2 participant that keeps its private key and secret nonces to
+ * itself, as used by {@link Psbt.signMusig2Input}.
+ */
+export interface Musig2Signer {
+  /** The participant's compressed public key */
+  publicKey: Uint8Array;
+  /**
+   * Generates a nonce for signing `msg` with `aggregatePubkey`, remembers
+   * the secret nonce and returns the public nonce.
+   */
+  musig2NonceGen(opts: {
+    aggregatePubkey: Uint8Array;
+    msg: Uint8Array;
+  }): Uint8Array;
+  /**
+   * Creates a partial signature with the secret nonce belonging to
+   * `pubNonce`, which must then be forgotten.
+   */
+  musig2PartialSign(opts: {
+    pubNonce: Uint8Array;
+    aggNonce: Uint8Array;
+    keyAggContext: Musig2KeyAggContext;
+    msg: Uint8Array;
+  }): Uint8Array;
+}
+
+function getMusig2EccLib(): ArithmeticSecp256k1Interface {
+  const ecc = getEccLib() as ArithmeticSecp256k1Interface;
+  if (
+    typeof ecc.isPoint !== 'function' ||
+    typeof ecc.pointAdd !== 'function' ||
+    typeof ecc.pointAddScalar !== 'function' ||
+    typeof ecc.pointFromScalar !== 'function' ||
+    typeof ecc.pointMultiply !== 'function'
+  )
+    throw new Error(
+      'ECC library does not support point arithmetic (isPoint, pointAdd, pointAddScalar, pointFromScalar, pointMultiply)',
+    );
+  return ecc;
+}
+
+function toBigInt(buffer: Uint8Array): bigint {
+  return BigInt('0x' + (tools.toHex(buffer) || '0'));
+}
+
+function toBytes32(x: bigint): Uint8Array {
+  return tools.fromHex(x.toString(16).padStart(64, '0'));
+}
+
+function mod(x: bigint): bigint {
+  return ((x % N) + N) % N;
+}
+
+function hasEvenY(point: Uint8Array): boolean {
+  return point[0] === 0x02;
+}
+
+function negate(point: Uint8Array): Uint8Array {
+  const negated = Uint8Array.from(point);
+  negated[0] = hasEvenY(point) ? 0x03 : 0x02;
+  return negated;
+}
+
+// Curve arithmetic where null stands for the point at infinity.
+function add(a: Uint8Array | null, b: Uint8Array | null): Uint8Array | null {
+  if (!a) return b;
+  if (!b) return a;
+  return getMusig2EccLib().pointAdd(a, b, true);
+}
+
+function mul(point: Uint8Array | null, k: bigint): Uint8Array | null {
+  k = mod(k);
+  if (!point || k === 0n) return null;
+  return getMusig2EccLib().pointMultiply(point, toBytes32(k), true);
+}
+
+function checkPublicKey(publicKey: Uint8Array, name: string): void {
+  if (
+    !(publicKey instanceof Uint8Array) ||
+    publicKey.length !== 33 ||
+    !getMusig2EccLib().isPoint(publicKey)
+  )
+    throw new TypeError(`Invalid ${name}: ${toHexSafe(publicKey)}`);
+}
+
+function toHexSafe(buffer: unknown): string {
+  return buffer instanceof Uint8Array ? tools.toHex(buffer) : String(buffer);
+}
+
+function checkScalar(buffer: Uint8Array, name: string): bigint {
+  const x = buffer instanceof Uint8Array ? toBigInt(buffer) : N;
+  if (buffer.length !== 32 || x >= N) throw new TypeError(`Invalid ${name}`);
+  return x;
+}
+
+/**
+ * Sorts public keys lexicographically, so the aggregate key does not
+ * depend on the order in which the participants are listed.
+ *
+ * @param publicKeys - Compressed public keys.
+ * @returns A sorted copy of `publicKeys`.
+ */
+export function keySort(publicKeys: Uint8Array[]): Uint8Array[] {
+  return [...publicKeys].sort(tools.compare);
+}
+
+function keyAggCoefficient(publicKeys: Uint8Array[], pk: Uint8Array): bigint {
+  if (!publicKeys.some(key => tools.compare(key, pk) === 0))
+    throw new Error(
+      `Public key is not a participant of the aggregate key: ${tools.toHex(pk)}`,
+    );
+  const second = publicKeys.find(key => tools.compare(key, publicKeys[0]));
+  if (second && tools.compare(second, pk) === 0) return 1n;
+  const list = bcrypto.taggedHash('KeyAgg list', tools.concat(publicKeys));
+  return mod(
+    toBigInt(
+      bcrypto.taggedHash('KeyAgg coefficient', tools.concat([list, pk])),
+    ),
+  );
+}
+
+/**
+ * Aggregates the public keys of all participants (BIP327 KeyAgg).
+ *
+ * @param publicKeys - Compressed public keys of the participants. Their order
+ * matters, use {@link keySort} to make it canonical.
+ * @returns The key aggregation context.
+ * @throws If a public key is invalid or the keys cancel out.
+ */
+export function keyAgg(publicKeys: Uint8Array[]): Musig2KeyAggContext {
+  if (!Array.isArray(publicKeys) || publicKeys.length === 0)
+    throw new TypeError('Expected at least one public key');
+  publicKeys.forEach(pk => checkPublicKey(pk, 'public key'));
+
+  const aggregatePubkey = publicKeys.reduce<Uint8Array | null>(
+    (sum, pk) => add(sum, mul(pk, keyAggCoefficient(publicKeys, pk))),
+    null,
+  );
+  if (!aggregatePubkey) throw new Error('The aggregate key is infinity');
+  return {
+    publicKeys: [...publicKeys],
+    aggregatePubkey,
+    chainCode: MUSIG2_CHAIN_CODE,
+    gacc: 1n,
+    tacc: 0n,
+  };
+}
+
+/**
+ * Tweaks the aggregate key with `tweak * G` (BIP327 ApplyTweak).
+ *
+ * @param ctx - The key aggregation context.
+ * @param tweak - A 32 byte scalar.
+ * @param xOnly - Whether to tweak the x-only aggregate key (as taproot does)
+ * instead of the plain key (as BIP32 does).
+ * @returns The tweaked key aggregation context.
+ */
+export function applyTweak(
+  ctx: Musig2KeyAggContext,
+  tweak: Uint8Array,
+  xOnly: boolean,
+): Musig2KeyAggContext {
+  const t = checkScalar(tweak, 'tweak');
+  const g = xOnly && !hasEvenY(ctx.aggregatePubkey) ? N - 1n : 1n;
+  const aggregatePubkey = getMusig2EccLib().pointAddScalar(
+    g === 1n ? ctx.aggregatePubkey : negate(ctx.aggregatePubkey),
+    tweak,
+    true,
+  );
+  if (!aggregatePubkey)
+    throw new Error('The tweaked aggregate key is infinity');
+  return {
+    ...ctx,
+    aggregatePubkey,
+    gacc: mod(g * ctx.gacc),
+    tacc: mod(t + g * ctx.tacc),
+  };
+}
+
+/**
+ * Applies the taproot tweak, so the aggregate key becomes the output key of
+ * a P2TR output with the current aggregate key as internal key.
+ *
+ * @param ctx - The key aggregation context.
+ * @param merkleRoot - Merkle root of the script tree, if any.
+ * @returns The tweaked key aggregation context.
+ */
+export function tweakTaproot(
+  ctx: Musig2KeyAggContext,
+  merkleRoot?: Uint8Array,
+): Musig2KeyAggContext {
+  return applyTweak(
+    ctx,
+    tapTweakHash(ctx.aggregatePubkey.subarray(1), merkleRoot),
+    true,
+  );
+}
+
+/**
+ * Derives an unhardened child of the aggregate key, treating it as an xpub
+ * with the context's chain code (BIP328).
+ *
+ * @param ctx - The key aggregation context.
+ * @param path - A path of unhardened indexes, e.g. `m/0/3`.
+ * @returns The context of the derived key.
+ * @throws If the path is invalid or contains hardened indexes.
+ */
+export function derivePath(
+  ctx: Musig2KeyAggContext,
+  path: string,
+): Musig2KeyAggContext {
+  return path.split('/').reduce((child, level, i) => {
+    if (i === 0 && level === 'm') return child;
+    if (/^\d+['h]$/.test(level))
+      throw new Error('Aggregate keys can not be derived hardened');
+    const index = Number(level);
+    if (!/^\d+$/.test(level) || index >= 0x80000000)
+      throw new Error(`Invalid derivation path: ${path}`);
+
+    const data = new Uint8Array(37);
+    data.set(child.aggregatePubkey);
+    tools.writeUInt32(data, 33, index, 'BE');
+    const I = hmac(sha512, child.chainCode, data);
+    return {
+      ...applyTweak(child, I.slice(0, 32), false),
+      chainCode: I.slice(32),
+    };
+  }, ctx);
+}
+
+function randomBytes(): Uint8Array {
+  return globalThis.crypto.getRandomValues(new Uint8Array(32));
+}
+
+function prefixed(buffer: Uint8Array, lengthSize: 1 | 4 | 8): Uint8Array {
+  const length = new Uint8Array(lengthSize);
+  if (lengthSize === 1) tools.writeUInt8(length, 0, buffer.length);
+  else if (lengthSize === 4) tools.writeUInt32(length, 0, buffer.length, 'BE');
+  else tools.writeUInt64(length, 0, BigInt(buffer.length), 'BE');
+  return tools.concat([length, buffer]);
+}
+
+/**
+ * Generates a fresh nonce for one signing session (BIP327 NonceGen).
+ *
+ * @param publicKey - Compressed public key of the signer.
+ * @param opts - Additional inputs to the nonce derivation.
+ * @returns The secret and public nonce.
+ */
+export function nonceGen(
+  publicKey: Uint8Array,
+  opts: Musig2NonceGenOpts = {},
+): Musig2Nonce {
+  checkPublicKey(publicKey, 'public key');
+  let rand = opts.rand !== undefined ? opts.rand : randomBytes();
+  if (rand.length !== 32) throw new TypeError('Expected 32 bytes of rand');
+  if (opts.privateKey) {
+    const aux = bcrypto.taggedHash('MuSig/aux', rand);
+    rand = opts.privateKey.map((byte, i) => byte ^ aux[i]);
+  }
+  const msg = opts.msg
+    ? tools.concat([Uint8Array.of(1), prefixed(opts.msg, 8)])
+    : Uint8Array.of(0);
+  const data = tools.concat([
+    rand,
+    prefixed(publicKey, 1),
+    prefixed(opts.aggregatePubkey || new Uint8Array(0), 1),
+    msg,
+    prefixed(opts.extraInput || new Uint8Array(0), 4),
+  ]);
+
+  const k = [0, 1].map(i =>
+    mod(
+      toBigInt(
+        bcrypto.taggedHash(
+          'MuSig/nonce',
+          tools.concat([data, Uint8Array.of(i)]),
+        ),
+      ),
+    ),
+  );
+  if (k.includes(0n)) throw new Error('Nonce generation failed');
+  const ecc = getMusig2EccLib();
+  return {
+    secNonce: tools.concat([toBytes32(k[0]), toBytes32(k[1]), publicKey]),
+    pubNonce: tools.concat(
+      k.map(kj => ecc.pointFromScalar(toBytes32(kj), true)!),
+    ),
+  };
+}
+
+function parseNonce(
+  nonce: Uint8Array,
+  allowInfinity: boolean,
+): (Uint8Array | null)[] {
+  if (!(nonce instanceof Uint8Array) || nonce.length !== 66)
+    throw new TypeError(`Invalid public nonce: ${toHexSafe(nonce)}`);
+  return [nonce.subarray(0, 33), nonce.subarray(33)].map(point => {
+    if (allowInfinity && tools.compare(point, INFINITY) === 0) return null;
+    if (!getMusig2EccLib().isPoint(point))
+      throw new TypeError(`Invalid public nonce: ${tools.toHex(nonce)}`);
+    return point;
+  });
+}
+
+/**
+ * Aggregates the public nonces of all participants (BIP327 NonceAgg).
+ *
+ * @param pubNonces - Public nonces (66 bytes each).
+ * @returns The aggregate nonce (66 bytes).
+ */
+export function nonceAgg(pubNonces: Uint8Array[]): Uint8Array {
+  if (!Array.isArray(pubNonces) || pubNonces.length === 0)
+    throw new TypeError('Expected at least one public nonce');
+  const nonces = pubNonces.map(nonce => parseNonce(nonce, false));
+  return tools.concat(
+    [0, 1].map(
+      j =>
+        nonces.reduce<Uint8Array | null>((sum, R) => add(sum, R[j]), null) ||
+        INFINITY,
+    ),
+  );
+}
+
+interface SessionValues {
+  b: bigint;
+  R: Uint8Array;
+  e: bigint;
+}
+
+function getSessionValues(
+  aggNonce: Uint8Array,
+  ctx: Musig2KeyAggContext,
+  msg: Uint8Array,
+): SessionValues {
+  const [R1, R2] = parseNonce(aggNonce, true);
+  const Q = ctx.aggregatePubkey.subarray(1);
+  const b = mod(
+    toBigInt(
+      bcrypto.taggedHash('MuSig/noncecoef', tools.concat([aggNonce, Q, msg])),
+    ),
+  );
+  const R = add(R1, mul(R2, b)) || G;
+  const e = mod(
+    toBigInt(
+      bcrypto.taggedHash(
+        'BIP0340/challenge',
+        tools.concat([R.subarray(1), Q, msg]),
+      ),
+    ),
+  );
+  return { b, R, e };
+}
+
+/**
+ * Creates a partial signature (BIP327 Sign). The secret nonce is zeroed
+ * afterwards, since reusing it would leak the private key.
+ *
+ * @param secNonce - The signer's secret nonce.
+ * @param privateKey - The signer's private key.
+ * @param aggNonce - The aggregate nonce of all participants.
+ * @param ctx - The key aggregation context.
+ * @param msg - The message to sign.
+ * @returns The partial signature (32 bytes).
+ */
+export function partialSign(
+  secNonce: Uint8Array,
+  privateKey: Uint8Array,
+  aggNonce: Uint8Array,
+  ctx: Musig2KeyAggContext,
+  msg: Uint8Array,
+): Uint8Array {
+  if (!(secNonce instanceof Uint8Array) || secNonce.length !== 97)
+    throw new TypeError('Invalid secret nonce');
+  let k1 = toBigInt(secNonce.subarray(0, 32));
+  let k2 = toBigInt(secNonce.subarray(32, 64));
+  if (k1 === 0n || k2 === 0n || k1 >= N || k2 >= N)
+    throw new Error('Invalid secret nonce, it may have been used already');
+  const d = checkScalar(privateKey, 'private key');
+  const publicKey = getMusig2EccLib().pointFromScalar(privateKey, true);
+  if (!publicKey) throw new TypeError('Invalid private key');
+  if (tools.compare(publicKey, secNonce.subarray(64)) !== 0)
+    throw new Error('Secret nonce does not belong to the private key');
+
+  const { b, R, e } = getSessionValues(aggNonce, ctx, msg);
+  const a = keyAggCoefficient(ctx.publicKeys, publicKey);
+  const g = hasEvenY(ctx.aggregatePubkey) ? 1n : N - 1n;
+  if (!hasEvenY(R)) {
+    k1 = N - k1;
+    k2 = N - k2;
+  }
+  secNonce.fill(0);
+  return toBytes32(mod(k1 + b * k2 + e * a * g * ctx.gacc * d));
+}
+
+/**
+ * Verifies the partial signature of one participant (BIP327
+ * PartialSigVerify).
+ *
+ * @param partialSig - The partial signature.
+ * @param pubNonce - The participant's public nonce.
+ * @param publicKey - The participant's public key.
+ * @param aggNonce - The aggregate nonce of all participants.
+ * @param ctx - The key aggregation context.
+ * @param msg - The signed message.
+ * @returns True if the partial signature is valid.
+ */
+export function partialVerify(
+  partialSig: Uint8Array,
+  pubNonce: Uint8Array,
+  publicKey: Uint8Array,
+  aggNonce: Uint8Array,
+  ctx: Musig2KeyAggContext,
+  msg: Uint8Array,
+): boolean {
+  if (partialSig.length !== 32) return false;
+  const s = toBigInt(partialSig);
+  if (s >= N) return false;
+
+  const { b, R, e } = getSessionValues(aggNonce, ctx, msg);
+  const [R1, R2] = parseNonce(pubNonce, false);
+  const Re = add(R1, mul(R2, b));
+  if (!Re) return false;
+  const a = keyAggCoefficient(ctx.publicKeys, publicKey);
+  const g = hasEvenY(ctx.aggregatePubkey) ? 1n : N - 1n;
+
+  const expected = add(
+    hasEvenY(R) ? Re : negate(Re),
+    mul(publicKey, e * a * g * ctx.gacc),
+  );
+  const actual = mul(G, s);
+  return !!expected && !!actual && tools.compare(expected, actual) === 0;
+}
+
+/**
+ * Aggregates the partial signatures of all participants into a BIP340
+ * signature for the aggregate key (BIP327 PartialSigAgg).
+ *
+ * @param partialSigs - Partial signatures of all participants.
+ * @param aggNonce - The aggregate nonce of all participants.
+ * @param ctx - The key aggregation context.
+ * @param msg - The signed message.
+ * @returns The Schnorr signature (64 bytes).
+ */
+export function partialSigAgg(
+  partialSigs: Uint8Array[],
+  aggNonce: Uint8Array,
+  ctx: Musig2KeyAggContext,
+  msg: Uint8Array,
+): Uint8Array {
+  const { R, e } = getSessionValues(aggNonce, ctx, msg);
+  const g = hasEvenY(ctx.aggregatePubkey) ? 1n : N - 1n;
+  const s = partialSigs.reduce(
+    (sum, sig) => sum + checkScalar(sig, 'partial signature'),
+    e * g * ctx.tacc,
+  );
+  return tools.concat([R.subarray(1), toBytes32(mod(s))]);
+}
+
+/**
+ * Creates a {@link Musig2Signer} that holds a private key in memory and
+ * keeps secret nonces until they are used.
+ *
+ * @param privateKey - The participant's private key.
+ * @returns The signer.
+ */
+export function createSigner(privateKey: Uint8Array): Musig2Signer {
+  checkScalar(privateKey, 'private key');
+  const publicKey = getMusig2EccLib().pointFromScalar(privateKey, true);
+  if (!publicKey) throw new TypeError('Invalid private key');
+  const secNonces = new Map<string, Uint8Array>();
+
+  return {
+    publicKey,
+    musig2NonceGen({ aggregatePubkey, msg }): Uint8Array {
+      const { secNonce, pubNonce } = nonceGen(publicKey, {
+        privateKey,
+        aggregatePubkey,
+        msg,
+      });
+      secNonces.set(tools.toHex(pubNonce), secNonce);
+      return pubNonce;
+    },
+    musig2PartialSign({ pubNonce, aggNonce, keyAggContext, msg }): Uint8Array {
+      const secNonce = secNonces.get(tools.toHex(pubNonce));
+      if (!secNonce)
+        throw new Error(
+          `Unknown or used public nonce: ${tools.toHex(pubNonce)}`,
+        );
+      secNonces.delete(tools.toHex(pubNonce));
+      return partialSign(secNonce, privateKey, aggNonce, keyAggContext, msg);
+    },
+  };
+}
@@ -130,6 +130,13 @@ enum OPS {
 
   OP_CHECKSIGADD = 186,
 
+  // PIVX cold staking
+  OP_CHECKCOLDSTAKEVERIFY_LOF = 209,
+  OP_CHECKCOLDSTAKEVERIFY = 210,
+
+  // PIVX exchange addresses
+  OP_EXCHANGEADDR = 224,
+
   OP_PUBKEYHASH = 253,
   OP_PUBKEY = 254,
   OP_INVALIDOPCODE = 255,
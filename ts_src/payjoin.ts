@@ -0,0 +1,684 @@
+/**
+ * PayJoin (BIP78) between a sender and a receiver of a payment.
+ *
+ * The sender posts a signed, finalized {@link createOriginalPsbt | original}
+ * transaction to the receiver's endpoint. The receiver adds some of its own
+ * inputs, increases its payment output and returns the
+ * {@link createProposal | proposal}, which the sender
+ * {@link checkProposal | checks} before signing it again. The original
+ * transaction stays valid, so the receiver can broadcast it if the sender
+ * never signs the proposal.
+ *
+ * Both sides only support inputs of a single type among p2pkh, p2sh-p2wpkh,
+ * p2wpkh and p2tr, so the inputs of the receiver can not be told apart from
+ * the inputs of the sender. The HTTP request is made by a
+ * {@link PayjoinTransport}.
+ *
+ * @packageDocumentation
+ */
+import { PsbtInput, PsbtInputUpdate } from 'bip174';
+import * as tools from 'uint8array-tools';
+import { CoinSelectUtxo, dustThreshold, toPsbtInput } from './coinselect.js';
+import { bitcoin as btcNetwork, Network } from './networks.js';
+import { Psbt } from './psbt.js';
+import { isP2PKH, isP2SHScript, isP2TR, isP2WPKH } from './psbt/psbtutils.js';
+import { Transaction } from './transaction.js';
+import { fromPayment, InputPlan, inputWeight } from './vsize.js';
+
+/** The parameters of a payjoin request, sent in its query string. */
+export interface PayjoinParams {
+  /** Index of the sender output the receiver may decrease to pay fees */
+  additionalFeeOutputIndex?: number;
+  /** Maximum amount the receiver may take from that output */
+  maxAdditionalFeeContribution?: bigint;
+  /** Whether the receiver must keep the script of its payment output */
+  disableOutputSubstitution?: boolean;
+  /** Minimum fee rate of the proposal in satoshis per virtual byte */
+  minFeeRate?: number;
+}
+
+/**
+ * Sends a payjoin request to the receiver, such as with an HTTP POST, and
+ * resolves with the body of the response.
+ */
+export interface PayjoinTransport {
+  post(url: string, body: string): Promise<string>;
+}
+
+export interface CheckProposalOpts {
+  /**
+   * The signed Psbt of the sender, before it was finalized, so its inputs
+   * can be signed again
+   */
+  psbt: Psbt;
+  /** The proposal returned by the receiver */
+  proposal: Psbt;
+  /** The output script of the payment requested by the receiver */
+  paymentScript: Uint8Array;
+  /** The parameters of the request */
+  params?: PayjoinParams;
+  /**
+   * Whether an output script belongs to the sender, defaults to the scripts
+   * spent by the sender
+   */
+  isOwned?: (script: Uint8Array) => boolean;
+}
+
+export interface RequestPayjoinOpts
+  extends Omit<CheckProposalOpts, 'proposal'> {
+  /** The payjoin endpoint of the receiver, the `pj` parameter of BIP21 */
+  url: string;
+  transport: PayjoinTransport;
+  /** Network of the Psbt */
+  network?: Network;
+}
+
+export interface ProposalOpts {
+  /** The original Psbt posted by the sender */
+  original: Psbt;
+  /** The parameters of the request */
+  params?: PayjoinParams;
+  /** The output script of the payment requested from the sender */
+  paymentScript: Uint8Array;
+  /** The UTXOs of the receiver added as inputs */
+  utxos: CoinSelectUtxo[];
+  /**
+   * Signs and finalizes the inputs of the receiver. The inputs of the sender
+   * keep their UTXOs until then, as taproot signatures commit to them.
+   */
+  signInputs: (psbt: Psbt, inputIndexes: number[]) => void | Promise<void>;
+  /**
+   * Output script replacing the payment output, such as a fresh address of
+   * the receiver. Forbidden if the sender disabled output substitution.
+   */
+  outputScript?: Uint8Array;
+  /** Whether an output script belongs to the receiver */
+  isOwned?: (script: Uint8Array) => boolean;
+  /** Random number generator in [0, 1), defaults to Math.random */
+  random?: () => number;
+  /** Network of the Psbt */
+  network?: Network;
+}
+
+interface Prevout {
+  script: Uint8Array;
+  value: bigint;
+}
+
+interface OriginalSummary {
+  prevouts: Prevout[];
+  plan: InputPlan;
+  sequence: number;
+  fee: bigint;
+  feeRate: number;
+  vsize: number;
+}
+
+const PAYJOIN_VERSION = 1;
+const DEFAULT_DUST_RELAY_FEE_RATE = 3;
+
+// the input without the fields not restored in the proposal, which is
+// signed again
+function unsignedInput(input: PsbtInput): PsbtInputUpdate {
+  const {
+    partialSig,
+    tapKeySig,
+    tapScriptSig,
+    finalScriptSig,
+    finalScriptWitness,
+    unknownKeyVals,
+    ...update
+  } = input;
+  return update;
+}
+
+function sumValues(list: Array<{ value: bigint }>): bigint {
+  return list.reduce((sum, item) => sum + item.value, 0n);
+}
+
+function inputVsize(plan: InputPlan): number {
+  return Math.ceil(inputWeight(plan) / 4);
+}
+
+function isFinalized(input: PsbtInput): boolean {
+  return !!input.finalScriptSig || !!input.finalScriptWitness;
+}
+
+function hasKeypaths(fields: {
+  bip32Derivation?: unknown[];
+  tapBip32Derivation?: unknown[];
+}): boolean {
+  return (
+    !!(fields.bip32Derivation && fields.bip32Derivation.length) ||
+    !!(fields.tapBip32Derivation && fields.tapBip32Derivation.length)
+  );
+}
+
+function hasSignatures(input: PsbtInput): boolean {
+  return (
+    !!(input.partialSig && input.partialSig.length) ||
+    !!input.tapKeySig ||
+    !!(input.tapScriptSig && input.tapScriptSig.length)
+  );
+}
+
+function getPrevout(
+  input: PsbtInput,
+  txInput: { index: number },
+): Prevout | undefined {
+  if (input.witnessUtxo) return input.witnessUtxo;
+  if (input.nonWitnessUtxo)
+    return Transaction.fromBuffer(input.nonWitnessUtxo).outs[txInput.index];
+  return undefined;
+}
+
+// Only single key inputs can be mixed with the inputs of the other party
+function getInputPlan(script: Uint8Array): InputPlan | undefined {
+  if (isP2PKH(script)) return { type: 'p2pkh' };
+  if (isP2SHScript(script)) return { type: 'p2sh-p2wpkh' };
+  if (isP2WPKH(script)) return { type: 'p2wpkh' };
+  if (isP2TR(script)) return { type: 'p2tr' };
+  return undefined;
+}
+
+function outpointKey(input: { hash: Uint8Array; index: number }): string {
+  return `${tools.toHex(input.hash)}:${input.index}`;
+}
+
+/**
+ * Checks that the original is finalized, and spends inputs of a single
+ * supported type with the same sequence.
+ */
+function summarizeOriginal(original: Psbt): OriginalSummary {
+  const { txInputs } = original;
+  if (txInputs.length === 0) throw new Error('Original Psbt has no input');
+  let plan: InputPlan | undefined;
+  const prevouts = original.data.inputs.map((input, i) => {
+    if (!isFinalized(input))
+      throw new Error(`Input #${i} of the original Psbt is not finalized`);
+    const prevout = getPrevout(input, txInputs[i]);
+    if (!prevout) throw new Error(`Missing utxo of input #${i}`);
+    const inputPlan = getInputPlan(prevout.script);
+    if (!inputPlan) throw new Error(`Unsupported script type of input #${i}`);
+    if (plan && plan.type !== inputPlan.type)
+      throw new Error(
+        'Inputs of the original Psbt must all be of the same script type',
+      );
+    plan = inputPlan;
+    return prevout;
+  });
+  const sequence = txInputs[0].sequence!;
+  if (txInputs.some(input => input.sequence !== sequence))
+    throw new Error('Inputs of the original Psbt must have the same sequence');
+  const fee = sumValues(prevouts) - sumValues(original.txOutputs);
+  const vsize = original.extractTransaction(true).virtualSize();
+  return {
+    prevouts,
+    plan: plan!,
+    sequence,
+    fee,
+    feeRate: Number(fee) / vsize,
+    vsize,
+  };
+}
+
+// The highest fee contribution of the sender for the added inputs
+function maxInputsContribution(
+  summary: OriginalSummary,
+  addedInputs: number,
+): bigint {
+  return BigInt(
+    Math.ceil(summary.feeRate * inputVsize(summary.plan) * addedInputs),
+  );
+}
+
+function getNumberParam(value: string, key: string): number {
+  if (!/^\d+(\.\d+)?$/.test(value))
+    throw new Error(`Invalid payjoin parameter: ${key}`);
+  return Number(value);
+}
+
+/**
+ * Encodes the parameters of a payjoin request in a query string.
+ *
+ * @param params - The parameters of the request
+ * @returns The query string, without the leading `?`
+ */
+export function encodeParams(params: PayjoinParams = {}): string {
+  const query = [`v=${PAYJOIN_VERSION}`];
+  if (
+    params.additionalFeeOutputIndex !== undefined &&
+    params.maxAdditionalFeeContribution !== undefined
+  )
+    query.push(
+      `additionalfeeoutputindex=${params.additionalFeeOutputIndex}`,
+      `maxadditionalfeecontribution=${params.maxAdditionalFeeContribution}`,
+    );
+  if (params.disableOutputSubstitution)
+    query.push('disableoutputsubstitution=true');
+  if (params.minFeeRate !== undefined)
+    query.push(`minfeerate=${params.minFeeRate}`);
+  return query.join('&');
+}
+
+/**
+ * Decodes the parameters of a payjoin request from its query string.
+ * The additional fee output is ignored unless both of its parameters are
+ * given, and unknown parameters are ignored.
+ *
+ * @param query - The query string, with or without the leading `?`
+ * @returns The parameters of the request
+ * @throws {Error} If the version is not 1 or a parameter is invalid
+ */
+export function decodeParams(query: string): PayjoinParams {
+  const values: { [key: string]: string } = {};
+  query
+    .replace(/^\?/, '')
+    .split('&')
+    .filter(pair => pair.length > 0)
+    .forEach(pair => {
+      const [key, value] = pair.split('=');
+      values[decodeURIComponent(key)] = decodeURIComponent(value || '');
+    });
+  const version = values.v !== undefined ? values.v : `${PAYJOIN_VERSION}`;
+  if (version !== `${PAYJOIN_VERSION}`)
+    throw new Error(`Unsupported payjoin version: ${version}`);
+
+  const params: PayjoinParams = {};
+  if (
+    values.additionalfeeoutputindex !== undefined &&
+    values.maxadditionalfeecontribution !== undefined
+  ) {
+    params.additionalFeeOutputIndex = getNumberParam(
+      values.additionalfeeoutputindex,
+      'additionalfeeoutputindex',
+    );
+    if (!/^\d+$/.test(values.maxadditionalfeecontribution))
+      throw new Error(
+        'Invalid payjoin parameter: maxadditionalfeecontribution',
+      );
+    params.maxAdditionalFeeContribution = BigInt(
+      values.maxadditionalfeecontribution,
+    );
+  }
+  const substitution = values.disableoutputsubstitution;
+  if (substitution !== undefined) {
+    if (substitution !== 'true' && substitution !== 'false')
+      throw new Error('Invalid payjoin parameter: disableoutputsubstitution');
+    params.disableOutputSubstitution = substitution === 'true';
+  }
+  if (values.minfeerate !== undefined)
+    params.minFeeRate = getNumberParam(values.minfeerate, 'minfeerate');
+  return params;
+}
+
+/**
+ * Builds the original Psbt posted to the receiver: the signed Psbt of the
+ * sender, finalized, without the keypaths revealing its change output.
+ *
+ * @param psbt - The signed Psbt of the sender
+ * @returns The finalized original Psbt
+ * @throws {Error} If an input can not be finalized or lacks its utxo, or if
+ * the inputs are not all of the same supported type with the same sequence
+ */
+export function createOriginalPsbt(psbt: Psbt): Psbt {
+  const original = psbt.clone();
+  original.data.inputs.forEach((input, i) => {
+    if (!isFinalized(input)) original.finalizeInput(i);
+  });
+  original.data.outputs.forEach(output => {
+    delete output.bip32Derivation;
+    delete output.tapBip32Derivation;
+  });
+  delete original.data.globalMap.globalXpub;
+  summarizeOriginal(original);
+  return original;
+}
+
+/**
+ * Checks the proposal of the receiver against the original transaction of
+ * the sender, as BIP78 requires before signing it:
+ *
+ * - the version, locktime and inputs of the sender are kept, the inputs
+ *   unsigned and without keypaths
+ * - the added inputs are finalized, with their utxo, of the type of the
+ *   sender inputs, with the same sequence, and not owned by the sender
+ * - the outputs of the sender are kept without keypaths, and only the
+ *   additional fee output is decreased, by at most the maximum contribution,
+ *   the fee increase, and the original fee rate of the added inputs
+ * - the payment output is only replaced if output substitution is enabled,
+ *   and no other output is added
+ *
+ * @param opts - The signed Psbt of the sender and the proposal
+ * @returns The proposal with the fields of the sender inputs restored, to
+ * be signed and finalized
+ * @throws {Error} If the proposal fails a check
+ */
+export function checkProposal(opts: CheckProposalOpts): Psbt {
+  const params = opts.params || {};
+  const original = createOriginalPsbt(opts.psbt);
+  const summary = summarizeOriginal(original);
+  const { proposal } = opts;
+  const ownScripts = summary.prevouts.map(prevout => prevout.script);
+  const isOwned =
+    opts.isOwned ||
+    ((script: Uint8Array): boolean =>
+      ownScripts.some(own => tools.compare(own, script) === 0));
+
+  if (proposal.version !== original.version)
+    throw new Error('Proposal changed the transaction version');
+  if (proposal.locktime !== original.locktime)
+    throw new Error('Proposal changed the transaction locktime');
+
+  const senderInputs = new Map<string, number>();
+  original.txInputs.forEach((input, i) =>
+    senderInputs.set(outpointKey(input), i),
+  );
+  const restored: Array<[number, number]> = [];
+  let receiverValue = 0n;
+  proposal.txInputs.forEach((txInput, i) => {
+    const input = proposal.data.inputs[i];
+    if (txInput.sequence !== summary.sequence)
+      throw new Error(`Proposal changed the sequence of input #${i}`);
+    const j = senderInputs.get(outpointKey(txInput));
+    if (j !== undefined) {
+      senderInputs.delete(outpointKey(txInput));
+      if (isFinalized(input) || hasSignatures(input) || hasKeypaths(input))
+        throw new Error(`Proposal input #${i} of the sender is not blank`);
+      restored.push([i, j]);
+      return;
+    }
+    if (!isFinalized(input))
+      throw new Error(`Proposal input #${i} is not finalized`);
+    const prevout = getPrevout(input, txInput);
+    if (!prevout) throw new Error(`Missing utxo of input #${i}`);
+    const plan = getInputPlan(prevout.script);
+    if (!plan || plan.type !== summary.plan.type)
+      throw new Error(
+        `Proposal input #${i} is not of the type of the sender inputs`,
+      );
+    if (isOwned(prevout.script))
+      throw new Error(`Proposal input #${i} is owned by the sender`);
+    receiverValue += prevout.value;
+  });
+  if (senderInputs.size > 0)
+    throw new Error(
+      `Proposal removed input #${senderInputs.values().next().value}`,
+    );
+
+  const outputs = proposal.txOutputs;
+  const unmatched = new Set(outputs.map((_, i) => i));
+  proposal.data.outputs.forEach((output, i) => {
+    if (hasKeypaths(output))
+      throw new Error(`Proposal output #${i} has keypaths`);
+  });
+  const findOutput = (script: Uint8Array): number | undefined => {
+    for (const i of unmatched)
+      if (tools.compare(outputs[i].script, script) === 0) return i;
+    return undefined;
+  };
+  let contribution = 0n;
+  let paymentIndex: number | undefined;
+  original.txOutputs.forEach((output, i) => {
+    const isPayment = tools.compare(output.script, opts.paymentScript) === 0;
+    const k = findOutput(output.script);
+    if (k === undefined) {
+      if (isPayment && !params.disableOutputSubstitution) {
+        paymentIndex = i;
+        return;
+      }
+      throw new Error(`Proposal removed output #${i}`);
+    }
+    unmatched.delete(k);
+    const value = outputs[k].value;
+    if (
+      value >= output.value ||
+      (isPayment && !params.disableOutputSubstitution)
+    )
+      return;
+    if (i !== params.additionalFeeOutputIndex)
+      throw new Error(`Proposal decreased output #${i}`);
+    contribution = output.value - value;
+  });
+  // the substituted payment output is the only output allowed to be added
+  if (unmatched.size > (paymentIndex !== undefined ? 1 : 0))
+    throw new Error('Proposal added an output');
+  if (unmatched.size < (paymentIndex !== undefined ? 1 : 0))
+    throw new Error(`Proposal removed output #${paymentIndex}`);
+
+  const addedInputs = proposal.txInputs.length - original.txInputs.length;
+  const fee = sumValues(summary.prevouts) + receiverValue - sumValues(outputs);
+  const maxContribution =
+    params.maxAdditionalFeeContribution !== undefined
+      ? params.maxAdditionalFeeContribution
+      : 0n;
+  if (contribution > maxContribution)
+    throw new Error(
+      `Fee contribution of ${contribution} exceeds the maximum of ${maxContribution}`,
+    );
+  if (contribution > fee - summary.fee)
+    throw new Error(
+      `Fee contribution of ${contribution} exceeds the fee increase of ${fee - summary.fee}`,
+    );
+  const inputsContribution = maxInputsContribution(summary, addedInputs);
+  if (contribution > inputsContribution)
+    throw new Error(
+      `Fee contribution of ${contribution} exceeds the fee of the added inputs of ${inputsContribution}`,
+    );
+  const vsize = summary.vsize + inputVsize(summary.plan) * addedInputs;
+  if (
+    params.minFeeRate !== undefined &&
+    Number(fee) / vsize < params.minFeeRate
+  )
+    throw new Error(
+      `Proposal fee rate of ${(Number(fee) / vsize).toFixed(2)} is below the minimum of ${params.minFeeRate}`,
+    );
+
+  const result = proposal.clone();
+  restored.forEach(([i, j]) => {
+    const update = unsignedInput(opts.psbt.data.inputs[j]);
+    if (!update.witnessUtxo && !update.nonWitnessUtxo)
+      update.witnessUtxo = summary.prevouts[j];
+    result.updateInput(i, update);
+  });
+  return result;
+}
+
+/**
+ * Requests a payjoin from the receiver: posts the original Psbt to its
+ * endpoint, then checks the returned proposal.
+ *
+ * @param opts - The signed Psbt of the sender, the endpoint and the
+ * transport
+ * @returns The checked proposal, to be signed and finalized. The original
+ * transaction should be broadcast if it can not be.
+ * @throws {Error} If the Psbt can not be finalized, the transport fails, or
+ * the proposal fails a check
+ *
+ * @example
+ * ```typescript
+ * const proposal = await payjoin.requestPayjoin({
+ *   psbt,
+ *   url: 'https://example.com/pj',
+ *   paymentScript: address.toOutputScript(bip21Address),
+ *   params: { additionalFeeOutputIndex: 1, maxAdditionalFeeContribution: 1000n },
+ *   transport: { post: (url, body) => fetch(url, { method: 'POST', body }).then(res => res.text()) },
+ * });
+ * proposal.signAllInputs(keyPair).finalizeAllInputs();
+ * ```
+ */
+export function requestPayjoin(opts: RequestPayjoinOpts): Promise<Psbt> {
+  let original: Psbt;
+  try {
+    original = createOriginalPsbt(opts.psbt);
+  } catch (err) {
+    return Promise.reject(err);
+  }
+  const separator = opts.url.includes('?') ? '&' : '?';
+  const url = opts.url + separator + encodeParams(opts.params);
+  return opts.transport.post(url, original.toBase64()).then(response =>
+    checkProposal({
+      ...opts,
+      proposal: Psbt.fromBase64(response, {
+        network: opts.network || btcNetwork,
+      }),
+    }),
+  );
+}
+
+/**
+ * Builds the proposal of the receiver from the original Psbt of the sender.
+ * The UTXOs of the receiver are inserted at random positions and added to
+ * the payment output. The fee of the added inputs is paid at the original
+ * fee rate, or at the minimum fee rate if higher: by the additional fee
+ * output of the sender as far as the parameters allow, then by the payment
+ * output.
+ *
+ * @param opts - The original Psbt, the request parameters and the UTXOs of
+ * the receiver
+ * @returns The proposal, with the inputs of the sender stripped of their
+ * utxo and signatures
+ * @throws {Error} If the original is not finalized, does not pay the
+ * receiver, spends inputs of the receiver or of mixed types, if the UTXOs
+ * are not of the type of the sender inputs, or if output substitution is
+ * disabled
+ */
+export function createProposal(opts: ProposalOpts): Promise<Psbt> {
+  const params = opts.params || {};
+  const random = opts.random || Math.random;
+  const network = opts.network || btcNetwork;
+  const { original } = opts;
+  let summary: OriginalSummary;
+  let psbt: Psbt;
+  let indexes: number[];
+  try {
+    summary = summarizeOriginal(original);
+    const outputs = original.txOutputs.map(({ script, value }) => ({
+      script,
+      value,
+    }));
+    const paymentIndex = outputs.findIndex(
+      output => tools.compare(output.script, opts.paymentScript) === 0,
+    );
+    if (paymentIndex < 0)
+      throw new Error('Original Psbt does not pay the payment script');
+    summary.prevouts.forEach((prevout, i) => {
+      if (opts.isOwned && opts.isOwned(prevout.script))
+        throw new Error(
+          `Input #${i} of the original Psbt is owned by the receiver`,
+        );
+    });
+    if (opts.utxos.length === 0) throw new Error('Expected at least one UTXO');
+    opts.utxos.forEach((utxo, i) => {
+      if (fromPayment(utxo.payment).type !== summary.plan.type)
+        throw new Error(`UTXO #${i} is not of the type of the sender inputs`);
+    });
+
+    const addedVsize = inputVsize(summary.plan) * opts.utxos.length;
+    const feeRate =
+      params.minFeeRate !== undefined && params.minFeeRate > summary.feeRate
+        ? params.minFeeRate
+        : summary.feeRate;
+    const requiredFee = BigInt(
+      Math.ceil((summary.vsize + addedVsize) * feeRate),
+    );
+    const extraFee = requiredFee > summary.fee ? requiredFee - summary.fee : 0n;
+    let contribution = 0n;
+    const feeIndex = params.additionalFeeOutputIndex;
+    if (feeIndex !== undefined) {
+      if (!outputs[feeIndex])
+        throw new Error(`Additional fee output #${feeIndex} does not exist`);
+      if (feeIndex === paymentIndex)
+        throw new Error('Additional fee output can not be the payment output');
+      const output = outputs[feeIndex];
+      const available =
+        output.value -
+        dustThreshold(output.script, DEFAULT_DUST_RELAY_FEE_RATE);
+      contribution = [
+        params.maxAdditionalFeeContribution || 0n,
+        maxInputsContribution(summary, opts.utxos.length),
+        extraFee,
+        available,
+      ].reduce((min, value) => (value < min ? value : min));
+      if (contribution < 0n) contribution = 0n;
+      output.value -= contribution;
+    }
+    if (opts.outputScript) {
+      if (params.disableOutputSubstitution)
+        throw new Error('Output substitution is disabled');
+      outputs[paymentIndex].script = opts.outputScript;
+    }
+    outputs[paymentIndex].value +=
+      sumValues(opts.utxos) - (extraFee - contribution);
+
+    // inputs of the receiver at random positions among the sender inputs
+    const inputs: Array<
+      PsbtInputUpdate & { hash: Uint8Array | string; index: number }
+    > = original.txInputs.map((txInput, i) => {
+      const input = original.data.inputs[i];
+      return Object.assign(
+        { hash: txInput.hash, index: txInput.index },
+        input.nonWitnessUtxo
+          ? { nonWitnessUtxo: input.nonWitnessUtxo }
+          : { witnessUtxo: summary.prevouts[i] },
+      );
+    });
+    const receiverInputs = opts.utxos.map(toPsbtInput);
+    receiverInputs.forEach(input => {
+      inputs.splice(Math.floor(random() * (inputs.length + 1)), 0, input);
+    });
+    indexes = receiverInputs.map(input => inputs.indexOf(input));
+
+    psbt = new Psbt({ network });
+    psbt.setVersion(original.version);
+    psbt.setLocktime(original.locktime);
+    inputs.forEach(input =>
+      psbt.addInput({ ...input, sequence: summary.sequence }),
+    );
+    psbt.addOutputs(outputs);
+  } catch (err) {
+    return Promise.reject(err);
+  }
+
+  return Promise.resolve(opts.signInputs(psbt, indexes)).then(() => {
+    const proposal = new Psbt({ network });
+    proposal.setVersion(original.version);
+    proposal.setLocktime(original.locktime);
+    psbt.txInputs.forEach((txInput, i) => {
+      const input = psbt.data.inputs[i];
+      if (!indexes.includes(i))
+        return proposal.addInput({
+          hash: txInput.hash,
+          index: txInput.index,
+          sequence: txInput.sequence,
+        });
+      if (!isFinalized(input))
+        throw new Error(`Input #${i} of the receiver is not finalized`);
+      proposal.addInput(
+        Object.assign(
+          {
+            hash: txInput.hash,
+            index: txInput.index,
+            sequence: txInput.sequence,
+          },
+          input.nonWitnessUtxo
+            ? { nonWitnessUtxo: input.nonWitnessUtxo }
+            : { witnessUtxo: input.witnessUtxo },
+        ),
+      );
+    });
+    proposal.addOutputs(psbt.txOutputs);
+    indexes.forEach(i => {
+      const { finalScriptSig, finalScriptWitness } = psbt.data.inputs[i];
+      proposal.updateInput(
+        i,
+        Object.assign(
+          {},
+          finalScriptSig ? { finalScriptSig } : {},
+          finalScriptWitness ? { finalScriptWitness } : {},
+        ),
+      );
+    });
+    return proposal;
+  });
+}
@@ -0,0 +1,278 @@
+import * as bcrypto from '../crypto.js';
+import {
+  encodePivxAddress,
+  encodePivxStakingAddress,
+  parsePivxBase58Address,
+} from '../pivx/address.js';
+import { pivx as PIVX_NETWORK } from '../pivx/network.js';
+import { PivxNetwork } from '../pivx/types.js';
+import * as bscript from '../script.js';
+import {
+  isPoint,
+  Hash160bitSchema,
+  NBufferSchemaFactory,
+  BufferSchema,
+} from '../types.js';
+import { Payment, PaymentOpts, StackFunction } from './index.js';
+import * as lazy from './lazy.js';
+import * as tools from 'uint8array-tools';
+import * as v from 'valibot';
+
+const OPS = bscript.OPS;
+
+/**
+ * A PIVX cold staking payment.
+ *
+ * The staker key may only spend the output back into an identical P2CS
+ * output (coinstake), while the owner key can spend it freely.
+ */
+export interface P2CSPayment extends Payment {
+  /** hash160 of the staker public key */
+  stakerHash?: Uint8Array;
+  /** hash160 of the owner public key */
+  ownerHash?: Uint8Array;
+  /** The staker hash rendered as a staking (S-prefixed) address */
+  stakerAddress?: string;
+  /** The owner hash rendered as a regular P2PKH address */
+  ownerAddress?: string;
+  /** Use OP_CHECKCOLDSTAKEVERIFY_LOF instead of OP_CHECKCOLDSTAKEVERIFY */
+  lof?: boolean;
+  /** Spending path of the input: true for the staker, false for the owner */
+  isStaker?: boolean;
+}
+
+function isColdStakeOp(op: number): boolean {
+  return (
+    op === OPS.OP_CHECKCOLDSTAKEVERIFY || op === OPS.OP_CHECKCOLDSTAKEVERIFY_LOF
+  );
+}
+
+// input (staker): {signature} OP_TRUE {pubkey}
+// input (owner): {signature} OP_FALSE {pubkey}
+// output: OP_DUP OP_HASH160 OP_ROT OP_IF OP_CHECKCOLDSTAKEVERIFY[_LOF] {stakerHash}
+//   OP_ELSE {ownerHash} OP_ENDIF OP_EQUALVERIFY OP_CHECKSIG
+/**
+ * Creates a PIVX Pay-to-Cold-Staking (P2CS) payment object.
+ *
+ * @param a - The payment object containing the necessary data.
+ * @param opts - Optional payment options.
+ * @returns The P2CS payment object.
+ * @throws {TypeError} If the required data is not provided or if the data is invalid.
+ */
+export function p2cs(a: P2CSPayment, opts?: PaymentOpts): P2CSPayment {
+  if (
+    !a.output &&
+    !a.input &&
+    !(a.stakerHash || a.stakerAddress) &&
+    !(a.ownerHash || a.ownerAddress)
+  )
+    throw new TypeError('Not enough data');
+  opts = Object.assign({ validate: true }, opts || {});
+
+  v.parse(
+    v.partial(
+      v.object({
+        network: v.object({ pivxPrefixes: v.object({}) }),
+        stakerAddress: v.string(),
+        ownerAddress: v.string(),
+        stakerHash: Hash160bitSchema,
+        ownerHash: Hash160bitSchema,
+        output: NBufferSchemaFactory(51),
+        lof: v.boolean(),
+        isStaker: v.boolean(),
+
+        pubkey: v.custom(isPoint as (input: unknown) => boolean),
+        signature: v.custom(
+          bscript.isCanonicalScriptSignature as (input: unknown) => boolean,
+        ),
+        input: BufferSchema,
+      }),
+    ),
+    a,
+  );
+
+  const network = (a.network as PivxNetwork) || PIVX_NETWORK;
+
+  const _stakerAddress = lazy.value(() =>
+    parsePivxBase58Address(a.stakerAddress!, network),
+  );
+  const _ownerAddress = lazy.value(() =>
+    parsePivxBase58Address(a.ownerAddress!, network),
+  );
+  const _chunks = lazy.value(() => {
+    return bscript.decompile(a.input!);
+  }) as StackFunction;
+
+  const o: P2CSPayment = { name: 'p2cs', network };
+
+  lazy.prop(o, 'stakerHash', () => {
+    if (a.output) return a.output.slice(6, 26);
+    if (a.stakerAddress) return _stakerAddress().hash;
+  });
+  lazy.prop(o, 'ownerHash', () => {
+    if (a.output) return a.output.slice(28, 48);
+    if (a.ownerAddress) return _ownerAddress().hash;
+  });
+  lazy.prop(o, 'stakerAddress', () => {
+    if (!o.stakerHash) return;
+    return encodePivxStakingAddress(o.stakerHash, network);
+  });
+  lazy.prop(o, 'ownerAddress', () => {
+    if (!o.ownerHash) return;
+    return encodePivxAddress(o.ownerHash, network.pivxPrefixes.pubKeyHash);
+  });
+  lazy.prop(o, 'lof', () => {
+    if (a.output) return a.output[4] === OPS.OP_CHECKCOLDSTAKEVERIFY_LOF;
+    return false;
+  });
+  lazy.prop(o, 'output', () => {
+    if (!o.stakerHash || !o.ownerHash) return;
+    return bscript.compile([
+      OPS.OP_DUP,
+      OPS.OP_HASH160,
+      OPS.OP_ROT,
+      OPS.OP_IF,
+      o.lof ? OPS.OP_CHECKCOLDSTAKEVERIFY_LOF : OPS.OP_CHECKCOLDSTAKEVERIFY,
+      o.stakerHash,
+      OPS.OP_ELSE,
+      o.ownerHash,
+      OPS.OP_ENDIF,
+      OPS.OP_EQUALVERIFY,
+      OPS.OP_CHECKSIG,
+    ]);
+  });
+  lazy.prop(o, 'pubkey', () => {
+    if (!a.input) return;
+    return _chunks()[2] as Uint8Array;
+  });
+  lazy.prop(o, 'signature', () => {
+    if (!a.input) return;
+    return _chunks()[0] as Uint8Array;
+  });
+  lazy.prop(o, 'isStaker', () => {
+    if (a.input) return _chunks()[1] === OPS.OP_TRUE;
+    if (!a.pubkey) return;
+
+    const pkh = bcrypto.hash160(a.pubkey);
+    if (o.stakerHash && tools.compare(o.stakerHash, pkh) === 0) return true;
+    if (o.ownerHash && tools.compare(o.ownerHash, pkh) === 0) return false;
+  });
+  lazy.prop(o, 'input', () => {
+    if (!a.pubkey) return;
+    if (!a.signature) return;
+    if (o.isStaker === undefined) return;
+    return bscript.compile([
+      a.signature,
+      o.isStaker ? OPS.OP_TRUE : OPS.OP_FALSE,
+      a.pubkey,
+    ]);
+  });
+  lazy.prop(o, 'witness', () => {
+    if (!o.input) return;
+    return [];
+  });
+
+  // extended validation
+  if (opts.validate) {
+    let stakerHash: Uint8Array = Uint8Array.from([]);
+    let ownerHash: Uint8Array = Uint8Array.from([]);
+
+    if (a.stakerAddress) {
+      if (_stakerAddress().type !== 'staking')
+        throw new TypeError('Invalid staker address');
+      stakerHash = _stakerAddress().hash;
+    }
+
+    if (a.ownerAddress) {
+      if (_ownerAddress().type !== 'p2pkh')
+        throw new TypeError('Invalid owner address');
+      ownerHash = _ownerAddress().hash;
+    }
+
+    if (a.stakerHash) {
+      if (stakerHash.length > 0 && tools.compare(stakerHash, a.stakerHash))
+        throw new TypeError('Staker hash mismatch');
+      else stakerHash = a.stakerHash;
+    }
+
+    if (a.ownerHash) {
+      if (ownerHash.length > 0 && tools.compare(ownerHash, a.ownerHash))
+        throw new TypeError('Owner hash mismatch');
+      else ownerHash = a.ownerHash;
+    }
+
+    if (a.output) {
+      if (
+        a.output.length !== 51 ||
+        a.output[0] !== OPS.OP_DUP ||
+        a.output[1] !== OPS.OP_HASH160 ||
+        a.output[2] !== OPS.OP_ROT ||
+        a.output[3] !== OPS.OP_IF ||
+        !isColdStakeOp(a.output[4]) ||
+        a.output[5] !== 0x14 ||
+        a.output[26] !== OPS.OP_ELSE ||
+        a.output[27] !== 0x14 ||
+        a.output[48] !== OPS.OP_ENDIF ||
+        a.output[49] !== OPS.OP_EQUALVERIFY ||
+        a.output[50] !== OPS.OP_CHECKSIG
+      )
+        throw new TypeError('Output is invalid');
+
+      const stakerHash2 = a.output.slice(6, 26);
+      if (stakerHash.length > 0 && tools.compare(stakerHash, stakerHash2))
+        throw new TypeError('Staker hash mismatch');
+      else stakerHash = stakerHash2;
+
+      const ownerHash2 = a.output.slice(28, 48);
+      if (ownerHash.length > 0 && tools.compare(ownerHash, ownerHash2))
+        throw new TypeError('Owner hash mismatch');
+      else ownerHash = ownerHash2;
+
+      if (a.lof !== undefined && a.lof !== o.lof)
+        throw new TypeError('LOF mismatch');
+    }
+
+    const checkSpender = (pubkey: Uint8Array, isStaker?: boolean): void => {
+      const pkh = bcrypto.hash160(pubkey);
+      if (isStaker === undefined) {
+        if (
+          stakerHash.length > 0 &&
+          ownerHash.length > 0 &&
+          tools.compare(stakerHash, pkh) &&
+          tools.compare(ownerHash, pkh)
+        )
+          throw new TypeError('Pubkey matches neither staker nor owner');
+        return;
+      }
+      const hash = isStaker ? stakerHash : ownerHash;
+      if (hash.length > 0 && tools.compare(hash, pkh))
+        throw new TypeError('Hash mismatch');
+    };
+
+    if (a.pubkey) checkSpender(a.pubkey, a.isStaker);
+
+    if (a.input) {
+      const chunks = _chunks();
+      if (chunks.length !== 3) throw new TypeError('Input is invalid');
+      if (!bscript.isCanonicalScriptSignature(chunks[0] as Uint8Array))
+        throw new TypeError('Input has invalid signature');
+      if (chunks[1] !== OPS.OP_TRUE && chunks[1] !== OPS.OP_FALSE)
+        throw new TypeError('Input has invalid spending path');
+      if (!isPoint(chunks[2])) throw new TypeError('Input has invalid pubkey');
+
+      if (
+        a.signature &&
+        tools.compare(a.signature, chunks[0] as Uint8Array) !== 0
+      )
+        throw new TypeError('Signature mismatch');
+      if (a.pubkey && tools.compare(a.pubkey, chunks[2] as Uint8Array) !== 0)
+        throw new TypeError('Pubkey mismatch');
+      if (a.isStaker !== undefined && a.isStaker !== o.isStaker)
+        throw new TypeError('Spending path mismatch');
+
+      checkSpender(chunks[2] as Uint8Array, o.isStaker);
+    }
+  }
+
+  return Object.assign(o, a);
+}
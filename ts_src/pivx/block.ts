@@ -0,0 +1,240 @@
+/**
+ * PIVX block serialization and Proof-of-Stake block signatures.
+ *
+ * PIVX block headers extend the 80-byte Bitcoin header depending on their
+ * version: versions 4 to 6 carry the zerocoin accumulator checkpoint and
+ * versions 8 and above the final Sapling commitment tree root. Proof-of-Stake
+ * blocks (whose second transaction is a coinstake) are followed by
+ * `vchBlockSig`, a DER signature of the block hash by the staking key.
+ *
+ * Reference: PIVX Core src/primitives/block.h - CBlockHeader, CBlock
+ *
+ * @packageDocumentation
+ */
+import * as bip66 from '../bip66.js';
+import { Block } from '../block.js';
+import { BufferReader, BufferWriter, varuint } from '../bufferutils.js';
+import * as bcrypto from '../crypto.js';
+import * as payments from '../payments/index.js';
+import { ValidateSigFunction } from '../psbt.js';
+import { isP2CS, isP2PK, isP2PKH } from '../psbt/psbtutils.js';
+import { PivxTransaction } from './transaction.js';
+import * as tools from 'uint8array-tools';
+
+const BITCOIN_HEADER_SIZE = 80;
+
+/**
+ * A PIVX block.
+ *
+ * Transactions are parsed as {@link PivxTransaction}s, the header carries the
+ * version-dependent extra fields and Proof-of-Stake blocks keep their block
+ * signature.
+ *
+ * @example
+ * ```typescript
+ * const block = PivxBlock.fromHex(rawBlockFromPivxNode);
+ * block.getId(); // matches the node's block hash
+ * block.isProofOfStake() && block.checkBlockSignature(validator);
+ * ```
+ */
+export class PivxBlock extends Block {
+  /** First header version carrying the zerocoin accumulator checkpoint. */
+  static readonly ZEROCOIN_VERSION = 4;
+  /** First header version without the zerocoin accumulator checkpoint. */
+  static readonly NO_ZEROCOIN_VERSION = 7;
+  /** First header version carrying the final Sapling root. */
+  static readonly SAPLING_VERSION = 8;
+
+  static fromBuffer(buffer: Uint8Array): PivxBlock {
+    if (buffer.length < BITCOIN_HEADER_SIZE)
+      throw new Error('Buffer too small (< 80 bytes)');
+
+    const bufferReader = new BufferReader(buffer);
+
+    const block = new PivxBlock();
+    block.version = bufferReader.readInt32();
+    block.prevHash = bufferReader.readSlice(32);
+    block.merkleRoot = bufferReader.readSlice(32);
+    block.timestamp = bufferReader.readUInt32();
+    block.bits = bufferReader.readUInt32();
+    block.nonce = bufferReader.readUInt32();
+
+    if (block.hasAccumulatorCheckpoint())
+      block.accumulatorCheckpoint = bufferReader.readSlice(32);
+    if (block.hasFinalSaplingRoot())
+      block.finalSaplingRoot = bufferReader.readSlice(32);
+
+    if (bufferReader.offset === buffer.length) return block;
+
+    const nTransactions = bufferReader.readVarInt();
+    block.transactions = [];
+
+    for (let i = 0; i < nTransactions; ++i) {
+      const tx = PivxTransaction.fromBuffer(
+        buffer.slice(bufferReader.offset),
+        true,
+      );
+      bufferReader.offset += tx.byteLength();
+      block.transactions.push(tx);
+    }
+
+    if (block.isProofOfStake()) block.blockSig = bufferReader.readVarSlice();
+
+    if (bufferReader.offset !== buffer.length)
+      throw new Error('Block has unexpected data');
+
+    return block;
+  }
+
+  static fromHex(hex: string): PivxBlock {
+    return PivxBlock.fromBuffer(tools.fromHex(hex));
+  }
+
+  /** Zerocoin accumulator checkpoint, serialized for versions 4 to 6. */
+  accumulatorCheckpoint?: Uint8Array = undefined;
+  /** Root of the Sapling note commitment tree, serialized from version 8. */
+  finalSaplingRoot?: Uint8Array = undefined;
+  /** Signature of the block hash by the staking key (PoS blocks only). */
+  blockSig?: Uint8Array = undefined;
+
+  hasAccumulatorCheckpoint(): boolean {
+    return (
+      this.version >= PivxBlock.ZEROCOIN_VERSION &&
+      this.version < PivxBlock.NO_ZEROCOIN_VERSION
+    );
+  }
+
+  hasFinalSaplingRoot(): boolean {
+    return this.version >= PivxBlock.SAPLING_VERSION;
+  }
+
+  /**
+   * Checks whether the block is Proof-of-Stake, i.e. its second transaction
+   * is a coinstake.
+   */
+  isProofOfStake(): boolean {
+    return (
+      !!this.transactions &&
+      this.transactions.length > 1 &&
+      (this.transactions[1] as PivxTransaction).isCoinStake()
+    );
+  }
+
+  /**
+   * Returns the coinstake transaction of a Proof-of-Stake block.
+   */
+  getCoinStake(): PivxTransaction | undefined {
+    if (!this.isProofOfStake()) return;
+    return this.transactions![1] as PivxTransaction;
+  }
+
+  /**
+   * Finds the public key that must have signed a Proof-of-Stake block.
+   *
+   * As in PIVX Core, the key is taken from the coinstake's first staking
+   * output when it pays to a public key, and otherwise from the scriptSig of
+   * the staked input when the output is P2PKH or P2CS.
+   *
+   * @returns The staking public key, or undefined if it can not be found
+   * (proof-of-work blocks, zerocoin stakes, P2PK inputs paying to P2PKH).
+   */
+  getStakingPubkey(): Uint8Array | undefined {
+    const coinStake = this.getCoinStake();
+    if (!coinStake) return;
+
+    const { script } = coinStake.outs[1];
+    const scriptSig = coinStake.ins[0].script;
+    try {
+      if (isP2PK(script)) return payments.p2pk({ output: script }).pubkey;
+      if (isP2PKH(script)) return payments.p2pkh({ input: scriptSig }).pubkey;
+      if (isP2CS(script)) return payments.p2cs({ input: scriptSig }).pubkey;
+    } catch (_) {}
+  }
+
+  /**
+   * Verifies the block signature.
+   *
+   * Proof-of-work blocks are valid when they have no signature. Proof-of-Stake
+   * blocks must be signed by the staking key (see
+   * {@link PivxBlock.getStakingPubkey}) over the block hash.
+   *
+   * @param validator - ECDSA verification function, called with the staking
+   * public key, the block hash and the 64 byte compact signature.
+   * @returns true if the block signature is valid.
+   */
+  checkBlockSignature(validator: ValidateSigFunction): boolean {
+    if (!this.isProofOfStake())
+      return !this.blockSig || this.blockSig.length === 0;
+    if (!this.blockSig || this.blockSig.length === 0) return false;
+
+    const pubkey = this.getStakingPubkey();
+    if (!pubkey) return false;
+
+    // PIVX Core parses block signatures as laxly as script signatures
+    const signature = bip66.parseLaxDER(this.blockSig);
+    if (signature === null) return false;
+    return validator(pubkey, this.getHash(), signature);
+  }
+
+  byteLength(headersOnly?: boolean): number {
+    let length = BITCOIN_HEADER_SIZE;
+    if (this.hasAccumulatorCheckpoint()) length += 32;
+    if (this.hasFinalSaplingRoot()) length += 32;
+    if (headersOnly || !this.transactions) return length;
+
+    length +=
+      varuint.encodingLength(this.transactions.length) +
+      this.transactions.reduce((a, x) => a + x.byteLength(), 0);
+
+    if (this.isProofOfStake()) {
+      const blockSig = this.blockSig || new Uint8Array(0);
+      length += varuint.encodingLength(blockSig.length) + blockSig.length;
+    }
+    return length;
+  }
+
+  /**
+   * Block headers before the zerocoin upgrade (version < 4) are hashed with
+   * Quark, which is not supported.
+   *
+   * @throws {Error} If the block version is lower than 4.
+   */
+  getHash(): Uint8Array {
+    if (this.version < PivxBlock.ZEROCOIN_VERSION)
+      throw new Error(
+        'Quark hashed block headers (version < 4) are not supported',
+      );
+    return bcrypto.hash256(this.toBuffer(true));
+  }
+
+  toBuffer(headersOnly?: boolean): Uint8Array {
+    const buffer = new Uint8Array(this.byteLength(headersOnly));
+
+    const bufferWriter = new BufferWriter(buffer);
+
+    bufferWriter.writeInt32(this.version);
+    bufferWriter.writeSlice(this.prevHash!);
+    bufferWriter.writeSlice(this.merkleRoot!);
+    bufferWriter.writeUInt32(this.timestamp);
+    bufferWriter.writeUInt32(this.bits);
+    bufferWriter.writeUInt32(this.nonce);
+
+    if (this.hasAccumulatorCheckpoint())
+      bufferWriter.writeSlice(this.accumulatorCheckpoint || new Uint8Array(32));
+    if (this.hasFinalSaplingRoot())
+      bufferWriter.writeSlice(this.finalSaplingRoot || new Uint8Array(32));
+
+    if (headersOnly || !this.transactions) return buffer;
+
+    bufferWriter.writeVarInt(this.transactions.length);
+    this.transactions.forEach(tx => {
+      tx.toBuffer(buffer, bufferWriter.offset);
+      bufferWriter.offset += tx.byteLength();
+    });
+
+    if (this.isProofOfStake())
+      bufferWriter.writeVarSlice(this.blockSig || new Uint8Array(0));
+
+    return buffer;
+  }
+}
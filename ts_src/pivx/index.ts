@@ -1,8 +1,10 @@
 /**
  * PIVX network configuration and utilities.
- * 
+ *
  * @packageDocumentation
  */
 export * from './types.js';
 export * from './address.js';
 export * from './network.js';
+export * from './transaction.js';
+export * from './block.js';
@@ -1,26 +1,30 @@
 /**
  * PIVX network configuration.
- * 
- * Defines the PIVX mainnet network parameters compatible with PIVX Core.
- * 
+ *
+ * Defines the PIVX mainnet, testnet and regtest network parameters
+ * compatible with PIVX Core.
+ *
  * @packageDocumentation
  */
+import bs58check from 'bs58check';
+import { Network } from '../networks.js';
+import { parsePivxBase58Address } from './address.js';
 import { PivxNetwork } from './types.js';
 
 /**
  * PIVX mainnet network configuration.
- * 
+ *
  * Base58 prefixes from PIVX Core:
  * - PUBKEY_ADDRESS: 0x1E (30) → addresses start with 'D'
  * - SCRIPT_ADDRESS: 0x0D (13) → P2SH addresses
  * - STAKING_ADDRESS: 0x3F (63) → addresses start with 'S'
  * - EXCHANGE_ADDRESS: [0x01, 0xB9, 0xA2] → addresses start with 'EX' or 'EXM'
  * - SECRET_KEY: 0xD4 (212) → WIF private keys
- * 
+ *
  * @example
  * ```typescript
  * import { pivx, parsePivxBase58Address } from 'bitcoinjs-lib/pivx';
- * 
+ *
  * const parsed = parsePivxBase58Address('D...', pivx);
  * ```
  */
@@ -28,18 +32,140 @@ export const pivx: PivxNetwork = {
   messagePrefix: '\x18Darknet Signed Message:\n',
   bech32: '', // PIVX doesn't use bech32 currently
   bip32: {
-    public: 0x022d2533,  // 'xpub' equivalent for PIVX
+    public: 0x022d2533, // 'xpub' equivalent for PIVX
     private: 0x0221312b, // 'xprv' equivalent for PIVX
   },
   pubKeyHash: 0x1e, // Standard P2PKH prefix (for compatibility)
   scriptHash: 0x0d, // Standard P2SH prefix (for compatibility)
-  wif: 0xd4,        // WIF private key prefix
-  
+  wif: 0xd4, // WIF private key prefix
+
   // PIVX-specific extended prefixes
   pivxPrefixes: {
-    pubKeyHash: 0x1e,              // 'D' addresses
-    scriptHash: 0x0d,              // P2SH addresses
-    staking: 0x3f,                 // 'S' addresses
-    exchange: [0x01, 0xb9, 0xa2],  // 'EX' / 'EXM' addresses (3-byte prefix)
+    pubKeyHash: 0x1e, // 'D' addresses
+    scriptHash: 0x0d, // P2SH addresses
+    staking: 0x3f, // 'S' addresses
+    exchange: [0x01, 0xb9, 0xa2], // 'EX' / 'EXM' addresses (3-byte prefix)
   },
 };
+
+/**
+ * PIVX testnet network configuration.
+ *
+ * Base58 prefixes from PIVX Core:
+ * - PUBKEY_ADDRESS: 0x8B (139) → addresses start with 'x' or 'y'
+ * - SCRIPT_ADDRESS: 0x13 (19) → P2SH addresses start with '8' or '9'
+ * - STAKING_ADDRESS: 0x49 (73) → addresses start with 'W'
+ * - EXCHANGE_ADDRESS: [0x01, 0xB9, 0xB1] → addresses start with 'EXT'
+ * - SECRET_KEY: 0xEF (239) → WIF private keys
+ */
+export const pivxTestnet: PivxNetwork = {
+  messagePrefix: '\x18Darknet Signed Message:\n',
+  bech32: '', // PIVX doesn't use bech32 currently
+  bip32: {
+    public: 0x3a8061a0, // 'tpub' equivalent for PIVX
+    private: 0x3a805837, // 'tprv' equivalent for PIVX
+  },
+  pubKeyHash: 0x8b,
+  scriptHash: 0x13,
+  wif: 0xef,
+
+  pivxPrefixes: {
+    pubKeyHash: 0x8b, // 'x' / 'y' addresses
+    scriptHash: 0x13, // P2SH addresses
+    staking: 0x49, // 'W' addresses
+    exchange: [0x01, 0xb9, 0xb1], // 'EXT' addresses (3-byte prefix)
+  },
+};
+
+/**
+ * PIVX regtest network configuration.
+ *
+ * PIVX Core uses the testnet Base58 prefixes for regtest, so addresses and
+ * WIF keys cannot be told apart from testnet ones by their encoding alone.
+ */
+export const pivxRegtest: PivxNetwork = {
+  messagePrefix: '\x18Darknet Signed Message:\n',
+  bech32: '', // PIVX doesn't use bech32 currently
+  bip32: {
+    public: 0x3a8061a0,
+    private: 0x3a805837,
+  },
+  pubKeyHash: 0x8b,
+  scriptHash: 0x13,
+  wif: 0xef,
+
+  pivxPrefixes: {
+    pubKeyHash: 0x8b,
+    scriptHash: 0x13,
+    staking: 0x49,
+    exchange: [0x01, 0xb9, 0xb1],
+  },
+};
+
+/**
+ * Known PIVX networks, in the order they are tried by {@link detectPivxNetwork}.
+ */
+export const pivxNetworks: PivxNetwork[] = [pivx, pivxTestnet, pivxRegtest];
+
+/**
+ * Checks whether a network carries PIVX extended address prefixes.
+ *
+ * @param network - Any bitcoinjs network configuration
+ * @returns true if the network is a {@link PivxNetwork}
+ */
+export function isPivxNetwork(
+  network: Network | undefined,
+): network is PivxNetwork {
+  return (
+    !!network &&
+    typeof (network as PivxNetwork).pivxPrefixes === 'object' &&
+    (network as PivxNetwork).pivxPrefixes !== null
+  );
+}
+
+/**
+ * Checks whether a Base58Check string is a WIF private key for the network.
+ * A WIF payload is the version byte, the 32-byte key and, for compressed
+ * keys, a trailing 0x01 byte.
+ */
+function isWifForNetwork(payload: Uint8Array, network: PivxNetwork): boolean {
+  if (payload[0] !== network.wif) return false;
+  if (payload.length === 33) return true;
+  return payload.length === 34 && payload[33] === 0x01;
+}
+
+/**
+ * Detects which PIVX network an address or WIF private key belongs to.
+ *
+ * Candidate networks are tried in order and the first one whose prefixes
+ * match is returned. Because regtest shares its prefixes with testnet,
+ * regtest strings are reported as {@link pivxTestnet} unless `networks`
+ * is narrowed by the caller.
+ *
+ * @param addressOrWif - A PIVX Base58Check address (D/S/EX...) or WIF key
+ * @param networks - Candidate networks, defaults to {@link pivxNetworks}
+ * @returns The matching PIVX network configuration
+ * @throws {Error} If the string is not valid Base58Check or matches no network
+ *
+ * @example
+ * ```typescript
+ * detectPivxNetwork('D...'); // pivx
+ * detectPivxNetwork('y...'); // pivxTestnet
+ * ```
+ */
+export function detectPivxNetwork(
+  addressOrWif: string,
+  networks: PivxNetwork[] = pivxNetworks,
+): PivxNetwork {
+  const payload = bs58check.decode(addressOrWif);
+
+  for (const network of networks) {
+    if (isWifForNetwork(payload, network)) return network;
+    try {
+      parsePivxBase58Address(addressOrWif, network);
+      return network;
+    } catch (e) {}
+  }
+
+  throw new Error(`${addressOrWif} does not match any known PIVX network`);
+}
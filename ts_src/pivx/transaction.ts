@@ -0,0 +1,642 @@
+/**
+ * PIVX transaction serialization.
+ *
+ * PIVX transactions split the Bitcoin 32-bit version field into a 16-bit
+ * `nVersion` and a 16-bit `nType`. From version 3 (Sapling) onwards the
+ * transaction is followed by optional Sapling data and, for special
+ * transaction types, an optional extra payload. Transparent inputs of
+ * these transactions are signed with a Blake2b based signature hash.
+ *
+ * Reference: PIVX Core src/primitives/transaction.h - SerializeTransaction()
+ *
+ * @packageDocumentation
+ */
+import { BufferReader, BufferWriter, varuint } from '../bufferutils.js';
+import * as bcrypto from '../crypto.js';
+import { Transaction } from '../transaction.js';
+import * as types from '../types.js';
+import { blake2b } from '@noble/hashes/blake2b';
+import * as tools from 'uint8array-tools';
+import * as v from 'valibot';
+
+const EMPTY_WITNESS: Uint8Array[] = [];
+const ZERO = new Uint8Array(32);
+
+/** Serialized size of a Sapling spend description. */
+const SPEND_DESCRIPTION_SIZE = 32 + 32 + 32 + 32 + 192 + 64;
+/** Serialized size of a Sapling output description. */
+const OUTPUT_DESCRIPTION_SIZE = 32 + 32 + 32 + 580 + 80 + 192;
+/** Serialized size of the Sapling binding signature. */
+const BINDING_SIG_SIZE = 64;
+/** First opcode of the scriptSig of a (legacy) zerocoin spend input. */
+const OP_ZEROCOINSPEND = 0xc2;
+
+/**
+ * A Sapling shielded spend, as serialized by PIVX Core.
+ */
+export interface SpendDescription {
+  /** Value commitment to the spent note (32 bytes) */
+  cv: Uint8Array;
+  /** Merkle root of the Sapling note commitment tree (32 bytes) */
+  anchor: Uint8Array;
+  /** Nullifier of the spent note (32 bytes) */
+  nullifier: Uint8Array;
+  /** Randomized public key for `spendAuthSig` (32 bytes) */
+  rk: Uint8Array;
+  /** Groth16 proof (192 bytes) */
+  zkproof: Uint8Array;
+  /** Spend authorization signature (64 bytes) */
+  spendAuthSig: Uint8Array;
+}
+
+/**
+ * A Sapling shielded output, as serialized by PIVX Core.
+ */
+export interface OutputDescription {
+  /** Value commitment to the new note (32 bytes) */
+  cv: Uint8Array;
+  /** U-coordinate of the note commitment (32 bytes) */
+  cmu: Uint8Array;
+  /** Ephemeral Jubjub public key (32 bytes) */
+  ephemeralKey: Uint8Array;
+  /** Encrypted note plaintext (580 bytes) */
+  encCiphertext: Uint8Array;
+  /** Encrypted outgoing viewing data (80 bytes) */
+  outCiphertext: Uint8Array;
+  /** Groth16 proof (192 bytes) */
+  zkproof: Uint8Array;
+}
+
+/**
+ * Shielded part of a PIVX Sapling-era transaction.
+ */
+export interface SaplingTxData {
+  /** Net value of Sapling spends minus outputs, in satoshis */
+  valueBalance: bigint;
+  vShieldedSpend: SpendDescription[];
+  vShieldedOutput: OutputDescription[];
+  /** Sapling binding signature (64 bytes) */
+  bindingSig: Uint8Array;
+}
+
+/**
+ * Blake2b-256 personalizations used by the PIVX Sapling signature hash.
+ * Each is the ASCII tag zero-padded to 16 bytes.
+ *
+ * Reference: PIVX Core src/script/interpreter.cpp
+ */
+export const SAPLING_SIGHASH_PERSONALIZATIONS = {
+  prevouts: 'PIVXPrevoutHash',
+  sequence: 'PIVXSequencHash',
+  outputs: 'PIVXOutputsHash',
+  shieldedSpends: 'PIVXSSpendsHash',
+  shieldedOutputs: 'PIVXSOutputHash',
+  sigHash: 'PIVXSigHash',
+} as const;
+
+function personalizedHash(
+  personalization: string,
+  data: Uint8Array,
+): Uint8Array {
+  const personal = new Uint8Array(16);
+  personal.set(tools.fromUtf8(personalization));
+  return blake2b(data, { dkLen: 32, personalization: personal });
+}
+
+function varSliceSize(someScript: Uint8Array): number {
+  const length = someScript.length;
+
+  return varuint.encodingLength(length) + length;
+}
+
+function saplingDataSize(sapData: SaplingTxData): number {
+  return (
+    8 +
+    varuint.encodingLength(sapData.vShieldedSpend.length) +
+    sapData.vShieldedSpend.length * SPEND_DESCRIPTION_SIZE +
+    varuint.encodingLength(sapData.vShieldedOutput.length) +
+    sapData.vShieldedOutput.length * OUTPUT_DESCRIPTION_SIZE +
+    BINDING_SIG_SIZE
+  );
+}
+
+function writeFixed(
+  bufferWriter: BufferWriter,
+  slice: Uint8Array,
+  size: number,
+  name: string,
+): void {
+  if (slice.length !== size)
+    throw new TypeError(
+      `Expected ${name} of ${size} bytes, got ${slice.length}`,
+    );
+  bufferWriter.writeSlice(slice);
+}
+
+function readSaplingData(bufferReader: BufferReader): SaplingTxData {
+  const valueBalance = bufferReader.readInt64();
+
+  const vShieldedSpend: SpendDescription[] = [];
+  const spendLen = bufferReader.readVarInt();
+  for (let i = 0; i < spendLen; ++i) {
+    vShieldedSpend.push({
+      cv: bufferReader.readSlice(32),
+      anchor: bufferReader.readSlice(32),
+      nullifier: bufferReader.readSlice(32),
+      rk: bufferReader.readSlice(32),
+      zkproof: bufferReader.readSlice(192),
+      spendAuthSig: bufferReader.readSlice(64),
+    });
+  }
+
+  const vShieldedOutput: OutputDescription[] = [];
+  const outputLen = bufferReader.readVarInt();
+  for (let i = 0; i < outputLen; ++i) {
+    vShieldedOutput.push({
+      cv: bufferReader.readSlice(32),
+      cmu: bufferReader.readSlice(32),
+      ephemeralKey: bufferReader.readSlice(32),
+      encCiphertext: bufferReader.readSlice(580),
+      outCiphertext: bufferReader.readSlice(80),
+      zkproof: bufferReader.readSlice(192),
+    });
+  }
+
+  const bindingSig = bufferReader.readSlice(BINDING_SIG_SIZE);
+
+  return { valueBalance, vShieldedSpend, vShieldedOutput, bindingSig };
+}
+
+function writeSaplingData(
+  bufferWriter: BufferWriter,
+  sapData: SaplingTxData,
+): void {
+  bufferWriter.writeInt64(sapData.valueBalance);
+
+  bufferWriter.writeVarInt(sapData.vShieldedSpend.length);
+  sapData.vShieldedSpend.forEach(spend => {
+    writeFixed(bufferWriter, spend.cv, 32, 'cv');
+    writeFixed(bufferWriter, spend.anchor, 32, 'anchor');
+    writeFixed(bufferWriter, spend.nullifier, 32, 'nullifier');
+    writeFixed(bufferWriter, spend.rk, 32, 'rk');
+    writeFixed(bufferWriter, spend.zkproof, 192, 'zkproof');
+    writeFixed(bufferWriter, spend.spendAuthSig, 64, 'spendAuthSig');
+  });
+
+  bufferWriter.writeVarInt(sapData.vShieldedOutput.length);
+  sapData.vShieldedOutput.forEach(output => {
+    writeFixed(bufferWriter, output.cv, 32, 'cv');
+    writeFixed(bufferWriter, output.cmu, 32, 'cmu');
+    writeFixed(bufferWriter, output.ephemeralKey, 32, 'ephemeralKey');
+    writeFixed(bufferWriter, output.encCiphertext, 580, 'encCiphertext');
+    writeFixed(bufferWriter, output.outCiphertext, 80, 'outCiphertext');
+    writeFixed(bufferWriter, output.zkproof, 192, 'zkproof');
+  });
+
+  writeFixed(bufferWriter, sapData.bindingSig, BINDING_SIG_SIZE, 'bindingSig');
+}
+
+/**
+ * Checks whether a transaction is a Proof-of-Stake coinstake: it spends a
+ * real outpoint (or a zerocoin spend) and its first output is empty.
+ *
+ * Reference: PIVX Core src/primitives/transaction.cpp - IsCoinStake()
+ *
+ * @param tx - The transaction
+ * @returns true for coinstake transactions
+ */
+export function isCoinStake(tx: Transaction): boolean {
+  if (tx.ins.length === 0) return false;
+
+  const input = tx.ins[0];
+  const isZerocoinSpend = input.script[0] === OP_ZEROCOINSPEND;
+  if (
+    !isZerocoinSpend &&
+    Transaction.isCoinbaseHash(input.hash) &&
+    input.index === 0xffffffff
+  )
+    return false;
+
+  return (
+    tx.outs.length >= 2 &&
+    tx.outs[0].value === 0n &&
+    tx.outs[0].script.length === 0
+  );
+}
+
+/**
+ * Represents a PIVX transaction.
+ *
+ * Legacy (version 1 and 2) transactions serialize exactly like Bitcoin
+ * transactions without witness data. Version 3 transactions append an
+ * optional {@link SaplingTxData} and, when `nType` is not
+ * {@link PivxTransaction.TYPE_NORMAL}, an optional `extraPayload`.
+ *
+ * @example
+ * ```typescript
+ * const tx = PivxTransaction.fromHex(rawTxFromPivxNode);
+ * tx.getId(); // matches the node's txid
+ * tx.sapData?.vShieldedOutput.length;
+ * ```
+ */
+export class PivxTransaction extends Transaction {
+  static readonly LEGACY_VERSION = 1;
+  static readonly SAPLING_VERSION = 3;
+
+  static readonly TYPE_NORMAL = 0;
+  static readonly TYPE_PROREG = 1;
+  static readonly TYPE_PROUPSERV = 2;
+  static readonly TYPE_PROUPREG = 3;
+  static readonly TYPE_PROUPREV = 4;
+  static readonly TYPE_LLMQCOMM = 5;
+
+  static fromBuffer(buffer: Uint8Array, _NO_STRICT?: boolean): PivxTransaction {
+    const bufferReader = new BufferReader(buffer);
+
+    const tx = new PivxTransaction();
+    const header = bufferReader.readUInt32();
+    tx.version = header & 0xffff;
+    tx.nType = header >>> 16;
+
+    const vinLen = bufferReader.readVarInt();
+    for (let i = 0; i < vinLen; ++i) {
+      tx.ins.push({
+        hash: bufferReader.readSlice(32),
+        index: bufferReader.readUInt32(),
+        script: bufferReader.readVarSlice(),
+        sequence: bufferReader.readUInt32(),
+        witness: EMPTY_WITNESS,
+      });
+    }
+
+    const voutLen = bufferReader.readVarInt();
+    for (let i = 0; i < voutLen; ++i) {
+      tx.outs.push({
+        value: bufferReader.readInt64(),
+        script: bufferReader.readVarSlice(),
+      });
+    }
+
+    tx.locktime = bufferReader.readUInt32();
+
+    if (tx.isSaplingVersion()) {
+      if (bufferReader.readUInt8() !== 0)
+        tx.sapData = readSaplingData(bufferReader);
+
+      if (!tx.isNormalType() && bufferReader.readUInt8() !== 0)
+        tx.extraPayload = bufferReader.readVarSlice();
+    }
+
+    if (_NO_STRICT) return tx;
+    if (bufferReader.offset !== buffer.length)
+      throw new Error('Transaction has unexpected data');
+
+    return tx;
+  }
+
+  static fromHex(hex: string): PivxTransaction {
+    return PivxTransaction.fromBuffer(tools.fromHex(hex), false);
+  }
+
+  /** Special transaction type, serialized in the upper 16 bits of the version. */
+  nType: number = PivxTransaction.TYPE_NORMAL;
+  /** Shielded data, only serialized for Sapling-era transactions. */
+  sapData?: SaplingTxData = undefined;
+  /** Special transaction payload, only serialized for non-normal types. */
+  extraPayload?: Uint8Array = undefined;
+
+  isSaplingVersion(): boolean {
+    return this.version >= PivxTransaction.SAPLING_VERSION;
+  }
+
+  isNormalType(): boolean {
+    return this.nType === PivxTransaction.TYPE_NORMAL;
+  }
+
+  hasSaplingData(): boolean {
+    return (
+      this.sapData !== undefined &&
+      (this.sapData.vShieldedSpend.length > 0 ||
+        this.sapData.vShieldedOutput.length > 0)
+    );
+  }
+
+  /**
+   * Checks whether this is a Proof-of-Stake coinstake transaction.
+   * @see isCoinStake
+   */
+  isCoinStake(): boolean {
+    return isCoinStake(this);
+  }
+
+  hasWitnesses(): boolean {
+    return false;
+  }
+
+  byteLength(): number {
+    let length =
+      8 +
+      varuint.encodingLength(this.ins.length) +
+      varuint.encodingLength(this.outs.length) +
+      this.ins.reduce((sum, input) => {
+        return sum + 40 + varSliceSize(input.script);
+      }, 0) +
+      this.outs.reduce((sum, output) => {
+        return sum + 8 + varSliceSize(output.script);
+      }, 0);
+
+    if (this.isSaplingVersion()) {
+      length += 1;
+      if (this.sapData) length += saplingDataSize(this.sapData);
+
+      if (!this.isNormalType()) {
+        length += 1;
+        if (this.extraPayload) length += varSliceSize(this.extraPayload);
+      }
+    }
+
+    return length;
+  }
+
+  clone(): PivxTransaction {
+    const newTx = new PivxTransaction();
+    const base = super.clone();
+    newTx.version = base.version;
+    newTx.locktime = base.locktime;
+    newTx.ins = base.ins;
+    newTx.outs = base.outs;
+    newTx.nType = this.nType;
+
+    if (this.sapData) {
+      newTx.sapData = {
+        valueBalance: this.sapData.valueBalance,
+        vShieldedSpend: this.sapData.vShieldedSpend.map(spend => ({
+          ...spend,
+        })),
+        vShieldedOutput: this.sapData.vShieldedOutput.map(output => ({
+          ...output,
+        })),
+        bindingSig: this.sapData.bindingSig,
+      };
+    }
+    newTx.extraPayload = this.extraPayload;
+
+    return newTx;
+  }
+
+  /**
+   * Hash transaction for signing a specific input of a legacy transaction.
+   *
+   * Sapling-era transactions commit to input amounts and shielded data, so
+   * their transparent inputs must be signed with
+   * {@link PivxTransaction.hashForSaplingSignature} instead.
+   */
+  hashForSignature(
+    inIndex: number,
+    prevOutScript: Uint8Array,
+    hashType: number,
+  ): Uint8Array {
+    if (this.isSaplingVersion())
+      throw new Error(
+        'Sapling-era transactions must use hashForSaplingSignature',
+      );
+    return super.hashForSignature(inIndex, prevOutScript, hashType);
+  }
+
+  /**
+   * Hash transaction for signing a transparent input of a Sapling-era
+   * (version 3) transaction.
+   *
+   * This is the ZIP-243 signature hash as adapted by PIVX Core: every
+   * intermediate digest is a Blake2b-256 hash with a PIVX specific
+   * personalization (see {@link SAPLING_SIGHASH_PERSONALIZATIONS}), there
+   * are no JoinSplits, the special transaction type and payload are
+   * committed to, and the locktime and hash type follow the input being
+   * signed.
+   *
+   * Reference: PIVX Core src/script/interpreter.cpp - SignatureHash()
+   *
+   * @param inIndex - Index of the input being signed
+   * @param prevOutScript - Script code of the spent output
+   * @param value - Amount of the spent output, in satoshis
+   * @param hashType - SIGHASH flags
+   */
+  hashForSaplingSignature(
+    inIndex: number,
+    prevOutScript: Uint8Array,
+    value: bigint,
+    hashType: number,
+  ): Uint8Array {
+    v.parse(
+      v.tuple([
+        types.UInt32Schema,
+        types.BufferSchema,
+        types.SatoshiSchema,
+        types.UInt32Schema,
+      ]),
+      [inIndex, prevOutScript, value, hashType],
+    );
+    if (inIndex >= this.ins.length)
+      throw new RangeError('Input index out of range');
+
+    let bufferWriter: BufferWriter;
+
+    let hashPrevouts = ZERO;
+    let hashSequence = ZERO;
+    let hashOutputs = ZERO;
+    let hashShieldedSpends = ZERO;
+    let hashShieldedOutputs = ZERO;
+
+    const baseType = hashType & 0x1f;
+    const isAnyoneCanPay = !!(hashType & Transaction.SIGHASH_ANYONECANPAY);
+
+    if (!isAnyoneCanPay) {
+      bufferWriter = BufferWriter.withCapacity(36 * this.ins.length);
+      this.ins.forEach(txIn => {
+        bufferWriter.writeSlice(txIn.hash);
+        bufferWriter.writeUInt32(txIn.index);
+      });
+      hashPrevouts = personalizedHash(
+        SAPLING_SIGHASH_PERSONALIZATIONS.prevouts,
+        bufferWriter.end(),
+      );
+    }
+
+    if (
+      !isAnyoneCanPay &&
+      baseType !== Transaction.SIGHASH_SINGLE &&
+      baseType !== Transaction.SIGHASH_NONE
+    ) {
+      bufferWriter = BufferWriter.withCapacity(4 * this.ins.length);
+      this.ins.forEach(txIn => bufferWriter.writeUInt32(txIn.sequence));
+      hashSequence = personalizedHash(
+        SAPLING_SIGHASH_PERSONALIZATIONS.sequence,
+        bufferWriter.end(),
+      );
+    }
+
+    if (
+      baseType !== Transaction.SIGHASH_SINGLE &&
+      baseType !== Transaction.SIGHASH_NONE
+    ) {
+      bufferWriter = BufferWriter.withCapacity(
+        this.outs.reduce((sum, out) => sum + 8 + varSliceSize(out.script), 0),
+      );
+      this.outs.forEach(out => {
+        bufferWriter.writeInt64(out.value);
+        bufferWriter.writeVarSlice(out.script);
+      });
+      hashOutputs = personalizedHash(
+        SAPLING_SIGHASH_PERSONALIZATIONS.outputs,
+        bufferWriter.end(),
+      );
+    } else if (
+      baseType === Transaction.SIGHASH_SINGLE &&
+      inIndex < this.outs.length
+    ) {
+      const output = this.outs[inIndex];
+      bufferWriter = BufferWriter.withCapacity(8 + varSliceSize(output.script));
+      bufferWriter.writeInt64(output.value);
+      bufferWriter.writeVarSlice(output.script);
+      hashOutputs = personalizedHash(
+        SAPLING_SIGHASH_PERSONALIZATIONS.outputs,
+        bufferWriter.end(),
+      );
+    }
+
+    const sapData = this.sapData;
+    if (sapData && sapData.vShieldedSpend.length > 0) {
+      // spendAuthSig is excluded, it signs this very hash
+      bufferWriter = BufferWriter.withCapacity(
+        sapData.vShieldedSpend.length * (SPEND_DESCRIPTION_SIZE - 64),
+      );
+      sapData.vShieldedSpend.forEach(spend => {
+        bufferWriter.writeSlice(spend.cv);
+        bufferWriter.writeSlice(spend.anchor);
+        bufferWriter.writeSlice(spend.nullifier);
+        bufferWriter.writeSlice(spend.rk);
+        bufferWriter.writeSlice(spend.zkproof);
+      });
+      hashShieldedSpends = personalizedHash(
+        SAPLING_SIGHASH_PERSONALIZATIONS.shieldedSpends,
+        bufferWriter.end(),
+      );
+    }
+
+    if (sapData && sapData.vShieldedOutput.length > 0) {
+      bufferWriter = BufferWriter.withCapacity(
+        sapData.vShieldedOutput.length * OUTPUT_DESCRIPTION_SIZE,
+      );
+      sapData.vShieldedOutput.forEach(output => {
+        bufferWriter.writeSlice(output.cv);
+        bufferWriter.writeSlice(output.cmu);
+        bufferWriter.writeSlice(output.ephemeralKey);
+        bufferWriter.writeSlice(output.encCiphertext);
+        bufferWriter.writeSlice(output.outCiphertext);
+        bufferWriter.writeSlice(output.zkproof);
+      });
+      hashShieldedOutputs = personalizedHash(
+        SAPLING_SIGHASH_PERSONALIZATIONS.shieldedOutputs,
+        bufferWriter.end(),
+      );
+    }
+
+    const extraPayload = this.isNormalType()
+      ? undefined
+      : this.extraPayload || new Uint8Array(0);
+    const input = this.ins[inIndex];
+
+    bufferWriter = BufferWriter.withCapacity(
+      4 +
+        32 * 5 +
+        (extraPayload ? varSliceSize(extraPayload) : 0) +
+        4 +
+        8 +
+        4 +
+        36 +
+        varSliceSize(prevOutScript) +
+        8 +
+        4,
+    );
+    bufferWriter.writeUInt32(this.nType * 0x10000 + this.version);
+    bufferWriter.writeSlice(hashPrevouts);
+    bufferWriter.writeSlice(hashSequence);
+    bufferWriter.writeSlice(hashOutputs);
+    bufferWriter.writeSlice(hashShieldedSpends);
+    bufferWriter.writeSlice(hashShieldedOutputs);
+    bufferWriter.writeInt64(sapData ? sapData.valueBalance : 0n);
+    if (extraPayload) bufferWriter.writeVarSlice(extraPayload);
+    bufferWriter.writeSlice(input.hash);
+    bufferWriter.writeUInt32(input.index);
+    bufferWriter.writeVarSlice(prevOutScript);
+    bufferWriter.writeInt64(value);
+    bufferWriter.writeUInt32(input.sequence);
+    bufferWriter.writeUInt32(this.locktime);
+    bufferWriter.writeUInt32(hashType);
+
+    return personalizedHash(
+      SAPLING_SIGHASH_PERSONALIZATIONS.sigHash,
+      bufferWriter.end(),
+    );
+  }
+
+  /**
+   * PIVX has no segregated witness, so the transaction hash always covers
+   * the full serialization, including Sapling data and the extra payload.
+   */
+  getHash(): Uint8Array {
+    return bcrypto.hash256(this.toBuffer());
+  }
+
+  toBuffer(buffer?: Uint8Array, initialOffset?: number): Uint8Array {
+    if (this.version < 0 || this.version > 0x7fff)
+      throw new TypeError('PIVX transaction version must fit in 16 bits');
+    if (this.nType < 0 || this.nType > 0x7fff)
+      throw new TypeError('PIVX transaction type must fit in 16 bits');
+
+    if (!buffer) buffer = new Uint8Array(this.byteLength());
+
+    const bufferWriter = new BufferWriter(buffer, initialOffset || 0);
+
+    bufferWriter.writeUInt32(this.nType * 0x10000 + this.version);
+
+    bufferWriter.writeVarInt(this.ins.length);
+    this.ins.forEach(txIn => {
+      bufferWriter.writeSlice(txIn.hash);
+      bufferWriter.writeUInt32(txIn.index);
+      bufferWriter.writeVarSlice(txIn.script);
+      bufferWriter.writeUInt32(txIn.sequence);
+    });
+
+    bufferWriter.writeVarInt(this.outs.length);
+    this.outs.forEach(txOut => {
+      bufferWriter.writeInt64(txOut.value);
+      bufferWriter.writeVarSlice(txOut.script);
+    });
+
+    bufferWriter.writeUInt32(this.locktime);
+
+    if (this.isSaplingVersion()) {
+      if (this.sapData) {
+        bufferWriter.writeUInt8(1);
+        writeSaplingData(bufferWriter, this.sapData);
+      } else {
+        bufferWriter.writeUInt8(0);
+      }
+
+      if (!this.isNormalType()) {
+        if (this.extraPayload) {
+          bufferWriter.writeUInt8(1);
+          bufferWriter.writeVarSlice(this.extraPayload);
+        } else {
+          bufferWriter.writeUInt8(0);
+        }
+      }
+    }
+
+    // avoid slicing unless necessary
+    if (initialOffset !== undefined)
+      return buffer.slice(initialOffset, bufferWriter.offset);
+    return buffer;
+  }
+}
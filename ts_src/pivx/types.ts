@@ -1,6 +1,6 @@
 /**
  * Extended network configuration for PIVX and other networks with multi-byte address prefixes.
- * 
+ *
  * @packageDocumentation
  */
 import { Network } from '../networks.js';
@@ -51,3 +51,34 @@ export interface ParsedPivxAddress {
   /** The address hash (typically 20 bytes) */
   hash: Uint8Array;
 }
+
+/**
+ * Output script templates that pay to a PIVX address.
+ * - 'p2pkh': OP_DUP OP_HASH160 <hash> OP_EQUALVERIFY OP_CHECKSIG
+ * - 'p2sh': OP_HASH160 <hash> OP_EQUAL
+ * - 'exchange': OP_EXCHANGEADDR followed by a P2PKH script
+ * - 'p2cs': cold staking script committing to a staker and an owner hash
+ */
+export type PivxScriptType = 'p2pkh' | 'p2sh' | 'exchange' | 'p2cs';
+
+/**
+ * Options for rendering an output script as a PIVX address.
+ */
+export interface PivxOutputScriptToAddressOptions {
+  /**
+   * Render the staking side of the script: P2PKH scripts become staking
+   * (S-prefixed) addresses and cold staking scripts return the staker
+   * instead of the owner.
+   */
+  preferStaking?: boolean;
+}
+
+/**
+ * Result of rendering an output script as a PIVX address.
+ */
+export interface PivxOutputScriptAddress extends ParsedPivxAddress {
+  /** The Base58Check-encoded address */
+  address: string;
+  /** The output script template the address was recovered from */
+  scriptType: PivxScriptType;
+}
@@ -0,0 +1,405 @@
+/**
+ * Relay policy: the standardness rules nodes apply to unconfirmed
+ * transactions on top of consensus, following Bitcoin Core's `IsStandardTx`,
+ * `AreInputsStandard` and `IsWitnessStandard`.
+ *
+ * Nodes only relay and mine standard transactions by default, so a
+ * transaction breaking these rules is rejected with the reason reported in
+ * each {@link PolicyViolation}. Policies differ between chains, see
+ * {@link bitcoin} and {@link pivx}.
+ *
+ * @packageDocumentation
+ */
+import { dustThreshold } from './coinselect.js';
+import { PrevOutput } from './interpreter.js';
+import { OPS } from './ops.js';
+import * as payments from './payments/index.js';
+import {
+  isP2CS,
+  isP2MS,
+  isP2PK,
+  isP2PKH,
+  isP2PKHExchange,
+  isP2SHScript,
+} from './psbt/psbtutils.js';
+import * as bscript from './script.js';
+import { countP2SHSigOps, getTransactionSigOpCost } from './sigops.js';
+import { Transaction } from './transaction.js';
+
+/** Relay policy limits of a node. */
+export interface Policy {
+  /** Highest standard transaction version */
+  maxVersion: number;
+  /** Highest standard transaction weight */
+  maxWeight: number;
+  /** Smallest standard size of the transaction without its witnesses */
+  minNonWitnessSize: number;
+  /** Largest standard scriptSig size */
+  maxScriptSigSize: number;
+  /** Fee rate defining dust outputs, in satoshis per virtual byte */
+  dustRelayFeeRate: number;
+  /** Largest standard OP_RETURN output script, OP_RETURN included */
+  maxDataCarrierSize: number;
+  /** Whether bare multisig outputs, of up to 3 keys, are standard */
+  permitBareMultisig: boolean;
+  /** Highest number of signature operations in a p2sh redeem script */
+  maxP2SHSigOps: number;
+  /** Highest sigop cost of a transaction */
+  maxSigOpsCost: number;
+  /** Whether witness programs and witnesses are standard */
+  witness: boolean;
+  /** Whether PIVX cold staking outputs are standard */
+  coldStaking: boolean;
+  /** Whether PIVX exchange address outputs are standard */
+  exchangeAddresses: boolean;
+}
+
+/** Bitcoin Core's reject reasons. */
+export type PolicyViolationCode =
+  | 'version'
+  | 'tx-size'
+  | 'tx-size-small'
+  | 'scriptsig-size'
+  | 'scriptsig-not-pushonly'
+  | 'scriptpubkey'
+  | 'bare-multisig'
+  | 'dust'
+  | 'multi-op-return'
+  | 'bad-txns-nonstandard-inputs'
+  | 'bad-txns-too-many-sigops'
+  | 'bad-witness-nonstandard';
+
+export interface PolicyViolation {
+  code: PolicyViolationCode;
+  message: string;
+  /** Index of the offending input */
+  input?: number;
+  /** Index of the offending output */
+  output?: number;
+}
+
+export interface StandardResult {
+  standard: boolean;
+  violations: PolicyViolation[];
+}
+
+/** Bitcoin Core's default policy. */
+export const bitcoin: Policy = {
+  maxVersion: 3,
+  maxWeight: 400000,
+  // 64 bytes transactions can be confused with merkle tree nodes
+  minNonWitnessSize: 65,
+  maxScriptSigSize: 1650,
+  dustRelayFeeRate: 3,
+  maxDataCarrierSize: 83,
+  permitBareMultisig: true,
+  maxP2SHSigOps: 15,
+  maxSigOpsCost: 16000,
+  witness: true,
+  coldStaking: false,
+  exchangeAddresses: false,
+};
+
+/** PIVX Core's default policy. */
+export const pivx: Policy = {
+  // Sapling transactions
+  maxVersion: 3,
+  // transactions of 100000 bytes or more are not standard
+  maxWeight: 4 * 99999,
+  minNonWitnessSize: 0,
+  maxScriptSigSize: 1650,
+  // three times the 10 satoshis per byte relay fee of spending the output
+  dustRelayFeeRate: 30,
+  maxDataCarrierSize: 83,
+  permitBareMultisig: true,
+  maxP2SHSigOps: 15,
+  // 8000 signature operations, a fifth of the block limit
+  maxSigOpsCost: 4 * 8000,
+  witness: false,
+  coldStaking: true,
+  exchangeAddresses: true,
+};
+
+const MAX_BARE_MULTISIG_KEYS = 3;
+const MAX_STANDARD_P2WSH_SCRIPT_SIZE = 3600;
+const MAX_STANDARD_P2WSH_STACK_ITEMS = 100;
+const MAX_STANDARD_P2WSH_STACK_ITEM_SIZE = 80;
+const MAX_STANDARD_TAPSCRIPT_STACK_ITEM_SIZE = 80;
+const TAPROOT_LEAF_MASK = 0xfe;
+const TAPROOT_LEAF_TAPSCRIPT = 0xc0;
+const ANNEX_TAG = 0x50;
+
+type OutputType =
+  | 'nonstandard'
+  | 'nulldata'
+  | 'multisig'
+  | 'scripthash'
+  | 'witness_unknown'
+  | 'standard';
+
+function decodeWitnessProgram(
+  script: Uint8Array,
+): { version: number; program: Uint8Array } | undefined {
+  if (script.length < 4 || script.length > 42) return;
+  if (script[0] !== OPS.OP_0 && (script[0] < OPS.OP_1 || script[0] > OPS.OP_16))
+    return;
+  if (script[1] + 2 !== script.length) return;
+  return {
+    version: script[0] === OPS.OP_0 ? 0 : script[0] - OPS.OP_1 + 1,
+    program: script.slice(2),
+  };
+}
+
+/**
+ * Bitcoin Core's `Solver`, reduced to what the policy checks need.
+ */
+function getOutputType(script: Uint8Array, policy: Policy): OutputType {
+  if (isP2SHScript(script)) return 'scripthash';
+  const witnessProgram = decodeWitnessProgram(script);
+  if (witnessProgram) {
+    if (!policy.witness) return 'nonstandard';
+    const { version, program } = witnessProgram;
+    if (version === 0 && (program.length === 20 || program.length === 32))
+      return 'standard';
+    if (version === 1 && program.length === 32) return 'standard';
+    // reserved for soft forks, spendable by anyone until then
+    return version === 0 ? 'nonstandard' : 'witness_unknown';
+  }
+  if (script[0] === OPS.OP_RETURN) {
+    const chunks = bscript.decompile(script.subarray(1));
+    return chunks && bscript.isPushOnly(chunks) ? 'nulldata' : 'nonstandard';
+  }
+  if (isP2PK(script) || isP2PKH(script)) return 'standard';
+  if (isP2MS(script)) return 'multisig';
+  if (policy.coldStaking && isP2CS(script)) return 'standard';
+  if (policy.exchangeAddresses && isP2PKHExchange(script)) return 'standard';
+  return 'nonstandard';
+}
+
+/**
+ * The last item pushed by a push only scriptSig, such as the redeem script
+ * of p2sh inputs.
+ */
+function lastPush(scriptSig: Uint8Array): Uint8Array | undefined {
+  const chunks = bscript.decompile(scriptSig);
+  if (!chunks || chunks.length === 0 || !bscript.isPushOnly(chunks)) return;
+  const last = chunks[chunks.length - 1];
+  // small numbers are no script worth checking
+  return typeof last === 'number' ? new Uint8Array(0) : last;
+}
+
+function checkOutputs(
+  tx: Transaction,
+  policy: Policy,
+  violations: PolicyViolation[],
+): void {
+  let dataOutputs = 0;
+  tx.outs.forEach((output, index) => {
+    const type = getOutputType(output.script, policy);
+    if (type === 'nonstandard') {
+      violations.push({
+        code: 'scriptpubkey',
+        message: `Output #${index} has a non-standard script`,
+        output: index,
+      });
+      return;
+    }
+    if (type === 'nulldata') {
+      dataOutputs++;
+      if (output.script.length > policy.maxDataCarrierSize)
+        violations.push({
+          code: 'scriptpubkey',
+          message: `Output #${index} carries more than ${policy.maxDataCarrierSize} bytes`,
+          output: index,
+        });
+      // data outputs are unspendable, they can not be dust
+      return;
+    }
+    if (type === 'multisig') {
+      const { m, n } = payments.p2ms({ output: output.script });
+      if (n! > MAX_BARE_MULTISIG_KEYS)
+        violations.push({
+          code: 'scriptpubkey',
+          message: `Output #${index} is a ${m}-of-${n} bare multisig, at most 3 keys are standard`,
+          output: index,
+        });
+      else if (!policy.permitBareMultisig)
+        violations.push({
+          code: 'bare-multisig',
+          message: `Output #${index} is a bare multisig`,
+          output: index,
+        });
+    }
+    const dust = dustThreshold(output.script, policy.dustRelayFeeRate);
+    if (output.value < dust)
+      violations.push({
+        code: 'dust',
+        message: `Output #${index} is dust, worth less than ${dust} satoshis`,
+        output: index,
+      });
+  });
+  if (dataOutputs > 1)
+    violations.push({
+      code: 'multi-op-return',
+      message: `${dataOutputs} OP_RETURN outputs, only one is standard`,
+    });
+}
+
+function checkInputs(
+  tx: Transaction,
+  prevOutputs: PrevOutput[],
+  policy: Policy,
+  violations: PolicyViolation[],
+): void {
+  tx.ins.forEach((input, index) => {
+    const nonStandard = (message: string): void => {
+      violations.push({
+        code: 'bad-txns-nonstandard-inputs',
+        message: `Input #${index} ${message}`,
+        input: index,
+      });
+    };
+    const badWitness = (message: string): void => {
+      violations.push({
+        code: 'bad-witness-nonstandard',
+        message: `Input #${index} ${message}`,
+        input: index,
+      });
+    };
+
+    let prevScript = prevOutputs[index].script;
+    const type = getOutputType(prevScript, policy);
+    if (type === 'nonstandard' || type === 'witness_unknown')
+      return nonStandard('spends a non-standard output');
+    const p2sh = type === 'scripthash';
+    if (p2sh) {
+      const redeemScript = lastPush(input.script);
+      if (!redeemScript) return nonStandard('has no redeem script');
+      const sigOps = countP2SHSigOps(prevScript, input.script);
+      if (sigOps > policy.maxP2SHSigOps)
+        nonStandard(
+          `has ${sigOps} signature operations in its redeem script, at most ${policy.maxP2SHSigOps} are standard`,
+        );
+      prevScript = redeemScript;
+    }
+
+    const { witness } = input;
+    if (witness.length === 0) return;
+    const witnessProgram = decodeWitnessProgram(prevScript);
+    if (!policy.witness || !witnessProgram)
+      return badWitness('has a witness but spends no witness program');
+    const { version, program } = witnessProgram;
+    if (version === 0 && program.length === 32) {
+      const script = witness[witness.length - 1];
+      const stack = witness.slice(0, -1);
+      if (script.length > MAX_STANDARD_P2WSH_SCRIPT_SIZE)
+        badWitness(
+          `has a ${script.length} bytes witness script, at most ${MAX_STANDARD_P2WSH_SCRIPT_SIZE} are standard`,
+        );
+      if (stack.length > MAX_STANDARD_P2WSH_STACK_ITEMS)
+        badWitness(
+          `has ${stack.length} witness items, at most ${MAX_STANDARD_P2WSH_STACK_ITEMS} are standard`,
+        );
+      if (stack.some(item => item.length > MAX_STANDARD_P2WSH_STACK_ITEM_SIZE))
+        badWitness(
+          `has a witness item larger than ${MAX_STANDARD_P2WSH_STACK_ITEM_SIZE} bytes`,
+        );
+    }
+    // taproot can not be nested in p2sh
+    if (version === 1 && program.length === 32 && !p2sh) {
+      const last = witness[witness.length - 1];
+      if (witness.length >= 2 && last.length > 0 && last[0] === ANNEX_TAG)
+        return badWitness('has an annex');
+      const controlBlock = last;
+      if (
+        witness.length >= 2 &&
+        (controlBlock[0] & TAPROOT_LEAF_MASK) === TAPROOT_LEAF_TAPSCRIPT &&
+        witness
+          .slice(0, -2)
+          .some(item => item.length > MAX_STANDARD_TAPSCRIPT_STACK_ITEM_SIZE)
+      )
+        badWitness(
+          `has a tapscript witness item larger than ${MAX_STANDARD_TAPSCRIPT_STACK_ITEM_SIZE} bytes`,
+        );
+    }
+  });
+}
+
+/**
+ * Checks whether a transaction is standard, and would be relayed by nodes
+ * following a policy.
+ *
+ * Only the transaction itself is checked without the outputs it spends.
+ * With them, the inputs are checked too: the type of the spent outputs, the
+ * signature operations of p2sh redeem scripts, the witness limits and the
+ * sigop cost of the transaction.
+ *
+ * @param tx - The transaction to check
+ * @param prevOutputs - The outputs spent by the transaction, in input order
+ * @param policy - The policy to check, defaults to Bitcoin Core's
+ * @returns Every violation of the policy
+ * @throws {Error} If the previous outputs do not match the inputs
+ *
+ * @example
+ * ```typescript
+ * const { standard, violations } = policy.isStandard(tx, prevOutputs);
+ * if (!standard) console.log(violations.map(v => v.message));
+ * ```
+ */
+export function isStandard(
+  tx: Transaction,
+  prevOutputs?: PrevOutput[],
+  policy: Policy = bitcoin,
+): StandardResult {
+  if (prevOutputs && prevOutputs.length !== tx.ins.length)
+    throw new Error(
+      `Expected ${tx.ins.length} previous outputs, got ${prevOutputs.length}`,
+    );
+  const violations: PolicyViolation[] = [];
+
+  if (tx.version < 1 || tx.version > policy.maxVersion)
+    violations.push({
+      code: 'version',
+      message: `Version ${tx.version} is not standard, expected 1 to ${policy.maxVersion}`,
+    });
+  const weight = tx.weight();
+  if (weight > policy.maxWeight)
+    violations.push({
+      code: 'tx-size',
+      message: `Weight of ${weight} is above ${policy.maxWeight}`,
+    });
+  const size = tx.byteLength(false);
+  if (size < policy.minNonWitnessSize)
+    violations.push({
+      code: 'tx-size-small',
+      message: `Size without witnesses of ${size} bytes is below ${policy.minNonWitnessSize}`,
+    });
+
+  tx.ins.forEach((input, index) => {
+    if (input.script.length > policy.maxScriptSigSize)
+      violations.push({
+        code: 'scriptsig-size',
+        message: `Input #${index} has a ${input.script.length} bytes scriptSig, at most ${policy.maxScriptSigSize} are standard`,
+        input: index,
+      });
+    const chunks = bscript.decompile(input.script);
+    if (!chunks || !bscript.isPushOnly(chunks))
+      violations.push({
+        code: 'scriptsig-not-pushonly',
+        message: `Input #${index} has a scriptSig that is not push only`,
+        input: index,
+      });
+  });
+  checkOutputs(tx, policy, violations);
+  if (prevOutputs) {
+    checkInputs(tx, prevOutputs, policy, violations);
+    const sigOpsCost = getTransactionSigOpCost(tx, prevOutputs);
+    if (sigOpsCost > policy.maxSigOpsCost)
+      violations.push({
+        code: 'bad-txns-too-many-sigops',
+        message: `Sigop cost of ${sigOpsCost} is above ${policy.maxSigOpsCost}`,
+      });
+  }
+
+  return { standard: violations.length === 0, violations };
+}
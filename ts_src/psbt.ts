@@ -1,7 +1,9 @@
 import { Psbt as PsbtBase } from 'bip174';
+import bs58check from 'bs58check';
 import * as varuint from 'varuint-bitcoin';
 import {
   Bip32Derivation,
+  GlobalXpub,
   KeyValue,
   PartialSig,
   PsbtGlobalUpdate,
@@ -18,8 +20,13 @@ import {
 import { checkForInput, checkForOutput } from 'bip174';
 import { fromOutputScript, toOutputScript } from './address.js';
 import { cloneBuffer, reverseBuffer } from './bufferutils.js';
+import * as bcrypto from './crypto.js';
+import * as interpreter from './interpreter.js';
+import * as musig2 from './musig2.js';
+import { Musig2KeyAggContext, Musig2Signer } from './musig2.js';
 import { bitcoin as btcNetwork, Network } from './networks.js';
 import * as payments from './payments/index.js';
+import { isPivxNetwork } from './pivx/network.js';
 import { tapleafHash } from './payments/bip341.js';
 import * as bscript from './script.js';
 import { Output, Transaction } from './transaction.js';
@@ -31,10 +38,42 @@ import {
   checkTaprootInputFields,
   checkTaprootOutputFields,
   checkTaprootInputForSigs,
+  getTaprootInputSigHashTypes,
 } from './psbt/bip371.js';
+import {
+  PsbtV2Fields,
+  PsbtV2Input,
+  TX_MODIFIABLE,
+  checkPsbtV0Fields,
+  checkRequiredLocktimes,
+  checkSighashSinglePairs,
+  determineLocktime,
+  getPsbtVersion,
+  psbtV0ToV2,
+  psbtV2ToV0,
+  updateTxModifiable,
+} from './psbt/bip370.js';
+import {
+  Musig2InputFields,
+  Musig2PartialSig,
+  Musig2Participants,
+  Musig2PubNonce,
+  clearMusig2Fields,
+  decodeMusig2Fields,
+  encodeMusig2Participants,
+  encodeMusig2PartialSig,
+  encodeMusig2PubNonce,
+  setMusig2KeyVal,
+} from './psbt/bip373.js';
+import {
+  ProprietaryKeyVal,
+  decodeProprietaryKeyVals,
+  encodeProprietaryKeyVal,
+} from './psbt/proprietary.js';
 import {
   witnessStackToScriptWitness,
   checkInputForSig,
+  getInputSigHashTypes,
   pubkeyInScript,
   isP2MS,
   isP2PK,
@@ -43,15 +82,37 @@ import {
   isP2WSHScript,
   isP2SHScript,
   isP2TR,
+  isP2CS,
+  isP2PKHExchange,
 } from './psbt/psbtutils.js';
 import * as tools from 'uint8array-tools';
 
-export { toXOnly };
+export { toXOnly, TX_MODIFIABLE };
+export {
+  Musig2InputFields,
+  Musig2PartialSig,
+  Musig2Participants,
+  Musig2PubNonce,
+  ProprietaryKeyVal,
+};
+
+/** A PSBT_GLOBAL_XPUB entry: an extended public key and its origin. */
+export interface PsbtGlobalXpub {
+  /** The base58 encoded extended public key */
+  xpub: string;
+  masterFingerprint: Uint8Array;
+  /** Derivation path from the master key, such as `m/48'/0'/0'/2'` */
+  path: string;
+}
 
 export interface TransactionInput {
   hash: string | Uint8Array;
   index: number;
   sequence?: number;
+  /** Locktime timestamp the input requires, PSBT version 2 only */
+  requiredTimeLocktime?: number;
+  /** Locktime height the input requires, PSBT version 2 only */
+  requiredHeightLocktime?: number;
 }
 
 export interface PsbtTxInput extends TransactionInput {
@@ -81,6 +142,7 @@ const DEFAULT_OPTS: PsbtOpts = {
   /**
    * A bitcoinjs Network object. This is only used if you pass an `address`
    * parameter to addOutput. Otherwise it is not needed and can be left default.
+   * PIVX networks also accept staking and exchange addresses.
    */
   network: btcNetwork,
   /**
@@ -127,6 +189,28 @@ const DEFAULT_OPTS: PsbtOpts = {
  *
  * Transaction Extractor: This role will perform some checks before returning a
  *   Transaction object. Such as fee rate not being larger than maximumFeeRate etc.
+ *
+ * PSBT version 2 (BIP370): fromBuffer parses both versions, and
+ *   `psbt.setPsbtVersion(2)` converts a PSBT to version 2, where inputs can
+ *   require a locktime and `txModifiable` tells whether inputs and outputs can
+ *   still be added. The unsigned transaction stays the model of both versions,
+ *   its locktime being determined from the required locktimes of the inputs,
+ *   so converting back and forth changes no signature.
+ *
+ * MuSig2 (BIP373): for taproot inputs whose internal key aggregates the keys
+ *   of several participants, `psbt.addMusig2Participants(index, pubkeys)`
+ *   records the participants, each of whom calls
+ *   `psbt.generateMusig2Nonce(index, signer)` and, once all nonces are
+ *   combined, `psbt.signMusig2Input(index, signer)`. Finalizing aggregates
+ *   the partial signatures into the key path signature.
+ *
+ * Global xpubs and proprietary fields: `psbt.addGlobalXpub(xpub,
+ *   fingerprint, path)` records the extended public keys of the signers,
+ *   as hardware wallets expect for multisig. Vendor-specific data goes in
+ *   proprietary (0xFC) key-value pairs, keyed by an identifier prefix, a
+ *   subtype and key data, with `psbt.addProprietaryKeyValToGlobal(keyVal)`
+ *   and the input and output equivalents. Both are kept when combining and
+ *   serializing.
  */
 export class Psbt {
   static fromBase64(data: string, opts: PsbtOptsOptional = {}): Psbt {
@@ -140,9 +224,26 @@ export class Psbt {
   }
 
   static fromBuffer(buffer: Uint8Array, opts: PsbtOptsOptional = {}): Psbt {
-    const psbtBase = PsbtBase.fromBuffer(buffer, transactionFromBuffer);
+    const psbtVersion = getPsbtVersion(buffer);
+    if (psbtVersion !== 0 && psbtVersion !== 2)
+      throw new Error(`Unsupported PSBT version: ${psbtVersion}`);
+    const v2 = psbtVersion === 2 ? psbtV2ToV0(buffer) : undefined;
+    const psbtBase = PsbtBase.fromBuffer(
+      v2 ? v2.buffer : buffer,
+      transactionFromBuffer,
+    );
+    if (!v2)
+      checkPsbtV0Fields(
+        psbtBase.globalMap.unknownKeyVals || [],
+        psbtBase.inputs.map(input => input.unknownKeyVals || []),
+        psbtBase.outputs.map(output => output.unknownKeyVals || []),
+      );
     const psbt = new Psbt(opts, psbtBase);
     checkTxForDupeIns(psbt.__CACHE.__TX, psbt.__CACHE);
+    if (v2) {
+      psbt.__CACHE.__PSBT_VERSION = 2;
+      psbt.__CACHE.__V2_FIELDS = v2.fields;
+    }
     return psbt;
   }
 
@@ -155,11 +256,12 @@ export class Psbt {
   ) {
     // set defaults
     this.opts = Object.assign({}, DEFAULT_OPTS, opts);
+    const tx = (this.data.globalMap.unsignedTx as PsbtTransaction).tx;
     this.__CACHE = {
       __NON_WITNESS_UTXO_TX_CACHE: [],
       __NON_WITNESS_UTXO_BUF_CACHE: [],
       __TX_IN_CACHE: {},
-      __TX: (this.data.globalMap.unsignedTx as PsbtTransaction).tx,
+      __TX: tx,
       // Psbt's predecessor (TransactionBuilder - now removed) behavior
       // was to not confirm input values  before signing.
       // Even though we highly encourage people to get
@@ -169,6 +271,12 @@ export class Psbt {
       // We will disable exporting the Psbt when unsafe sign is active.
       // because it is not BIP174 compliant.
       __UNSAFE_SIGN_NONSEGWIT: false,
+      __PSBT_VERSION: 0,
+      __V2_FIELDS: {
+        txModifiable: txModifiableFromSigs(this.data.inputs),
+        fallbackLocktime: tx.locktime !== 0 ? tx.locktime : undefined,
+        inputs: this.data.inputs.map(() => ({})),
+      },
     };
     if (this.data.inputs.length === 0) this.setVersion(2);
 
@@ -207,12 +315,26 @@ export class Psbt {
     this.setLocktime(locktime);
   }
 
+  get psbtVersion(): number {
+    return this.__CACHE.__PSBT_VERSION;
+  }
+
+  get txModifiable(): number {
+    return this.__CACHE.__V2_FIELDS.txModifiable || 0;
+  }
+
   get txInputs(): PsbtTxInput[] {
-    return this.__CACHE.__TX.ins.map(input => ({
-      hash: cloneBuffer(input.hash),
-      index: input.index,
-      sequence: input.sequence,
-    }));
+    const { inputs } = this.__CACHE.__V2_FIELDS;
+    return this.__CACHE.__TX.ins.map((input, i) => {
+      const { requiredTimeLocktime, requiredHeightLocktime } = inputs[i];
+      return {
+        hash: cloneBuffer(input.hash),
+        index: input.index,
+        sequence: input.sequence,
+        ...(requiredTimeLocktime !== undefined && { requiredTimeLocktime }),
+        ...(requiredHeightLocktime !== undefined && { requiredHeightLocktime }),
+      };
+    });
   }
 
   get txOutputs(): PsbtTxOutput[] {
@@ -230,7 +352,20 @@ export class Psbt {
   }
 
   combine(...those: Psbt[]): this {
+    const c = this.__CACHE;
+    if (those.some(o => o.__CACHE.__PSBT_VERSION !== c.__PSBT_VERSION))
+      throw new Error('Can not combine PSBTs of different versions');
     this.data.combine(...those.map(o => o.data));
+    // inputs and outputs stay modifiable only if they are in every PSBT and
+    // the merged signatures allow it, while any HAS_SIGHASH_SINGLE remains
+    const all = [this, ...those];
+    const flags = all.map(o => o.txModifiable);
+    c.__V2_FIELDS.txModifiable =
+      (flags.reduce((a, b) => a & b) & txModifiableFromSigs(this.data.inputs)) |
+      (flags.reduce((a, b) => a | b) & TX_MODIFIABLE.HAS_SIGHASH_SINGLE);
+    c.__V2_FIELDS.inputs = c.__V2_FIELDS.inputs.map((_, i) =>
+      Object.assign({}, ...all.map(o => o.__CACHE.__V2_FIELDS.inputs[i])),
+    );
     return this;
   }
 
@@ -238,6 +373,12 @@ export class Psbt {
     // TODO: more efficient cloning
     const res = Psbt.fromBuffer(this.data.toBuffer());
     res.opts = JSON.parse(JSON.stringify(this.opts));
+    const fields = this.__CACHE.__V2_FIELDS;
+    res.__CACHE.__PSBT_VERSION = this.__CACHE.__PSBT_VERSION;
+    res.__CACHE.__V2_FIELDS = {
+      ...fields,
+      inputs: fields.inputs.map(input => ({ ...input })),
+    };
     return res;
   }
 
@@ -246,10 +387,37 @@ export class Psbt {
     this.opts.maximumFeeRate = satoshiPerByte;
   }
 
+  /**
+   * Converts the PSBT to version 0 (BIP174) or 2 (BIP370). The locktimes
+   * required by inputs and the TX_MODIFIABLE flags are kept when converting
+   * to version 0, which only serializes the locktime they determine.
+   */
+  setPsbtVersion(psbtVersion: number): this {
+    if (psbtVersion !== 0 && psbtVersion !== 2)
+      throw new Error(`Unsupported PSBT version: ${psbtVersion}`);
+    if (psbtVersion === 2 && this.version < 2)
+      throw new Error('PSBT version 2 requires a transaction version of 2');
+    this.__CACHE.__PSBT_VERSION = psbtVersion;
+    return this;
+  }
+
+  setTxModifiable(txModifiable: number): this {
+    if (
+      !Number.isInteger(txModifiable) ||
+      txModifiable < 0 ||
+      txModifiable > 0xff
+    )
+      throw new Error('Invalid TX_MODIFIABLE flags');
+    this.__CACHE.__V2_FIELDS.txModifiable = txModifiable;
+    return this;
+  }
+
   setVersion(version: number): this {
     check32Bit(version);
     checkInputsForPartialSig(this.data.inputs, 'setVersion');
     const c = this.__CACHE;
+    if (c.__PSBT_VERSION === 2 && version < 2)
+      throw new Error('PSBT version 2 requires a transaction version of 2');
     c.__TX.version = version;
     c.__EXTRACTED_TX = undefined;
     return this;
@@ -259,7 +427,9 @@ export class Psbt {
     check32Bit(locktime);
     checkInputsForPartialSig(this.data.inputs, 'setLocktime');
     const c = this.__CACHE;
-    c.__TX.locktime = locktime;
+    // the fallback locktime of version 2, used if no input requires one
+    c.__V2_FIELDS.fallbackLocktime = locktime;
+    c.__TX.locktime = determineLocktime(c.__V2_FIELDS);
     c.__EXTRACTED_TX = undefined;
     return this;
   }
@@ -297,7 +467,33 @@ export class Psbt {
     checkInputsForPartialSig(this.data.inputs, 'addInput');
     if (inputData.witnessScript) checkInvalidP2WSH(inputData.witnessScript);
     const c = this.__CACHE;
+    const v2Input: PsbtV2Input = {};
+    if (inputData.requiredTimeLocktime !== undefined)
+      v2Input.requiredTimeLocktime = inputData.requiredTimeLocktime;
+    if (inputData.requiredHeightLocktime !== undefined)
+      v2Input.requiredHeightLocktime = inputData.requiredHeightLocktime;
+    const v2Fields = {
+      ...c.__V2_FIELDS,
+      inputs: c.__V2_FIELDS.inputs.concat(v2Input),
+    };
+    if (c.__PSBT_VERSION === 2) {
+      if (!(this.txModifiable & TX_MODIFIABLE.INPUTS))
+        throw new Error('Can not add inputs, they are not modifiable.');
+      checkSighashSinglePairs(
+        this.txModifiable,
+        c.__TX.ins.length,
+        c.__TX.outs.length,
+      );
+      checkRequiredLocktimes(v2Input);
+    } else if (Object.keys(v2Input).length) {
+      throw new Error('Required locktimes need PSBT version 2');
+    }
+    const locktime = determineLocktime(v2Fields);
+    if (locktime !== c.__TX.locktime)
+      checkInputsForPartialSig(this.data.inputs, 'setLocktime');
     this.data.addInput(inputData);
+    c.__V2_FIELDS = v2Fields;
+    c.__TX.locktime = locktime;
     const txIn = c.__TX.ins[c.__TX.ins.length - 1];
     checkTxInputCache(c, txIn);
 
@@ -331,6 +527,15 @@ export class Psbt {
       );
     }
     checkInputsForPartialSig(this.data.inputs, 'addOutput');
+    if (this.__CACHE.__PSBT_VERSION === 2) {
+      if (!(this.txModifiable & TX_MODIFIABLE.OUTPUTS))
+        throw new Error('Can not add outputs, they are not modifiable.');
+      checkSighashSinglePairs(
+        this.txModifiable,
+        this.__CACHE.__TX.outs.length,
+        this.__CACHE.__TX.ins.length,
+      );
+    }
     const { address } = outputData as any;
     if (typeof address === 'string') {
       const { network } = this.opts;
@@ -462,6 +667,8 @@ export class Psbt {
         `Cannot finalize input #${inputIndex}. Missing withness utxo.`,
       );
 
+    if (!input.tapKeySig) this.aggregateMusig2Sigs(inputIndex, input);
+
     // Check key spend first. Increased privacy and reduced block space.
     if (input.tapKeySig) {
       const payment = payments.p2tr({
@@ -480,6 +687,7 @@ export class Psbt {
     }
 
     this.data.clearFinalizedInput(inputIndex);
+    clearMusig2Fields(input);
 
     return this;
   }
@@ -526,6 +734,49 @@ export class Psbt {
     );
   }
 
+  traceInput(inputIndex: number, flags?: number): interpreter.ScriptTrace {
+    const { tx, prevOutputs } = getFinalizedSpend(
+      inputIndex,
+      this.data.inputs,
+      this.__CACHE,
+    );
+    return interpreter.traceInput(
+      tx,
+      inputIndex,
+      prevOutputs,
+      this.verifyFlags(flags),
+    );
+  }
+
+  verifyAllInputs(flags?: number): interpreter.ScriptResult[] {
+    checkForInput(this.data.inputs, 0); // making sure we have at least one
+    return range(this.data.inputs.length).map(idx =>
+      this.verifyInput(idx, flags),
+    );
+  }
+
+  verifyInput(inputIndex: number, flags?: number): interpreter.ScriptResult {
+    const { tx, prevOutputs } = getFinalizedSpend(
+      inputIndex,
+      this.data.inputs,
+      this.__CACHE,
+    );
+    return interpreter.verifyInput(
+      tx,
+      inputIndex,
+      prevOutputs,
+      this.verifyFlags(flags),
+    );
+  }
+
+  // the standard flags of the network, unless given
+  private verifyFlags(flags?: number): number {
+    if (flags !== undefined) return flags;
+    return isPivxNetwork(this.opts.network)
+      ? interpreter.PIVX_STANDARD_FLAGS
+      : interpreter.STANDARD_FLAGS;
+  }
+
   validateSignaturesOfAllInputs(validator: ValidateSigFunction): boolean {
     checkForInput(this.data.inputs, 0); // making sure we have at least one
     const results = range(this.data.inputs.length).map(idx =>
@@ -865,6 +1116,7 @@ export class Psbt {
     ];
 
     this.data.updateInput(inputIndex, { partialSig });
+    this.updateTxModifiable(sighashType);
     return this;
   }
 
@@ -914,6 +1166,7 @@ export class Psbt {
       this.data.updateInput(inputIndex, { tapScriptSig });
     }
 
+    this.updateTxModifiable(input.sighashType || Transaction.SIGHASH_DEFAULT);
     return this;
   }
 
@@ -986,6 +1239,7 @@ export class Psbt {
       ];
 
       this.data.updateInput(inputIndex, { partialSig });
+      this.updateTxModifiable(sighashType);
     });
   }
 
@@ -1041,9 +1295,154 @@ export class Psbt {
 
     return Promise.all(signaturePromises).then(results => {
       results.forEach(v => this.data.updateInput(inputIndex, v));
+      this.updateTxModifiable(input.sighashType || Transaction.SIGHASH_DEFAULT);
     });
   }
 
+  generateMusig2Nonce(
+    inputIndex: number,
+    signer: Musig2Signer,
+    sighashTypes: number[] = [Transaction.SIGHASH_DEFAULT],
+  ): this {
+    const input = checkForInput(this.data.inputs, inputIndex);
+    this.getMusig2SessionsForSig(
+      inputIndex,
+      input,
+      signer,
+      sighashTypes,
+    ).forEach(({ aggregatePubkey, keyAggContext, hash }) => {
+      const pubNonce = signer.musig2NonceGen({
+        aggregatePubkey: toXOnly(keyAggContext.aggregatePubkey),
+        msg: hash,
+      });
+      setMusig2KeyVal(
+        input,
+        encodeMusig2PubNonce({
+          participantPubkey: signer.publicKey,
+          aggregatePubkey,
+          pubNonce,
+        }),
+      );
+    });
+    return this;
+  }
+
+  signMusig2Input(
+    inputIndex: number,
+    signer: Musig2Signer,
+    sighashTypes: number[] = [Transaction.SIGHASH_DEFAULT],
+  ): this {
+    const input = checkForInput(this.data.inputs, inputIndex);
+    const { musig2PubNonces } = decodeMusig2Fields(input);
+
+    this.getMusig2SessionsForSig(
+      inputIndex,
+      input,
+      signer,
+      sighashTypes,
+    ).forEach(session => {
+      const pubNonces = getMusig2SessionValues(session, musig2PubNonces);
+      const missing = pubNonces.findIndex(nonce => !nonce);
+      if (missing !== -1)
+        throw new Error(
+          `Missing MuSig2 public nonce of ${tools.toHex(
+            session.participantPubkeys[missing],
+          )} for input #${inputIndex}`,
+        );
+      const aggNonce = musig2.nonceAgg(pubNonces.map(n => n!.pubNonce));
+      const { pubNonce } = pubNonces.find(
+        n => tools.compare(n!.participantPubkey, signer.publicKey) === 0,
+      )!;
+
+      const partialSig = signer.musig2PartialSign({
+        pubNonce,
+        aggNonce,
+        keyAggContext: session.keyAggContext,
+        msg: session.hash,
+      });
+      if (
+        !musig2.partialVerify(
+          partialSig,
+          pubNonce,
+          signer.publicKey,
+          aggNonce,
+          session.keyAggContext,
+          session.hash,
+        )
+      )
+        throw new Error(
+          `Invalid MuSig2 partial signature for input #${inputIndex}`,
+        );
+      setMusig2KeyVal(
+        input,
+        encodeMusig2PartialSig({
+          participantPubkey: signer.publicKey,
+          aggregatePubkey: session.aggregatePubkey,
+          partialSig,
+        }),
+      );
+    });
+
+    this.updateTxModifiable(input.sighashType || Transaction.SIGHASH_DEFAULT);
+    return this;
+  }
+
+  private getMusig2SessionsForSig(
+    inputIndex: number,
+    input: PsbtInput,
+    signer: Musig2Signer,
+    allowedSighashTypes: number[],
+  ): Musig2Session[] {
+    const sessions = getMusig2Sessions(
+      inputIndex,
+      input,
+      this.data.inputs,
+      this.__CACHE,
+      allowedSighashTypes,
+    ).filter(session =>
+      session.participantPubkeys.some(
+        pubkey => tools.compare(pubkey, signer.publicKey) === 0,
+      ),
+    );
+    if (!sessions.length)
+      throw new Error(
+        `Can not sign for input #${inputIndex} with the MuSig2 participant key ${tools.toHex(
+          signer.publicKey,
+        )}`,
+      );
+    return sessions;
+  }
+
+  private aggregateMusig2Sigs(inputIndex: number, input: PsbtInput): void {
+    const { musig2PubNonces, musig2PartialSigs } = decodeMusig2Fields(input);
+    for (const session of getMusig2Sessions(
+      inputIndex,
+      input,
+      this.data.inputs,
+      this.__CACHE,
+    )) {
+      const pubNonces = getMusig2SessionValues(session, musig2PubNonces);
+      const partialSigs = getMusig2SessionValues(session, musig2PartialSigs);
+      if (pubNonces.includes(undefined) || partialSigs.includes(undefined))
+        continue;
+
+      const signature = musig2.partialSigAgg(
+        partialSigs.map(p => p!.partialSig),
+        musig2.nonceAgg(pubNonces.map(n => n!.pubNonce)),
+        session.keyAggContext,
+        session.hash,
+      );
+      const tapKeySig = serializeTaprootSignature(signature, input.sighashType);
+      this.data.updateInput(inputIndex, { tapKeySig });
+      return;
+    }
+  }
+
+  private updateTxModifiable(sighashType: number): void {
+    const fields = this.__CACHE.__V2_FIELDS;
+    fields.txModifiable = updateTxModifiable(this.txModifiable, sighashType);
+  }
+
   private checkTaprootHashesForSig(
     inputIndex: number,
     input: PsbtInput,
@@ -1078,17 +1477,18 @@ export class Psbt {
 
   toBuffer(): Uint8Array {
     checkCache(this.__CACHE);
-    return this.data.toBuffer();
+    const c = this.__CACHE;
+    return c.__PSBT_VERSION === 2
+      ? psbtV0ToV2(this.data.toBuffer(), c.__V2_FIELDS)
+      : this.data.toBuffer();
   }
 
   toHex(): string {
-    checkCache(this.__CACHE);
-    return this.data.toHex();
+    return tools.toHex(this.toBuffer());
   }
 
   toBase64(): string {
-    checkCache(this.__CACHE);
-    return this.data.toBase64();
+    return tools.toBase64(this.toBuffer());
   }
 
   updateGlobal(updateData: PsbtGlobalUpdate): this {
@@ -1122,6 +1522,98 @@ export class Psbt {
     return this;
   }
 
+  addMusig2Participants(
+    inputIndex: number,
+    participantPubkeys: Uint8Array[],
+  ): this {
+    const input = checkForInput(this.data.inputs, inputIndex);
+    const { aggregatePubkey } = musig2.keyAgg(participantPubkeys);
+    setMusig2KeyVal(
+      input,
+      encodeMusig2Participants({ aggregatePubkey, participantPubkeys }),
+    );
+    return this;
+  }
+
+  getMusig2Fields(inputIndex: number): Musig2InputFields {
+    return decodeMusig2Fields(checkForInput(this.data.inputs, inputIndex));
+  }
+
+  addGlobalXpub(
+    xpub: string,
+    masterFingerprint: Uint8Array,
+    path: string,
+  ): this {
+    const globalXpub = toGlobalXpub(xpub, masterFingerprint, path);
+    const globalXpubs = this.data.globalMap.globalXpub || [];
+    if (
+      globalXpubs.some(
+        entry =>
+          tools.compare(entry.extendedPubkey, globalXpub.extendedPubkey) === 0,
+      )
+    )
+      throw new Error(`Duplicate global xpub: ${xpub}`);
+    this.data.globalMap.globalXpub = globalXpubs.concat(globalXpub);
+    return this;
+  }
+
+  getGlobalXpubs(): PsbtGlobalXpub[] {
+    return (this.data.globalMap.globalXpub || []).map(entry => ({
+      xpub: bs58check.encode(entry.extendedPubkey),
+      masterFingerprint: entry.masterFingerprint,
+      path: entry.path,
+    }));
+  }
+
+  addProprietaryKeyValToGlobal(keyVal: ProprietaryKeyVal): this {
+    return this.addUnknownKeyValToGlobal(encodeProprietaryKeyVal(keyVal));
+  }
+
+  addProprietaryKeyValToInput(
+    inputIndex: number,
+    keyVal: ProprietaryKeyVal,
+  ): this {
+    return this.addUnknownKeyValToInput(
+      inputIndex,
+      encodeProprietaryKeyVal(keyVal),
+    );
+  }
+
+  addProprietaryKeyValToOutput(
+    outputIndex: number,
+    keyVal: ProprietaryKeyVal,
+  ): this {
+    return this.addUnknownKeyValToOutput(
+      outputIndex,
+      encodeProprietaryKeyVal(keyVal),
+    );
+  }
+
+  getProprietaryKeyValsFromGlobal(
+    identifier?: Uint8Array,
+  ): ProprietaryKeyVal[] {
+    return decodeProprietaryKeyVals(
+      this.data.globalMap.unknownKeyVals,
+      identifier,
+    );
+  }
+
+  getProprietaryKeyValsFromInput(
+    inputIndex: number,
+    identifier?: Uint8Array,
+  ): ProprietaryKeyVal[] {
+    const input = checkForInput(this.data.inputs, inputIndex);
+    return decodeProprietaryKeyVals(input.unknownKeyVals, identifier);
+  }
+
+  getProprietaryKeyValsFromOutput(
+    outputIndex: number,
+    identifier?: Uint8Array,
+  ): ProprietaryKeyVal[] {
+    const output = checkForOutput(this.data.outputs, outputIndex);
+    return decodeProprietaryKeyVals(output.unknownKeyVals, identifier);
+  }
+
   addUnknownKeyValToGlobal(keyVal: KeyValue): this {
     this.data.addUnknownKeyValToGlobal(keyVal);
     return this;
@@ -1152,6 +1644,9 @@ interface PsbtCache {
   __FEE?: bigint;
   __EXTRACTED_TX?: Transaction;
   __UNSAFE_SIGN_NONSEGWIT: boolean;
+  __PSBT_VERSION: number;
+  // kept in version 0 too, for converting back to version 2
+  __V2_FIELDS: PsbtV2Fields;
 }
 
 interface PsbtOptsOptional {
@@ -1166,14 +1661,16 @@ interface PsbtOpts {
 
 interface PsbtInputExtended extends PsbtInput, TransactionInput {}
 
-type PsbtOutputExtended = PsbtOutputExtendedAddress | PsbtOutputExtendedScript;
+export type PsbtOutputExtended =
+  | PsbtOutputExtendedAddress
+  | PsbtOutputExtendedScript;
 
-interface PsbtOutputExtendedAddress extends PsbtOutput {
+export interface PsbtOutputExtendedAddress extends PsbtOutput {
   address: string;
   value: bigint;
 }
 
-interface PsbtOutputExtendedScript extends PsbtOutput {
+export interface PsbtOutputExtendedScript extends PsbtOutput {
   script: Uint8Array;
   value: bigint;
 }
@@ -1305,6 +1802,8 @@ function canFinalize(
     case 'pubkey':
     case 'pubkeyhash':
     case 'witnesspubkeyhash':
+    case 'coldstake':
+    case 'exchangepubkeyhash':
       return hasSigs(1, input.partialSig);
     case 'multisig':
       const p2ms = payments.p2ms({ output: script });
@@ -1394,6 +1893,17 @@ function checkInputsForPartialSig(inputs: PsbtInput[], action: string): void {
   });
 }
 
+// The TX_MODIFIABLE flags that the signatures of the inputs allow.
+function txModifiableFromSigs(inputs: PsbtInput[]): number {
+  return inputs
+    .flatMap(input =>
+      isTaprootInput(input)
+        ? getTaprootInputSigHashTypes(input)
+        : getInputSigHashTypes(input),
+    )
+    .reduce(updateTxModifiable, TX_MODIFIABLE.INPUTS | TX_MODIFIABLE.OUTPUTS);
+}
+
 function checkPartialSigSighashes(input: PsbtInput): void {
   if (!input.sighashType || !input.partialSig) return;
   const { partialSig, sighashType } = input;
@@ -1767,6 +2277,120 @@ function trimTaprootSig(signature: Uint8Array): Uint8Array {
   return signature.length === 64 ? signature : signature.subarray(0, 64);
 }
 
+// Validates a global xpub entry, whose path must have the depth of the key
+function toGlobalXpub(
+  xpub: string,
+  masterFingerprint: Uint8Array,
+  path: string,
+): GlobalXpub {
+  let extendedPubkey: Uint8Array;
+  try {
+    extendedPubkey = bs58check.decode(xpub);
+  } catch (_) {
+    throw new Error(`Invalid extended public key: ${xpub}`);
+  }
+  if (extendedPubkey.length !== 78 || ![2, 3].includes(extendedPubkey[45]))
+    throw new Error(`Invalid extended public key: ${xpub}`);
+  if (masterFingerprint.length !== 4)
+    throw new Error('Master fingerprint must be 4 bytes');
+  if (!/^m(\/\d+['h]?)*$/.test(path))
+    throw new Error(`Invalid derivation path: ${path}`);
+  if (path.split('/').length - 1 !== extendedPubkey[4])
+    throw new Error(
+      `Derivation path ${path} does not match the depth of the extended public key`,
+    );
+  return {
+    extendedPubkey,
+    masterFingerprint,
+    path: path.replace(/h/g, "'"),
+  };
+}
+
+// aggregatePubkey is the derived, untweaked aggregate key, keying the public
+// nonces and partial signatures of the session (BIP373)
+interface Musig2Session extends Musig2Participants {
+  keyAggContext: Musig2KeyAggContext;
+  hash: Uint8Array;
+}
+
+/*
+ * Finds the aggregate keys behind the key path of a taproot input: the
+ * internal key is either an aggregate key itself or derived from one, in
+ * which case tapBip32Derivation holds its path below the aggregate key's
+ * fingerprint (BIP328).
+ */
+function getMusig2Sessions(
+  inputIndex: number,
+  input: PsbtInput,
+  inputs: PsbtInput[],
+  cache: PsbtCache,
+  allowedSighashTypes?: number[],
+): Musig2Session[] {
+  const internalKey = input.tapInternalKey;
+  if (!internalKey) return [];
+
+  const sessions: Musig2Session[] = [];
+  decodeMusig2Fields(input).musig2ParticipantPubkeys.forEach(participants => {
+    const { aggregatePubkey, participantPubkeys } = participants;
+    let ctx = musig2.keyAgg(participantPubkeys);
+    if (tools.compare(ctx.aggregatePubkey, aggregatePubkey) !== 0)
+      throw new Error(
+        `Invalid MuSig2 aggregate key ${tools.toHex(
+          aggregatePubkey,
+        )} for input #${inputIndex}`,
+      );
+
+    if (tools.compare(toXOnly(aggregatePubkey), internalKey) !== 0) {
+      const fingerprint = bcrypto.hash160(aggregatePubkey).slice(0, 4);
+      const derivation = (input.tapBip32Derivation || []).find(
+        d =>
+          tools.compare(d.pubkey, internalKey) === 0 &&
+          tools.compare(d.masterFingerprint, fingerprint) === 0,
+      );
+      if (!derivation) return;
+      ctx = musig2.derivePath(ctx, derivation.path);
+      if (tools.compare(toXOnly(ctx.aggregatePubkey), internalKey) !== 0)
+        return;
+    }
+
+    const keyAggContext = musig2.tweakTaproot(ctx, input.tapMerkleRoot);
+    const [hashForSig] = getTaprootHashesForSigning(
+      inputIndex,
+      input,
+      inputs,
+      keyAggContext.aggregatePubkey,
+      cache,
+      undefined,
+      allowedSighashTypes,
+    );
+    if (hashForSig)
+      sessions.push({
+        participantPubkeys,
+        aggregatePubkey: ctx.aggregatePubkey,
+        keyAggContext,
+        hash: hashForSig.hash,
+      });
+  });
+  return sessions;
+}
+
+function getMusig2SessionValues<
+  T extends {
+    participantPubkey: Uint8Array;
+    aggregatePubkey: Uint8Array;
+    leafHash?: Uint8Array;
+  },
+>(session: Musig2Session, fields: T[]): (T | undefined)[] {
+  return session.participantPubkeys.map(pubkey =>
+    fields.find(
+      field =>
+        !field.leafHash &&
+        tools.compare(field.participantPubkey, pubkey) === 0 &&
+        tools.compare(field.aggregatePubkey, session.aggregatePubkey) === 0,
+    ),
+  );
+}
+
 function getTaprootHashesForSigning(
   inputIndex: number,
   input: PsbtInput,
@@ -1931,6 +2555,22 @@ function getPayment(
         signature: partialSig[0].signature,
       });
       break;
+    case 'exchangepubkeyhash':
+      // spent like P2PKH, the scriptSig does not include OP_EXCHANGEADDR
+      payment = payments.p2pkh({
+        hash: script.slice(4, 24),
+        pubkey: partialSig[0].pubkey,
+        signature: partialSig[0].signature,
+      });
+      break;
+    case 'coldstake':
+      // the spending path (staker or owner) is inferred from the pubkey hash
+      payment = payments.p2cs({
+        output: script,
+        pubkey: partialSig[0].pubkey,
+        signature: partialSig[0].signature,
+      });
+      break;
   }
   return payment!;
 }
@@ -2149,6 +2789,51 @@ function inputFinalizeGetAmts(
   cache.__FEE_RATE = Math.floor(Number(fee / BigInt(bytes)));
 }
 
+/**
+ * Builds the transaction spending a finalized input, with the outputs it
+ * spends, so that the input can be run through the interpreter. Taproot
+ * signatures commit to the outputs spent by every input, which are then all
+ * required, while other inputs only need their own.
+ */
+function getFinalizedSpend(
+  inputIndex: number,
+  inputs: PsbtInput[],
+  cache: PsbtCache,
+): { tx: Transaction; prevOutputs: interpreter.PrevOutput[] } {
+  const input = checkForInput(inputs, inputIndex);
+  if (!isFinalized(input))
+    throw new Error(`Input #${inputIndex} is not finalized`);
+  const tx = cache.__TX.clone();
+  if (input.finalScriptSig) tx.ins[inputIndex].script = input.finalScriptSig;
+  if (input.finalScriptWitness)
+    tx.ins[inputIndex].witness = scriptWitnessToWitnessStack(
+      input.finalScriptWitness,
+    );
+  const getPrevOutput = (idx: number): interpreter.PrevOutput => {
+    const prevInput = inputs[idx];
+    if (!prevInput.witnessUtxo && !prevInput.nonWitnessUtxo)
+      throw new Error(`Input #${idx} has no witnessUtxo or nonWitnessUtxo`);
+    // the amounts of non-witness UTXOs are only trusted if the hash matches
+    if (
+      prevInput.nonWitnessUtxo &&
+      tools.compare(
+        nonWitnessUtxoTxFromCache(cache, prevInput, idx).getHash(),
+        tx.ins[idx].hash,
+      ) !== 0
+    )
+      throw new Error(
+        `Non-witness UTXO hash for input #${idx} doesn't match the hash specified in the prevout`,
+      );
+    return getScriptAndAmountFromUtxo(idx, prevInput, cache);
+  };
+  const prevOutput = getPrevOutput(inputIndex);
+  if (isP2TR(prevOutput.script))
+    return { tx, prevOutputs: inputs.map((_, idx) => getPrevOutput(idx)) };
+  const prevOutputs: interpreter.PrevOutput[] = [];
+  prevOutputs[inputIndex] = prevOutput;
+  return { tx, prevOutputs };
+}
+
 function nonWitnessUtxoTxFromCache(
   cache: PsbtCache,
   input: PsbtInput,
@@ -2336,6 +3021,8 @@ type AllScriptType =
   | 'pubkeyhash'
   | 'multisig'
   | 'pubkey'
+  | 'coldstake'
+  | 'exchangepubkeyhash'
   | 'nonstandard'
   | 'p2sh-witnesspubkeyhash'
   | 'p2sh-pubkeyhash'
@@ -2355,12 +3042,16 @@ type ScriptType =
   | 'pubkeyhash'
   | 'multisig'
   | 'pubkey'
+  | 'coldstake'
+  | 'exchangepubkeyhash'
   | 'nonstandard';
 function classifyScript(script: Uint8Array): ScriptType {
   if (isP2WPKH(script)) return 'witnesspubkeyhash';
   if (isP2PKH(script)) return 'pubkeyhash';
   if (isP2MS(script)) return 'multisig';
   if (isP2PK(script)) return 'pubkey';
+  if (isP2CS(script)) return 'coldstake';
+  if (isP2PKHExchange(script)) return 'exchangepubkeyhash';
   return 'nonstandard';
 }
 
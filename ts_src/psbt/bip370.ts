@@ -0,0 +1,488 @@
+import { KeyValue } from 'bip174';
+import { BufferReader, varuint } from '../bufferutils.js';
+import { Transaction } from '../transaction.js';
+import * as tools from 'uint8array-tools';
+
+/**
+ * Flags of PSBT_GLOBAL_TX_MODIFIABLE, telling whether inputs and outputs may
+ * still be added to a version 2 PSBT.
+ */
+export const TX_MODIFIABLE = {
+  INPUTS: 0x01,
+  OUTPUTS: 0x02,
+  HAS_SIGHASH_SINGLE: 0x04,
+};
+
+const GLOBAL_UNSIGNED_TX = 0x00;
+const GLOBAL_TX_VERSION = 0x02;
+const GLOBAL_FALLBACK_LOCKTIME = 0x03;
+const GLOBAL_INPUT_COUNT = 0x04;
+const GLOBAL_OUTPUT_COUNT = 0x05;
+const GLOBAL_TX_MODIFIABLE = 0x06;
+const GLOBAL_VERSION = 0xfb;
+const INPUT_PREVIOUS_TXID = 0x0e;
+const INPUT_OUTPUT_INDEX = 0x0f;
+const INPUT_SEQUENCE = 0x10;
+const INPUT_REQUIRED_TIME_LOCKTIME = 0x11;
+const INPUT_REQUIRED_HEIGHT_LOCKTIME = 0x12;
+const OUTPUT_AMOUNT = 0x03;
+const OUTPUT_SCRIPT = 0x04;
+
+const GLOBAL_V2_TYPES = [
+  GLOBAL_TX_VERSION,
+  GLOBAL_FALLBACK_LOCKTIME,
+  GLOBAL_INPUT_COUNT,
+  GLOBAL_OUTPUT_COUNT,
+  GLOBAL_TX_MODIFIABLE,
+  GLOBAL_VERSION,
+];
+const INPUT_V2_TYPES = [
+  INPUT_PREVIOUS_TXID,
+  INPUT_OUTPUT_INDEX,
+  INPUT_SEQUENCE,
+  INPUT_REQUIRED_TIME_LOCKTIME,
+  INPUT_REQUIRED_HEIGHT_LOCKTIME,
+];
+const OUTPUT_V2_TYPES = [OUTPUT_AMOUNT, OUTPUT_SCRIPT];
+
+const GLOBAL_V2_NAMES: { [type: number]: string } = {
+  [GLOBAL_TX_VERSION]: 'PSBT_GLOBAL_TX_VERSION',
+  [GLOBAL_FALLBACK_LOCKTIME]: 'PSBT_GLOBAL_FALLBACK_LOCKTIME',
+  [GLOBAL_INPUT_COUNT]: 'PSBT_GLOBAL_INPUT_COUNT',
+  [GLOBAL_OUTPUT_COUNT]: 'PSBT_GLOBAL_OUTPUT_COUNT',
+  [GLOBAL_TX_MODIFIABLE]: 'PSBT_GLOBAL_TX_MODIFIABLE',
+};
+const INPUT_V2_NAMES: { [type: number]: string } = {
+  [INPUT_PREVIOUS_TXID]: 'PSBT_IN_PREVIOUS_TXID',
+  [INPUT_OUTPUT_INDEX]: 'PSBT_IN_OUTPUT_INDEX',
+  [INPUT_SEQUENCE]: 'PSBT_IN_SEQUENCE',
+  [INPUT_REQUIRED_TIME_LOCKTIME]: 'PSBT_IN_REQUIRED_TIME_LOCKTIME',
+  [INPUT_REQUIRED_HEIGHT_LOCKTIME]: 'PSBT_IN_REQUIRED_HEIGHT_LOCKTIME',
+};
+const OUTPUT_V2_NAMES: { [type: number]: string } = {
+  [OUTPUT_AMOUNT]: 'PSBT_OUT_AMOUNT',
+  [OUTPUT_SCRIPT]: 'PSBT_OUT_SCRIPT',
+};
+
+const LOCKTIME_THRESHOLD = 500000000;
+const MAGIC = Uint8Array.from([0x70, 0x73, 0x62, 0x74, 0xff]);
+
+export interface PsbtV2Input {
+  /** PSBT_IN_REQUIRED_TIME_LOCKTIME, a timestamp of at least 500000000 */
+  requiredTimeLocktime?: number;
+  /** PSBT_IN_REQUIRED_HEIGHT_LOCKTIME, a height below 500000000 */
+  requiredHeightLocktime?: number;
+  /** Whether PSBT_IN_SEQUENCE was present although it is the default */
+  explicitSequence?: boolean;
+}
+
+/**
+ * The fields of a version 2 PSBT that have no place in the unsigned
+ * transaction of version 0.
+ */
+export interface PsbtV2Fields {
+  /** PSBT_GLOBAL_TX_MODIFIABLE, undefined when absent */
+  txModifiable?: number;
+  fallbackLocktime?: number;
+  inputs: PsbtV2Input[];
+}
+
+interface PsbtMaps {
+  globalMap: KeyValue[];
+  inputMaps: KeyValue[][];
+  outputMaps: KeyValue[][];
+}
+
+function readMap(reader: BufferReader): KeyValue[] {
+  const map: KeyValue[] = [];
+  const keys = new Set<string>();
+  for (;;) {
+    if (reader.offset >= reader.buffer.length)
+      throw new Error('Format Error: Unexpected End of PSBT');
+    const key = reader.readVarSlice();
+    if (key.length === 0) return map;
+    const hexKey = tools.toHex(key);
+    if (keys.has(hexKey))
+      throw new Error('Format Error: Keys must be unique: key ' + hexKey);
+    keys.add(hexKey);
+    map.push({ key, value: reader.readVarSlice() });
+  }
+}
+
+function readGlobalMap(buffer: Uint8Array): {
+  reader: BufferReader;
+  globalMap: KeyValue[];
+} {
+  if (
+    buffer.length < MAGIC.length ||
+    tools.compare(buffer.subarray(0, 5), MAGIC)
+  )
+    throw new Error('Format Error: Invalid Magic Number');
+  const reader = new BufferReader(buffer, MAGIC.length);
+  return { reader, globalMap: readMap(reader) };
+}
+
+function encodeMap(map: KeyValue[]): Uint8Array[] {
+  return map
+    .slice()
+    .sort((a, b) => tools.compare(a.key, b.key))
+    .flatMap(({ key, value }) => [
+      varuint.encode(key.length).buffer,
+      key,
+      varuint.encode(value.length).buffer,
+      value,
+    ])
+    .concat(Uint8Array.from([0]));
+}
+
+function writeMaps({ globalMap, inputMaps, outputMaps }: PsbtMaps): Uint8Array {
+  return tools.concat(
+    [MAGIC].concat(
+      encodeMap(globalMap),
+      ...inputMaps.map(encodeMap),
+      ...outputMaps.map(encodeMap),
+    ),
+  );
+}
+
+function isType(keyVal: KeyValue, types: number[]): boolean {
+  return keyVal.key.length === 1 && types.includes(keyVal.key[0]);
+}
+
+function getValue(map: KeyValue[], type: number): Uint8Array | undefined {
+  const keyVal = map.find(kv => isType(kv, [type]));
+  return keyVal && keyVal.value;
+}
+
+function readUInt32(
+  map: KeyValue[],
+  type: number,
+  name: string,
+): number | undefined {
+  const value = getValue(map, type);
+  if (value === undefined) return undefined;
+  if (value.length !== 4)
+    throw new Error(`Format Error: Invalid ${name} length ${value.length}`);
+  return tools.readUInt32(value, 0, 'LE');
+}
+
+function requireValue<T>(value: T | undefined, name: string): T {
+  if (value === undefined) throw new Error(`Format Error: Missing ${name}`);
+  return value;
+}
+
+function uint32(n: number): Uint8Array {
+  const buffer = new Uint8Array(4);
+  tools.writeUInt32(buffer, 0, n, 'LE');
+  return buffer;
+}
+
+function keyVal(type: number, value: Uint8Array): KeyValue {
+  return { key: Uint8Array.from([type]), value };
+}
+
+/**
+ * Checks the required locktimes of an input, which must be a timestamp and a
+ * height respectively.
+ * @param input The required locktimes of the input.
+ */
+export function checkRequiredLocktimes(input: PsbtV2Input): void {
+  const { requiredTimeLocktime: time, requiredHeightLocktime: height } = input;
+  if (
+    time !== undefined &&
+    (!Number.isInteger(time) || time < LOCKTIME_THRESHOLD || time > 0xffffffff)
+  )
+    throw new Error('Invalid required time locktime: ' + time);
+  if (
+    height !== undefined &&
+    (!Number.isInteger(height) || height < 1 || height >= LOCKTIME_THRESHOLD)
+  )
+    throw new Error('Invalid required height locktime: ' + height);
+}
+
+/**
+ * Determines the locktime of the transaction of a version 2 PSBT: the
+ * highest locktime required by the inputs, heights being preferred when
+ * every input accepts them, or else the fallback locktime.
+ * @param fields The version 2 fields of the PSBT.
+ * @returns The locktime.
+ * @throws If the inputs require both a height and a time locktime.
+ */
+export function determineLocktime(fields: PsbtV2Fields): number {
+  const inputs = fields.inputs.filter(
+    input =>
+      input.requiredTimeLocktime !== undefined ||
+      input.requiredHeightLocktime !== undefined,
+  );
+  if (inputs.length === 0)
+    return fields.fallbackLocktime !== undefined ? fields.fallbackLocktime : 0;
+  if (inputs.every(input => input.requiredHeightLocktime !== undefined))
+    return Math.max(...inputs.map(input => input.requiredHeightLocktime!));
+  if (inputs.every(input => input.requiredTimeLocktime !== undefined))
+    return Math.max(...inputs.map(input => input.requiredTimeLocktime!));
+  throw new Error('Inputs require both a height and a time locktime');
+}
+
+/**
+ * Updates the TX_MODIFIABLE flags of a version 2 PSBT for a new signature, as
+ * BIP370 asks of signers: inputs stay modifiable only with
+ * SIGHASH_ANYONECANPAY, outputs only with SIGHASH_NONE, and SIGHASH_SINGLE
+ * sets HAS_SIGHASH_SINGLE.
+ * @param txModifiable The current flags.
+ * @param sighashType The sighash type of the signature.
+ * @returns The new flags.
+ */
+export function updateTxModifiable(
+  txModifiable: number,
+  sighashType: number,
+): number {
+  let flags = txModifiable;
+  if (!(sighashType & Transaction.SIGHASH_ANYONECANPAY))
+    flags &= ~TX_MODIFIABLE.INPUTS;
+  const hashMod = sighashType & 0x1f;
+  if (hashMod !== Transaction.SIGHASH_NONE) flags &= ~TX_MODIFIABLE.OUTPUTS;
+  if (hashMod === Transaction.SIGHASH_SINGLE)
+    flags |= TX_MODIFIABLE.HAS_SIGHASH_SINGLE;
+  return flags;
+}
+
+/**
+ * Checks that a version 2 PSBT with a SIGHASH_SINGLE signature gets its
+ * inputs and outputs added in pairs, so that each input keeps the output of
+ * its index.
+ * @param txModifiable The TX_MODIFIABLE flags.
+ * @param count The number of inputs, or outputs, before the addition.
+ * @param otherCount The number of outputs, or inputs.
+ * @throws If the addition would leave an input or output unpaired.
+ */
+export function checkSighashSinglePairs(
+  txModifiable: number,
+  count: number,
+  otherCount: number,
+): void {
+  if (txModifiable & TX_MODIFIABLE.HAS_SIGHASH_SINGLE && count > otherCount)
+    throw new Error(
+      'Inputs and outputs must be added in pairs, a signature uses SIGHASH_SINGLE.',
+    );
+}
+
+/**
+ * Reads the PSBT_GLOBAL_VERSION of a serialized PSBT.
+ * @param buffer The PSBT.
+ * @returns The version, 0 if the field is absent.
+ */
+export function getPsbtVersion(buffer: Uint8Array): number {
+  const { globalMap } = readGlobalMap(buffer);
+  const version = readUInt32(globalMap, GLOBAL_VERSION, 'PSBT_GLOBAL_VERSION');
+  return version !== undefined ? version : 0;
+}
+
+/**
+ * Checks that a version 0 PSBT has none of the fields version 2 introduced.
+ * @param globalMap The unknown fields of the global map.
+ * @param inputMaps The unknown fields of every input.
+ * @param outputMaps The unknown fields of every output.
+ * @throws If a map holds a version 2 field.
+ */
+export function checkPsbtV0Fields(
+  globalMap: KeyValue[],
+  inputMaps: KeyValue[][],
+  outputMaps: KeyValue[][],
+): void {
+  const check = (map: KeyValue[], names: { [type: number]: string }): void => {
+    const keyVal = map.find(kv => isType(kv, Object.keys(names).map(Number)));
+    if (keyVal)
+      throw new Error(
+        `Format Error: ${names[keyVal.key[0]]} is not allowed in PSBT version 0`,
+      );
+  };
+  check(globalMap, GLOBAL_V2_NAMES);
+  inputMaps.forEach(map => check(map, INPUT_V2_NAMES));
+  outputMaps.forEach(map => check(map, OUTPUT_V2_NAMES));
+}
+
+/**
+ * Converts a version 2 PSBT to version 0, building its unsigned transaction.
+ * @param buffer The version 2 PSBT.
+ * @returns The version 0 PSBT and the fields it can not hold.
+ * @throws If the PSBT is not a valid version 2 PSBT.
+ */
+export function psbtV2ToV0(buffer: Uint8Array): {
+  buffer: Uint8Array;
+  fields: PsbtV2Fields;
+} {
+  const { reader, globalMap } = readGlobalMap(buffer);
+  if (getValue(globalMap, GLOBAL_UNSIGNED_TX) !== undefined)
+    throw new Error('Format Error: PSBT_GLOBAL_UNSIGNED_TX is not allowed');
+  const readCount = (type: number, name: string): number => {
+    const value = requireValue(getValue(globalMap, type), name);
+    const { numberValue, bytes } = varuint.decode(value);
+    if (bytes !== value.length || numberValue === null)
+      throw new Error(`Format Error: Invalid ${name}`);
+    return numberValue;
+  };
+  const tx = new Transaction();
+  tx.version = requireValue(
+    readUInt32(globalMap, GLOBAL_TX_VERSION, 'PSBT_GLOBAL_TX_VERSION'),
+    'PSBT_GLOBAL_TX_VERSION',
+  );
+  if (tx.version < 2)
+    throw new Error('Format Error: PSBT_GLOBAL_TX_VERSION must be at least 2');
+  const txModifiable = getValue(globalMap, GLOBAL_TX_MODIFIABLE);
+  if (txModifiable !== undefined && txModifiable.length !== 1)
+    throw new Error('Format Error: Invalid PSBT_GLOBAL_TX_MODIFIABLE length');
+  const fields: PsbtV2Fields = {
+    txModifiable: txModifiable !== undefined ? txModifiable[0] : undefined,
+    fallbackLocktime: readUInt32(
+      globalMap,
+      GLOBAL_FALLBACK_LOCKTIME,
+      'PSBT_GLOBAL_FALLBACK_LOCKTIME',
+    ),
+    inputs: [],
+  };
+  const inputCount = readCount(GLOBAL_INPUT_COUNT, 'PSBT_GLOBAL_INPUT_COUNT');
+  const outputCount = readCount(
+    GLOBAL_OUTPUT_COUNT,
+    'PSBT_GLOBAL_OUTPUT_COUNT',
+  );
+
+  const inputMaps: KeyValue[][] = [];
+  for (let i = 0; i < inputCount; ++i) {
+    const map = readMap(reader);
+    const hash = requireValue(
+      getValue(map, INPUT_PREVIOUS_TXID),
+      'PSBT_IN_PREVIOUS_TXID',
+    );
+    if (hash.length !== 32)
+      throw new Error('Format Error: Invalid PSBT_IN_PREVIOUS_TXID length');
+    const index = requireValue(
+      readUInt32(map, INPUT_OUTPUT_INDEX, 'PSBT_IN_OUTPUT_INDEX'),
+      'PSBT_IN_OUTPUT_INDEX',
+    );
+    const sequence = readUInt32(map, INPUT_SEQUENCE, 'PSBT_IN_SEQUENCE');
+    tx.addInput(hash, index, sequence);
+    const input: PsbtV2Input = {};
+    if (sequence === Transaction.DEFAULT_SEQUENCE)
+      input.explicitSequence = true;
+    const time = readUInt32(
+      map,
+      INPUT_REQUIRED_TIME_LOCKTIME,
+      'PSBT_IN_REQUIRED_TIME_LOCKTIME',
+    );
+    const height = readUInt32(
+      map,
+      INPUT_REQUIRED_HEIGHT_LOCKTIME,
+      'PSBT_IN_REQUIRED_HEIGHT_LOCKTIME',
+    );
+    if (time !== undefined) input.requiredTimeLocktime = time;
+    if (height !== undefined) input.requiredHeightLocktime = height;
+    checkRequiredLocktimes(input);
+    fields.inputs.push(input);
+    inputMaps.push(map.filter(kv => !isType(kv, INPUT_V2_TYPES)));
+  }
+
+  const outputMaps: KeyValue[][] = [];
+  for (let i = 0; i < outputCount; ++i) {
+    const map = readMap(reader);
+    const amount = requireValue(
+      getValue(map, OUTPUT_AMOUNT),
+      'PSBT_OUT_AMOUNT',
+    );
+    if (amount.length !== 8)
+      throw new Error('Format Error: Invalid PSBT_OUT_AMOUNT length');
+    tx.addOutput(
+      requireValue(getValue(map, OUTPUT_SCRIPT), 'PSBT_OUT_SCRIPT'),
+      tools.readInt64(amount, 0, 'LE'),
+    );
+    outputMaps.push(map.filter(kv => !isType(kv, OUTPUT_V2_TYPES)));
+  }
+  tx.locktime = determineLocktime(fields);
+
+  return {
+    buffer: writeMaps({
+      globalMap: [keyVal(GLOBAL_UNSIGNED_TX, tx.toBuffer())].concat(
+        globalMap.filter(kv => !isType(kv, GLOBAL_V2_TYPES)),
+      ),
+      inputMaps,
+      outputMaps,
+    }),
+    fields,
+  };
+}
+
+/**
+ * Converts a version 0 PSBT to version 2, moving its unsigned transaction to
+ * the per input and output fields.
+ * @param buffer The version 0 PSBT.
+ * @param fields The fields version 0 can not hold.
+ * @returns The version 2 PSBT.
+ */
+export function psbtV0ToV2(
+  buffer: Uint8Array,
+  fields: PsbtV2Fields,
+): Uint8Array {
+  const { reader, globalMap } = readGlobalMap(buffer);
+  const tx = Transaction.fromBuffer(
+    requireValue(
+      getValue(globalMap, GLOBAL_UNSIGNED_TX),
+      'PSBT_GLOBAL_UNSIGNED_TX',
+    ),
+  );
+  const global = globalMap.filter(
+    kv => !isType(kv, [GLOBAL_UNSIGNED_TX, ...GLOBAL_V2_TYPES]),
+  );
+  global.push(
+    keyVal(GLOBAL_TX_VERSION, uint32(tx.version)),
+    keyVal(GLOBAL_INPUT_COUNT, varuint.encode(tx.ins.length).buffer),
+    keyVal(GLOBAL_OUTPUT_COUNT, varuint.encode(tx.outs.length).buffer),
+    keyVal(GLOBAL_VERSION, uint32(2)),
+  );
+  if (fields.fallbackLocktime !== undefined)
+    global.push(
+      keyVal(GLOBAL_FALLBACK_LOCKTIME, uint32(fields.fallbackLocktime)),
+    );
+  if (fields.txModifiable !== undefined)
+    global.push(
+      keyVal(GLOBAL_TX_MODIFIABLE, Uint8Array.from([fields.txModifiable])),
+    );
+
+  const inputMaps = tx.ins.map((txIn, i) => {
+    const map = readMap(reader);
+    const input = fields.inputs[i] || {};
+    map.push(
+      keyVal(INPUT_PREVIOUS_TXID, txIn.hash),
+      keyVal(INPUT_OUTPUT_INDEX, uint32(txIn.index)),
+    );
+    if (
+      txIn.sequence !== Transaction.DEFAULT_SEQUENCE ||
+      input.explicitSequence
+    )
+      map.push(keyVal(INPUT_SEQUENCE, uint32(txIn.sequence)));
+    if (input.requiredTimeLocktime !== undefined)
+      map.push(
+        keyVal(
+          INPUT_REQUIRED_TIME_LOCKTIME,
+          uint32(input.requiredTimeLocktime),
+        ),
+      );
+    if (input.requiredHeightLocktime !== undefined)
+      map.push(
+        keyVal(
+          INPUT_REQUIRED_HEIGHT_LOCKTIME,
+          uint32(input.requiredHeightLocktime),
+        ),
+      );
+    return map;
+  });
+  const outputMaps = tx.outs.map(txOut => {
+    const map = readMap(reader);
+    const amount = new Uint8Array(8);
+    tools.writeInt64(amount, 0, txOut.value, 'LE');
+    map.push(
+      keyVal(OUTPUT_AMOUNT, amount),
+      keyVal(OUTPUT_SCRIPT, txOut.script),
+    );
+    return map;
+  });
+  return writeMaps({ globalMap: global, inputMaps, outputMaps });
+}
@@ -266,6 +266,17 @@ export function checkTaprootInputForSigs(
   );
 }
 
+/**
+ * Gets the sighash types of the taproot signatures of an input.
+ * @param input The PSBT input to read.
+ * @returns The sighash type of each taproot signature.
+ */
+export function getTaprootInputSigHashTypes(input: PsbtInput): number[] {
+  return extractTaprootSigs(input).map(
+    sig => decodeSchnorrSignature(sig).hashType,
+  );
+}
+
 /**
  * Decodes a Schnorr signature.
  * @param signature The signature to decode.
@@ -0,0 +1,162 @@
+import { KeyValue, PsbtInput } from 'bip174';
+import * as tools from 'uint8array-tools';
+
+const INPUT_MUSIG2_PARTICIPANT_PUBKEYS = 0x1a;
+const INPUT_MUSIG2_PUB_NONCE = 0x1b;
+const INPUT_MUSIG2_PARTIAL_SIG = 0x1c;
+
+/** PSBT_IN_MUSIG2_PARTICIPANT_PUBKEYS: the keys behind an aggregate key. */
+export interface Musig2Participants {
+  aggregatePubkey: Uint8Array;
+  participantPubkeys: Uint8Array[];
+}
+
+/** PSBT_IN_MUSIG2_PUB_NONCE: a participant's public nonce. */
+export interface Musig2PubNonce {
+  participantPubkey: Uint8Array;
+  aggregatePubkey: Uint8Array;
+  leafHash?: Uint8Array;
+  pubNonce: Uint8Array;
+}
+
+/** PSBT_IN_MUSIG2_PARTIAL_SIG: a participant's partial signature. */
+export interface Musig2PartialSig {
+  participantPubkey: Uint8Array;
+  aggregatePubkey: Uint8Array;
+  leafHash?: Uint8Array;
+  partialSig: Uint8Array;
+}
+
+/** The BIP373 fields of a PSBT input. */
+export interface Musig2InputFields {
+  musig2ParticipantPubkeys: Musig2Participants[];
+  musig2PubNonces: Musig2PubNonce[];
+  musig2PartialSigs: Musig2PartialSig[];
+}
+
+function isMusig2KeyVal(keyVal: KeyValue): boolean {
+  return (
+    keyVal.key[0] >= INPUT_MUSIG2_PARTICIPANT_PUBKEYS &&
+    keyVal.key[0] <= INPUT_MUSIG2_PARTIAL_SIG
+  );
+}
+
+function decodeSessionKey(key: Uint8Array): {
+  participantPubkey: Uint8Array;
+  aggregatePubkey: Uint8Array;
+  leafHash?: Uint8Array;
+} {
+  if (key.length !== 67 && key.length !== 99)
+    throw new Error(`Format Error: Invalid MuSig2 key: ${tools.toHex(key)}`);
+  return Object.assign(
+    {
+      participantPubkey: key.slice(1, 34),
+      aggregatePubkey: key.slice(34, 67),
+    },
+    key.length === 99 ? { leafHash: key.slice(67) } : {},
+  );
+}
+
+function encodeSessionKey(
+  type: number,
+  field: { participantPubkey: Uint8Array; aggregatePubkey: Uint8Array },
+  leafHash?: Uint8Array,
+): Uint8Array {
+  return tools.concat([
+    Uint8Array.of(type),
+    field.participantPubkey,
+    field.aggregatePubkey,
+    ...(leafHash ? [leafHash] : []),
+  ]);
+}
+
+/**
+ * Decodes the MuSig2 fields, which bip174 keeps among the unknown key-value
+ * pairs of an input.
+ */
+export function decodeMusig2Fields(input: PsbtInput): Musig2InputFields {
+  const fields: Musig2InputFields = {
+    musig2ParticipantPubkeys: [],
+    musig2PubNonces: [],
+    musig2PartialSigs: [],
+  };
+  (input.unknownKeyVals || []).forEach(({ key, value }) => {
+    if (key[0] === INPUT_MUSIG2_PARTICIPANT_PUBKEYS) {
+      if (key.length !== 34 || value.length === 0 || value.length % 33 !== 0)
+        throw new Error(
+          'Format Error: Invalid PSBT_IN_MUSIG2_PARTICIPANT_PUBKEYS',
+        );
+      const participantPubkeys = [];
+      for (let i = 0; i < value.length; i += 33)
+        participantPubkeys.push(value.slice(i, i + 33));
+      fields.musig2ParticipantPubkeys.push({
+        aggregatePubkey: key.slice(1),
+        participantPubkeys,
+      });
+    } else if (key[0] === INPUT_MUSIG2_PUB_NONCE) {
+      if (value.length !== 66)
+        throw new Error('Format Error: Invalid PSBT_IN_MUSIG2_PUB_NONCE');
+      fields.musig2PubNonces.push({
+        ...decodeSessionKey(key),
+        pubNonce: value,
+      });
+    } else if (key[0] === INPUT_MUSIG2_PARTIAL_SIG) {
+      if (value.length !== 32)
+        throw new Error('Format Error: Invalid PSBT_IN_MUSIG2_PARTIAL_SIG');
+      fields.musig2PartialSigs.push({
+        ...decodeSessionKey(key),
+        partialSig: value,
+      });
+    }
+  });
+  return fields;
+}
+
+export function encodeMusig2Participants(
+  participants: Musig2Participants,
+): KeyValue {
+  return {
+    key: tools.concat([
+      Uint8Array.of(INPUT_MUSIG2_PARTICIPANT_PUBKEYS),
+      participants.aggregatePubkey,
+    ]),
+    value: tools.concat(participants.participantPubkeys),
+  };
+}
+
+export function encodeMusig2PubNonce(pubNonce: Musig2PubNonce): KeyValue {
+  return {
+    key: encodeSessionKey(INPUT_MUSIG2_PUB_NONCE, pubNonce, pubNonce.leafHash),
+    value: pubNonce.pubNonce,
+  };
+}
+
+export function encodeMusig2PartialSig(partialSig: Musig2PartialSig): KeyValue {
+  return {
+    key: encodeSessionKey(
+      INPUT_MUSIG2_PARTIAL_SIG,
+      partialSig,
+      partialSig.leafHash,
+    ),
+    value: partialSig.partialSig,
+  };
+}
+
+/**
+ * Adds a MuSig2 key-value pair to an input, replacing any pair with the same
+ * key.
+ */
+export function setMusig2KeyVal(input: PsbtInput, keyVal: KeyValue): void {
+  const keyVals = (input.unknownKeyVals || []).filter(
+    kv => tools.compare(kv.key, keyVal.key) !== 0,
+  );
+  input.unknownKeyVals = keyVals.concat(keyVal);
+}
+
+/** Removes all MuSig2 fields from an input, as finalizing does. */
+export function clearMusig2Fields(input: PsbtInput): void {
+  if (input.unknownKeyVals)
+    input.unknownKeyVals = input.unknownKeyVals.filter(
+      keyVal => !isMusig2KeyVal(keyVal),
+    );
+}
@@ -0,0 +1,75 @@
+import { KeyValue } from 'bip174';
+import * as tools from 'uint8array-tools';
+import { BufferReader, varuint } from '../bufferutils.js';
+
+// PSBT_GLOBAL_PROPRIETARY, PSBT_IN_PROPRIETARY and PSBT_OUT_PROPRIETARY
+const PROPRIETARY = 0xfc;
+
+/**
+ * A proprietary key-value pair of any map, whose key is made of an
+ * identifier prefix, a subtype and key data.
+ */
+export interface ProprietaryKeyVal {
+  /** Identifies the vendor, such as the ASCII bytes of its name */
+  identifier: Uint8Array;
+  subtype: number;
+  keyData: Uint8Array;
+  value: Uint8Array;
+}
+
+function decodeProprietaryKeyVal({
+  key,
+  value,
+}: KeyValue): ProprietaryKeyVal | undefined {
+  try {
+    const reader = new BufferReader(key, 1);
+    const identifier = reader.readVarSlice();
+    const subtype = Number(reader.readVarInt());
+    return {
+      identifier,
+      subtype,
+      keyData: key.slice(reader.offset),
+      value,
+    };
+  } catch (_) {
+    return undefined;
+  }
+}
+
+export function encodeProprietaryKeyVal(field: ProprietaryKeyVal): KeyValue {
+  if (
+    !Number.isSafeInteger(field.subtype) ||
+    field.subtype < 0 ||
+    field.subtype > 0xffffffff
+  )
+    throw new TypeError(`Invalid proprietary subtype: ${field.subtype}`);
+  return {
+    key: tools.concat([
+      Uint8Array.of(PROPRIETARY),
+      varuint.encode(field.identifier.length).buffer,
+      field.identifier,
+      varuint.encode(field.subtype).buffer,
+      field.keyData,
+    ]),
+    value: field.value,
+  };
+}
+
+/**
+ * Decodes the proprietary fields of a map, which bip174 keeps among its
+ * unknown key-value pairs, optionally only those of an identifier. Keys
+ * without a valid identifier and subtype are skipped.
+ */
+export function decodeProprietaryKeyVals(
+  keyVals: KeyValue[] | undefined,
+  identifier?: Uint8Array,
+): ProprietaryKeyVal[] {
+  return (keyVals || [])
+    .filter(keyVal => keyVal.key[0] === PROPRIETARY)
+    .map(decodeProprietaryKeyVal)
+    .filter(
+      (field): field is ProprietaryKeyVal =>
+        field !== undefined &&
+        (!identifier || tools.compare(field.identifier, identifier) === 0),
+    );
+}
@@ -29,6 +29,21 @@ export const isP2WPKH = isPaymentFactory(payments.p2wpkh);
 export const isP2WSHScript = isPaymentFactory(payments.p2wsh);
 export const isP2SHScript = isPaymentFactory(payments.p2sh);
 export const isP2TR = isPaymentFactory(payments.p2tr);
+export const isP2CS = isPaymentFactory(payments.p2cs);
+
+/**
+ * Checks if a script is a PIVX exchange address script, a P2PKH script
+ * prefixed with OP_EXCHANGEADDR.
+ * @param script The script to check.
+ * @returns A boolean indicating whether the script pays to an exchange address.
+ */
+export function isP2PKHExchange(script: Uint8Array): boolean {
+  return (
+    script.length === 26 &&
+    script[0] === bscript.OPS.OP_EXCHANGEADDR &&
+    isP2PKH(script.subarray(1))
+  );
+}
 
 /**
  * Converts a witness stack to a script witness.
@@ -118,6 +133,17 @@ export function checkInputForSig(input: PsbtInput, action: string): boolean {
   );
 }
 
+/**
+ * Gets the sighash types of the signatures of an input.
+ * @param input - The input to read.
+ * @returns The sighash type of each partial or final signature.
+ */
+export function getInputSigHashTypes(input: PsbtInput): number[] {
+  return extractPartialSigs(input).map(
+    pSig => bscript.signature.decode(pSig).hashType,
+  );
+}
+
 type SignatureDecodeFunc = (buffer: Uint8Array) => {
   signature: Uint8Array;
   hashType: number;
@@ -75,8 +75,8 @@ export function encode(_number: number): Uint8Array {
   const negative = _number < 0;
 
   for (let i = 0; i < size; ++i) {
-    tools.writeUInt8(buffer, i, value & 0xff);
-    value >>= 8;
+    tools.writeUInt8(buffer, i, value % 0x100);
+    value = Math.floor(value / 0x100);
   }
 
   if (buffer[size - 1] & 0x80) {
@@ -0,0 +1,300 @@
+/**
+ * Signature operation counting, following Bitcoin Core's
+ * `GetLegacySigOpCount`, `GetP2SHSigOpCount` and `CountWitnessSigOps`.
+ *
+ * Blocks are limited to a sigop cost of 80000 and standard transactions to
+ * 16000. Legacy and p2sh signature operations cost 4, witness ones 1, like
+ * the weight of their bytes.
+ *
+ * @packageDocumentation
+ */
+import { Block } from './block.js';
+import { PrevOutput } from './interpreter.js';
+import { OPS } from './ops.js';
+import * as pushdata from './push_data.js';
+import { Transaction } from './transaction.js';
+
+/** Highest sigop cost of a block. */
+export const MAX_BLOCK_SIGOPS_COST = 80000;
+/** Highest sigop cost of a standard transaction. */
+export const MAX_STANDARD_TX_SIGOPS_COST = MAX_BLOCK_SIGOPS_COST / 5;
+/** Virtual bytes a signature operation is worth, for the adjusted size. */
+export const DEFAULT_BYTES_PER_SIGOP = 20;
+
+const MAX_PUBKEYS_PER_MULTISIG = 20;
+const WITNESS_SCALE_FACTOR = 4;
+
+interface ScriptOp {
+  opcode: number;
+  data?: Uint8Array;
+}
+
+/**
+ * Reads the opcodes of a script up to the first malformed push, like
+ * Bitcoin Core's `GetOp`.
+ */
+function readOps(script: Uint8Array): ScriptOp[] {
+  const ops: ScriptOp[] = [];
+  for (let pc = 0; pc < script.length; ) {
+    const opcode = script[pc];
+    if (opcode > OPS.OP_0 && opcode <= OPS.OP_PUSHDATA4) {
+      const d = pushdata.decode(script, pc);
+      if (d === null) break;
+      const start = pc + d.size;
+      pc = start + d.number;
+      if (pc > script.length) break;
+      ops.push({ opcode, data: script.subarray(start, pc) });
+    } else {
+      ops.push({
+        opcode,
+        data: opcode === OPS.OP_0 ? new Uint8Array(0) : undefined,
+      });
+      pc++;
+    }
+  }
+  return ops;
+}
+
+function isPayToScriptHash(script: Uint8Array): boolean {
+  return (
+    script.length === 23 &&
+    script[0] === OPS.OP_HASH160 &&
+    script[1] === 0x14 &&
+    script[22] === OPS.OP_EQUAL
+  );
+}
+
+function decodeWitnessProgram(
+  script: Uint8Array,
+): { version: number; program: Uint8Array } | undefined {
+  if (script.length < 4 || script.length > 42) return;
+  if (script[0] !== OPS.OP_0 && (script[0] < OPS.OP_1 || script[0] > OPS.OP_16))
+    return;
+  if (script[1] + 2 !== script.length) return;
+  return {
+    version: script[0] === OPS.OP_0 ? 0 : script[0] - OPS.OP_1 + 1,
+    program: script.slice(2),
+  };
+}
+
+/**
+ * The script executed by a p2sh input: the last item pushed by its
+ * scriptSig, or undefined if the scriptSig is not push only.
+ */
+function getRedeemScript(scriptSig: Uint8Array): Uint8Array | undefined {
+  let redeemScript = new Uint8Array(0);
+  for (const op of readOps(scriptSig)) {
+    if (op.opcode > OPS.OP_16) return;
+    // OP_1NEGATE and OP_1 to OP_16 push no data
+    redeemScript = op.data || new Uint8Array(0);
+  }
+  return redeemScript;
+}
+
+/**
+ * Counts the signature operations of a script. Multisig operations count
+ * 20, or the number of keys pushed before them when `accurate` is set.
+ *
+ * @param script - The script
+ * @param accurate - Whether to count the keys of multisig operations, as
+ * done for redeem and witness scripts
+ * @returns The number of signature operations
+ */
+export function countScriptSigOps(
+  script: Uint8Array,
+  accurate: boolean,
+): number {
+  let count = 0;
+  let lastOpcode = OPS.OP_INVALIDOPCODE;
+  for (const { opcode } of readOps(script)) {
+    if (opcode === OPS.OP_CHECKSIG || opcode === OPS.OP_CHECKSIGVERIFY) {
+      count++;
+    } else if (
+      opcode === OPS.OP_CHECKMULTISIG ||
+      opcode === OPS.OP_CHECKMULTISIGVERIFY
+    ) {
+      count +=
+        accurate && lastOpcode >= OPS.OP_1 && lastOpcode <= OPS.OP_16
+          ? lastOpcode - OPS.OP_1 + 1
+          : MAX_PUBKEYS_PER_MULTISIG;
+    }
+    lastOpcode = opcode;
+  }
+  return count;
+}
+
+/**
+ * Counts the signature operations of the redeem script of a p2sh input.
+ *
+ * @param scriptPubKey - The output script spent
+ * @param scriptSig - The scriptSig of the input
+ * @returns The accurate count of the redeem script, or 0 if the output is
+ * not p2sh
+ */
+export function countP2SHSigOps(
+  scriptPubKey: Uint8Array,
+  scriptSig: Uint8Array,
+): number {
+  if (!isPayToScriptHash(scriptPubKey)) return 0;
+  const redeemScript = getRedeemScript(scriptSig);
+  return redeemScript ? countScriptSigOps(redeemScript, true) : 0;
+}
+
+/**
+ * Counts the signature operations of the witness of an input.
+ *
+ * @param scriptSig - The scriptSig of the input
+ * @param scriptPubKey - The output script spent
+ * @param witness - The witness of the input
+ * @returns The number of signature operations, 0 for taproot which is
+ * limited by its validation weight instead
+ */
+export function countWitnessSigOps(
+  scriptSig: Uint8Array,
+  scriptPubKey: Uint8Array,
+  witness: Uint8Array[],
+): number {
+  let witnessProgram = decodeWitnessProgram(scriptPubKey);
+  if (!witnessProgram && isPayToScriptHash(scriptPubKey)) {
+    const redeemScript = getRedeemScript(scriptSig);
+    witnessProgram = redeemScript && decodeWitnessProgram(redeemScript);
+  }
+  if (!witnessProgram || witnessProgram.version !== 0) return 0;
+  if (witnessProgram.program.length === 20) return 1;
+  if (witnessProgram.program.length === 32 && witness.length > 0)
+    return countScriptSigOps(witness[witness.length - 1], true);
+  return 0;
+}
+
+/**
+ * Counts the signature operations of the scriptSigs and output scripts of
+ * a transaction, without the outputs it spends.
+ *
+ * @param tx - The transaction
+ * @returns The number of signature operations
+ */
+export function getLegacySigOpCount(tx: Transaction): number {
+  return (
+    tx.ins.reduce(
+      (count, input) => count + countScriptSigOps(input.script, false),
+      0,
+    ) +
+    tx.outs.reduce(
+      (count, output) => count + countScriptSigOps(output.script, false),
+      0,
+    )
+  );
+}
+
+/**
+ * Counts the signature operations of the p2sh redeem scripts of a
+ * transaction.
+ *
+ * @param tx - The transaction
+ * @param prevOutputs - The outputs spent by the transaction, in input order
+ * @returns The number of signature operations
+ * @throws {Error} If the previous outputs do not match the inputs
+ */
+export function getP2SHSigOpCount(
+  tx: Transaction,
+  prevOutputs: PrevOutput[],
+): number {
+  if (tx.isCoinbase()) return 0;
+  checkPrevOutputs(tx, prevOutputs);
+  return tx.ins.reduce(
+    (count, input, i) =>
+      count + countP2SHSigOps(prevOutputs[i].script, input.script),
+    0,
+  );
+}
+
+/**
+ * Computes the sigop cost of a transaction: legacy and p2sh signature
+ * operations cost 4, witness ones 1.
+ *
+ * @param tx - The transaction
+ * @param prevOutputs - The outputs spent by the transaction, in input order,
+ * ignored for coinbase transactions
+ * @returns The sigop cost
+ * @throws {Error} If the previous outputs do not match the inputs
+ *
+ * @example
+ * ```typescript
+ * const cost = sigops.getTransactionSigOpCost(tx, prevOutputs);
+ * const vsize = sigops.virtualSize(tx.weight(), cost);
+ * ```
+ */
+export function getTransactionSigOpCost(
+  tx: Transaction,
+  prevOutputs: PrevOutput[],
+): number {
+  const legacyCost = getLegacySigOpCount(tx) * WITNESS_SCALE_FACTOR;
+  if (tx.isCoinbase()) return legacyCost;
+  return (
+    legacyCost +
+    getP2SHSigOpCount(tx, prevOutputs) * WITNESS_SCALE_FACTOR +
+    tx.ins.reduce(
+      (count, input, i) =>
+        count +
+        countWitnessSigOps(input.script, prevOutputs[i].script, input.witness),
+      0,
+    )
+  );
+}
+
+/**
+ * Computes the sigop cost of a block. Without the outputs spent by its
+ * transactions only the legacy signature operations are counted, like the
+ * context free checks of Bitcoin Core.
+ *
+ * @param block - The block
+ * @param prevOutputs - For each transaction, the outputs it spends in input
+ * order, the coinbase entry being ignored
+ * @returns The sigop cost
+ * @throws {Error} If the previous outputs do not match the transactions
+ */
+export function getBlockSigOpCost(
+  block: Block,
+  prevOutputs?: PrevOutput[][],
+): number {
+  const transactions = block.transactions || [];
+  if (prevOutputs && prevOutputs.length !== transactions.length)
+    throw new Error(
+      `Expected previous outputs for ${transactions.length} transactions, got ${prevOutputs.length}`,
+    );
+  return transactions.reduce(
+    (cost, tx, i) =>
+      cost +
+      (prevOutputs
+        ? getTransactionSigOpCost(tx, prevOutputs[i])
+        : getLegacySigOpCount(tx) * WITNESS_SCALE_FACTOR),
+    0,
+  );
+}
+
+/**
+ * Computes the virtual size of a transaction used by Bitcoin Core for fee
+ * rates and mempool limits, where each signature operation weighs at least
+ * `bytesPerSigOp` virtual bytes.
+ *
+ * @param weight - The weight of the transaction
+ * @param sigOpCost - The sigop cost of the transaction
+ * @param bytesPerSigOp - Defaults to 20 like Bitcoin Core's `-bytespersigop`
+ * @returns The sigop adjusted virtual size
+ */
+export function virtualSize(
+  weight: number,
+  sigOpCost: number,
+  bytesPerSigOp = DEFAULT_BYTES_PER_SIGOP,
+): number {
+  return Math.ceil(
+    Math.max(weight, sigOpCost * bytesPerSigOp) / WITNESS_SCALE_FACTOR,
+  );
+}
+
+function checkPrevOutputs(tx: Transaction, prevOutputs: PrevOutput[]): void {
+  if (prevOutputs.length !== tx.ins.length)
+    throw new Error(
+      `Expected ${tx.ins.length} previous outputs, got ${prevOutputs.length}`,
+    );
+}
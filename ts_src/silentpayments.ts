@@ -0,0 +1,479 @@
+/**
+ * Silent payments (BIP352): reusable addresses made of a scan key and a
+ * spend key. The sender tweaks the spend key with an ECDH secret between the
+ * private keys of its inputs and the scan key, so every payment lands on a
+ * fresh taproot output that only the receiver can find, by scanning
+ * transactions with its scan private key.
+ *
+ * Eligible inputs are P2PKH (compressed keys), P2SH-P2WPKH, P2WPKH and P2TR,
+ * unless the latter can only be spent by script (its internal key being the
+ * unspendable NUMS point).
+ *
+ * Requires an ECC library with point arithmetic (such as tiny-secp256k1) to
+ * be registered with {@link initEccLib}.
+ *
+ * @packageDocumentation
+ */
+import * as bcrypto from './crypto.js';
+import { getEccLib } from './ecc_lib.js';
+import { PrevOutput } from './interpreter.js';
+import { bitcoin as btcNetwork, Network } from './networks.js';
+import * as payments from './payments/index.js';
+import { Psbt } from './psbt.js';
+import { isP2PKH, isP2SHScript, isP2TR, isP2WPKH } from './psbt/psbtutils.js';
+import * as bscript from './script.js';
+import { Transaction } from './transaction.js';
+import { ArithmeticSecp256k1Interface } from './types.js';
+import { bech32m } from 'bech32';
+import * as tools from 'uint8array-tools';
+
+const N = BigInt(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+);
+const NUMS_H = tools.fromHex(
+  '50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0',
+);
+// Silent payment prefixes by the bech32 prefix of the network
+const PREFIXES: { [bech32: string]: string } = {
+  bc: 'sp',
+  tb: 'tsp',
+  bcrt: 'sprt',
+};
+const MAX_ADDRESS_LENGTH = 1023;
+
+export interface SilentPaymentAddress {
+  version: number;
+  /** Compressed public key the receiver scans with */
+  scanKey: Uint8Array;
+  /** Compressed public key the outputs are derived from */
+  spendKey: Uint8Array;
+}
+
+export interface SilentPaymentOutput {
+  /** The silent payment address paid */
+  recipient: string;
+  /** The x-only output key */
+  pubkey: Uint8Array;
+  /** The P2TR output script */
+  output: Uint8Array;
+}
+
+export interface SilentPaymentMatch {
+  /** Index of the output paying the receiver */
+  outputIndex: number;
+  /** The x-only output key */
+  pubkey: Uint8Array;
+  /**
+   * Tweak to add to the spend private key to get the private key of the
+   * output.
+   */
+  tweak: Uint8Array;
+  /** The label the output was paid to, if any */
+  label?: number;
+}
+
+export interface ScanOpts {
+  /** Labels to look for, besides the unlabelled spend key */
+  labels?: number[];
+}
+
+function getArithmeticEccLib(): ArithmeticSecp256k1Interface {
+  const ecc = getEccLib() as ArithmeticSecp256k1Interface;
+  if (
+    typeof ecc.isPoint !== 'function' ||
+    typeof ecc.pointAdd !== 'function' ||
+    typeof ecc.pointAddScalar !== 'function' ||
+    typeof ecc.pointFromScalar !== 'function' ||
+    typeof ecc.pointMultiply !== 'function'
+  )
+    throw new Error(
+      'ECC library does not support point arithmetic (isPoint, pointAdd, pointAddScalar, pointFromScalar, pointMultiply)',
+    );
+  return ecc;
+}
+
+function toBigInt(buffer: Uint8Array): bigint {
+  return BigInt('0x' + tools.toHex(buffer));
+}
+
+function toBytes32(x: bigint): Uint8Array {
+  return tools.fromHex(x.toString(16).padStart(64, '0'));
+}
+
+function ser32(n: number): Uint8Array {
+  const buffer = new Uint8Array(4);
+  tools.writeUInt32(buffer, 0, n, 'BE');
+  return buffer;
+}
+
+function checkPublicKey(publicKey: Uint8Array, name: string): void {
+  if (
+    !(publicKey instanceof Uint8Array) ||
+    publicKey.length !== 33 ||
+    !getArithmeticEccLib().isPoint(publicKey)
+  )
+    throw new TypeError(`Invalid ${name}`);
+}
+
+function getPrefix(network: Network): string {
+  const prefix = PREFIXES[network.bech32];
+  if (!prefix) throw new Error('Network does not support silent payments');
+  return prefix;
+}
+
+/**
+ * Encodes a silent payment address.
+ *
+ * @param scanKey - The compressed scan public key.
+ * @param spendKey - The compressed (possibly labelled) spend public key.
+ * @param network - The network, defaults to bitcoin.
+ * @returns The `sp1...` (or `tsp1...`, `sprt1...`) address.
+ */
+export function encodeAddress(
+  scanKey: Uint8Array,
+  spendKey: Uint8Array,
+  network: Network = btcNetwork,
+): string {
+  checkPublicKey(scanKey, 'scan key');
+  checkPublicKey(spendKey, 'spend key');
+  const words = bech32m.toWords(tools.concat([scanKey, spendKey]));
+  words.unshift(0);
+  return bech32m.encode(getPrefix(network), words, MAX_ADDRESS_LENGTH);
+}
+
+/**
+ * Decodes a silent payment address. Addresses of future versions are read
+ * as version 0 addresses, ignoring any additional data.
+ *
+ * @param address - The silent payment address.
+ * @param network - The network the address must belong to, defaults to
+ * bitcoin.
+ * @returns The version, scan key and spend key.
+ * @throws If the address is invalid or for another network.
+ */
+export function decodeAddress(
+  address: string,
+  network: Network = btcNetwork,
+): SilentPaymentAddress {
+  const { prefix, words } = bech32m.decode(address, MAX_ADDRESS_LENGTH);
+  if (prefix !== getPrefix(network))
+    throw new Error(`Invalid silent payment address prefix: ${prefix}`);
+  const version = words[0];
+  if (version === 31)
+    throw new Error(`Unsupported silent payment address version: ${version}`);
+
+  const data = Uint8Array.from(bech32m.fromWords(words.slice(1)));
+  if (data.length < 66 || (version === 0 && data.length !== 66))
+    throw new Error(`Invalid silent payment address length: ${data.length}`);
+  const scanKey = data.slice(0, 33);
+  const spendKey = data.slice(33, 66);
+  checkPublicKey(scanKey, 'scan key');
+  checkPublicKey(spendKey, 'spend key');
+  return { version, scanKey, spendKey };
+}
+
+function labelTweak(scanPrivateKey: Uint8Array, m: number): Uint8Array {
+  return bcrypto.taggedHash(
+    'BIP0352/Label',
+    tools.concat([scanPrivateKey, ser32(m)]),
+  );
+}
+
+/**
+ * Labels a spend key, so payments to the labelled address can be told apart
+ * from other payments while being found by the same scan. Label 0 is
+ * reserved for change.
+ *
+ * @param scanPrivateKey - The scan private key.
+ * @param spendKey - The compressed spend public key.
+ * @param m - The label.
+ * @returns The labelled spend key, to be encoded with {@link encodeAddress}.
+ */
+export function labelSpendKey(
+  scanPrivateKey: Uint8Array,
+  spendKey: Uint8Array,
+  m: number,
+): Uint8Array {
+  checkPublicKey(spendKey, 'spend key');
+  const labelled = getArithmeticEccLib().pointAddScalar(
+    spendKey,
+    labelTweak(scanPrivateKey, m),
+    true,
+  );
+  if (!labelled) throw new Error('Invalid label');
+  return labelled;
+}
+
+function serializeOutpoint(hash: Uint8Array, index: number): Uint8Array {
+  const outpoint = new Uint8Array(36);
+  outpoint.set(hash);
+  tools.writeUInt32(outpoint, 32, index, 'LE');
+  return outpoint;
+}
+
+function smallestOutpoint(outpoints: Uint8Array[]): Uint8Array {
+  return outpoints.reduce((min, outpoint) =>
+    tools.compare(outpoint, min) < 0 ? outpoint : min,
+  );
+}
+
+function inputHash(outpoint: Uint8Array, A: Uint8Array): bigint {
+  return toBigInt(
+    bcrypto.taggedHash('BIP0352/Inputs', tools.concat([outpoint, A])),
+  );
+}
+
+function sharedSecretTweak(ecdh: Uint8Array, k: number): Uint8Array {
+  return bcrypto.taggedHash(
+    'BIP0352/SharedSecret',
+    tools.concat([ecdh, ser32(k)]),
+  );
+}
+
+function checkWitnessVersion(script: Uint8Array): void {
+  const chunks = bscript.decompile(script);
+  if (
+    chunks &&
+    chunks.length === 2 &&
+    typeof chunks[0] === 'number' &&
+    chunks[0] > bscript.OPS.OP_1 &&
+    chunks[0] <= bscript.OPS.OP_16 &&
+    chunks[1] instanceof Uint8Array &&
+    chunks[1].length >= 2 &&
+    chunks[1].length <= 40
+  )
+    throw new Error('Inputs of witness version 2 and above are not supported');
+}
+
+function getPrevoutScript(psbt: Psbt, inputIndex: number): Uint8Array {
+  const input = psbt.data.inputs[inputIndex];
+  if (input.witnessUtxo) return input.witnessUtxo.script;
+  if (input.nonWitnessUtxo)
+    return Transaction.fromBuffer(input.nonWitnessUtxo).outs[
+      psbt.txInputs[inputIndex].index
+    ].script;
+  throw new Error(`Missing utxo of input #${inputIndex}`);
+}
+
+// The private key of an eligible input, with its sign fixed for taproot
+function getInputPrivateKey(
+  psbt: Psbt,
+  inputIndex: number,
+  privateKey: Uint8Array | undefined,
+): bigint | undefined {
+  const input = psbt.data.inputs[inputIndex];
+  const script = getPrevoutScript(psbt, inputIndex);
+  checkWitnessVersion(script);
+
+  let hash: Uint8Array;
+  if (isP2TR(script)) {
+    if (
+      input.tapInternalKey &&
+      tools.compare(input.tapInternalKey, NUMS_H) === 0
+    )
+      return;
+    hash = script.subarray(2);
+  } else if (isP2WPKH(script)) hash = script.subarray(2);
+  else if (isP2PKH(script)) hash = script.subarray(3, 23);
+  else if (
+    isP2SHScript(script) &&
+    input.redeemScript &&
+    isP2WPKH(input.redeemScript)
+  )
+    hash = input.redeemScript.subarray(2);
+  else return;
+
+  if (!privateKey)
+    throw new Error(`Missing private key of input #${inputIndex}`);
+  const pubkey = getArithmeticEccLib().pointFromScalar(privateKey, true);
+  if (!pubkey)
+    throw new TypeError(`Invalid private key of input #${inputIndex}`);
+  const d = toBigInt(privateKey);
+
+  if (hash.length === 32) {
+    if (tools.compare(pubkey.subarray(1), hash) !== 0)
+      throw new Error(`Private key does not match input #${inputIndex}`);
+    return pubkey[0] === 0x03 ? N - d : d;
+  }
+  if (tools.compare(bcrypto.hash160(pubkey), hash) === 0) return d;
+  // P2PKH inputs spent with an uncompressed key are not eligible
+  if (
+    isP2PKH(script) &&
+    tools.compare(
+      bcrypto.hash160(
+        getArithmeticEccLib().pointFromScalar(privateKey, false)!,
+      ),
+      hash,
+    ) === 0
+  )
+    return;
+  throw new Error(`Private key does not match input #${inputIndex}`);
+}
+
+/**
+ * Derives the outputs paying silent payment addresses from the inputs of a
+ * PSBT (BIP352 sending). All inputs must already be added, since changing
+ * them changes the outputs.
+ *
+ * @param psbt - The PSBT whose inputs fund the payments.
+ * @param privateKeys - Private keys by input index, as used to sign: for
+ * P2TR inputs the key of the output key, otherwise the key of the public key
+ * hash. Only eligible inputs need a key.
+ * @param recipients - The silent payment addresses to pay.
+ * @param network - The network of the addresses, defaults to bitcoin.
+ * @returns An output for each recipient, in the same order.
+ * @throws If a key of an eligible input is missing or wrong, or no input is
+ * eligible.
+ */
+export function deriveOutputs(
+  psbt: Psbt,
+  privateKeys: (Uint8Array | undefined)[],
+  recipients: string[],
+  network: Network = btcNetwork,
+): SilentPaymentOutput[] {
+  const ecc = getArithmeticEccLib();
+  const keys = psbt.txInputs
+    .map((_, i) => getInputPrivateKey(psbt, i, privateKeys[i]))
+    .filter((d): d is bigint => d !== undefined);
+  if (!keys.length) throw new Error('No input is eligible for silent payments');
+  const a = keys.reduce((sum, d) => (sum + d) % N, 0n);
+  if (a === 0n) throw new Error('The input private keys sum to zero');
+
+  const A = ecc.pointFromScalar(toBytes32(a), true)!;
+  const outpoint = smallestOutpoint(
+    psbt.txInputs.map(input => serializeOutpoint(input.hash, input.index)),
+  );
+  const secret = toBytes32((inputHash(outpoint, A) * a) % N);
+
+  const counters: { [scanKey: string]: number } = {};
+  return recipients.map(recipient => {
+    const { scanKey, spendKey } = decodeAddress(recipient, network);
+    const id = tools.toHex(scanKey);
+    const k = counters[id] || 0;
+    counters[id] = k + 1;
+
+    const ecdh = ecc.pointMultiply(scanKey, secret, true)!;
+    const P = ecc.pointAddScalar(spendKey, sharedSecretTweak(ecdh, k), true);
+    if (!P) throw new Error('Invalid silent payment output');
+    const pubkey = P.slice(1);
+    return {
+      recipient,
+      pubkey,
+      output: payments.p2tr({ pubkey }).output!,
+    };
+  });
+}
+
+// BIP352 get_pubkey_from_input
+function getInputPublicKey(
+  input: Transaction['ins'][number],
+  script: Uint8Array,
+): Uint8Array | undefined {
+  const witness = input.witness;
+  if (isP2PKH(script)) {
+    const hash = script.subarray(3, 23);
+    for (let i = input.script.length; i >= 33; i--) {
+      const pubkey = input.script.subarray(i - 33, i);
+      if (tools.compare(bcrypto.hash160(pubkey), hash) === 0) return pubkey;
+    }
+  } else if (
+    isP2WPKH(script) ||
+    (isP2SHScript(script) && isP2WPKH(input.script.subarray(1)))
+  ) {
+    const pubkey = witness[witness.length - 1];
+    if (pubkey && pubkey.length === 33) return pubkey;
+  } else if (isP2TR(script) && witness.length) {
+    const stack =
+      witness.length > 1 && witness[witness.length - 1][0] === 0x50
+        ? witness.slice(0, -1)
+        : witness;
+    if (
+      stack.length > 1 &&
+      tools.compare(stack[stack.length - 1].subarray(1, 33), NUMS_H) === 0
+    )
+      return;
+    return tools.concat([Uint8Array.of(0x02), script.subarray(2)]);
+  }
+}
+
+/**
+ * Finds the outputs of a transaction paying the receiver (BIP352
+ * receiving).
+ *
+ * @param tx - The transaction to scan.
+ * @param prevOutputs - The outputs spent by the inputs of `tx`, in order.
+ * @param scanPrivateKey - The receiver's scan private key.
+ * @param spendKey - The receiver's compressed spend public key.
+ * @param opts - Labels to look for.
+ * @returns The outputs paying the receiver.
+ */
+export function scan(
+  tx: Transaction,
+  prevOutputs: PrevOutput[],
+  scanPrivateKey: Uint8Array,
+  spendKey: Uint8Array,
+  opts: ScanOpts = {},
+): SilentPaymentMatch[] {
+  if (prevOutputs.length !== tx.ins.length)
+    throw new Error('Expected a previous output for each input');
+  checkPublicKey(spendKey, 'spend key');
+  const ecc = getArithmeticEccLib();
+  try {
+    prevOutputs.forEach(prevOutput => checkWitnessVersion(prevOutput.script));
+  } catch (e) {
+    return [];
+  }
+
+  const A = tx.ins
+    .map((input, i) => getInputPublicKey(input, prevOutputs[i].script))
+    .filter((pubkey): pubkey is Uint8Array => !!pubkey && ecc.isPoint(pubkey))
+    .reduce<Uint8Array | null>(
+      (sum, pubkey) => (sum ? ecc.pointAdd(sum, pubkey, true) : pubkey),
+      null,
+    );
+  if (!A) return [];
+
+  const outpoint = smallestOutpoint(
+    tx.ins.map(input => serializeOutpoint(input.hash, input.index)),
+  );
+  const secret = (inputHash(outpoint, A) * toBigInt(scanPrivateKey)) % N;
+  const ecdh = ecc.pointMultiply(A, toBytes32(secret), true)!;
+
+  const labels = new Map<string, { m: number; tweak: Uint8Array }>();
+  (opts.labels || []).forEach(m => {
+    const tweak = labelTweak(scanPrivateKey, m);
+    labels.set(tools.toHex(ecc.pointFromScalar(tweak, true)!), { m, tweak });
+  });
+
+  const outputs = tx.outs
+    .map((output, outputIndex) => ({ outputIndex, script: output.script }))
+    .filter(({ script }) => isP2TR(script));
+  const matches: SilentPaymentMatch[] = [];
+  for (let k = 0; ; k++) {
+    const t = sharedSecretTweak(ecdh, k);
+    const P = ecc.pointAddScalar(spendKey, t, true)!;
+    const negP = Uint8Array.from(P);
+    negP[0] ^= 0x01;
+
+    const found = outputs.findIndex(({ outputIndex, script }) => {
+      const pubkey = script.slice(2);
+      if (tools.compare(pubkey, P.subarray(1)) === 0) {
+        matches.push({ outputIndex, pubkey, tweak: t });
+        return true;
+      }
+      for (const parity of [0x02, 0x03]) {
+        const output = tools.concat([Uint8Array.of(parity), pubkey]);
+        const labelPoint = ecc.pointAdd(output, negP, true);
+        const label = labelPoint && labels.get(tools.toHex(labelPoint));
+        if (label) {
+          const tweak = toBytes32((toBigInt(t) + toBigInt(label.tweak)) % N);
+          matches.push({ outputIndex, pubkey, tweak, label: label.m });
+          return true;
+        }
+      }
+      return false;
+    });
+    if (found === -1) return matches;
+    outputs.splice(found, 1);
+  }
+}
@@ -0,0 +1,741 @@
+/**
+ * Spending policy compiler.
+ *
+ * Compiles policies such as `or(99@pk(A),and(pk(B),older(144)))` to the
+ * {@link miniscript} minimizing the expected spending cost: the script size
+ * plus the witness size of the satisfactions, weighted by the probabilities
+ * given with `N@` in `or`. Policies are made of `pk(K)`, `after(n)`,
+ * `older(n)`, `sha256(H)`, `hash256(H)`, `ripemd160(H)`, `hash160(H)`,
+ * `and(X,Y)`, `or([N@]X,[N@]Y)` and `thresh(k,X,...)`.
+ *
+ * For taproot, the most likely single key branch becomes the internal key
+ * and the other branches tapscript leaves of a Huffman tree, so that likely
+ * leaves have short control blocks.
+ *
+ * @packageDocumentation
+ */
+import * as miniscript from './miniscript.js';
+import { toXOnly } from './psbt/bip371.js';
+import * as scriptNumber from './script_number.js';
+import { Taptree } from './types.js';
+import * as tools from 'uint8array-tools';
+
+export type SpendPolicyType =
+  | 'pk'
+  | 'after'
+  | 'older'
+  | 'sha256'
+  | 'hash256'
+  | 'ripemd160'
+  | 'hash160'
+  | 'and'
+  | 'or'
+  | 'thresh';
+
+export interface SpendPolicy {
+  type: SpendPolicyType;
+  /** Key name or hex public key of `pk` */
+  key?: string;
+  /** Timelock of `after` and `older`, or threshold of `thresh` */
+  k?: number;
+  /** Hex hash of the hash policies */
+  hash?: string;
+  subs: SpendPolicy[];
+  /** Relative probabilities of the branches of `or` */
+  weights: number[];
+}
+
+export interface SpendPolicyOpts {
+  /** Public keys by the names used in the policy */
+  keys?: Record<string, Uint8Array>;
+}
+
+export interface TaprootLeafCompilation {
+  miniscript: miniscript.Miniscript;
+  /** Probability of spending with this leaf */
+  probability: number;
+}
+
+export interface TaprootCompilation {
+  /** The x-only internal key, unspendable if no branch is a single key */
+  internalPubkey: Uint8Array;
+  /** The script tree, undefined if the internal key is the only branch */
+  scriptTree?: Taptree;
+  leaves: TaprootLeafCompilation[];
+}
+
+/**
+ * The x-only key without known discrete logarithm suggested by BIP341 for
+ * outputs without key path.
+ */
+export const UNSPENDABLE_INTERNAL_KEY = tools.fromHex(
+  '50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0',
+);
+
+const MAX_CANDIDATES_PER_TYPE = 2;
+
+const HASH_SIZES: { [type: string]: number } = {
+  sha256: 32,
+  hash256: 32,
+  ripemd160: 20,
+  hash160: 20,
+};
+
+/**
+ * Splits a comma separated argument list at its top level.
+ */
+function splitArgs(args: string): string[] {
+  const result: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < args.length; ++i) {
+    const c = args[i];
+    if (c === '(') depth++;
+    else if (c === ')') depth--;
+    else if (c === ',' && depth === 0) {
+      result.push(args.slice(start, i));
+      start = i + 1;
+    }
+    if (depth < 0) throw new Error('Unbalanced brackets in policy');
+  }
+  if (depth !== 0) throw new Error('Unbalanced brackets in policy');
+  result.push(args.slice(start));
+  return result;
+}
+
+function parseNumber(arg: string, min: number, max: number): number {
+  const n = Number(arg);
+  if (!/^\d+$/.test(arg) || n < min || n > max)
+    throw new Error('Invalid policy number: ' + arg);
+  return n;
+}
+
+/**
+ * Parses a spending policy.
+ *
+ * @param policy - The policy, such as `or(99@pk(A),and(pk(B),older(144)))`
+ * @returns The parsed policy
+ * @throws {Error} If the policy can not be parsed
+ */
+export function parse(policy: string): SpendPolicy {
+  const match = policy.match(/^([a-z0-9_]+)\((.*)\)$/s);
+  if (!match) throw new Error('Invalid policy expression: ' + policy);
+  const type = match[1];
+  const args = splitArgs(match[2]);
+  const arity = (n: number): void => {
+    if (args.length !== n)
+      throw new Error(`${type} expects ${n} arguments, got ${args.length}`);
+  };
+  const result = (fields: Partial<SpendPolicy>): SpendPolicy => ({
+    type: type as SpendPolicyType,
+    subs: [],
+    weights: [],
+    ...fields,
+  });
+
+  switch (type) {
+    case 'pk':
+      arity(1);
+      if (!/^[0-9a-zA-Z_]+$/.test(args[0]))
+        throw new Error('Invalid key: ' + args[0]);
+      return result({ key: args[0] });
+    case 'after':
+    case 'older':
+      arity(1);
+      return result({ k: parseNumber(args[0], 1, 0x7fffffff) });
+    case 'sha256':
+    case 'hash256':
+    case 'ripemd160':
+    case 'hash160':
+      arity(1);
+      if (!new RegExp(`^[0-9a-fA-F]{${HASH_SIZES[type] * 2}}$`).test(args[0]))
+        throw new Error(`Invalid ${type} hash: ${args[0]}`);
+      return result({ hash: args[0].toLowerCase() });
+    case 'and':
+      arity(2);
+      return result({ subs: args.map(parse) });
+    case 'or': {
+      arity(2);
+      const branches = args.map(arg => {
+        const weighted = arg.match(/^(\d+)@(.+)$/s);
+        return weighted
+          ? {
+              weight: parseNumber(weighted[1], 1, Number.MAX_SAFE_INTEGER),
+              policy: weighted[2],
+            }
+          : { weight: 1, policy: arg };
+      });
+      return result({
+        subs: branches.map(branch => parse(branch.policy)),
+        weights: branches.map(branch => branch.weight),
+      });
+    }
+    case 'thresh': {
+      if (args.length < 2) throw new Error('thresh expects subpolicies');
+      return result({
+        k: parseNumber(args[0], 1, args.length - 1),
+        subs: args.slice(1).map(parse),
+      });
+    }
+  }
+  throw new Error('Unknown policy fragment: ' + type);
+}
+
+// A miniscript compiling a policy, with the sizes its cost is made of.
+interface Candidate {
+  expression: string;
+  node: miniscript.MiniscriptNode;
+  /** Script size */
+  size: number;
+  /** Expected witness size of a satisfaction */
+  sat: number;
+  /** Witness size of a dissatisfaction, Infinity if there is none */
+  dsat: number;
+}
+
+interface CompileState {
+  ctx: miniscript.MiniscriptContext;
+  keys: Record<string, Uint8Array>;
+  compiled: Map<SpendPolicy, Candidate[]>;
+}
+
+// Size of the opcodes combinators and wrappers add to their sub-expressions
+const FRAGMENT_SIZES: { [fragment: string]: number } = {
+  '0': 1,
+  '1': 1,
+  andor: 3,
+  and_v: 0,
+  and_b: 1,
+  or_b: 1,
+  or_c: 2,
+  or_d: 3,
+  or_i: 3,
+  a: 2,
+  s: 1,
+  c: 1,
+  d: 3,
+  j: 4,
+  n: 1,
+};
+
+function hasType(c: Candidate, properties: string): boolean {
+  return properties.split('').every(p => c.node.type.includes(p));
+}
+
+function cost(c: Candidate, pSat: number, pDsat: number): number {
+  return c.size + pSat * c.sat + (pDsat > 0 ? pDsat * c.dsat : 0);
+}
+
+/**
+ * Whether the script of a node ends with an opcode having a VERIFY
+ * version, which `v:` then uses instead of adding OP_VERIFY.
+ */
+function endsVerifiable(node: miniscript.MiniscriptNode): boolean {
+  switch (node.fragment) {
+    case 'and_v':
+      return endsVerifiable(node.subs[1]);
+    case 's':
+      return endsVerifiable(node.subs[0]);
+    case 'c':
+    case 'multi':
+    case 'multi_a':
+    case 'thresh':
+    case 'sha256':
+    case 'hash256':
+    case 'ripemd160':
+    case 'hash160':
+      return true;
+  }
+  return false;
+}
+
+/**
+ * Parses a fragment without sub-expressions.
+ */
+function leaf(
+  state: CompileState,
+  expression: string,
+  sat: number,
+  dsat: number,
+): Candidate {
+  const { node, script } = miniscript.compileFragment(expression, {
+    context: state.ctx,
+    keys: state.keys,
+  });
+  return { expression, node, size: script.length, sat, dsat };
+}
+
+/**
+ * Type checks a combinator or wrapper of candidates, returning undefined if
+ * it is invalid.
+ */
+function combine(
+  state: CompileState,
+  fragment: miniscript.MiniscriptFragment,
+  subs: Candidate[],
+  expression: string,
+  sat: number,
+  dsat: number,
+  k?: number,
+): Candidate | undefined {
+  let node: miniscript.MiniscriptNode;
+  try {
+    node = miniscript.combine(
+      fragment,
+      subs.map(sub => sub.node),
+      { context: state.ctx, k },
+    );
+  } catch (e) {
+    if (!(e instanceof TypeError)) throw e;
+    return undefined;
+  }
+  let size = subs.reduce((sum, sub) => sum + sub.size, 0);
+  if (fragment === 'v') size += endsVerifiable(subs[0].node) ? 0 : 1;
+  else if (fragment === 'thresh')
+    size += subs.length + (k! <= 16 ? 1 : 1 + scriptNumber.encode(k!).length);
+  else size += FRAGMENT_SIZES[fragment];
+  return { expression, node, size, sat, dsat };
+}
+
+/**
+ * Keeps, for each type as far as it matters to the combinators and the
+ * safety of the result, the candidates that are not worse than another in
+ * script size, satisfaction size and dissatisfaction size, as the best one
+ * depends on the probabilities of the enclosing policy.
+ */
+function prune(candidates: Candidate[]): Candidate[] {
+  const byType = new Map<string, Candidate[]>();
+  for (const c of candidates) {
+    const key = c.node.type.replace(/[^BVKWzonduesmk]/g, '');
+    const group = byType.get(key);
+    if (group) group.push(c);
+    else byType.set(key, [c]);
+  }
+  return Array.from(byType.values()).flatMap(group => {
+    // a candidate is only dominated by cheaper ones, or as cheap with a
+    // smaller dissatisfaction
+    const kept: Candidate[] = [];
+    group.sort((a, b) => cost(a, 1, 0) - cost(b, 1, 0) || a.dsat - b.dsat);
+    for (const c of group) {
+      if (kept.length === MAX_CANDIDATES_PER_TYPE) break;
+      if (
+        !kept.some(k => k.size <= c.size && k.sat <= c.sat && k.dsat <= c.dsat)
+      )
+        kept.push(c);
+    }
+    return kept;
+  });
+}
+
+function wrap(wrapper: string, expression: string): string {
+  if (wrapper === 'c' && expression.startsWith('pk_k('))
+    return 'pk(' + expression.slice(5);
+  if (wrapper === 'c' && expression.startsWith('pk_h('))
+    return 'pkh(' + expression.slice(5);
+  return /^[a-z]+:/.test(expression)
+    ? wrapper + expression
+    : `${wrapper}:${expression}`;
+}
+
+/**
+ * Adds the candidates obtained with wrappers, up to three deep.
+ */
+function withWrappers(
+  state: CompileState,
+  candidates: Candidate[],
+): Candidate[] {
+  const zero = leaf(state, '0', 0, 0);
+  const one = leaf(state, '1', 0, 0);
+  let result = prune(candidates);
+  for (let round = 0; round < 3; ++round) {
+    const wrapped: Candidate[] = [];
+    const add = (
+      c: Candidate,
+      w: string,
+      fragment: miniscript.MiniscriptFragment,
+      subs: Candidate[],
+      sat: number,
+      dsat: number,
+    ): void => {
+      const r = combine(
+        state,
+        fragment,
+        subs,
+        wrap(w, c.expression),
+        sat,
+        dsat,
+      );
+      if (r) wrapped.push(r);
+    };
+    for (const c of result) {
+      if (hasType(c, 'B')) {
+        add(c, 'a', 'a', [c], c.sat, c.dsat);
+        add(c, 's', 's', [c], c.sat, c.dsat);
+        add(c, 'v', 'v', [c], c.sat, Infinity);
+        add(c, 'j', 'j', [c], c.sat, 1);
+        add(c, 'n', 'n', [c], c.sat, c.dsat);
+        add(c, 'l', 'or_i', [zero, c], c.sat + 1, 2);
+        add(c, 'u', 'or_i', [c, zero], c.sat + 2, 1);
+      } else if (hasType(c, 'V')) {
+        add(c, 't', 'and_v', [c, one], c.sat, Infinity);
+        add(c, 'd', 'd', [c], c.sat + 2, 1);
+      } else if (hasType(c, 'K')) {
+        add(c, 'c', 'c', [c], c.sat, c.dsat);
+      }
+    }
+    result = prune(result.concat(wrapped));
+  }
+  return result;
+}
+
+/**
+ * Calls `add` with the pairs of candidates of the given types, alternatives
+ * being separated by `|`.
+ */
+function pairs(
+  xs: Candidate[],
+  xType: string,
+  ys: Candidate[],
+  yType: string,
+  add: (x: Candidate, y: Candidate) => void,
+): void {
+  const ofType = (cs: Candidate[], type: string): Candidate[] =>
+    cs.filter(c => type.split('|').some(t => hasType(c, t)));
+  for (const x of ofType(xs, xType))
+    for (const y of ofType(ys, yType)) add(x, y);
+}
+
+type AddCandidate = (
+  fragment: miniscript.MiniscriptFragment,
+  subs: Candidate[],
+  sat: number,
+  dsat: number,
+) => void;
+
+/**
+ * Compiles a policy to its best candidates of each type.
+ */
+function compileNode(state: CompileState, policy: SpendPolicy): Candidate[] {
+  const cached = state.compiled.get(policy);
+  if (cached) return cached;
+
+  const sig = state.ctx === 'tapscript' ? 1 + 65 : 1 + 73;
+  const keySize = state.ctx === 'tapscript' ? 1 + 32 : 1 + 33;
+  const candidates: Candidate[] = [];
+  const add: AddCandidate = (fragment, subs, sat, dsat) => {
+    const c = combine(
+      state,
+      fragment,
+      subs,
+      `${fragment}(${subs.map(sub => sub.expression).join(',')})`,
+      sat,
+      dsat,
+    );
+    if (c) candidates.push(c);
+  };
+  const subs = policy.subs.map(sub => compileNode(state, sub));
+
+  switch (policy.type) {
+    case 'pk':
+      candidates.push(leaf(state, `pk_k(${policy.key})`, sig, 1));
+      candidates.push(
+        leaf(state, `pk_h(${policy.key})`, sig + keySize, 1 + keySize),
+      );
+      break;
+    case 'after':
+    case 'older':
+      candidates.push(leaf(state, `${policy.type}(${policy.k})`, 0, Infinity));
+      break;
+    case 'sha256':
+    case 'hash256':
+    case 'ripemd160':
+    case 'hash160':
+      candidates.push(leaf(state, `${policy.type}(${policy.hash})`, 33, 33));
+      break;
+    case 'and':
+      compileAnd(state, subs, add, candidates);
+      break;
+    case 'or':
+      compileOr(state, policy, subs, policy.weights, add);
+      break;
+    case 'thresh': {
+      const n = subs.length;
+      const k = policy.k!;
+      if (n === 2 && k === 2) compileAnd(state, subs, add, candidates);
+      if (n === 2 && k === 1) compileOr(state, policy, subs, [1, 1], add);
+      if (policy.subs.every(sub => sub.type === 'pk')) {
+        const keys = policy.subs.map(sub => sub.key).join(',');
+        if (state.ctx === 'wsh' && n <= 20)
+          candidates.push(
+            leaf(state, `multi(${k},${keys})`, 1 + k * sig, k + 1),
+          );
+        if (state.ctx === 'tapscript')
+          candidates.push(
+            leaf(state, `multi_a(${k},${keys})`, k * sig + n - k, n),
+          );
+      }
+      // each sub-policy is satisfied with probability k / n
+      const best = subs.map(
+        (cs, i) =>
+          cs
+            .filter(c => hasType(c, i ? 'Wdu' : 'Bdu'))
+            .sort(
+              (a, b) =>
+                cost(a, k / n, (n - k) / n) - cost(b, k / n, (n - k) / n),
+            )[0],
+      );
+      if (best.every(c => c !== undefined)) {
+        const c = combine(
+          state,
+          'thresh',
+          best,
+          `thresh(${k},${best.map(c => c.expression).join(',')})`,
+          best.reduce((sum, c) => sum + (k * c.sat + (n - k) * c.dsat) / n, 0),
+          best.reduce((sum, c) => sum + c.dsat, 0),
+          k,
+        );
+        if (c) candidates.push(c);
+      }
+      break;
+    }
+  }
+
+  const result = withWrappers(state, candidates);
+  state.compiled.set(policy, result);
+  return result;
+}
+
+function compileAnd(
+  state: CompileState,
+  subs: Candidate[][],
+  add: AddCandidate,
+  candidates: Candidate[],
+): void {
+  const zero = leaf(state, '0', 0, 0);
+  for (const [xs, ys] of [subs, subs.slice().reverse()]) {
+    pairs(xs, 'V', ys, 'B|V|K', (x, y) =>
+      add('and_v', [x, y], x.sat + y.sat, Infinity),
+    );
+    pairs(xs, 'B', ys, 'W', (x, y) =>
+      add('and_b', [x, y], x.sat + y.sat, x.dsat + y.dsat),
+    );
+    pairs(xs, 'Bdu', ys, 'B', (x, y) => {
+      const c = combine(
+        state,
+        'andor',
+        [x, y, zero],
+        `and_n(${x.expression},${y.expression})`,
+        x.sat + y.sat,
+        x.dsat,
+      );
+      if (c) candidates.push(c);
+    });
+  }
+}
+
+function compileOr(
+  state: CompileState,
+  policy: SpendPolicy,
+  subs: Candidate[][],
+  weights: number[],
+  add: AddCandidate,
+): void {
+  for (const [i, j] of [
+    [0, 1],
+    [1, 0],
+  ]) {
+    const px = weights[i] / (weights[i] + weights[j]);
+    const pz = 1 - px;
+    const [xs, zs] = [subs[i], subs[j]];
+    pairs(xs, 'Bd', zs, 'Wd', (x, z) =>
+      add(
+        'or_b',
+        [x, z],
+        px * (x.sat + z.dsat) + pz * (z.sat + x.dsat),
+        x.dsat + z.dsat,
+      ),
+    );
+    pairs(xs, 'Bdu', zs, 'B', (x, z) =>
+      add('or_d', [x, z], px * x.sat + pz * (z.sat + x.dsat), x.dsat + z.dsat),
+    );
+    pairs(xs, 'Bdu', zs, 'V', (x, z) =>
+      add('or_c', [x, z], px * x.sat + pz * (z.sat + x.dsat), Infinity),
+    );
+    pairs(xs, 'B|V|K', zs, 'B|V|K', (x, z) => {
+      if (!hasType(z, x.node.type[0])) return;
+      add(
+        'or_i',
+        [x, z],
+        px * (x.sat + 2) + pz * (z.sat + 1),
+        Math.min(x.dsat + 2, z.dsat + 1),
+      );
+    });
+    // or(and(X,Y),Z) as andor(X,Y,Z)
+    const and = policy.subs[i];
+    if (and.type !== 'and') continue;
+    const andSubs = and.subs.map(sub => compileNode(state, sub));
+    for (const [as, bs] of [andSubs, andSubs.slice().reverse()]) {
+      pairs(as, 'Bdu', bs, 'B|V|K', (a, b) => {
+        for (const z of zs.filter(c => hasType(c, b.node.type[0])))
+          add(
+            'andor',
+            [a, b, z],
+            px * (a.sat + b.sat) + pz * (a.dsat + z.sat),
+            a.dsat + z.dsat,
+          );
+      });
+    }
+  }
+}
+
+function checkKeys(state: CompileState, policy: SpendPolicy): void {
+  if (policy.type === 'pk')
+    miniscript.compileFragment(`pk_k(${policy.key})`, {
+      context: state.ctx,
+      keys: state.keys,
+    });
+  policy.subs.forEach(sub => checkKeys(state, sub));
+}
+
+function compileMiniscript(
+  policy: SpendPolicy,
+  context: miniscript.MiniscriptContext,
+  opts: SpendPolicyOpts,
+): miniscript.Miniscript {
+  const state: CompileState = {
+    ctx: context,
+    keys: opts.keys || {},
+    compiled: new Map(),
+  };
+  checkKeys(state, policy);
+  const candidates = compileNode(state, policy)
+    .filter(c => hasType(c, 'Bmsk'))
+    .sort((a, b) => cost(a, 1, 0) - cost(b, 1, 0));
+  for (const c of candidates) {
+    const ms = miniscript.parse(c.expression, {
+      context,
+      keys: state.keys,
+    });
+    if (ms.analysis.sane) return ms;
+  }
+  throw new Error('The policy can not be compiled to a safe miniscript');
+}
+
+/**
+ * Compiles a spending policy to the p2wsh miniscript with the lowest
+ * expected spending cost.
+ *
+ * @param policy - The policy, as a string or parsed
+ * @param opts - Named keys
+ * @returns The miniscript
+ * @throws {Error} If the policy is invalid, or can not be compiled to a
+ * sane miniscript, such as policies spendable without signature
+ *
+ * @example
+ * ```typescript
+ * const ms = spendpolicy.compile('or(99@pk(A),and(pk(B),older(144)))', {
+ *   keys: { A: pubkeyA, B: pubkeyB },
+ * });
+ * const p2wsh = payments.p2wsh({ redeem: { output: ms.script } });
+ * ```
+ */
+export function compile(
+  policy: string | SpendPolicy,
+  opts: SpendPolicyOpts = {},
+): miniscript.Miniscript {
+  return compileMiniscript(
+    typeof policy === 'string' ? parse(policy) : policy,
+    'wsh',
+    opts,
+  );
+}
+
+/**
+ * Splits a policy into its alternatives: the branches of `or` and of
+ * `thresh(1,...)`, with their probabilities.
+ */
+function branches(
+  policy: SpendPolicy,
+  probability: number,
+): Array<{ policy: SpendPolicy; probability: number }> {
+  if (policy.type === 'or') {
+    const total = policy.weights[0] + policy.weights[1];
+    return policy.subs.flatMap((sub, i) =>
+      branches(sub, (probability * policy.weights[i]) / total),
+    );
+  }
+  if (policy.type === 'thresh' && policy.k === 1)
+    return policy.subs.flatMap(sub =>
+      branches(sub, probability / policy.subs.length),
+    );
+  return [{ policy, probability }];
+}
+
+/**
+ * Builds a Huffman tree of leaves, so that likely leaves are close to the
+ * root.
+ */
+function huffmanTree(leaves: TaprootLeafCompilation[]): Taptree {
+  const nodes: Array<{ weight: number; tree: Taptree }> = leaves.map(leaf => ({
+    weight: leaf.probability,
+    tree: { output: leaf.miniscript.script },
+  }));
+  while (nodes.length > 1) {
+    nodes.sort((a, b) => a.weight - b.weight);
+    const [a, b] = nodes.splice(0, 2);
+    nodes.push({ weight: a.weight + b.weight, tree: [b.tree, a.tree] });
+  }
+  return nodes[0].tree;
+}
+
+/**
+ * Compiles a spending policy for taproot: the most likely branch made of a
+ * single key becomes the internal key, and the other branches tapscript
+ * leaves of a tree minimizing the expected control block size.
+ *
+ * @param policy - The policy, as a string or parsed
+ * @param opts - Named keys
+ * @returns The internal key, script tree and leaves
+ * @throws {Error} If the policy is invalid, or a branch can not be compiled
+ * to a sane miniscript
+ *
+ * @example
+ * ```typescript
+ * const { internalPubkey, scriptTree } = spendpolicy.compileTaproot(
+ *   'or(99@pk(A),and(pk(B),older(144)))',
+ *   { keys: { A: pubkeyA, B: pubkeyB } },
+ * );
+ * const p2tr = payments.p2tr({ internalPubkey, scriptTree });
+ * ```
+ */
+export function compileTaproot(
+  policy: string | SpendPolicy,
+  opts: SpendPolicyOpts = {},
+): TaprootCompilation {
+  const parsed = typeof policy === 'string' ? parse(policy) : policy;
+  const alternatives = branches(parsed, 1);
+  const keyBranch = alternatives
+    .filter(branch => branch.policy.type === 'pk')
+    .sort((a, b) => b.probability - a.probability)[0];
+
+  let internalPubkey = UNSPENDABLE_INTERNAL_KEY;
+  if (keyBranch) {
+    const { node } = miniscript.compileFragment(
+      `pk_k(${keyBranch.policy.key})`,
+      { context: 'tapscript', keys: opts.keys },
+    );
+    internalPubkey = toXOnly(node.keys[0]);
+  }
+
+  const leaves = alternatives
+    .filter(branch => branch !== keyBranch)
+    .map(branch => ({
+      miniscript: compileMiniscript(branch.policy, 'tapscript', opts),
+      probability: branch.probability,
+    }));
+  return {
+    internalPubkey,
+    scriptTree: leaves.length ? huffmanTree(leaves) : undefined,
+    leaves,
+  };
+}
@@ -362,6 +362,7 @@ export class Transaction {
     hashType: number,
     leafHash?: Uint8Array,
     annex?: Uint8Array,
+    codeSeparatorPos: number = 0xffffffff,
   ): Uint8Array {
     // https://github.com/bitcoin/bips/blob/master/bip-0341.mediawiki#common-signature-message
     v.parse(
@@ -498,7 +499,7 @@ export class Transaction {
     if (leafHash) {
       sigMsgWriter.writeSlice(leafHash);
       sigMsgWriter.writeUInt8(0);
-      sigMsgWriter.writeUInt32(0xffffffff);
+      sigMsgWriter.writeUInt32(codeSeparatorPos);
     }
 
     // Extra zero byte because:
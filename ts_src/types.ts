@@ -87,6 +87,68 @@ export interface TinySecp256k1Interface {
   ): XOnlyPointAddTweakResult | null;
 }
 
+export type RecoveryIdType = 0 | 1 | 2 | 3;
+export interface RecoverableSignature {
+  signature: Uint8Array;
+  recoveryId: RecoveryIdType;
+}
+
+/**
+ * An ECC library that can also create recoverable ECDSA signatures and
+ * recover public keys from them, as required by signed messages.
+ */
+export interface RecoverableSecp256k1Interface extends TinySecp256k1Interface {
+  signRecoverable(
+    h: Uint8Array,
+    d: Uint8Array,
+    e?: Uint8Array,
+  ): RecoverableSignature;
+  recover(
+    h: Uint8Array,
+    signature: Uint8Array,
+    recoveryId: RecoveryIdType,
+    compressed?: boolean,
+  ): Uint8Array | null;
+}
+
+/**
+ * An ECC library that can also verify ECDSA and Schnorr signatures, as
+ * required by the script interpreter.
+ */
+export interface VerifyingSecp256k1Interface extends TinySecp256k1Interface {
+  verify(
+    h: Uint8Array,
+    Q: Uint8Array,
+    signature: Uint8Array,
+    strict?: boolean,
+  ): boolean;
+  verifySchnorr(h: Uint8Array, Q: Uint8Array, signature: Uint8Array): boolean;
+}
+
+/**
+ * An ECC library that can also add and multiply curve points, as required by
+ * MuSig2 and silent payments.
+ */
+export interface ArithmeticSecp256k1Interface extends TinySecp256k1Interface {
+  isPoint(p: Uint8Array): boolean;
+  pointAdd(
+    pA: Uint8Array,
+    pB: Uint8Array,
+    compressed?: boolean,
+  ): Uint8Array | null;
+  pointAddScalar(
+    p: Uint8Array,
+    tweak: Uint8Array,
+    compressed?: boolean,
+  ): Uint8Array | null;
+  pointFromScalar(d: Uint8Array, compressed?: boolean): Uint8Array | null;
+  pointMultiply(
+    p: Uint8Array,
+    tweak: Uint8Array,
+    compressed?: boolean,
+  ): Uint8Array | null;
+}
+
 export const Buffer256bitSchema = NBufferSchemaFactory(32);
 export const Hash160bitSchema = NBufferSchemaFactory(20);
 export const Hash256bitSchema = NBufferSchemaFactory(32);
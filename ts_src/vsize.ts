@@ -0,0 +1,348 @@
+/**
+ * Transaction size estimation before signing.
+ *
+ * Inputs are described by how they will be spent ({@link InputPlan}), so the
+ * weight of their scriptSig and witness is known before any signature
+ * exists. Estimates are worst-case: ECDSA signatures are counted at their
+ * maximum size, high-R (72 bytes with the sighash type) unless the signer
+ * grinds for low-R signatures (71 bytes).
+ *
+ * @packageDocumentation
+ */
+import { toOutputScript } from './address.js';
+import { varuint } from './bufferutils.js';
+import { bitcoin as btcNetwork, Network } from './networks.js';
+import { Payment } from './payments/index.js';
+import * as pushdata from './push_data.js';
+
+/** Spends of a single public key hash or public key. */
+export interface SingleKeyInputPlan {
+  type: 'p2pk' | 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2cs';
+  /** Whether the public key is compressed, defaults to true */
+  compressed?: boolean;
+}
+
+/** Spends of m-of-n bare or script hash multisig. */
+export interface MultisigInputPlan {
+  type: 'p2ms' | 'p2sh-p2ms' | 'p2wsh-p2ms' | 'p2sh-p2wsh-p2ms';
+  m: number;
+  n: number;
+  /** Whether the public keys are compressed, defaults to true */
+  compressed?: boolean;
+}
+
+/** Spends of any other script hash. */
+export interface ScriptHashInputPlan {
+  type: 'p2sh' | 'p2wsh' | 'p2sh-p2wsh';
+  /** Size of the redeem (or witness) script */
+  scriptSize: number;
+  /** Sizes of the items satisfying the script */
+  stack: number[];
+}
+
+export interface TaprootScriptPath {
+  /** Size of the leaf script */
+  leafScriptSize: number;
+  /** Size of the control block: 33 bytes plus 32 per level of the leaf */
+  controlBlockSize: number;
+  /**
+   * Sizes of the items satisfying the leaf script, such as `[64]` for a
+   * single SIGHASH_DEFAULT signature
+   */
+  stack: number[];
+}
+
+/** Spends of taproot outputs, by key path unless a script path is given. */
+export interface TaprootInputPlan {
+  type: 'p2tr';
+  /** Sighash type of the key path signature, defaults to SIGHASH_DEFAULT */
+  sighashType?: number;
+  scriptPath?: TaprootScriptPath;
+}
+
+export type InputPlan =
+  | SingleKeyInputPlan
+  | MultisigInputPlan
+  | ScriptHashInputPlan
+  | TaprootInputPlan;
+
+export type OutputPlan = { script: Uint8Array } | { address: string };
+
+export interface EstimateOpts {
+  inputs: InputPlan[];
+  outputs: OutputPlan[];
+  /** Network of output addresses */
+  network?: Network;
+  /** Whether every ECDSA signer grinds for low-R signatures */
+  lowR?: boolean;
+}
+
+export interface SizeEstimate {
+  weight: number;
+  vsize: number;
+}
+
+interface InputSpend {
+  /** Sizes of the items pushed by the scriptSig */
+  scriptSig: number[];
+  /** Sizes of the witness items, undefined for legacy inputs */
+  witness?: number[];
+}
+
+// DER signatures with low S, plus the sighash type
+const ECDSA_HIGH_R_SIGNATURE_SIZE = 72;
+const ECDSA_LOW_R_SIGNATURE_SIZE = 71;
+const SCHNORR_SIGNATURE_SIZE = 64;
+const COMPRESSED_PUBKEY_SIZE = 33;
+const UNCOMPRESSED_PUBKEY_SIZE = 65;
+// outpoint and sequence
+const INPUT_BASE_SIZE = 40;
+// value
+const OUTPUT_BASE_SIZE = 8;
+// version and locktime
+const TX_BASE_SIZE = 8;
+const WITNESS_SCALE_FACTOR = 4;
+
+function multisigScriptSize(n: number, pubkeySize: number): number {
+  // OP_m <pubkeys> OP_n OP_CHECKMULTISIG, m and n up to 16
+  return 3 + n * (1 + pubkeySize);
+}
+
+function getSpend(input: InputPlan, lowR: boolean): InputSpend {
+  const signature = lowR
+    ? ECDSA_LOW_R_SIGNATURE_SIZE
+    : ECDSA_HIGH_R_SIGNATURE_SIZE;
+  const pubkey =
+    'compressed' in input && input.compressed === false
+      ? UNCOMPRESSED_PUBKEY_SIZE
+      : COMPRESSED_PUBKEY_SIZE;
+
+  switch (input.type) {
+    case 'p2pk':
+      return { scriptSig: [signature] };
+    case 'p2pkh':
+      return { scriptSig: [signature, pubkey] };
+    case 'p2cs':
+      // the spending path is selected with OP_0 / OP_1
+      return { scriptSig: [signature, 0, pubkey] };
+    case 'p2wpkh':
+      return { scriptSig: [], witness: [signature, pubkey] };
+    case 'p2sh-p2wpkh':
+      return { scriptSig: [22], witness: [signature, pubkey] };
+    case 'p2ms':
+    case 'p2sh-p2ms':
+    case 'p2wsh-p2ms':
+    case 'p2sh-p2wsh-p2ms': {
+      // the extra item popped by OP_CHECKMULTISIG comes first
+      const stack = [0].concat(Array(input.m).fill(signature));
+      const scriptSize = multisigScriptSize(input.n, pubkey);
+      if (input.type === 'p2ms') return { scriptSig: stack };
+      return getSpend(
+        {
+          type: input.type.slice(0, -5) as ScriptHashInputPlan['type'],
+          scriptSize,
+          stack,
+        },
+        lowR,
+      );
+    }
+    case 'p2sh':
+      return { scriptSig: input.stack.concat(input.scriptSize) };
+    case 'p2wsh':
+      return { scriptSig: [], witness: input.stack.concat(input.scriptSize) };
+    case 'p2sh-p2wsh':
+      return { scriptSig: [34], witness: input.stack.concat(input.scriptSize) };
+    case 'p2tr': {
+      const { scriptPath } = input;
+      if (scriptPath)
+        return {
+          scriptSig: [],
+          witness: scriptPath.stack.concat(
+            scriptPath.leafScriptSize,
+            scriptPath.controlBlockSize,
+          ),
+        };
+      // the sighash type is only appended when it is not SIGHASH_DEFAULT
+      return {
+        scriptSig: [],
+        witness: [SCHNORR_SIGNATURE_SIZE + (input.sighashType ? 1 : 0)],
+      };
+    }
+    default:
+      throw new TypeError(
+        `Unknown input type ${(input as { type: string }).type}`,
+      );
+  }
+}
+
+/**
+ * Describes how the output locked by a payment is spent, for payments with
+ * enough information (such as the redeem script of p2sh payments).
+ *
+ * @param payment - A payment, such as `payments.p2wpkh({ pubkey })`
+ * @returns The plan to spend the payment
+ * @throws {Error} If the payment type, or its redeem script, is unknown
+ */
+export function fromPayment(payment: Payment): InputPlan {
+  const name = payment.name || '';
+  const redeem = payment.redeem;
+  const compressed = (pubkey?: Uint8Array): boolean =>
+    pubkey === undefined || pubkey.length === COMPRESSED_PUBKEY_SIZE;
+
+  if (name === 'p2pk' || name === 'p2pkh' || name === 'p2wpkh')
+    return { type: name, compressed: compressed(payment.pubkey) };
+  if (name === 'p2sh-p2wpkh')
+    return { type: name, compressed: compressed(redeem!.pubkey) };
+  if (name === 'p2cs') return { type: name };
+  if (name === 'p2tr' && !redeem) return { type: name };
+
+  const match = /^((?:p2sh-)?(?:p2wsh-)?)p2ms\(\d+ of \d+\)$/.exec(name);
+  if (match) {
+    let multisig = payment;
+    while (multisig.redeem) multisig = multisig.redeem;
+    return {
+      type: (match[1] + 'p2ms') as MultisigInputPlan['type'],
+      m: multisig.m!,
+      n: multisig.n!,
+      compressed: multisig.pubkeys!.every(pubkey => compressed(pubkey)),
+    };
+  }
+
+  const wrapper = /^(p2sh-p2wsh|p2sh|p2wsh)-/.exec(name);
+  if (wrapper) {
+    // the script is the innermost redeem script, spent like a bare output
+    let script = redeem!;
+    if (wrapper[1] === 'p2sh-p2wsh') script = script.redeem!;
+    const inner = getSpend(fromPayment(script), false);
+    if (!inner.witness && script.output)
+      return {
+        type: wrapper[1] as ScriptHashInputPlan['type'],
+        scriptSize: script.output.length,
+        stack: inner.scriptSig,
+      };
+  }
+  throw new Error(`Can not estimate the input size of ${name || 'unknown'}`);
+}
+
+/**
+ * Whether the input spends a witness program, and has a witness.
+ */
+export function isSegwit(input: InputPlan): boolean {
+  return getSpend(input, false).witness !== undefined;
+}
+
+/**
+ * Computes the worst-case weight of a signed input.
+ *
+ * @param input - How the input is spent
+ * @param lowR - Whether the signer grinds for low-R signatures
+ * @returns The weight, including the witness
+ */
+export function inputWeight(input: InputPlan, lowR = false): number {
+  const spend = getSpend(input, lowR);
+  // OP_0 / OP_1 are counted as empty pushes
+  const scriptSigSize = spend.scriptSig.reduce(
+    (size, item) => size + pushdata.encodingLength(item) + item,
+    0,
+  );
+  const witnessSize = spend.witness
+    ? spend.witness.reduce(
+        (size, item) => size + varuint.encodingLength(item) + item,
+        varuint.encodingLength(spend.witness.length),
+      )
+    : 0;
+  return (
+    (INPUT_BASE_SIZE + varuint.encodingLength(scriptSigSize) + scriptSigSize) *
+      WITNESS_SCALE_FACTOR +
+    witnessSize
+  );
+}
+
+/**
+ * Computes the weight of an output.
+ *
+ * @param script - The output script
+ * @returns The weight
+ */
+export function outputWeight(script: Uint8Array): number {
+  return (
+    (OUTPUT_BASE_SIZE + varuint.encodingLength(script.length) + script.length) *
+    WITNESS_SCALE_FACTOR
+  );
+}
+
+/**
+ * Computes the weight of the version, locktime, input and output counts, and
+ * the segwit marker and flag if needed.
+ *
+ * @param inputCount - Number of inputs
+ * @param outputCount - Number of outputs
+ * @param hasWitness - Whether any input has a witness
+ * @returns The weight of everything but the inputs and outputs
+ */
+export function overheadWeight(
+  inputCount: number,
+  outputCount: number,
+  hasWitness: boolean,
+): number {
+  return (
+    (TX_BASE_SIZE +
+      varuint.encodingLength(inputCount) +
+      varuint.encodingLength(outputCount)) *
+      WITNESS_SCALE_FACTOR +
+    (hasWitness ? 2 : 0)
+  );
+}
+
+/**
+ * Estimates the worst-case size of a transaction once signed.
+ *
+ * @param opts - The planned inputs and outputs
+ * @returns The weight and virtual size
+ * @throws {TypeError} If an input type is unknown
+ *
+ * @example
+ * ```typescript
+ * const { vsize } = vsize.estimate({
+ *   inputs: [{ type: 'p2wpkh' }, { type: 'p2wsh-p2ms', m: 2, n: 3 }],
+ *   outputs: [{ address }, { script: changeScript }],
+ * });
+ * ```
+ */
+export function estimate(opts: EstimateOpts): SizeEstimate {
+  const network = opts.network || btcNetwork;
+  const lowR = opts.lowR === true;
+  const hasWitness = opts.inputs.some(isSegwit);
+  const weight =
+    overheadWeight(opts.inputs.length, opts.outputs.length, hasWitness) +
+    opts.inputs.reduce(
+      (sum, input) =>
+        sum +
+        inputWeight(input, lowR) +
+        // legacy inputs have an empty witness in segwit transactions
+        (hasWitness && !isSegwit(input) ? 1 : 0),
+      0,
+    ) +
+    opts.outputs.reduce(
+      (sum, output) =>
+        sum +
+        outputWeight(
+          'script' in output
+            ? output.script
+            : toOutputScript(output.address, network),
+        ),
+      0,
+    );
+  return { weight, vsize: Math.ceil(weight / WITNESS_SCALE_FACTOR) };
+}
+
+/**
+ * Estimates the fee paying a fee rate once the transaction is signed.
+ *
+ * @param opts - The planned inputs and outputs
+ * @param feeRate - Fee rate in satoshis per virtual byte
+ * @returns The fee in satoshis
+ */
+export function estimateFee(opts: EstimateOpts, feeRate: number): bigint {
+  return BigInt(Math.ceil(estimate(opts).vsize * feeRate));
+}